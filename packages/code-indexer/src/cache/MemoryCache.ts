@@ -2,10 +2,15 @@
  * In-memory cache implementation
  */
 
-import type { SymbolCache, IndexedSymbol } from "../engine/types.ts";
+import type {
+  SymbolCache,
+  IndexedSymbol,
+  FileReferences,
+} from "../engine/types.ts";
 
 export class MemoryCache implements SymbolCache {
   private cache: Map<string, IndexedSymbol[]> = new Map();
+  private references: Map<string, FileReferences> = new Map();
 
   async get(filePath: string): Promise<IndexedSymbol[] | null> {
     return this.cache.get(filePath) || null;
@@ -17,5 +22,17 @@ export class MemoryCache implements SymbolCache {
 
   async clear(): Promise<void> {
     this.cache.clear();
+    this.references.clear();
+  }
+
+  async getReferences(filePath: string): Promise<FileReferences | null> {
+    return this.references.get(filePath) || null;
+  }
+
+  async setReferences(
+    filePath: string,
+    references: FileReferences,
+  ): Promise<void> {
+    this.references.set(filePath, references);
   }
 }
@@ -2,7 +2,11 @@
  * SQLite cache implementation using SymbolCacheManager
  */
 
-import type { SymbolCache, IndexedSymbol } from "../engine/types.ts";
+import type {
+  SymbolCache,
+  IndexedSymbol,
+  FileReferences,
+} from "../engine/types.ts";
 import { SymbolCacheManager } from "./SymbolCacheManager.ts";
 import type { SymbolEntry } from "../symbolIndex.ts";
 import { relative, join } from "path";
@@ -71,6 +75,28 @@ export class SQLiteCache implements SymbolCache {
     this.manager.clearCache();
   }
 
+  async getReferences(filePath: string): Promise<FileReferences | null> {
+    if (this.needsReindexing) {
+      return null;
+    }
+
+    try {
+      const cached = this.manager.getReferences(
+        relative(this.rootPath, filePath),
+      );
+      return cached && { uri: pathToFileURL(filePath).toString(), ...cached };
+    } catch {
+      return null;
+    }
+  }
+
+  async setReferences(
+    filePath: string,
+    references: FileReferences,
+  ): Promise<void> {
+    this.manager.cacheReferences(relative(this.rootPath, filePath), references);
+  }
+
   private convertIndexedToSymbolEntries(
     symbols: IndexedSymbol[],
   ): SymbolEntry[] {
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SymbolKind } from "vscode-languageserver-types";
+import { SymbolCacheManager } from "./SymbolCacheManager.ts";
+
+describe("SymbolCacheManager references", () => {
+  let rootPath: string;
+  let manager: SymbolCacheManager;
+
+  beforeEach(() => {
+    rootPath = mkdtempSync(join(tmpdir(), "lsmcp-references-"));
+    manager = new SymbolCacheManager(rootPath);
+  });
+
+  afterEach(() => {
+    manager.close();
+    rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  const at = (uri: string, line: number) => ({
+    uri,
+    range: {
+      start: { line, character: 4 },
+      end: { line, character: 7 },
+    },
+  });
+
+  it("should round-trip the references of a file", () => {
+    const references = {
+      contentHash: "abc",
+      indexedAt: 1000,
+      symbols: [
+        {
+          namePath: "Math/add",
+          kind: SymbolKind.Method,
+          position: { line: 1, character: 2 },
+          references: [at("file:///app.ts", 3), at("file:///lib.ts", 5)],
+        },
+        {
+          namePath: "Math/sub",
+          kind: SymbolKind.Method,
+          position: { line: 2, character: 2 },
+          references: [],
+        },
+      ],
+    };
+
+    manager.cacheReferences("src/math.ts", references);
+
+    expect(manager.getReferences("src/math.ts")).toEqual(references);
+    expect(manager.getReferences("src/other.ts")).toBeNull();
+  });
+
+  it("should replace the references of a file", () => {
+    const symbol = {
+      namePath: "add",
+      kind: SymbolKind.Function,
+      position: { line: 0, character: 16 },
+    };
+    manager.cacheReferences("math.ts", {
+      contentHash: "old",
+      indexedAt: 1000,
+      symbols: [{ ...symbol, references: [at("file:///app.ts", 1)] }],
+    });
+    manager.cacheReferences("math.ts", {
+      contentHash: "new",
+      indexedAt: 2000,
+      symbols: [{ ...symbol, references: [] }],
+    });
+
+    expect(manager.getReferences("math.ts")).toEqual({
+      contentHash: "new",
+      indexedAt: 2000,
+      symbols: [{ ...symbol, references: [] }],
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { DatabaseSync, type StatementSync } from "node:sqlite";
 import { join } from "node:path";
 import { mkdirSync, existsSync } from "node:fs";
 import type { SymbolEntry } from "../symbolIndex.ts";
+import type { SymbolReferences } from "../engine/types.ts";
 import { SYMBOL_CACHE_SCHEMA_VERSION } from "@internal/types";
 import { debugLogWithPrefix } from "../../../../src/utils/debugLog.ts";
 
@@ -20,6 +21,27 @@ export interface CachedSymbol {
   projectRoot: string;
 }
 
+/**
+ * References to the symbols of a file, recorded for its content hash
+ */
+export interface CachedFileReferences {
+  contentHash: string;
+  indexedAt: number;
+  symbols: SymbolReferences[];
+}
+
+interface SymbolReferenceRow {
+  namePath: string;
+  kind: number;
+  line: number;
+  character: number;
+  refUri: string | null;
+  refStartLine: number | null;
+  refStartCharacter: number | null;
+  refEndLine: number | null;
+  refEndCharacter: number | null;
+}
+
 export class SymbolCacheManager {
   private db: DatabaseSync;
   private insertStmt: StatementSync;
@@ -27,6 +49,11 @@ export class SymbolCacheManager {
   private selectByNameStmt: StatementSync;
   private deleteByFileStmt: StatementSync;
   private searchStmt: StatementSync;
+  private upsertReferenceFileStmt: StatementSync;
+  private selectReferenceFileStmt: StatementSync;
+  private insertReferenceStmt: StatementSync;
+  private selectReferencesStmt: StatementSync;
+  private deleteReferencesStmt: StatementSync;
   private schemaUpdated = false;
 
   constructor(private rootPath: string) {
@@ -72,6 +99,36 @@ export class SymbolCacheManager {
       WHERE projectRoot = ? AND namePath GLOB ?
       ORDER BY filePath, startLine
     `);
+
+    this.upsertReferenceFileStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO reference_files (
+        filePath, contentHash, indexedAt, projectRoot
+      ) VALUES (?, ?, ?, ?)
+    `);
+
+    this.selectReferenceFileStmt = this.db.prepare(`
+      SELECT contentHash, indexedAt FROM reference_files
+      WHERE filePath = ? AND projectRoot = ?
+    `);
+
+    this.insertReferenceStmt = this.db.prepare(`
+      INSERT INTO symbol_references (
+        filePath, namePath, kind, line, character,
+        refUri, refStartLine, refStartCharacter, refEndLine, refEndCharacter,
+        projectRoot
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.selectReferencesStmt = this.db.prepare(`
+      SELECT * FROM symbol_references
+      WHERE filePath = ? AND projectRoot = ?
+      ORDER BY id
+    `);
+
+    this.deleteReferencesStmt = this.db.prepare(`
+      DELETE FROM symbol_references
+      WHERE filePath = ? AND projectRoot = ?
+    `);
   }
 
   private initializeDatabase(): void {
@@ -165,6 +222,36 @@ export class SymbolCacheManager {
         ON symbols(projectRoot);
       `);
     }
+
+    // Reference graph: one row per reference, or a row without a reference
+    // for symbols nothing refers to
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS reference_files (
+        filePath TEXT NOT NULL,
+        contentHash TEXT NOT NULL,
+        indexedAt INTEGER NOT NULL,
+        projectRoot TEXT NOT NULL,
+        PRIMARY KEY (filePath, projectRoot)
+      );
+
+      CREATE TABLE IF NOT EXISTS symbol_references (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        filePath TEXT NOT NULL,
+        namePath TEXT NOT NULL,
+        kind INTEGER NOT NULL,
+        line INTEGER NOT NULL,
+        character INTEGER NOT NULL,
+        refUri TEXT,
+        refStartLine INTEGER,
+        refStartCharacter INTEGER,
+        refEndLine INTEGER,
+        refEndCharacter INTEGER,
+        projectRoot TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_symbol_references_file
+      ON symbol_references(filePath, projectRoot);
+    `);
   }
 
   cacheSymbols(
@@ -251,6 +338,96 @@ export class SymbolCacheManager {
     return rows;
   }
 
+  cacheReferences(filePath: string, references: CachedFileReferences): void {
+    this.db.exec("BEGIN TRANSACTION");
+
+    try {
+      this.deleteReferencesStmt.run(filePath, this.rootPath);
+      this.upsertReferenceFileStmt.run(
+        filePath,
+        references.contentHash,
+        references.indexedAt,
+        this.rootPath,
+      );
+
+      for (const symbol of references.symbols) {
+        const { line, character } = symbol.position;
+        const locations = symbol.references.length
+          ? symbol.references
+          : [undefined];
+        for (const location of locations) {
+          this.insertReferenceStmt.run(
+            filePath,
+            symbol.namePath,
+            symbol.kind,
+            line,
+            character,
+            location?.uri ?? null,
+            location?.range.start.line ?? null,
+            location?.range.start.character ?? null,
+            location?.range.end.line ?? null,
+            location?.range.end.character ?? null,
+            this.rootPath,
+          );
+        }
+      }
+
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  getReferences(filePath: string): CachedFileReferences | null {
+    const file = this.selectReferenceFileStmt.get(
+      filePath,
+      this.rootPath,
+    ) as { contentHash: string; indexedAt: number } | undefined;
+    if (!file) {
+      return null;
+    }
+
+    const rows = this.selectReferencesStmt.all(
+      filePath,
+      this.rootPath,
+    ) as unknown as SymbolReferenceRow[];
+
+    // Rows of a symbol are consecutive
+    const symbols: SymbolReferences[] = [];
+    for (const row of rows) {
+      let symbol = symbols[symbols.length - 1];
+      if (
+        !symbol ||
+        symbol.namePath !== row.namePath ||
+        symbol.position.line !== row.line ||
+        symbol.position.character !== row.character
+      ) {
+        symbol = {
+          namePath: row.namePath,
+          kind: row.kind as SymbolReferences["kind"],
+          position: { line: row.line, character: row.character },
+          references: [],
+        };
+        symbols.push(symbol);
+      }
+      if (row.refUri !== null) {
+        symbol.references.push({
+          uri: row.refUri,
+          range: {
+            start: {
+              line: row.refStartLine!,
+              character: row.refStartCharacter!,
+            },
+            end: { line: row.refEndLine!, character: row.refEndCharacter! },
+          },
+        });
+      }
+    }
+
+    return { ...file, symbols };
+  }
+
   invalidateFile(filePath: string): void {
     this.deleteByFileStmt.run(filePath, this.rootPath);
   }
@@ -260,6 +437,12 @@ export class SymbolCacheManager {
     this.db
       .prepare("DELETE FROM symbols WHERE projectRoot = ?")
       .run(this.rootPath);
+    this.db
+      .prepare("DELETE FROM reference_files WHERE projectRoot = ?")
+      .run(this.rootPath);
+    this.db
+      .prepare("DELETE FROM symbol_references WHERE projectRoot = ?")
+      .run(this.rootPath);
   }
 
   getStats(): { totalSymbols: number; totalFiles: number } {
@@ -22,6 +22,7 @@ export interface IndexConfig {
     autoIndexDelay?: number;
     enableWatchers?: boolean;
     memoryLimit?: number;
+    indexReferences?: boolean;
   };
   symbolFilter?: SymbolFilterConfig;
   ignorePatterns?: string[];
@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SymbolKind, type Position } from "vscode-languageserver-types";
+import { SymbolIndex } from "./SymbolIndex.ts";
+import { MemoryCache } from "../cache/MemoryCache.ts";
+import { parseSymbolQuery } from "./queryLanguage.ts";
+
+const CONTENT = `import { helper } from "./helper";
+export class Exported {}
+function local() {}
+`;
+
+const symbolAt = (name: string, line: number) => ({
+  name,
+  kind: SymbolKind.Class,
+  range: {
+    start: { line, character: 0 },
+    end: { line, character: 20 },
+  },
+  selectionRange: {
+    start: { line, character: 0 },
+    end: { line, character: 20 },
+  },
+});
+
+describe("SymbolIndex.querySymbols ranking", () => {
+  let symbolIndex: SymbolIndex;
+
+  beforeEach(async () => {
+    const symbolsByFile: Record<string, ReturnType<typeof symbolAt>[]> = {
+      // Line 1 of the content is an export, line 2 is not
+      "userService.ts": [symbolAt("UserService", 1)],
+      "userService.test.ts": [symbolAt("UserService", 1)],
+      "factory.ts": [
+        symbolAt("createUserService", 2),
+        symbolAt("Unrelated", 2),
+      ],
+    };
+    symbolIndex = new SymbolIndex(
+      "/test/project",
+      {
+        getDocumentSymbols: async (uri: string) =>
+          symbolsByFile[uri.split("/").pop()!] ?? [],
+      },
+      { readFile: async () => CONTENT } as any,
+    );
+    await symbolIndex.indexFiles(
+      Object.keys(symbolsByFile).map((file) => `src/${file}`),
+    );
+  });
+
+  it("should rank abbreviation matches by export, nesting and test files", () => {
+    const ranked = symbolIndex.querySymbols({ name: "usrSvc" });
+
+    expect(
+      ranked.map((symbol) => [
+        symbol.name,
+        symbol.location.uri.split("/").pop(),
+      ]),
+    ).toEqual([
+      ["UserService", "userService.ts"],
+      ["createUserService", "factory.ts"],
+      ["UserService", "userService.test.ts"],
+    ]);
+    expect(ranked[0].exported).toBe(true);
+    expect(ranked[1].exported).toBeUndefined();
+  });
+
+  it("should page through the ranked results", () => {
+    expect(
+      symbolIndex
+        .querySymbols({ name: "usrSvc", limit: 1, offset: 1 })
+        .map((symbol) => symbol.name),
+    ).toEqual(["createUserService"]);
+    expect(symbolIndex.querySymbols({ name: "usrSvc", offset: 3 })).toEqual([]);
+  });
+});
+
+describe("SymbolIndex.querySymbols filters", () => {
+  let symbolIndex: SymbolIndex;
+
+  const controller = (name: string) => ({
+    ...symbolAt(name, 1),
+    children: ["handleGet", "handlePost", "validate"].map((method) => ({
+      ...symbolAt(method, 1),
+      kind: SymbolKind.Method,
+    })),
+  });
+
+  beforeEach(async () => {
+    const symbolsByFile: Record<string, object[]> = {
+      "src/api/userController.ts": [controller("UserController")],
+      "src/api/userController.test.ts": [controller("UserControllerTest")],
+      "src/api/userService.ts": [controller("UserService")],
+      "src/jobs/handlers.ts": [
+        { ...symbolAt("handleGet", 1), kind: SymbolKind.Function },
+      ],
+    };
+    symbolIndex = new SymbolIndex(
+      "/test/project",
+      {
+        getDocumentSymbols: async (uri: string) =>
+          symbolsByFile[uri.replace("file:///test/project/", "")] ?? [],
+      },
+      { readFile: async () => CONTENT } as any,
+    );
+    await symbolIndex.indexFiles(Object.keys(symbolsByFile));
+  });
+
+  const find = (filters: string) =>
+    symbolIndex
+      .querySymbols(parseSymbolQuery(filters))
+      .map(
+        (symbol) =>
+          `${symbol.location.uri.replace("file:///test/project/", "")}#${symbol.name}`,
+      );
+
+  it("should combine kind, name, container and path filters", () => {
+    expect(
+      find(
+        "kind:method name:handle* container:*Controller path:src/api/** -path:**/*.test.ts",
+      ),
+    ).toEqual([
+      "src/api/userController.ts#handleGet",
+      "src/api/userController.ts#handlePost",
+    ]);
+  });
+
+  it("should match alternatives, regexes and negated fields", () => {
+    expect(
+      find("kind:function|method name:/^handleG/ -container:UserService"),
+    ).toEqual([
+      "src/jobs/handlers.ts#handleGet",
+      "src/api/userController.ts#handleGet",
+      "src/api/userController.test.ts#handleGet",
+    ]);
+    expect(find("-kind:method path:src/api -name:*Test")).toEqual([
+      "src/api/userController.ts#UserController",
+      "src/api/userService.ts#UserService",
+    ]);
+  });
+
+  it("should rank plain names fuzzily within the filters", () => {
+    expect(find("usrCtrl kind:class")).toEqual([
+      "src/api/userController.ts#UserController",
+      "src/api/userController.test.ts#UserControllerTest",
+    ]);
+  });
+});
+
+describe("SymbolIndex reference graph", () => {
+  const root = "/test/project";
+  const uriOf = (file: string) => `file://${root}/${file}`;
+  let files: Record<string, string>;
+  let mtimes: Record<string, number>;
+  let symbolIndex: SymbolIndex;
+  let requested: string[];
+
+  const functionAt = (name: string, line: number) => ({
+    ...symbolAt(name, line),
+    kind: SymbolKind.Function,
+  });
+
+  // Every whole-word occurrence of the name at the position
+  const findOccurrences = (uri: string, position: Position) => {
+    const line =
+      files[uri.slice(`file://${root}/`.length)].split("\n")[position.line];
+    const name = line.slice(position.character).match(/^\w+/)![0];
+    return Object.entries(files).flatMap(([file, content]) =>
+      content.split("\n").flatMap((text, lineIndex) =>
+        [...text.matchAll(new RegExp(`\\b${name}\\b`, "g"))].map((match) => ({
+          uri: uriOf(file),
+          range: {
+            start: { line: lineIndex, character: match.index },
+            end: { line: lineIndex, character: match.index + name.length },
+          },
+        })),
+      ),
+    );
+  };
+
+  beforeEach(async () => {
+    files = {
+      "math.ts": "export function add() {}\nexport function sub() {}\n",
+      "app.ts": 'import { add } from "./math";\nexport const total = add();\n',
+    };
+    mtimes = { "math.ts": 0, "app.ts": 0 };
+    requested = [];
+    const symbolsByFile: Record<string, object[]> = {
+      "math.ts": [functionAt("add", 0), functionAt("sub", 1)],
+      "app.ts": [{ ...symbolAt("total", 1), kind: SymbolKind.Constant }],
+    };
+    const relativeOf = (path: string) => path.slice(root.length + 1);
+
+    symbolIndex = new SymbolIndex(
+      root,
+      {
+        getDocumentSymbols: async (uri: string) =>
+          symbolsByFile[uri.slice(`file://${root}/`.length)] ?? [],
+        getReferences: async (uri: string, positions: Position[]) => {
+          requested.push(uri.slice(`file://${root}/`.length));
+          return positions.map((position) => findOccurrences(uri, position));
+        },
+      },
+      {
+        readFile: async (path: string) => files[relativeOf(path)],
+        stat: async (path: string) => ({
+          mtime: new Date(mtimes[relativeOf(path)]),
+        }),
+      } as any,
+      new MemoryCache(),
+    );
+    await symbolIndex.indexFiles(Object.keys(files));
+  });
+
+  const referencesOf = async (name: string) =>
+    (await symbolIndex.getFileReferences("math.ts"))!.symbols
+      .find((symbol) => symbol.namePath === name)!
+      .references.map(
+        (reference) =>
+          `${reference.uri.split("/").pop()}:${reference.range.start.line}`,
+      );
+
+  it("should record references without the declarations", async () => {
+    await symbolIndex.indexReferences();
+
+    expect(await referencesOf("add")).toEqual(["app.ts:0", "app.ts:1"]);
+    expect(await referencesOf("sub")).toEqual([]);
+  });
+
+  it("should only recollect the files changes may affect", async () => {
+    await symbolIndex.indexReferences();
+    requested = [];
+    expect(await symbolIndex.indexReferences()).toEqual([]);
+
+    files["app.ts"] += "export const difference = sub();\n";
+    mtimes["app.ts"] = Date.now() + 1000;
+    expect(await symbolIndex.indexReferences()).toEqual([
+      uriOf("app.ts"),
+      uriOf("math.ts"),
+    ]);
+    expect(requested).toEqual(["app.ts", "math.ts"]);
+    expect(await referencesOf("sub")).toEqual(["app.ts:2"]);
+  });
+
+  it("should report the files changed since the references were indexed", async () => {
+    await symbolIndex.indexReferences();
+    const entry = (await symbolIndex.getFileReferences("math.ts"))!;
+    expect(await symbolIndex.getReferenceStaleness(entry)).toEqual({
+      declarationChanged: false,
+      referencing: [],
+      others: [],
+    });
+
+    files["math.ts"] = `\n${files["math.ts"]}`;
+    mtimes["app.ts"] = Date.now() + 1000;
+    expect(await symbolIndex.getReferenceStaleness(entry)).toEqual({
+      declarationChanged: true,
+      referencing: [uriOf("app.ts")],
+      others: [],
+    });
+  });
+});
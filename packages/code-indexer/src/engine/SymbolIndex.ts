@@ -4,8 +4,8 @@
  */
 
 import { EventEmitter } from "events";
-import { pathToFileURL } from "url";
-import { resolve } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { relative, resolve } from "path";
 import type {
   IndexedSymbol,
   FileSymbols,
@@ -15,8 +15,10 @@ import type {
   FileSystem,
   SymbolCache,
   IndexEvent,
+  FileReferences,
+  SymbolReferences,
 } from "./types.ts";
-import { SymbolKind } from "vscode-languageserver-types";
+import { SymbolKind, type Position } from "vscode-languageserver-types";
 import {
   getGitHashAsync,
   getModifiedFilesAsync,
@@ -26,12 +28,98 @@ import {
 import { ContentHashDiffChecker, type FileDiffChecker } from "./fileDiffDetector.ts";
 import { shouldExcludeSymbol, type IndexConfig } from "../config/config.ts";
 import { debugLogWithPrefix } from "../../../../src/utils/debugLog.ts";
+import { scoreName } from "./fuzzyMatch.ts";
+import {
+  compileSymbolFilter,
+  type CompiledSymbolFilter,
+} from "./queryLanguage.ts";
+import { getSymbolKindName } from "@internal/types";
+import { getContentHash } from "./contentHash.ts";
+
+// Declarations starting with a visibility keyword that makes them public
+const EXPORTED_DECLARATION = /^\s*(?:export|pub(?:\([^)]*\))?|public)\b/;
+
+// Test files and directories across common naming conventions, matched
+// against paths relative to the root with a leading slash
+const TEST_FILE = /[/._-](?:tests?|spec|__tests__)[/._-]/i;
+
+/**
+ * Flag top-level symbols whose declaration line exports them
+ */
+function markExported(symbols: IndexedSymbol[], content: string): void {
+  const lines = content.split("\n");
+  for (const symbol of symbols) {
+    const line = lines[symbol.location.range.start.line];
+    if (line !== undefined && EXPORTED_DECLARATION.test(line)) {
+      symbol.exported = true;
+    }
+  }
+}
+
+/**
+ * Ranking boost for the symbols a search most likely looks for. It stays
+ * below the gaps between name match tiers, so it only orders similar
+ * matches.
+ */
+function rankBoost(symbol: IndexedSymbol, inTestFile: boolean): number {
+  let boost = 0;
+  if (!symbol.containerName) boost += 30;
+  if (symbol.exported) boost += 20;
+  if (!inTestFile) boost += 40;
+  return boost;
+}
+
+// Words that may name a symbol, to find the symbols a file can refer to
+const IDENTIFIER = /[\p{L}_$][\p{L}\p{N}_$]*/gu;
+
+/**
+ * Position of a symbol's name within its range, where language servers
+ * resolve references to it
+ */
+function findNamePosition(
+  lines: string[],
+  symbol: IndexedSymbol,
+): Position | undefined {
+  const { start, end } = symbol.location.range;
+  const isIdentifierChar = (char: string | undefined) =>
+    char !== undefined && /[\w$]/.test(char);
+
+  for (
+    let line = start.line;
+    line <= end.line && line < lines.length;
+    line++
+  ) {
+    const text = lines[line];
+    let index = text.indexOf(
+      symbol.name,
+      line === start.line ? start.character : 0,
+    );
+    while (index !== -1) {
+      if (
+        !isIdentifierChar(text[index - 1]) &&
+        !isIdentifierChar(text[index + symbol.name.length])
+      ) {
+        return { line, character: index };
+      }
+      index = text.indexOf(symbol.name, index + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a value passes a structured filter, taking negation into account
+ */
+function passesFilter(filter: CompiledSymbolFilter, value: string): boolean {
+  return (filter.match(value) === undefined) === filter.negate;
+}
 
 export class SymbolIndex extends EventEmitter {
   private fileIndex: Map<string, FileSymbols> = new Map();
   private symbolIndex: Map<string, Set<string>> = new Map(); // name -> file URIs
   private kindIndex: Map<SymbolKind, Set<string>> = new Map(); // kind -> file URIs
   private containerIndex: Map<string, Set<string>> = new Map(); // container -> file URIs
+  private referenceGraph: Map<string, FileReferences> = new Map(); // declaring file URI -> references
   private stats: IndexStats = {
     totalFiles: 0,
     totalSymbols: 0,
@@ -85,6 +173,7 @@ export class SymbolIndex extends EventEmitter {
       if (this.cache) {
         const cachedSymbols = await this.cache.get(absolutePath);
         if (cachedSymbols) {
+          markExported(cachedSymbols, content);
           this.storeSymbols(uri, cachedSymbols, undefined, contentHash);
           this.emit("fileIndexed", {
             type: "fileIndexed",
@@ -105,6 +194,7 @@ export class SymbolIndex extends EventEmitter {
 
       // Convert symbols
       const symbols = this.convertSymbols(rawSymbols, uri);
+      markExported(symbols, content);
 
       // Get git hash for the file
       const gitHashResult = await getFileGitHash(this.rootPath, absolutePath);
@@ -276,6 +366,21 @@ export class SymbolIndex extends EventEmitter {
       `Indexed ${processedFiles}/${totalFiles} files in ${duration}ms (${failedFiles} failures)`,
     );
 
+    if (this.config?.settings?.indexReferences) {
+      try {
+        const collected = await this.indexReferences();
+        debugLogWithPrefix(
+          "SymbolIndex",
+          `Collected references of ${collected.length} files`,
+        );
+      } catch (error) {
+        debugLogWithPrefix(
+          "SymbolIndex",
+          `Failed to index references: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
     this.emit("indexingCompleted", {
       type: "indexingCompleted",
       duration,
@@ -306,22 +411,28 @@ export class SymbolIndex extends EventEmitter {
   }
 
   /**
-   * Query symbols
+   * Query symbols, best matches first. Names match fuzzily (see scoreName)
+   * and limit and offset page through the ranked results. Structured
+   * filters (see parseSymbolQuery) narrow the files through the name, kind
+   * and container indices before symbols are matched.
    */
   querySymbols(query: SymbolQuery): IndexedSymbol[] {
     let fileUris = new Set<string>();
+    const nameScores = new Map<string, number>();
 
     // Start with all files if no specific filters
     if (!query.name && !query.kind && !query.file) {
       fileUris = new Set(this.fileIndex.keys());
     }
 
-    // Filter by name (partial match)
+    // Filter by name (fuzzy match)
     if (query.name) {
       const nameUris = new Set<string>();
-      // Check all symbol names for partial match
+      // Score each distinct name once
       for (const [symbolName, uris] of this.symbolIndex) {
-        if (symbolName.includes(query.name)) {
+        const score = scoreName(symbolName, query.name);
+        if (score !== undefined) {
+          nameScores.set(symbolName, score);
           uris.forEach((uri) => nameUris.add(uri));
         }
       }
@@ -393,19 +504,57 @@ export class SymbolIndex extends EventEmitter {
       }
     }
 
+    // Filter by structured filters; negated ones cannot narrow the files
+    const filters = (query.filters ?? []).map(compileSymbolFilter);
+    for (const filter of filters) {
+      if (filter.negate) continue;
+      const filterUris = this.findFilterUris(filter);
+      if (filterUris) {
+        fileUris = new Set([...fileUris].filter((uri) => filterUris.has(uri)));
+      }
+    }
+    const pathFilters = filters.filter((filter) => filter.field === "path");
+    const symbolFilters = filters.filter((filter) => filter.field !== "path");
+
     // Collect matching symbols
-    const results: IndexedSymbol[] = [];
+    const results: { symbol: IndexedSymbol; score: number }[] = [];
 
     for (const uri of fileUris) {
       const fileSymbols = this.fileIndex.get(uri);
       if (!fileSymbols) continue;
 
-      const matchingSymbols = this.filterSymbols(fileSymbols.symbols, query);
+      const relativePath = relative(
+        this.rootPath,
+        fileURLToPath(uri),
+      ).replace(/\\/g, "/");
+      if (!pathFilters.every((filter) => passesFilter(filter, relativePath))) {
+        continue;
+      }
 
-      results.push(...matchingSymbols);
+      const matchingSymbols = this.filterSymbols(
+        fileSymbols.symbols,
+        query,
+        nameScores,
+        symbolFilters,
+      );
+
+      const inTestFile = TEST_FILE.test(`/${relativePath}`);
+      for (const { symbol, score } of matchingSymbols) {
+        results.push({
+          symbol,
+          score:
+            (nameScores.get(symbol.name) ?? 0) +
+            score +
+            rankBoost(symbol, inTestFile),
+        });
+      }
     }
 
-    return results;
+    // Stable, so equal scores keep the index order
+    results.sort((a, b) => b.score - a.score);
+    const offset = query.offset ?? 0;
+    const end = query.limit === undefined ? undefined : offset + query.limit;
+    return results.slice(offset, end).map(({ symbol }) => symbol);
   }
 
   /**
@@ -423,6 +572,7 @@ export class SymbolIndex extends EventEmitter {
     this.symbolIndex.clear();
     this.kindIndex.clear();
     this.containerIndex.clear();
+    this.referenceGraph.clear();
     this.stats = {
       totalFiles: 0,
       totalSymbols: 0,
@@ -656,6 +806,24 @@ export class SymbolIndex extends EventEmitter {
       options.onProgress({ current: totalFiles, total: totalFiles });
     }
 
+    // Keep the reference graph in step when it is in use
+    if (
+      this.config?.settings?.indexReferences ||
+      this.referenceGraph.size > 0
+    ) {
+      try {
+        await this.refreshReferences(
+          [...updated, ...removed].map((file) =>
+            pathToFileURL(resolve(this.rootPath, file)).toString(),
+          ),
+        );
+      } catch (error) {
+        errors.push(
+          `references: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
     // Update git hash
     this.stats.lastGitHash = currentHash;
     this.stats.lastUpdated = new Date();
@@ -702,8 +870,219 @@ export class SymbolIndex extends EventEmitter {
     return false;
   }
 
+  /**
+   * Reference indexing pass: record the references to the symbols of the
+   * given files, or of all indexed files. Entries cached for a file's
+   * current content are reused. Changed files, and the files whose
+   * references their changes may affect, are asked from the symbol
+   * provider. Returns the URIs of the files whose references were
+   * collected.
+   */
+  async indexReferences(filePaths?: string[]): Promise<string[]> {
+    const uris = filePaths
+      ? filePaths.map((file) =>
+          pathToFileURL(resolve(this.rootPath, file)).toString(),
+        )
+      : [...this.fileIndex.keys()];
+
+    const changed: string[] = [];
+    for (const uri of uris) {
+      const absolutePath = fileURLToPath(uri);
+      const content = await this.fileSystem.readFile(absolutePath);
+      const entry = await this.getFileReferences(absolutePath);
+      if (entry?.contentHash !== getContentHash(content)) {
+        changed.push(uri);
+      }
+    }
+
+    return this.refreshReferences(changed);
+  }
+
+  /**
+   * Reference graph entry of a file, from memory or the cache, or
+   * undefined when its references were never indexed. It may be stale,
+   * see getReferenceStaleness.
+   */
+  async getFileReferences(
+    filePath: string,
+  ): Promise<FileReferences | undefined> {
+    const absolutePath = resolve(this.rootPath, filePath);
+    const uri = pathToFileURL(absolutePath).toString();
+
+    let entry = this.referenceGraph.get(uri);
+    if (!entry && this.cache?.getReferences) {
+      entry = (await this.cache.getReferences(absolutePath)) ?? undefined;
+      if (entry) {
+        this.referenceGraph.set(uri, entry);
+      }
+    }
+    return entry;
+  }
+
+  /**
+   * Files changed since a reference graph entry was collected: its own
+   * file, by content hash, the files its references are in, and the other
+   * indexed files, whose changes may have added references
+   */
+  async getReferenceStaleness(entry: FileReferences): Promise<{
+    declarationChanged: boolean;
+    referencing: string[];
+    others: string[];
+  }> {
+    let declarationChanged = true;
+    try {
+      const content = await this.fileSystem.readFile(fileURLToPath(entry.uri));
+      declarationChanged = getContentHash(content) !== entry.contentHash;
+    } catch {
+      // Removed since
+    }
+
+    const changedSince = async (uri: string): Promise<boolean> => {
+      try {
+        const stats = await this.fileSystem.stat(fileURLToPath(uri));
+        return stats.mtime.getTime() > entry.indexedAt;
+      } catch {
+        return true;
+      }
+    };
+
+    const referencingUris = new Set(
+      entry.symbols.flatMap((symbol) =>
+        symbol.references.map((reference) => reference.uri),
+      ),
+    );
+    referencingUris.delete(entry.uri);
+
+    const referencing: string[] = [];
+    for (const uri of referencingUris) {
+      if (await changedSince(uri)) referencing.push(uri);
+    }
+    const others: string[] = [];
+    for (const uri of this.fileIndex.keys()) {
+      if (
+        uri !== entry.uri &&
+        !referencingUris.has(uri) &&
+        (await changedSince(uri))
+      ) {
+        others.push(uri);
+      }
+    }
+
+    return { declarationChanged, referencing, others };
+  }
+
   // Private methods
 
+  /**
+   * Recollect the references of changed files and of the indexed files
+   * their changes may affect: those with references in a changed file,
+   * and those declaring a name a changed file mentions
+   */
+  private async refreshReferences(changedUris: string[]): Promise<string[]> {
+    if (changedUris.length === 0) {
+      return [];
+    }
+
+    // Load the entries persisted by earlier sessions
+    for (const uri of this.fileIndex.keys()) {
+      await this.getFileReferences(fileURLToPath(uri));
+    }
+
+    const changed = new Set(changedUris);
+    const affected = new Set(changedUris);
+
+    for (const [uri, entry] of this.referenceGraph) {
+      const referencesChanged = entry.symbols.some((symbol) =>
+        symbol.references.some((reference) => changed.has(reference.uri)),
+      );
+      if (referencesChanged) affected.add(uri);
+    }
+
+    for (const uri of changedUris) {
+      let content: string;
+      try {
+        content = await this.fileSystem.readFile(fileURLToPath(uri));
+      } catch {
+        continue; // Removed
+      }
+      for (const word of new Set(content.match(IDENTIFIER))) {
+        for (const declaringUri of this.symbolIndex.get(word) ?? []) {
+          if (this.referenceGraph.has(declaringUri)) {
+            affected.add(declaringUri);
+          }
+        }
+      }
+    }
+
+    const collected: string[] = [];
+    for (const uri of affected) {
+      if (!this.fileIndex.has(uri)) {
+        this.referenceGraph.delete(uri);
+        continue;
+      }
+      await this.collectReferences(uri);
+      collected.push(uri);
+    }
+    return collected;
+  }
+
+  /**
+   * Ask the symbol provider for the references to every symbol of a file
+   * and record them in the graph and the cache
+   */
+  private async collectReferences(uri: string): Promise<FileReferences> {
+    if (!this.symbolProvider.getReferences) {
+      throw new Error("The symbol provider cannot find references");
+    }
+
+    // Symbol positions must match the content the references are asked for
+    const absolutePath = fileURLToPath(uri);
+    await this.indexFile(absolutePath);
+    const content = await this.fileSystem.readFile(absolutePath);
+    const lines = content.split("\n");
+
+    const targets: Omit<SymbolReferences, "references">[] = [];
+    const addTarget = (symbol: IndexedSymbol, parentPath?: string) => {
+      const namePath = parentPath
+        ? `${parentPath}/${symbol.name}`
+        : symbol.name;
+      const position = findNamePosition(lines, symbol);
+      if (position) {
+        targets.push({ namePath, kind: symbol.kind, position });
+      }
+      for (const child of symbol.children ?? []) {
+        addTarget(child, namePath);
+      }
+    };
+    for (const symbol of this.fileIndex.get(uri)?.symbols ?? []) {
+      addTarget(symbol);
+    }
+
+    const locations = await this.symbolProvider.getReferences(
+      uri,
+      targets.map((target) => target.position),
+    );
+    const entry: FileReferences = {
+      uri,
+      contentHash: getContentHash(content),
+      indexedAt: Date.now(),
+      symbols: targets.map((target, i) => ({
+        ...target,
+        // Servers list the declaration among the references
+        references: (locations[i] ?? []).filter(
+          (location) =>
+            location.uri !== uri ||
+            location.range.start.line !== target.position.line ||
+            location.range.start.character !== target.position.character,
+        ),
+      })),
+    };
+
+    this.referenceGraph.set(uri, entry);
+    await this.cache?.setReferences?.(absolutePath, entry);
+    return entry;
+  }
+
   private storeSymbols(
     uri: string,
     symbols: IndexedSymbol[],
@@ -792,20 +1171,60 @@ export class SymbolIndex extends EventEmitter {
     }
   }
 
+  /**
+   * Files with symbols matching a structured filter, found through the
+   * name, kind and container indices. Undefined when the filter cannot
+   * narrow the files: paths are matched per file, and a container filter
+   * matching "" also holds for top-level symbols, which are not indexed
+   * by container.
+   */
+  private findFilterUris(
+    filter: CompiledSymbolFilter,
+  ): Set<string> | undefined {
+    let index: Map<string, Set<string>>;
+    switch (filter.field) {
+      case "name":
+        index = this.symbolIndex;
+        break;
+      case "container":
+        if (filter.match("") !== undefined) return undefined;
+        index = this.containerIndex;
+        break;
+      case "kind":
+        index = new Map(
+          [...this.kindIndex].map(([kind, uris]) => [
+            getSymbolKindName(kind) ?? String(kind),
+            uris,
+          ]),
+        );
+        break;
+      case "path":
+        return undefined;
+    }
+
+    const uris = new Set<string>();
+    for (const [value, valueUris] of index) {
+      if (filter.match(value) !== undefined) {
+        valueUris.forEach((uri) => uris.add(uri));
+      }
+    }
+    return uris;
+  }
+
   private filterSymbols(
     symbols: IndexedSymbol[],
     query: SymbolQuery,
-  ): IndexedSymbol[] {
-    const results: IndexedSymbol[] = [];
+    nameScores: Map<string, number>,
+    filters: CompiledSymbolFilter[],
+  ): { symbol: IndexedSymbol; score: number }[] {
+    const results: { symbol: IndexedSymbol; score: number }[] = [];
 
     const processSymbol = (symbol: IndexedSymbol, containerName?: string) => {
       let matches = true;
+      let score = 0;
 
-      // Check name (case-insensitive)
-      if (
-        query.name &&
-        !symbol.name.toLowerCase().includes(query.name.toLowerCase())
-      ) {
+      // Check name against the names that scored a match
+      if (query.name && !nameScores.has(symbol.name)) {
         matches = false;
       }
 
@@ -822,8 +1241,24 @@ export class SymbolIndex extends EventEmitter {
         matches = false;
       }
 
+      // Check structured filters; matching names add to the score
+      for (const filter of matches ? filters : []) {
+        const value =
+          filter.field === "name"
+            ? symbol.name
+            : filter.field === "kind"
+              ? (getSymbolKindName(symbol.kind) ?? String(symbol.kind))
+              : (containerName ?? "");
+        const filterScore = filter.match(value);
+        if ((filterScore === undefined) !== filter.negate) {
+          matches = false;
+          break;
+        }
+        if (!filter.negate) score += filterScore!;
+      }
+
       if (matches) {
-        results.push(symbol);
+        results.push({ symbol, score });
       }
 
       // Process children if needed
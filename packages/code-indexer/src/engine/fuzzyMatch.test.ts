@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  MATCH_SCORES,
+  editDistance,
+  scoreName,
+  splitWords,
+} from "./fuzzyMatch.ts";
+
+describe("splitWords", () => {
+  it("should split camelCase, acronyms, digits and separators", () => {
+    expect(splitWords("parseHTTPResponse_v2")).toEqual([
+      "parse",
+      "HTTP",
+      "Response",
+      "v",
+      "2",
+    ]);
+    expect(splitWords("create_client")).toEqual(["create", "client"]);
+  });
+});
+
+describe("editDistance", () => {
+  it("should count adjacent swaps as one edit", () => {
+    expect(editDistance("servcie", "service")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("scoreName", () => {
+  it("should rank exact, prefix, word start and substring matches", () => {
+    const exact = scoreName("UserService", "UserService")!;
+    const ignoreCase = scoreName("UserService", "userservice")!;
+    const prefix = scoreName("UserServiceImpl", "userService")!;
+    const wordStart = scoreName("createUserService", "userService")!;
+    const substring = scoreName("superuser", "user")!;
+
+    expect(exact).toBe(MATCH_SCORES.exact);
+    expect(ignoreCase).toBeLessThan(exact);
+    expect(prefix).toBeLessThan(ignoreCase);
+    expect(wordStart).toBeLessThan(prefix);
+    expect(substring).toBeLessThan(wordStart);
+  });
+
+  it("should prefer shorter names within a tier", () => {
+    expect(scoreName("UserService", "user")!).toBeGreaterThan(
+      scoreName("UserServiceFactory", "user")!,
+    );
+  });
+
+  it("should match camelCase and snake_case abbreviations", () => {
+    expect(scoreName("UserService", "usrSvc")).toBeDefined();
+    expect(scoreName("create_client", "crtClnt")).toBeDefined();
+    expect(scoreName("createClient", "create_client")).toBeDefined();
+    expect(scoreName("UserAccountService", "userSvc")).toBeDefined();
+    expect(scoreName("UserService", "svcUsr")).toBeUndefined();
+  });
+
+  it("should tolerate typos in longer queries only", () => {
+    expect(scoreName("UserService", "UserServcie")).toBeDefined();
+    expect(scoreName("createClient", "craete")).toBeDefined();
+    expect(scoreName("get", "gte")).toBeUndefined();
+    expect(scoreName("constructor", "test")).toBeUndefined();
+  });
+});
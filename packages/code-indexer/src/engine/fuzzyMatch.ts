@@ -0,0 +1,181 @@
+/**
+ * Scoring of symbol names against a search query.
+ * Better matches score higher; names that do not match score undefined.
+ */
+
+/** Base scores of the match tiers, far enough apart for boosts in between */
+export const MATCH_SCORES = {
+  exact: 1000,
+  exactIgnoreCase: 900,
+  prefix: 800,
+  wordStart: 700,
+  substring: 600,
+  abbreviation: 500,
+  typo: 300,
+} as const;
+
+/**
+ * Split a name into its words at camelCase humps, digits and separators,
+ * e.g. "parseHTTPResponse_v2" into parse, HTTP, Response, v, 2
+ */
+export function splitWords(name: string): string[] {
+  return name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [];
+}
+
+/**
+ * Whether a word of the name starts at the index
+ */
+function isWordStart(name: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = name[index - 1];
+  const char = name[index];
+  return (
+    /[\W_]/.test(previous) ||
+    (/[A-Z]/.test(char) && /[a-z\d]/.test(previous)) ||
+    /\d/.test(char) !== /\d/.test(previous)
+  );
+}
+
+function isSubsequenceFromStart(piece: string, word: string): boolean {
+  if (piece[0] !== word[0]) return false;
+  let index = 0;
+  for (const char of piece) {
+    index = word.indexOf(char, index);
+    if (index === -1) return false;
+    index++;
+  }
+  return true;
+}
+
+/**
+ * Match a query as abbreviations of consecutive or skipped words, each
+ * piece starting with its word's first letter, e.g. "usrSvc" for
+ * UserService or "crtClnt" for create_client. Returns the number of words
+ * skipped, or undefined when the query is no abbreviation of the name.
+ */
+function matchAbbreviation(query: string, words: string[]): number | undefined {
+  const lowerWords = words.map((word) => word.toLowerCase());
+  const memo = new Map<string, number | undefined>();
+
+  const match = (queryIndex: number, wordIndex: number): number | undefined => {
+    if (queryIndex === query.length) return 0;
+    const key = `${queryIndex}:${wordIndex}`;
+    if (memo.has(key)) return memo.get(key);
+
+    let best: number | undefined;
+    for (let word = wordIndex; word < lowerWords.length; word++) {
+      // Longer pieces first, so fewer words are needed
+      for (let end = query.length; end > queryIndex; end--) {
+        if (
+          !isSubsequenceFromStart(
+            query.slice(queryIndex, end),
+            lowerWords[word],
+          )
+        ) {
+          continue;
+        }
+        const rest = match(end, word + 1);
+        if (rest !== undefined) {
+          const skipped = rest + word - wordIndex;
+          if (best === undefined || skipped < best) best = skipped;
+        }
+      }
+    }
+    memo.set(key, best);
+    return best;
+  };
+
+  return match(0, 0);
+}
+
+/**
+ * Optimal string alignment distance: edits, including swaps of adjacent
+ * characters, turning one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Typos tolerated in a query: none for short ones, where most names would match */
+function allowedTypos(query: string): number {
+  if (query.length < 4) return 0;
+  return query.length < 8 ? 1 : 2;
+}
+
+/**
+ * Score how well a symbol name matches a query, case-insensitively, as
+ * camelCase or snake_case abbreviation, or with a few typos. Within a tier
+ * shorter names score higher.
+ */
+export function scoreName(name: string, query: string): number | undefined {
+  if (query === "") return 0;
+  if (name === query) return MATCH_SCORES.exact;
+
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  // Less of the name left unmatched is better, without leaving the tier
+  const lengthPenalty =
+    Math.min(Math.max(name.length - query.length, 0), 99) / 10;
+
+  if (lowerName === lowerQuery) return MATCH_SCORES.exactIgnoreCase;
+  if (lowerName.startsWith(lowerQuery)) {
+    return MATCH_SCORES.prefix - lengthPenalty;
+  }
+
+  const index = lowerName.indexOf(lowerQuery);
+  if (index !== -1) {
+    return (
+      (isWordStart(name, index)
+        ? MATCH_SCORES.wordStart
+        : MATCH_SCORES.substring) - lengthPenalty
+    );
+  }
+
+  // Separators in the query only mark word boundaries
+  const letters = lowerQuery.replace(/[\W_]/g, "");
+  const skipped =
+    letters === "" ? undefined : matchAbbreviation(letters, splitWords(name));
+  if (skipped !== undefined) {
+    return (
+      MATCH_SCORES.abbreviation - 10 * Math.min(skipped, 9) - lengthPenalty
+    );
+  }
+
+  const typos = allowedTypos(query);
+  if (typos > 0) {
+    const distance =
+      Math.abs(name.length - query.length) <= typos
+        ? editDistance(lowerQuery, lowerName)
+        : Infinity;
+    if (distance <= typos) {
+      return MATCH_SCORES.typo - 50 * distance - lengthPenalty;
+    }
+    // A mistyped prefix of a longer name
+    const prefixDistance = editDistance(
+      lowerQuery,
+      lowerName.slice(0, lowerQuery.length),
+    );
+    if (prefixDistance <= typos) {
+      return MATCH_SCORES.typo - 50 * prefixDistance - 25 - lengthPenalty;
+    }
+  }
+  return undefined;
+}
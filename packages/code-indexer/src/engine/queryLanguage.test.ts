@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { compileSymbolFilter, parseSymbolQuery } from "./queryLanguage.ts";
+
+describe("parseSymbolQuery", () => {
+  it("should parse fields, negation, alternatives and pattern types", () => {
+    expect(
+      parseSymbolQuery(
+        'kind:method|function name:handle* -path:*.test.ts container:/Controller$/i "a b" user',
+      ).filters,
+    ).toEqual([
+      {
+        field: "kind",
+        patterns: [
+          { type: "text", value: "method" },
+          { type: "text", value: "function" },
+        ],
+      },
+      { field: "name", patterns: [{ type: "glob", value: "handle*" }] },
+      {
+        field: "path",
+        patterns: [{ type: "glob", value: "*.test.ts" }],
+        negate: true,
+      },
+      {
+        field: "container",
+        patterns: [{ type: "regex", source: "Controller$", flags: "i" }],
+      },
+      { field: "name", patterns: [{ type: "text", value: "a b" }] },
+      { field: "name", patterns: [{ type: "text", value: "user" }] },
+    ]);
+  });
+
+  it("should keep separators inside regexes and namespaced names", () => {
+    expect(parseSymbolQuery("name:/get|set/ std::vector").filters).toEqual([
+      {
+        field: "name",
+        patterns: [{ type: "regex", source: "get|set", flags: "" }],
+      },
+      { field: "name", patterns: [{ type: "text", value: "std::vector" }] },
+    ]);
+    expect(parseSymbolQuery("file:src/api").filters).toEqual([
+      { field: "path", patterns: [{ type: "text", value: "src/api" }] },
+    ]);
+  });
+
+  it("should reject invalid queries", () => {
+    expect(() => parseSymbolQuery("knd:method")).toThrow('Unknown field "knd"');
+    expect(() => parseSymbolQuery("kind:methd")).toThrow("Unknown symbol kind");
+    expect(() => parseSymbolQuery("name:")).toThrow("Empty value");
+    expect(() => parseSymbolQuery("name:a|")).toThrow("Empty value");
+    expect(() => parseSymbolQuery("name:/(/")).toThrow("Invalid regex");
+    expect(() => parseSymbolQuery('name:"open')).toThrow("Unterminated quote");
+  });
+});
+
+describe("compileSymbolFilter", () => {
+  const match = (query: string, value: string) =>
+    compileSymbolFilter(parseSymbolQuery(query).filters![0]).match(value);
+
+  it("should match globs case-insensitively except for paths", () => {
+    expect(match("container:*controller", "UserController")).toBe(0);
+    expect(match("path:src/API/**", "src/api/user.ts")).toBeUndefined();
+    expect(match("path:src/api/**", "src/api/v1/user.ts")).toBe(0);
+    expect(match("path:*.test.ts", "src/api/user.test.ts")).toBe(0);
+  });
+
+  it("should match plain paths as files or directories", () => {
+    expect(match("path:./src/api/", "src/api/user.ts")).toBe(0);
+    expect(match("path:src/api/user.ts", "src/api/user.ts")).toBe(0);
+    expect(match("path:src/ap", "src/api/user.ts")).toBeUndefined();
+  });
+
+  it("should score plain names fuzzily and other patterns as 0", () => {
+    expect(match("usrSvc|UserService", "UserService")).toBe(1000);
+    expect(match("usrSvc", "UserService")).toBeGreaterThan(0);
+    expect(match("name:/^User/", "UserService")).toBe(0);
+    expect(match("kind:METHOD", "Method")).toBe(0);
+  });
+});
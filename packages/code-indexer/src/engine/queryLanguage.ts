@@ -0,0 +1,234 @@
+/**
+ * Structured symbol query language, e.g.
+ * `kind:method name:handle* container:*Controller path:src/api -path:*.test.ts`
+ *
+ * A query is a list of whitespace separated terms that must all hold:
+ * - `field:value` with the fields name, kind, container and path (file is
+ *   an alias for path); a bare word is a name
+ * - a leading `-` negates a term
+ * - `a|b` matches either alternative
+ * - values are plain text, globs (with * ? [ or {), `/regex/flags` or
+ *   `"quoted text"` taken literally
+ */
+
+import { minimatch } from "minimatch";
+import { parseSymbolKind } from "@internal/types";
+import type {
+  SymbolFilter,
+  SymbolFilterField,
+  SymbolPattern,
+  SymbolQuery,
+} from "./types.ts";
+import { scoreName } from "./fuzzyMatch.ts";
+
+const FIELDS: Record<string, SymbolFilterField> = {
+  name: "name",
+  kind: "kind",
+  container: "container",
+  path: "path",
+  file: "path",
+};
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Split text at separators outside of quotes and regex literals. A regex
+ * literal starts with a slash at the start of a piece, after an optional
+ * negation and field.
+ */
+function splitOutside(text: string, separator: RegExp): string[] {
+  const pieces: string[] = [];
+  let piece = "";
+  let inQuote = false;
+  let inRegex = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inRegex) {
+      piece += char;
+      if (char === "\\" && i + 1 < text.length) {
+        piece += text[++i];
+      } else if (char === "/") {
+        inRegex = false;
+      }
+    } else if (inQuote) {
+      piece += char;
+      if (char === '"') inQuote = false;
+    } else if (char === '"') {
+      piece += char;
+      inQuote = true;
+    } else if (char === "/" && /^-?(?:\w+:)?$/.test(piece)) {
+      piece += char;
+      inRegex = true;
+    } else if (separator.test(char)) {
+      pieces.push(piece);
+      piece = "";
+    } else {
+      piece += char;
+    }
+  }
+
+  if (inQuote) throw new Error(`Unterminated quote in query: ${text}`);
+  if (inRegex) throw new Error(`Unterminated regex in query: ${text}`);
+  pieces.push(piece);
+  return pieces;
+}
+
+function parsePattern(
+  value: string,
+  field: SymbolFilterField,
+  term: string,
+): SymbolPattern {
+  if (value === "") {
+    throw new Error(`Empty value in query term: ${term}`);
+  }
+
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    const text = value.slice(1, -1);
+    if (text === "") throw new Error(`Empty value in query term: ${term}`);
+    return { type: "text", value: text };
+  }
+
+  const regex = value.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new Error(
+        `Invalid regex in query term ${term}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return { type: "regex", source: regex[1], flags: regex[2] };
+  }
+
+  if (GLOB_CHARS.test(value)) {
+    return { type: "glob", value };
+  }
+
+  if (field === "kind") {
+    // Throws for unknown kinds, listing the valid ones
+    parseSymbolKind(value);
+  }
+  return { type: "text", value };
+}
+
+function parseTerm(term: string): SymbolFilter {
+  const negate = term.length > 1 && term.startsWith("-");
+  const body = negate ? term.slice(1) : term;
+
+  // "::" separates namespaces in names like std::vector, not a field
+  const fieldMatch = body.match(/^(\w+):(?!:)/);
+  let field: SymbolFilterField = "name";
+  let value = body;
+  if (fieldMatch) {
+    const known = FIELDS[fieldMatch[1].toLowerCase()];
+    if (!known) {
+      throw new Error(
+        `Unknown field "${fieldMatch[1]}" in query term ${term}. Valid fields: name, kind, container, path (or file)`,
+      );
+    }
+    field = known;
+    value = body.slice(fieldMatch[0].length);
+  }
+
+  return {
+    field,
+    patterns: splitOutside(value, /\|/).map((alternative) =>
+      parsePattern(alternative, field, term),
+    ),
+    ...(negate && { negate }),
+  };
+}
+
+/**
+ * Parse a structured symbol query into filters.
+ * Throws on unknown fields or kinds, empty values and invalid regexes.
+ */
+export function parseSymbolQuery(text: string): SymbolQuery {
+  const terms = splitOutside(text.trim(), /\s/).filter((term) => term !== "");
+  return { filters: terms.map(parseTerm) };
+}
+
+/**
+ * A filter ready to match symbol field values
+ */
+export interface CompiledSymbolFilter {
+  field: SymbolFilterField;
+  negate: boolean;
+  /**
+   * Score of the best matching pattern, undefined when none matches. Only
+   * plain text names score above 0, by how well they match (see scoreName).
+   */
+  match(value: string): number | undefined;
+}
+
+function compilePattern(
+  pattern: SymbolPattern,
+  field: SymbolFilterField,
+): (value: string) => number | undefined {
+  const caseSensitive = field === "path";
+
+  switch (pattern.type) {
+    case "regex": {
+      // Without g and y, test() does not carry state between values
+      const regex = new RegExp(
+        pattern.source,
+        pattern.flags.replace(/[gy]/g, ""),
+      );
+      return (value) => (regex.test(value) ? 0 : undefined);
+    }
+    case "glob": {
+      const options = {
+        dot: true,
+        nocase: !caseSensitive,
+        // Path globs without a directory match file names anywhere
+        matchBase: caseSensitive && !pattern.value.includes("/"),
+      };
+      return (value) =>
+        minimatch(value, pattern.value, options) ? 0 : undefined;
+    }
+    case "text": {
+      if (field === "name") {
+        return (value) => scoreName(value, pattern.value);
+      }
+      if (field === "path") {
+        // A file, or a directory containing the file
+        const path = pattern.value.replace(/^\.\//, "").replace(/\/+$/, "");
+        return (value) =>
+          value === path || value.startsWith(`${path}/`) ? 0 : undefined;
+      }
+      const lower = pattern.value.toLowerCase();
+      return (value) => (value.toLowerCase() === lower ? 0 : undefined);
+    }
+  }
+}
+
+/**
+ * Compile a query filter. Matches are memoized per value, as many symbols
+ * share names, containers and kinds.
+ */
+export function compileSymbolFilter(
+  filter: SymbolFilter,
+): CompiledSymbolFilter {
+  const matchers = filter.patterns.map((pattern) =>
+    compilePattern(pattern, filter.field),
+  );
+  const memo = new Map<string, number | undefined>();
+
+  return {
+    field: filter.field,
+    negate: filter.negate ?? false,
+    match(value) {
+      if (memo.has(value)) return memo.get(value);
+      let best: number | undefined;
+      for (const matcher of matchers) {
+        const score = matcher(value);
+        if (score !== undefined && (best === undefined || score > best)) {
+          best = score;
+        }
+      }
+      memo.set(value, best);
+      return best;
+    },
+  };
+}
@@ -2,7 +2,7 @@
  * Core types for symbol indexing
  */
 
-import { SymbolKind, Location } from "vscode-languageserver-types";
+import { SymbolKind, Location, Position } from "vscode-languageserver-types";
 
 /**
  * Indexed symbol information
@@ -14,6 +14,8 @@ export interface IndexedSymbol {
   containerName?: string;
   deprecated?: boolean;
   detail?: string;
+  /** Whether the declaration is exported, when the index could tell */
+  exported?: boolean;
   children?: IndexedSymbol[];
 }
 
@@ -38,6 +40,38 @@ export interface SymbolQuery {
   file?: string;
   containerName?: string;
   includeChildren?: boolean;
+  /** Maximum number of results to return */
+  limit?: number;
+  /** Number of ranked results to skip, for paging with limit */
+  offset?: number;
+  /** Structured filters that must all hold, see parseSymbolQuery */
+  filters?: SymbolFilter[];
+}
+
+/**
+ * Symbol field a query filter matches: the symbol name, its kind name
+ * (e.g. "Method"), the name of the symbol containing it ("" at top level)
+ * or its file path relative to the root
+ */
+export type SymbolFilterField = "name" | "kind" | "container" | "path";
+
+/**
+ * Pattern of a query filter. Plain text names match fuzzily, globs and
+ * other text fields case-insensitively; paths are case-sensitive.
+ */
+export type SymbolPattern =
+  | { type: "text"; value: string }
+  | { type: "glob"; value: string }
+  | { type: "regex"; source: string; flags: string };
+
+/**
+ * A filter of a structured symbol query. It holds when any of its patterns
+ * matches, or when none does if negated.
+ */
+export interface SymbolFilter {
+  field: SymbolFilterField;
+  patterns: SymbolPattern[];
+  negate?: boolean;
 }
 
 /**
@@ -51,11 +85,41 @@ export interface IndexStats {
   lastGitHash?: string;
 }
 
+/**
+ * References to a symbol, recorded by the reference indexing pass
+ */
+export interface SymbolReferences {
+  /** Names from the top-level symbol down, e.g. "UserService/getUser" */
+  namePath: string;
+  kind: SymbolKind;
+  /** Position of the symbol's name, where its references were requested */
+  position: Position;
+  /** Locations using the symbol, without its declaration */
+  references: Location[];
+}
+
+/**
+ * Reference graph entry of a file: the references to the symbols it
+ * declares, valid while the file's content hash matches
+ */
+export interface FileReferences {
+  uri: string;
+  contentHash: string;
+  /** When the references were collected, in milliseconds since the epoch */
+  indexedAt: number;
+  symbols: SymbolReferences[];
+}
+
 /**
  * Symbol provider interface
  */
 export interface SymbolProvider {
   getDocumentSymbols(uri: string): Promise<any[]>;
+  /**
+   * References to the symbols at the positions of a document, one list per
+   * position. Required by the reference indexing pass only.
+   */
+  getReferences?(uri: string, positions: Position[]): Promise<Location[][]>;
 }
 
 /**
@@ -70,6 +134,9 @@ export interface SymbolCache {
   get(filePath: string): Promise<IndexedSymbol[] | null>;
   set(filePath: string, symbols: IndexedSymbol[]): Promise<void>;
   clear(): Promise<void>;
+  /** Persisted reference graph entry of a file, whatever its content hash */
+  getReferences?(filePath: string): Promise<FileReferences | null>;
+  setReferences?(filePath: string, references: FileReferences): Promise<void>;
 }
 
 /**
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import { detectDeadCode } from "./deadCode.ts";
+
+describe("detectDeadCode", () => {
+  let root: string;
+  const files: Record<string, string> = {
+    "package.json": JSON.stringify({ bin: { tool: "./dist/cli.js" } }),
+    "src/cli.ts": `import { run } from "./lib";\nimport unusedDefault from "./helpers";\nrun();\n`,
+    "src/lib.ts": `export * from "./core";\nexport { format as formatValue } from "./format";\n`,
+    "src/core.ts": `export function run() { return helper(); }
+function helper() { return 1; }
+export function unused() {}
+export const onlyLocal = 1;
+const dead = onlyLocal;
+`,
+    "src/format.ts": `export function format() {}\nexport function tested() {}\n`,
+    "src/helpers.ts": `export default function () {}\n`,
+    "src/format.test.ts": `import { tested } from "./format";\ntested();\n`,
+    "src/orphan.ts": `export const orphan = 1;\n`,
+    "src/plugin.ts": `export const plugin = 1;\n`,
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lsmcp-dead-code-test-"));
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const sources = () =>
+    Object.keys(files).filter((path) => path.endsWith(".ts"));
+
+  it("should report unused exports, files, imports and locals", async () => {
+    const report = await detectDeadCode(root, sources());
+
+    // bin dist/cli.js stands for src/cli.ts
+    expect(report.entryPoints).toEqual(["src/cli.ts"]);
+    expect(report.testFiles).toEqual(["src/format.test.ts"]);
+    expect(report.unusedFiles).toEqual(["src/orphan.ts", "src/plugin.ts"]);
+    expect(
+      report.unusedExports.map(
+        ({ file, name, usedLocally }) =>
+          `${file} ${name}${usedLocally ? " (used locally)" : ""}`,
+      ),
+    ).toEqual([
+      "src/core.ts unused",
+      "src/core.ts onlyLocal (used locally)",
+      "src/format.ts format",
+      "src/lib.ts formatValue",
+    ]);
+    expect(report.unusedImports).toEqual([
+      {
+        file: "src/cli.ts",
+        local: "unusedDefault",
+        imported: "default",
+        specifier: "./helpers",
+        line: 2,
+      },
+    ]);
+    expect(report.unusedLocals).toEqual([
+      { file: "src/core.ts", name: "dead", line: 5, kind: "value" },
+    ]);
+  });
+
+  it("should take entry point globs and report code only tests use", async () => {
+    const report = await detectDeadCode(root, sources(), {
+      entryPoints: ["src/plugin.ts"],
+      includeTests: false,
+    });
+
+    expect(report.entryPoints).toEqual(["src/cli.ts", "src/plugin.ts"]);
+    expect(report.unusedFiles).toEqual(["src/orphan.ts"]);
+    expect(
+      report.unusedExports.map(({ file, name }) => `${file} ${name}`),
+    ).toEqual([
+      "src/core.ts unused",
+      "src/core.ts onlyLocal",
+      "src/format.ts format",
+      "src/format.ts tested",
+      "src/lib.ts formatValue",
+    ]);
+  });
+});
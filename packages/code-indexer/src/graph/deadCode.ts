@@ -0,0 +1,411 @@
+/**
+ * Dead code detection by mark and sweep over the module graph: starting
+ * from the entry points, mark the exports their imports use, then report
+ * the exports, files, imports and top-level declarations left unused
+ * (see docs/design/dead-code-detection.md)
+ */
+
+import { readFile } from "fs/promises";
+import { readFileSync } from "fs";
+import { isAbsolute, relative, resolve, sep } from "path";
+import { minimatch } from "minimatch";
+import { isObject } from "@internal/types";
+import { ModuleResolver } from "./moduleResolver.ts";
+import { scanModuleSyntax, type ModuleSyntax } from "./moduleSyntax.ts";
+import { errorLog } from "../../../../src/utils/debugLog.ts";
+
+const DEFAULT_TEST_PATTERNS = [
+  "**/*.{test,spec,bench}.*",
+  "**/__tests__/**",
+  "**/__mocks__/**",
+];
+
+// Loaded by tools rather than imported, so always entry points
+const CONFIG_PATTERNS = ["**/*.config.{ts,mts,cts,js,mjs,cjs}"];
+
+// Tried when neither package.json nor the options name an entry point
+const COMMON_ENTRY_PATTERNS = [
+  "{src/,}{index,main,cli}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}",
+];
+
+// Build output directories whose files stand for sources under src
+const OUTPUT_DIRECTORIES = new Set(["dist", "lib", "build", "out"]);
+
+const GLOB_OPTIONS = { dot: true };
+
+export interface DeadCodeOptions {
+  /** Globs of entry point files, relative to the root */
+  entryPoints?: string[];
+  /** Take main, module, types, exports and bin of package.json as entry points (default true) */
+  usePackageJson?: boolean;
+  /**
+   * Treat test files as entry points (default true). Otherwise code that
+   * only tests use is reported too.
+   */
+  includeTests?: boolean;
+  /** Globs of test files, DEFAULT_TEST_PATTERNS by default */
+  testPatterns?: string[];
+}
+
+export interface UnusedExport {
+  file: string;
+  /** Exported name, "default" for default exports */
+  name: string;
+  /** Declared name the export refers to */
+  local?: string;
+  line: number;
+  kind: "value" | "type";
+  /** Re-exported from another module with `export ... from` */
+  reExport: boolean;
+  /** Used in its own file, so only the export is unused */
+  usedLocally: boolean;
+}
+
+export interface UnusedImport {
+  file: string;
+  local: string;
+  /** Name in the imported module, "default", or "*" for namespaces */
+  imported: string;
+  specifier: string;
+  line: number;
+}
+
+export interface UnusedLocal {
+  file: string;
+  name: string;
+  line: number;
+  kind: "value" | "type";
+}
+
+export interface DeadCodeReport {
+  entryPoints: string[];
+  testFiles: string[];
+  totalModules: number;
+  reachableModules: number;
+  /** Modules no entry point reaches, test files and declaration files aside */
+  unusedFiles: string[];
+  unusedExports: UnusedExport[];
+  unusedImports: UnusedImport[];
+  unusedLocals: UnusedLocal[];
+}
+
+function toGraphPath(rootPath: string, path: string): string {
+  return relative(rootPath, path).split(sep).join("/");
+}
+
+function isDeclarationFile(path: string): boolean {
+  return /\.d\.[mc]?ts$/.test(path);
+}
+
+/**
+ * Paths named by a package.json field: strings, and the values of
+ * objects such as bin, exports and its conditions
+ */
+function fieldTargets(value: unknown): string[] {
+  if (typeof value === "string") return value.includes("*") ? [] : [value];
+  if (Array.isArray(value)) return value.flatMap(fieldTargets);
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(fieldTargets);
+  }
+  return [];
+}
+
+/**
+ * Project files standing for the entry points of the package.json at the
+ * root. Build outputs such as dist/cli.js that do not exist as sources are
+ * matched with the source of the same name under src.
+ */
+function findPackageEntryPoints(
+  rootPath: string,
+  files: string[],
+  resolver: ModuleResolver,
+): string[] {
+  let packageJson: unknown;
+  try {
+    packageJson = JSON.parse(
+      readFileSync(resolve(rootPath, "package.json"), "utf-8"),
+    );
+  } catch {
+    return [];
+  }
+  if (!isObject(packageJson)) return [];
+
+  const fileSet = new Set(files);
+  const entries = new Set<string>();
+  const targets = [
+    "main",
+    "module",
+    "types",
+    "typings",
+    "browser",
+    "bin",
+    "exports",
+  ].flatMap((field) => fieldTargets(packageJson[field]));
+
+  for (const target of targets) {
+    const file = resolver.resolveFile(resolve(rootPath, target));
+    const path = file && toGraphPath(rootPath, file);
+    if (path && fileSet.has(path)) {
+      entries.add(path);
+      continue;
+    }
+
+    const parts = target.replace(/^\.\//, "").split("/");
+    if (!OUTPUT_DIRECTORIES.has(parts[0])) continue;
+    const name = parts[parts.length - 1].replace(/(\.d)?\.[cm]?[jt]sx?$/, "");
+    const source = files
+      .filter(
+        (candidate) =>
+          candidate.startsWith("src/") &&
+          !isDeclarationFile(candidate) &&
+          candidate
+            .split("/")
+            .pop()!
+            .replace(/\.[cm]?[jt]sx?$/, "") === name,
+      )
+      .sort((a, b) => a.length - b.length)[0];
+    if (source) entries.add(source);
+  }
+  return [...entries];
+}
+
+/**
+ * Detect dead code among the files of a project (paths relative to the
+ * root, or absolute). Entry points and test files are roots whose exports
+ * all count as used; declaration files and modules augmenting globals are
+ * roots as well.
+ */
+export async function detectDeadCode(
+  rootPath: string,
+  files: string[],
+  options: DeadCodeOptions = {},
+): Promise<DeadCodeReport> {
+  const {
+    entryPoints = [],
+    usePackageJson = true,
+    includeTests = true,
+    testPatterns = DEFAULT_TEST_PATTERNS,
+  } = options;
+  const root = resolve(rootPath);
+  const resolver = new ModuleResolver(root);
+  const paths = files.map((file) =>
+    toGraphPath(root, isAbsolute(file) ? file : resolve(root, file)),
+  );
+
+  // Syntax of each module, with the project module each specifier leads to
+  const syntaxes = new Map<string, ModuleSyntax>();
+  const targets = new Map<string, Map<string, string>>();
+  for (const path of paths) {
+    const absolutePath = resolve(root, path);
+    let syntax: ModuleSyntax;
+    try {
+      syntax = scanModuleSyntax(await readFile(absolutePath, "utf-8"));
+    } catch (error) {
+      errorLog(`Failed to scan ${path}:`, error);
+      continue;
+    }
+    syntaxes.set(path, syntax);
+
+    const resolved = new Map<string, string>();
+    for (const { specifier } of [...syntax.imports, ...syntax.reExports]) {
+      const target = resolver.resolve(specifier, absolutePath);
+      if (target.type === "file") {
+        const targetPath = toGraphPath(root, target.path);
+        if (!targetPath.startsWith("../")) resolved.set(specifier, targetPath);
+      }
+    }
+    targets.set(path, resolved);
+  }
+
+  const matches = (path: string, patterns: string[]) =>
+    patterns.some((pattern) => minimatch(path, pattern, GLOB_OPTIONS));
+  const testFiles = paths.filter((path) => matches(path, testPatterns));
+  const tests = new Set(testFiles);
+
+  const entries = new Set([
+    ...(usePackageJson ? findPackageEntryPoints(root, paths, resolver) : []),
+    ...paths.filter((path) => matches(path, entryPoints)),
+  ]);
+  if (entries.size === 0) {
+    for (const path of paths) {
+      if (matches(path, COMMON_ENTRY_PATTERNS)) entries.add(path);
+    }
+  }
+
+  const roots = new Set(entries);
+  for (const path of paths) {
+    if (
+      matches(path, CONFIG_PATTERNS) ||
+      isDeclarationFile(path) ||
+      syntaxes.get(path)?.augmentsGlobals ||
+      (includeTests && tests.has(path))
+    ) {
+      roots.add(path);
+    }
+  }
+
+  // Mark: modules reachable from the roots, and the names used of each
+  const reachable = new Set<string>();
+  const pending = [...roots];
+  while (pending.length > 0) {
+    const path = pending.pop()!;
+    if (reachable.has(path)) continue;
+    reachable.add(path);
+    for (const target of targets.get(path)?.values() ?? []) {
+      if (!reachable.has(target)) pending.push(target);
+    }
+  }
+
+  const used = new Map<string, Set<string>>();
+  const isUsed = (path: string, name: string) =>
+    !!used.get(path)?.has(name) || !!used.get(path)?.has("*");
+  const requests: [path: string, name: string][] = [];
+  const request = (path: string, name: string) => {
+    if (!isUsed(path, name)) requests.push([path, name]);
+  };
+
+  for (const path of reachable) {
+    if (roots.has(path)) request(path, "*");
+    for (const declaration of syntaxes.get(path)?.imports ?? []) {
+      const target = targets.get(path)?.get(declaration.specifier);
+      if (!target) continue;
+      if (declaration.kind !== "import") request(target, "*");
+      for (const binding of declaration.bindings) {
+        request(target, binding.imported);
+      }
+    }
+  }
+
+  // Requests for names follow re-exports to the modules declaring them
+  while (requests.length > 0) {
+    const [path, name] = requests.pop()!;
+    if (isUsed(path, name)) continue;
+    let names = used.get(path);
+    if (!names) {
+      names = new Set();
+      used.set(path, names);
+    }
+    names.add(name);
+
+    const syntax = syntaxes.get(path);
+    if (!syntax) continue;
+    for (const reExport of syntax.reExports) {
+      const target = targets.get(path)?.get(reExport.specifier);
+      if (!target) continue;
+      if (reExport.names) {
+        for (const entry of reExport.names) {
+          if (name === "*" || entry.exported === name) {
+            request(target, entry.imported);
+          }
+        }
+      } else if (reExport.namespace) {
+        if (name === "*" || reExport.namespace === name) request(target, "*");
+      } else if (
+        name === "*" ||
+        (name !== "default" &&
+          !syntax.exports.some((entry) => entry.name === name))
+      ) {
+        request(target, name);
+      }
+    }
+  }
+
+  // Sweep
+  const report: DeadCodeReport = {
+    entryPoints: [...entries].sort(),
+    testFiles,
+    totalModules: paths.length,
+    reachableModules: paths.filter((path) => reachable.has(path)).length,
+    unusedFiles: paths
+      .filter(
+        (path) =>
+          !reachable.has(path) && !tests.has(path) && !isDeclarationFile(path),
+      )
+      .sort(),
+    unusedExports: [],
+    unusedImports: [],
+    unusedLocals: [],
+  };
+
+  for (const path of [...reachable].sort()) {
+    const syntax = syntaxes.get(path);
+    if (!syntax || isDeclarationFile(path)) continue;
+    const referenced = (name: string) => (syntax.references.get(name) ?? 0) > 0;
+
+    if (!roots.has(path)) {
+      for (const entry of syntax.exports) {
+        if (isUsed(path, entry.name)) continue;
+        report.unusedExports.push({
+          file: path,
+          name: entry.name,
+          local: entry.local,
+          line: entry.line,
+          kind: entry.kind,
+          reExport: false,
+          usedLocally: entry.local !== undefined && referenced(entry.local),
+        });
+      }
+      for (const reExport of syntax.reExports) {
+        const names = reExport.names
+          ? reExport.names.map(({ exported, line }) => ({ exported, line }))
+          : reExport.namespace
+            ? [{ exported: reExport.namespace, line: reExport.line }]
+            : [];
+        for (const { exported, line } of names) {
+          if (isUsed(path, exported)) continue;
+          report.unusedExports.push({
+            file: path,
+            name: exported,
+            line,
+            kind: reExport.typeOnly ? "type" : "value",
+            reExport: true,
+            usedLocally: false,
+          });
+        }
+      }
+    }
+
+    // Imports passed on with `export { name }` are used by the export
+    const exported = new Set(syntax.exports.map((entry) => entry.local));
+    for (const declaration of syntax.imports) {
+      for (const binding of declaration.bindings) {
+        if (referenced(binding.local) || exported.has(binding.local)) continue;
+        report.unusedImports.push({
+          file: path,
+          local: binding.local,
+          imported: binding.imported,
+          specifier: declaration.specifier,
+          line: binding.line,
+        });
+      }
+    }
+
+    // Top-level declarations of scripts, without imports and exports, are
+    // globals
+    const isScript =
+      syntax.imports.every((declaration) => declaration.kind !== "import") &&
+      syntax.exports.length === 0 &&
+      syntax.reExports.length === 0;
+    if (!isScript) {
+      for (const local of syntax.locals) {
+        if (!referenced(local.name)) {
+          report.unusedLocals.push({
+            file: path,
+            name: local.name,
+            line: local.line,
+            kind: local.kind,
+          });
+        }
+      }
+    }
+  }
+
+  const byPosition = (
+    a: { file: string; line: number },
+    b: { file: string; line: number },
+  ) => a.file.localeCompare(b.file) || a.line - b.line;
+  report.unusedExports.sort(byPosition);
+  report.unusedImports.sort(byPosition);
+  report.unusedLocals.sort(byPosition);
+  return report;
+}
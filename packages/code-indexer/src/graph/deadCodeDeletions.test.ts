@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import ts from "typescript";
+import { detectDeadCode } from "./deadCode.ts";
+import {
+  listDeclarationDeletions,
+  planDeclarationDeletion,
+} from "./deadCodeDeletions.ts";
+import { applyTextEdits } from "../../../../src/utils/applyTextEdits.ts";
+
+const LIB = `import first, { second, third as renamed, fourth } from "./dep";
+import * as unusedNamespace from "./dep";
+import dep, * as alsoUnused from "./dep";
+import {
+  alpha,
+  beta,
+} from "./dep";
+
+/** Used by nobody */
+function helper(): number;
+function helper(value?: number) {
+  return value ?? 0;
+}
+
+const one = 1,
+  two = 2;
+const { p, q } = load();
+type Alias = { a: 1 } | { b: 2 };
+
+interface Shape {
+  size: number;
+}
+
+export const stale = () => {
+  return 1;
+};
+
+export function used(...args: unknown[]) {
+  return [first, second, dep, alpha, two, q, ...args];
+}
+
+const kept = 1;
+const dropped = 2;
+export { kept, dropped };
+`;
+
+describe("planDeclarationDeletion", () => {
+  let root: string;
+  const files: Record<string, string> = {
+    "package.json": JSON.stringify({ main: "./src/index.ts" }),
+    "src/index.ts": `import { used, kept } from "./lib";\nused(kept);\n`,
+    "src/lib.ts": LIB,
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lsmcp-dead-code-deletions-test-"));
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const deleteAll = (
+    source: string,
+    deletions: { line: number; name: string }[],
+  ) =>
+    deletions.reduce(
+      (content, { name, line }) =>
+        applyTextEdits(content, planDeclarationDeletion(content, name, line)),
+      source,
+    );
+
+  it("should delete whole declarations and bindings, leaving valid code", async () => {
+    const report = await detectDeadCode(root, ["src/index.ts", "src/lib.ts"]);
+    const deletions = listDeclarationDeletions(report);
+
+    expect(new Set(deletions.map(({ file }) => file))).toEqual(
+      new Set(["src/lib.ts"]),
+    );
+    const result = deleteAll(LIB, deletions);
+
+    expect(result).toBe(`import first, { second } from "./dep";
+import dep from "./dep";
+import {
+  alpha,
+} from "./dep";
+
+const two = 2;
+const { p, q } = load();
+
+export function used(...args: unknown[]) {
+  return [first, second, dep, alpha, two, q, ...args];
+}
+
+const kept = 1;
+const dropped = 2;
+export { kept };
+`);
+    const { diagnostics } = ts.transpileModule(result, {
+      fileName: "lib.ts",
+      reportDiagnostics: true,
+    });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("should remove an import statement whose bindings are all unused", () => {
+    const source = `import { used, kept } from "./lib";\nused;\n`;
+
+    expect(
+      deleteAll(source, [
+        { name: "kept", line: 1 },
+        { name: "used", line: 1 },
+      ]),
+    ).toBe("used;\n");
+  });
+
+  it("should only delete a declaration on the given line", () => {
+    const source = `const value = 1;\nexport { value };\n`;
+
+    expect(planDeclarationDeletion(source, "value", 2)).toEqual([
+      {
+        range: {
+          start: { line: 1, character: 0 },
+          end: { line: 2, character: 0 },
+        },
+        newText: "",
+      },
+    ]);
+    expect(planDeclarationDeletion(source, "other", 1)).toEqual([]);
+  });
+});
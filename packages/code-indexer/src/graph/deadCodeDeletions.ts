@@ -0,0 +1,290 @@
+/**
+ * Deletions removing a declaration found by a dead code report from its
+ * source: the whole statement when it declares nothing else, otherwise the
+ * import binding, declarator or export list element of the name, with its
+ * comma
+ */
+
+import type { TextEdit } from "@internal/types";
+import type { DeadCodeReport } from "./deadCode.ts";
+import {
+  scanModuleSyntax,
+  type ImportDeclaration,
+  type Span,
+  type Statement,
+} from "./moduleSyntax.ts";
+
+/**
+ * Spans of the removed items of a comma separated list, each with the
+ * comma after it, or before it past the last kept item. At least one item
+ * must be kept.
+ */
+function listDeletions(items: Span[], removed: boolean[]): Span[] {
+  const lastKept = removed.lastIndexOf(false);
+  return items.flatMap((item, index) => {
+    if (!removed[index]) return [];
+    return index < lastKept
+      ? [{ start: item.start, end: items[index + 1].start }]
+      : [{ start: items[index - 1].end, end: item.end }];
+  });
+}
+
+function isBlank(source: string, start: number, end: number): boolean {
+  return source.slice(start, end).trim() === "";
+}
+
+/**
+ * Span of a statement with the doc comment before it, widened to whole
+ * lines when nothing else is on them
+ */
+function statementDeletion(source: string, span: Span): Span {
+  let { start, end } = span;
+
+  let before = start;
+  while (before > 0 && /\s/.test(source[before - 1])) before--;
+  if (source.startsWith("*/", before - 2)) {
+    const open = source.lastIndexOf("/*", before - 2);
+    const openLine = source.lastIndexOf("\n", open - 1) + 1;
+    if (source.startsWith("/**", open) && isBlank(source, openLine, open)) {
+      start = open;
+    }
+  }
+
+  const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+  const newline = source.indexOf("\n", end);
+  const lineEnd = newline === -1 ? source.length : newline;
+  if (!isBlank(source, lineStart, start) || !isBlank(source, end, lineEnd)) {
+    return { start, end };
+  }
+  return {
+    start: lineStart,
+    end: newline === -1 ? source.length : newline + 1,
+  };
+}
+
+/**
+ * Widen a deletion of whole lines over a blank line after it, or before it
+ * at the end of the file, when it would leave two blank lines in a row
+ */
+function withoutDoubleBlankLine(source: string, span: Span): Span {
+  const { start, end } = span;
+  const wholeLines =
+    (start === 0 || source[start - 1] === "\n") &&
+    (end === source.length || source[end - 1] === "\n");
+  if (!wholeLines) return span;
+
+  const previousLine = source.lastIndexOf("\n", start - 2) + 1;
+  const blankBefore = start === 0 || isBlank(source, previousLine, start);
+  const nextNewline = source.indexOf("\n", end);
+  if (blankBefore && nextNewline !== -1 && isBlank(source, end, nextNewline)) {
+    return { start, end: nextNewline + 1 };
+  }
+  if (blankBefore && start > 0 && end === source.length) {
+    return { start: previousLine, end };
+  }
+  return span;
+}
+
+/**
+ * Sort spans and join the ones touching or overlapping
+ */
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Spans removing the unused bindings of an import declaration
+ */
+function importDeletions(
+  source: string,
+  declaration: ImportDeclaration,
+  unused: Set<string>,
+): Span[] {
+  const removed = declaration.bindings.map(({ local }) => unused.has(local));
+  if (!removed.includes(true)) return [];
+  if (!removed.includes(false)) {
+    return [statementDeletion(source, declaration.span)];
+  }
+
+  // The default binding, `* as ns` and the braces are a list of their own
+  const { braces } = declaration;
+  const clauses: Span[] = [];
+  const clausesRemoved: boolean[] = [];
+  const named: Span[] = [];
+  const namedRemoved: boolean[] = [];
+  declaration.bindings.forEach(({ span }, index) => {
+    if (braces && span.start > braces.start && span.end < braces.end) {
+      named.push(span);
+      namedRemoved.push(removed[index]);
+    } else {
+      clauses.push(span);
+      clausesRemoved.push(removed[index]);
+    }
+  });
+
+  const spans: Span[] = [];
+  if (braces && named.length > 0) {
+    const allNamed = !namedRemoved.includes(false);
+    clauses.push(braces);
+    clausesRemoved.push(allNamed);
+    if (!allNamed) spans.push(...listDeletions(named, namedRemoved));
+  }
+  spans.push(...listDeletions(clauses, clausesRemoved));
+  return spans;
+}
+
+/**
+ * Spans removing the unused names of declaration and export statements;
+ * destructuring statements are only removed whole
+ */
+function statementDeletions(
+  source: string,
+  unusedByStatement: Map<Statement, Set<string>>,
+): Span[] {
+  const spans: Span[] = [];
+  for (const [statement, unused] of unusedByStatement) {
+    const removed = statement.names.map((name) => unused.has(name));
+    if (!removed.includes(false)) {
+      spans.push(statementDeletion(source, statement.span));
+    } else if (statement.items) {
+      spans.push(...listDeletions(statement.items, removed));
+    }
+  }
+  return spans;
+}
+
+function toTextEdits(source: string, spans: Span[]): TextEdit[] {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") lineStarts.push(i + 1);
+  }
+  const positionAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line, character: offset - lineStarts[line] };
+  };
+
+  // Deletions of neighbouring names or statements become one edit
+  const merged = mergeSpans(
+    mergeSpans(spans).map((span) => withoutDoubleBlankLine(source, span)),
+  );
+  return merged.map(({ start, end }) => ({
+    range: { start: positionAt(start), end: positionAt(end) },
+    newText: "",
+  }));
+}
+
+export interface DeclarationDeletion {
+  /** Path relative to the root */
+  file: string;
+  /** 1-based line of the name */
+  line: number;
+  name: string;
+}
+
+/**
+ * Findings of a report whose declarations can be deleted: unused imports
+ * and locals, and exports of declarations not used in their own file.
+ * Ordered by file and from the last line up, so deleting them in turn
+ * does not move the lines of the ones left.
+ */
+export function listDeclarationDeletions(
+  report: Pick<
+    DeadCodeReport,
+    "unusedImports" | "unusedLocals" | "unusedExports"
+  >,
+): DeclarationDeletion[] {
+  return [
+    ...report.unusedImports.map(({ file, line, local }) => ({
+      file,
+      line,
+      name: local,
+    })),
+    ...report.unusedLocals.map(({ file, line, name }) => ({
+      file,
+      line,
+      name,
+    })),
+    ...report.unusedExports.flatMap(
+      ({ file, line, local, reExport, usedLocally }) =>
+        !reExport && !usedLocally && local ? [{ file, line, name: local }] : [],
+    ),
+  ].sort((a, b) => a.file.localeCompare(b.file) || b.line - a.line);
+}
+
+function markUnused(
+  unusedByStatement: Map<Statement, Set<string>>,
+  statements: Statement[],
+  name: string,
+): void {
+  for (const statement of statements) {
+    let names = unusedByStatement.get(statement);
+    if (!names) {
+      names = new Set();
+      unusedByStatement.set(statement, names);
+    }
+    names.add(name);
+  }
+}
+
+/**
+ * Edits deleting the declaration of a name found on a line (1-based): its
+ * import binding, declarator or export list element, or the whole
+ * statement when that declares nothing else. Every overload of a function
+ * declared there goes with it.
+ */
+export function planDeclarationDeletion(
+  source: string,
+  name: string,
+  line: number,
+): TextEdit[] {
+  const syntax = scanModuleSyntax(source);
+  const lines = source.split("\n");
+  if (line < 1 || line > lines.length) return [];
+  const lineStart = lines
+    .slice(0, line - 1)
+    .reduce((offset, text) => offset + text.length + 1, 0);
+  const lineEnd = lineStart + lines[line - 1].length;
+  const covers = ({ start, end }: Span) => start <= lineEnd && end >= lineStart;
+  const declaredThere = (statements: Statement[]) =>
+    statements.some((statement) => covers(statement.span));
+
+  const unusedByStatement = new Map<Statement, Set<string>>();
+  for (const local of syntax.locals) {
+    if (local.name === name && declaredThere(local.statements)) {
+      markUnused(unusedByStatement, local.statements, local.name);
+    }
+  }
+  for (const entry of syntax.exports) {
+    if (
+      (entry.name === name || entry.local === name) &&
+      declaredThere(entry.statements)
+    ) {
+      markUnused(unusedByStatement, entry.statements, entry.name);
+    }
+  }
+
+  const spans = [
+    ...syntax.imports
+      .filter(
+        (declaration) =>
+          declaration.kind === "import" && covers(declaration.span),
+      )
+      .flatMap((declaration) =>
+        importDeletions(source, declaration, new Set([name])),
+      ),
+    ...statementDeletions(source, unusedByStatement),
+  ];
+  return spans.length === 0 ? [] : toTextEdits(source, spans);
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir, symlink } from "fs/promises";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import {
+  scanImports,
+  buildModuleGraph,
+  toDependencyGraph,
+  findCycles,
+  computeFanInOut,
+} from "./moduleGraph.ts";
+
+describe("scanImports", () => {
+  it("should find imports, re-exports, dynamic imports and requires", () => {
+    const code = `import { a, type B } from "./a";
+import type { C } from './c';
+import {
+  type D,
+  type E,
+} from "./d";
+import "./side-effect";
+export * from "./all";
+export { f as g } from "./f";
+const lazy = await import("./lazy");
+const legacy = require("./legacy");
+`;
+
+    expect(
+      scanImports(code).map(
+        ({ specifier, kind, typeOnly, line }) =>
+          `${line} ${kind}${typeOnly ? " type" : ""} ${specifier}`,
+      ),
+    ).toEqual([
+      "1 import ./a",
+      "2 import type ./c",
+      "3 import type ./d",
+      "7 import ./side-effect",
+      "8 export ./all",
+      "9 export ./f",
+      "10 dynamic ./lazy",
+      "11 require ./legacy",
+    ]);
+  });
+
+  it("should skip code in comments, strings and templates", () => {
+    const code = `// import { a } from "./commented";
+/* import "./block"; */
+const fixture = \`import { b } from "./template";\`;
+const text = "import('./string')";
+obj.import("./member");
+import { real } from "./real";
+`;
+
+    expect(scanImports(code).map((entry) => entry.specifier)).toEqual([
+      "./real",
+    ]);
+  });
+});
+
+describe("buildModuleGraph", () => {
+  let root: string;
+
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lsmcp-module-graph-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should resolve relative imports, tsconfig paths and workspace packages", async () => {
+    await write(
+      "tsconfig.base.json",
+      `{
+  // Shared options
+  "compilerOptions": {
+    "paths": { "@app/*": ["./src/*"], },
+  },
+}`,
+    );
+    await write("tsconfig.json", `{ "extends": "./tsconfig.base.json" }`);
+    await write(
+      "src/main.ts",
+      `import { util } from "./util.js";
+import { config } from "@app/config";
+import { helper } from "@scope/lib/helper";
+import { run } from "@scope/lib";
+import { readFile } from "node:fs";
+import { z } from "zod";
+import { missing } from "./missing";
+`,
+    );
+    await write("src/util.ts", "export const util = 1;\n");
+    await write("src/config/index.ts", "export const config = {};\n");
+    await write(
+      "packages/lib/package.json",
+      JSON.stringify({
+        name: "@scope/lib",
+        exports: {
+          ".": { types: "./src/index.ts", default: "./dist/index.js" },
+          "./*": "./src/*.ts",
+        },
+      }),
+    );
+    await write("packages/lib/src/index.ts", "export const run = 1;\n");
+    await write("packages/lib/src/helper.ts", "export const helper = 1;\n");
+    await mkdir(join(root, "node_modules/@scope"), { recursive: true });
+    await symlink(
+      join(root, "packages/lib"),
+      join(root, "node_modules/@scope/lib"),
+    );
+
+    const graph = await buildModuleGraph(root, ["src/main.ts"]);
+    const main = graph.modules.get("src/main.ts")!;
+
+    expect(main.imports.map((edge) => edge.to)).toEqual([
+      "src/util.ts",
+      "src/config/index.ts",
+      "packages/lib/src/helper.ts",
+      "packages/lib/src/index.ts",
+    ]);
+    expect(main.packages).toEqual(["node:fs", "zod"]);
+    expect(main.unresolved).toEqual([
+      { specifier: "./missing", kind: "import", typeOnly: false, line: 7 },
+    ]);
+    expect([...graph.modules.keys()].sort()).toEqual([
+      "packages/lib/src/helper.ts",
+      "packages/lib/src/index.ts",
+      "src/config/index.ts",
+      "src/main.ts",
+      "src/util.ts",
+    ]);
+  });
+
+  it("should find cycles and fan-in/fan-out at file and directory level", async () => {
+    await write("src/a.ts", `import "./b";\nimport "./lib/x";\n`);
+    await write("src/b.ts", `import "./c";\n`);
+    await write("src/c.ts", `import type { A } from "./a";\n`);
+    await write("src/lib/x.ts", "export const x = 1;\n");
+    await write("src/lib/y.ts", `import "./x";\nimport "../b";\n`);
+    const graph = await buildModuleGraph(root, [
+      "src/a.ts",
+      "src/b.ts",
+      "src/c.ts",
+      "src/lib/x.ts",
+      "src/lib/y.ts",
+    ]);
+
+    const files = toDependencyGraph(graph);
+    expect(findCycles(files)).toEqual([
+      {
+        nodes: ["src/a.ts", "src/b.ts", "src/c.ts"],
+        path: ["src/a.ts", "src/b.ts", "src/c.ts"],
+      },
+    ]);
+    expect(computeFanInOut(files).get("src/b.ts")).toEqual({
+      fanIn: 2,
+      fanOut: 1,
+    });
+
+    // Without the type-only import, the cycle is gone
+    expect(
+      findCycles(toDependencyGraph(graph, { includeTypeOnly: false })),
+    ).toEqual([]);
+
+    // At directory level, src/lib/ closes another cycle through b
+    const directories = toDependencyGraph(graph, {
+      directory: "src",
+      depth: 0,
+    });
+    expect(directories.nodes).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+      "src/c.ts",
+      "src/lib/",
+    ]);
+    expect(findCycles(directories)).toEqual([
+      {
+        nodes: ["src/a.ts", "src/b.ts", "src/c.ts", "src/lib/"],
+        path: ["src/a.ts", "src/b.ts", "src/c.ts"],
+      },
+    ]);
+    expect(toDependencyGraph(graph, { directory: "src/lib" }).edges).toEqual([
+      { from: "src/lib/y.ts", to: "src/lib/x.ts", imports: 1, typeOnly: false },
+    ]);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * File-to-file import graph of a TypeScript/JavaScript project, with cycle
+ * detection and fan-in/fan-out metrics
+ */
+
+import { readFile } from "fs/promises";
+import { isAbsolute, relative, resolve, sep } from "path";
+import { ModuleResolver } from "./moduleResolver.ts";
+import { scanModuleSyntax, type ImportKind } from "./moduleSyntax.ts";
+
+/**
+ * An import of a module found in source code
+ */
+export interface ModuleImport {
+  specifier: string;
+  kind: ImportKind;
+  /** `import type`, `export type` or only `type` specifiers */
+  typeOnly: boolean;
+  /** Line of the statement, 1-based */
+  line: number;
+}
+
+/**
+ * An import of one project module by another, paths relative to the root
+ */
+export interface ModuleEdge extends ModuleImport {
+  from: string;
+  to: string;
+}
+
+/**
+ * A project module with what it imports
+ */
+export interface ModuleNode {
+  path: string;
+  imports: ModuleEdge[];
+  /** Installed packages and Node.js builtins imported */
+  packages: string[];
+  /** Relative or mapped imports that lead to no file */
+  unresolved: ModuleImport[];
+}
+
+export interface ModuleGraph {
+  rootPath: string;
+  /** Modules by path relative to the root, "/" separated */
+  modules: Map<string, ModuleNode>;
+}
+
+/**
+ * Find the imports, re-exports, dynamic imports and requires of a module,
+ * in source order. Comments and string and template literals are skipped,
+ * so code quoted in them is not taken for imports.
+ */
+export function scanImports(sourceCode: string): ModuleImport[] {
+  const syntax = scanModuleSyntax(sourceCode);
+  return [
+    ...syntax.imports.map(({ specifier, kind, typeOnly, line }) => ({
+      specifier,
+      kind,
+      typeOnly,
+      line,
+    })),
+    ...syntax.reExports.map(({ specifier, typeOnly, line }) => ({
+      specifier,
+      kind: "export" as const,
+      typeOnly,
+      line,
+    })),
+  ].sort((a, b) => a.line - b.line);
+}
+
+function toGraphPath(rootPath: string, path: string): string {
+  return relative(rootPath, path).split(sep).join("/");
+}
+
+/**
+ * Build the import graph of files of a project. Imports are resolved
+ * relative to the importing file, through tsconfig.json paths and baseUrl,
+ * and through the entry points of workspace packages. Project files imported
+ * but not among the files are added as modules without imports.
+ */
+export async function buildModuleGraph(
+  rootPath: string,
+  files: string[],
+): Promise<ModuleGraph> {
+  const root = resolve(rootPath);
+  const resolver = new ModuleResolver(root);
+  const modules = new Map<string, ModuleNode>();
+  const addModule = (path: string) => {
+    let node = modules.get(path);
+    if (!node) {
+      node = { path, imports: [], packages: [], unresolved: [] };
+      modules.set(path, node);
+    }
+    return node;
+  };
+
+  for (const file of files) {
+    const absolutePath = isAbsolute(file) ? file : resolve(root, file);
+    const node = addModule(toGraphPath(root, absolutePath));
+
+    let content: string;
+    try {
+      content = await readFile(absolutePath, "utf-8");
+    } catch {
+      // Removed while building; keep the module without imports
+      continue;
+    }
+
+    const packages = new Set<string>();
+    for (const entry of scanImports(content)) {
+      const resolved = resolver.resolve(entry.specifier, absolutePath);
+      if (resolved.type === "file") {
+        const to = toGraphPath(root, resolved.path);
+        if (to.startsWith("../")) {
+          packages.add(to);
+        } else {
+          node.imports.push({ ...entry, from: node.path, to });
+        }
+      } else if (resolved.type === "unresolved") {
+        node.unresolved.push(entry);
+      } else {
+        packages.add(resolved.name);
+      }
+    }
+    node.packages = [...packages].sort();
+  }
+
+  for (const node of modules.values()) {
+    for (const edge of node.imports) addModule(edge.to);
+  }
+  return { rootPath: root, modules };
+}
+
+/**
+ * Dependencies between graph nodes, aggregated over their imports
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** Number of import statements */
+  imports: number;
+  /** Whether all of them import types only */
+  typeOnly: boolean;
+}
+
+/**
+ * A view of a module graph: modules, or directories standing for the
+ * modules below them
+ */
+export interface DependencyGraph {
+  nodes: string[];
+  edges: DependencyEdge[];
+}
+
+export interface DependencyGraphOptions {
+  /** Only modules under this directory, relative to the root */
+  directory?: string;
+  /**
+   * Directory levels below the scope whose modules are shown; deeper
+   * modules collapse into their directory one level further down, written
+   * with a trailing "/" (0 shows the files of the scope and its
+   * subdirectories)
+   */
+  depth?: number;
+  /** Include imports of types only (default true) */
+  includeTypeOnly?: boolean;
+  /** Include installed packages as nodes (default false) */
+  includePackages?: boolean;
+}
+
+/**
+ * Scope a module graph to a directory and collapse it to a depth. Imports
+ * crossing the scope and imports within a collapsed directory are left out.
+ */
+export function toDependencyGraph(
+  graph: ModuleGraph,
+  options: DependencyGraphOptions = {},
+): DependencyGraph {
+  const { depth, includeTypeOnly = true, includePackages = false } = options;
+  const directory = (options.directory ?? "")
+    .split(sep)
+    .join("/")
+    .replace(/^\.\/?/, "")
+    .replace(/\/+$/, "");
+  const prefix = directory === "" ? "" : `${directory}/`;
+
+  const nodeOf = (path: string): string | undefined => {
+    if (!path.startsWith(prefix)) return undefined;
+    const parts = path.slice(prefix.length).split("/");
+    if (depth === undefined || parts.length - 1 <= depth) return path;
+    return `${prefix}${parts.slice(0, depth + 1).join("/")}/`;
+  };
+
+  const nodes = new Set<string>();
+  const edges = new Map<string, DependencyEdge>();
+  const addEdge = (from: string, to: string, typeOnly: boolean) => {
+    if (from === to) return;
+    const key = `${from}\0${to}`;
+    const edge = edges.get(key);
+    if (edge) {
+      edge.imports++;
+      edge.typeOnly &&= typeOnly;
+    } else {
+      edges.set(key, { from, to, imports: 1, typeOnly });
+    }
+  };
+
+  for (const module of graph.modules.values()) {
+    const from = nodeOf(module.path);
+    if (from === undefined) continue;
+    nodes.add(from);
+
+    for (const edge of module.imports) {
+      if (edge.typeOnly && !includeTypeOnly) continue;
+      const to = nodeOf(edge.to);
+      if (to !== undefined) addEdge(from, to, edge.typeOnly);
+    }
+    if (includePackages) {
+      for (const name of module.packages) {
+        nodes.add(name);
+        addEdge(from, name, false);
+      }
+    }
+  }
+
+  return {
+    nodes: [...nodes].sort(),
+    edges: [...edges.values()].sort(
+      (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+    ),
+  };
+}
+
+/**
+ * A set of nodes that all depend on each other, with one of its shortest
+ * cycles
+ */
+export interface DependencyCycle {
+  /** Nodes of the strongly connected component, sorted */
+  nodes: string[];
+  /** A cycle through its first node, e.g. [a, b, c] for a → b → c → a */
+  path: string[];
+}
+
+function successors(graph: DependencyGraph): Map<string, string[]> {
+  const result = new Map<string, string[]>(
+    graph.nodes.map((node) => [node, []]),
+  );
+  for (const edge of graph.edges) {
+    result.get(edge.from)?.push(edge.to);
+  }
+  return result;
+}
+
+/**
+ * Find the import cycles of a graph: its strongly connected components
+ * with more than one node (Tarjan's algorithm, without recursion so deep
+ * import chains do not overflow the stack)
+ */
+export function findCycles(graph: DependencyGraph): DependencyCycle[] {
+  const next = successors(graph);
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const start of graph.nodes) {
+    if (indices.has(start)) continue;
+    const work: { node: string; child: number }[] = [{ node: start, child: 0 }];
+    indices.set(start, counter);
+    lowLinks.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const children = next.get(frame.node) ?? [];
+      if (frame.child < children.length) {
+        const child = children[frame.child++];
+        if (!indices.has(child)) {
+          indices.set(child, counter);
+          lowLinks.set(child, counter++);
+          stack.push(child);
+          onStack.add(child);
+          work.push({ node: child, child: 0 });
+        } else if (onStack.has(child)) {
+          lowLinks.set(
+            frame.node,
+            Math.min(lowLinks.get(frame.node)!, indices.get(child)!),
+          );
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLinks.set(
+          parent,
+          Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!),
+        );
+      }
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let node: string;
+        do {
+          node = stack.pop()!;
+          onStack.delete(node);
+          component.push(node);
+        } while (node !== frame.node);
+        if (component.length > 1) components.push(component.sort());
+      }
+    }
+  }
+
+  return components
+    .map((nodes) => ({ nodes, path: shortestCycle(nodes, next) }))
+    .sort((a, b) => a.nodes[0].localeCompare(b.nodes[0]));
+}
+
+/**
+ * Shortest cycle through the first node of a component, by breadth-first
+ * search within the component
+ */
+function shortestCycle(
+  component: string[],
+  next: Map<string, string[]>,
+): string[] {
+  const members = new Set(component);
+  const start = component[0];
+  const parents = new Map<string, string>();
+  const queue = [start];
+
+  for (let index = 0; index < queue.length; index++) {
+    const node = queue[index];
+    for (const child of next.get(node) ?? []) {
+      if (child === start) {
+        const path = [node];
+        while (path[0] !== start) path.unshift(parents.get(path[0])!);
+        return path;
+      }
+      if (members.has(child) && !parents.has(child)) {
+        parents.set(child, node);
+        queue.push(child);
+      }
+    }
+  }
+  return component;
+}
+
+/**
+ * Number of distinct nodes depending on each node (fan-in) and that each
+ * node depends on (fan-out)
+ */
+export function computeFanInOut(
+  graph: DependencyGraph,
+): Map<string, { fanIn: number; fanOut: number }> {
+  const metrics = new Map(
+    graph.nodes.map((node) => [node, { fanIn: 0, fanOut: 0 }]),
+  );
+  for (const edge of graph.edges) {
+    metrics.get(edge.from)!.fanOut++;
+    metrics.get(edge.to)!.fanIn++;
+  }
+  return metrics;
+}
@@ -0,0 +1,436 @@
+/**
+ * Resolution of import specifiers to project files, following relative
+ * paths, tsconfig paths and package entry points
+ */
+
+import { existsSync, readFileSync, realpathSync, statSync } from "fs";
+import { builtinModules } from "module";
+import { dirname, join, relative, resolve, sep } from "path";
+import { isObject } from "@internal/types";
+import { errorLog } from "../../../../src/utils/debugLog.ts";
+
+/** Extensions tried for extensionless specifiers, in TypeScript's order */
+export const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".d.ts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+// Sources that JavaScript specifiers stand for, as in `import "./a.js"` for a.ts
+const JS_TO_TS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx", ".d.ts"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts", ".d.mts"],
+  ".cjs": [".cts", ".d.cts"],
+};
+
+// Conditions of package exports taken, in the order of the exports object
+const EXPORT_CONDITIONS = new Set([
+  "types",
+  "import",
+  "module",
+  "node",
+  "require",
+  "default",
+]);
+
+/**
+ * Where an import specifier leads: a file of the project (absolute path),
+ * an installed package or Node.js builtin, or nowhere
+ */
+export type ResolvedModule =
+  | { type: "file"; path: string }
+  | { type: "package"; name: string }
+  | { type: "builtin"; name: string }
+  | { type: "unresolved" };
+
+interface PathMappings {
+  /** Directory bare specifiers are also looked up in */
+  baseUrl?: string;
+  /** Directory the targets of paths are relative to */
+  pathsBase: string;
+  paths: [pattern: string, targets: string[]][];
+}
+
+/**
+ * Parse JSON with comments and trailing commas, as in tsconfig.json
+ */
+function parseJsonc(text: string): unknown {
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += text[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Match a specifier against a pattern with at most one "*", returning what
+ * the star stands for
+ */
+function matchStar(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf("*");
+  if (star === -1) return pattern === specifier ? "" : undefined;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return undefined;
+}
+
+/**
+ * Resolves import specifiers of the files under a project root. Files and
+ * tsconfig.json lookups are cached, so create one per graph build.
+ */
+export class ModuleResolver {
+  private tsconfigByDir = new Map<string, PathMappings | null>();
+  private configDirByDir = new Map<string, string>();
+  private cache = new Map<string, ResolvedModule>();
+  private realRootPath: string;
+
+  constructor(private rootPath: string) {
+    this.rootPath = resolve(rootPath);
+    this.realRootPath = existsSync(this.rootPath)
+      ? realpathSync(this.rootPath)
+      : this.rootPath;
+  }
+
+  /**
+   * Resolve a specifier imported by a file (absolute path)
+   */
+  resolve(specifier: string, fromFile: string): ResolvedModule {
+    const fromDir = dirname(fromFile);
+    const key = `${fromDir}\0${specifier}`;
+    let resolved = this.cache.get(key);
+    if (!resolved) {
+      resolved = this.resolveUncached(specifier, fromDir);
+      this.cache.set(key, resolved);
+    }
+    return resolved;
+  }
+
+  private resolveUncached(specifier: string, fromDir: string): ResolvedModule {
+    if (
+      specifier === "." ||
+      specifier === ".." ||
+      specifier.startsWith("./") ||
+      specifier.startsWith("../") ||
+      specifier.startsWith("/")
+    ) {
+      const file = this.resolveFile(resolve(fromDir, specifier));
+      return file ? { type: "file", path: file } : { type: "unresolved" };
+    }
+
+    if (
+      specifier.startsWith("node:") ||
+      builtinModules.includes(specifier.split("/")[0])
+    ) {
+      return { type: "builtin", name: specifier };
+    }
+
+    const mappings = this.getMappings(fromDir);
+    if (mappings) {
+      const file = this.resolveMapped(specifier, mappings);
+      if (file) return { type: "file", path: file };
+    }
+
+    const name = packageName(specifier);
+    const packageDir = this.findPackageDir(name, fromDir);
+    if (packageDir) {
+      // Compared with the root as given, which may itself be a link
+      const realDir = join(
+        this.rootPath,
+        relative(this.realRootPath, realpathSync(packageDir)),
+      );
+      // Workspace packages link to sources of the project
+      if (this.isProjectPath(realDir)) {
+        const file = this.resolvePackageEntry(
+          realDir,
+          `.${specifier.slice(name.length)}`,
+        );
+        if (file) return { type: "file", path: file };
+      }
+    }
+    return { type: "package", name };
+  }
+
+  private isProjectPath(path: string): boolean {
+    const relativePath = relative(this.rootPath, path);
+    return (
+      relativePath !== "" &&
+      !relativePath.startsWith("..") &&
+      !relativePath.split(sep).includes("node_modules")
+    );
+  }
+
+  /**
+   * The file a path stands for, trying extensions, TypeScript sources of
+   * JavaScript paths and directory index files
+   */
+  resolveFile(path: string): string | undefined {
+    const extension = Object.keys(JS_TO_TS).find((ext) => path.endsWith(ext));
+    if (extension) {
+      const base = path.slice(0, -extension.length);
+      for (const tsExtension of JS_TO_TS[extension]) {
+        if (isFile(base + tsExtension)) return base + tsExtension;
+      }
+    }
+    if (isFile(path)) return path;
+    for (const ext of SOURCE_EXTENSIONS) {
+      if (isFile(path + ext)) return path + ext;
+    }
+    for (const ext of SOURCE_EXTENSIONS) {
+      const index = join(path, `index${ext}`);
+      if (isFile(index)) return index;
+    }
+    return undefined;
+  }
+
+  private resolveMapped(
+    specifier: string,
+    mappings: PathMappings,
+  ): string | undefined {
+    // Exact patterns win over the longest prefix before a star, as in TypeScript
+    const prefixLength = (pattern: string) =>
+      pattern.includes("*") ? pattern.indexOf("*") : Infinity;
+    const matches = mappings.paths
+      .map(([pattern, targets]) => ({
+        pattern,
+        targets,
+        star: matchStar(pattern, specifier),
+      }))
+      .filter((match) => match.star !== undefined)
+      .sort((a, b) => prefixLength(b.pattern) - prefixLength(a.pattern));
+
+    for (const { targets, star } of matches) {
+      for (const target of targets) {
+        const file = this.resolveFile(
+          resolve(mappings.pathsBase, target.replace("*", star!)),
+        );
+        if (file) return file;
+      }
+    }
+
+    if (mappings.baseUrl) {
+      return this.resolveFile(resolve(mappings.baseUrl, specifier));
+    }
+    return undefined;
+  }
+
+  private findPackageDir(name: string, fromDir: string): string | undefined {
+    let dir = fromDir;
+    while (true) {
+      const candidate = join(dir, "node_modules", name);
+      if (existsSync(join(candidate, "package.json"))) return candidate;
+      const parent = dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Entry file of a package subpath ("." or "./sub/path") from its exports
+   * field, or from types, module and main for packages without one
+   */
+  private resolvePackageEntry(
+    packageDir: string,
+    subpath: string,
+  ): string | undefined {
+    let packageJson: unknown;
+    try {
+      packageJson = JSON.parse(
+        readFileSync(join(packageDir, "package.json"), "utf-8"),
+      );
+    } catch (error) {
+      errorLog(`Failed to parse package.json in ${packageDir}:`, error);
+      return undefined;
+    }
+    if (!isObject(packageJson)) return undefined;
+
+    const exportsField = packageJson.exports;
+    if (exportsField !== undefined) {
+      const subpaths =
+        isObject(exportsField) &&
+        Object.keys(exportsField).some((key) => key.startsWith("."))
+          ? exportsField
+          : { ".": exportsField };
+      for (const [pattern, target] of Object.entries(subpaths)) {
+        const star = matchStar(pattern, subpath);
+        if (star === undefined) continue;
+        for (const path of this.exportTargets(target)) {
+          const file = this.resolveFile(
+            resolve(packageDir, path.replace("*", star)),
+          );
+          if (file) return file;
+        }
+      }
+      return undefined;
+    }
+
+    if (subpath === ".") {
+      for (const field of ["types", "typings", "module", "main"]) {
+        const entry = packageJson[field];
+        if (typeof entry === "string") {
+          const file = this.resolveFile(resolve(packageDir, entry));
+          if (file) return file;
+        }
+      }
+    }
+    return this.resolveFile(resolve(packageDir, subpath));
+  }
+
+  private exportTargets(target: unknown): string[] {
+    if (typeof target === "string") return [target];
+    if (Array.isArray(target)) {
+      return target.flatMap((item) => this.exportTargets(item));
+    }
+    if (target && typeof target === "object") {
+      return Object.entries(target)
+        .filter(([condition]) => EXPORT_CONDITIONS.has(condition))
+        .flatMap(([, value]) => this.exportTargets(value));
+    }
+    return [];
+  }
+
+  /**
+   * Directory of the tsconfig.json governing a directory, the nearest one
+   * up to the project root
+   */
+  private findMappingsDir(dir: string): string {
+    let configDir = this.configDirByDir.get(dir);
+    if (configDir === undefined) {
+      configDir =
+        existsSync(join(dir, "tsconfig.json")) || !this.isProjectPath(dir)
+          ? dir
+          : this.findMappingsDir(dirname(dir));
+      this.configDirByDir.set(dir, configDir);
+    }
+    return configDir;
+  }
+
+  private getMappings(dir: string): PathMappings | null {
+    const configDir = this.findMappingsDir(dir);
+    if (!this.tsconfigByDir.has(configDir)) {
+      this.tsconfigByDir.set(
+        configDir,
+        this.readMappings(join(configDir, "tsconfig.json"), new Set()),
+      );
+    }
+    return this.tsconfigByDir.get(configDir)!;
+  }
+
+  /**
+   * Read baseUrl and paths of a tsconfig.json, following extends
+   */
+  private readMappings(file: string, seen: Set<string>): PathMappings | null {
+    if (seen.has(file) || !isFile(file)) return null;
+    seen.add(file);
+
+    let config: unknown;
+    try {
+      config = parseJsonc(readFileSync(file, "utf-8"));
+    } catch (error) {
+      errorLog(`Failed to parse ${file}:`, error);
+      return null;
+    }
+    if (!isObject(config)) return null;
+
+    let mappings: PathMappings | null = null;
+    const parents = config.extends === undefined ? [] : [config.extends].flat();
+    for (const parent of parents) {
+      if (typeof parent !== "string") continue;
+      let parentFile: string | undefined;
+      if (parent.startsWith(".") || parent.startsWith("/")) {
+        parentFile = resolve(dirname(file), parent);
+      } else {
+        // A package, or a file in one, e.g. "@tsconfig/node22/tsconfig.json"
+        const name = packageName(parent);
+        const packageDir = this.findPackageDir(name, dirname(file));
+        if (packageDir) {
+          parentFile = join(
+            packageDir,
+            parent.slice(name.length) || "tsconfig.json",
+          );
+        }
+      }
+      if (!parentFile) continue;
+      mappings =
+        this.readMappings(parentFile, seen) ??
+        this.readMappings(`${parentFile}.json`, seen) ??
+        mappings;
+    }
+
+    const options = isObject(config.compilerOptions)
+      ? config.compilerOptions
+      : {};
+    const baseUrl =
+      typeof options.baseUrl === "string"
+        ? resolve(dirname(file), options.baseUrl)
+        : mappings?.baseUrl;
+    if (isObject(options.paths)) {
+      return {
+        baseUrl,
+        pathsBase: baseUrl ?? dirname(file),
+        paths: Object.entries(options.paths).map(([pattern, targets]) => [
+          pattern,
+          Array.isArray(targets)
+            ? targets.filter((target) => typeof target === "string")
+            : [],
+        ]),
+      };
+    }
+    if (mappings) {
+      return {
+        ...mappings,
+        baseUrl,
+        // Inherited paths are relative to a baseUrl set here
+        pathsBase:
+          typeof options.baseUrl === "string" ? baseUrl! : mappings.pathsBase,
+      };
+    }
+    return baseUrl ? { baseUrl, pathsBase: baseUrl, paths: [] } : null;
+  }
+}
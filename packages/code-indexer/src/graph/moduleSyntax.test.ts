@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { scanModuleSyntax } from "./moduleSyntax.ts";
+
+describe("scanModuleSyntax", () => {
+  it("should find import bindings", () => {
+    const syntax =
+      scanModuleSyntax(`import main, { a, b as c, type T } from "./a";
+import * as ns from "./ns";
+import legacy = require("./legacy");
+`);
+
+    expect(
+      syntax.imports.map(({ specifier, bindings }) => ({
+        specifier,
+        bindings: bindings.map(({ imported, local }) => `${imported}:${local}`),
+      })),
+    ).toEqual([
+      { specifier: "./a", bindings: ["default:main", "a:a", "b:c", "T:T"] },
+      { specifier: "./ns", bindings: ["*:ns"] },
+      { specifier: "./legacy", bindings: ["*:legacy"] },
+    ]);
+  });
+
+  it("should find exports, re-exports and local declarations", () => {
+    const syntax = scanModuleSyntax(`export const one = 1, { two } = pair();
+export function three() {}
+export default class Four {}
+export interface Five {}
+const six = 6;
+type Seven = string;
+export { six as renamed };
+export * from "./all";
+export * as space from "./space";
+export { x as y, type Z } from "./named";
+let unused: Seven;
+`);
+
+    expect(
+      syntax.exports.map(({ name, local, kind }) => `${name}:${local}:${kind}`),
+    ).toEqual([
+      "one:one:value",
+      "two:two:value",
+      "three:three:value",
+      "default:Four:value",
+      "Five:Five:type",
+      "renamed:six:value",
+    ]);
+    expect(
+      syntax.reExports.map(({ specifier, names, namespace }) => ({
+        specifier,
+        names: names?.map(
+          ({ imported, exported }) => `${imported}:${exported}`,
+        ),
+        namespace,
+      })),
+    ).toEqual([
+      { specifier: "./all", names: undefined, namespace: undefined },
+      { specifier: "./space", names: undefined, namespace: "space" },
+      { specifier: "./named", names: ["x:y", "Z:Z"], namespace: undefined },
+    ]);
+    expect(syntax.locals.map(({ name, kind }) => `${name}:${kind}`)).toEqual([
+      "Seven:type",
+      "unused:value",
+    ]);
+  });
+
+  it("should find the statements and declarators of declarations", () => {
+    const source = `import { a } from "./a";
+/** Doc */
+export const one = 1,
+  two = a;
+type Union = { a: 1 }
+  | { b: 2 }
+export { one as uno }
+`;
+    const syntax = scanModuleSyntax(source);
+    const text = ({ start, end }: { start: number; end: number }) =>
+      source.slice(start, end);
+
+    expect(syntax.imports.map(({ span }) => text(span))).toEqual([
+      'import { a } from "./a";',
+    ]);
+    const [one, , uno] = syntax.exports;
+    expect(one.statements.map(({ span }) => text(span))).toEqual([
+      "export const one = 1,\n  two = a;",
+    ]);
+    expect(one.statements[0].items?.map(text)).toEqual(["one = 1", "two = a"]);
+    expect(uno.statements[0].items?.map(text)).toEqual(["one as uno"]);
+    expect(text(syntax.locals[0].statements[0].span)).toBe(
+      "type Union = { a: 1 }\n  | { b: 2 }",
+    );
+  });
+
+  it("should count references outside declarations, members and strings", () => {
+    const syntax = scanModuleSyntax(`import { used, member, quoted } from "./a";
+const value = used(obj.member, "quoted");
+// used in a comment
+`);
+
+    expect(syntax.references.get("used")).toBe(1);
+    expect(syntax.references.get("member")).toBeUndefined();
+    expect(syntax.references.get("quoted")).toBeUndefined();
+    expect(syntax.references.get("value")).toBeUndefined();
+  });
+});
@@ -0,0 +1,830 @@
+/**
+ * Token-level scan of the module syntax of TypeScript/JavaScript sources:
+ * imports, exports, re-exports, top-level declarations and the identifiers
+ * referring to them. No type information, so shadowed names count as
+ * references.
+ */
+
+/**
+ * How a module is imported: `import ... from`, `export ... from`,
+ * `import()` or `require()`
+ */
+export type ImportKind = "import" | "export" | "dynamic" | "require";
+
+interface Token {
+  type: "identifier" | "string" | "template" | "punctuator" | "other";
+  value: string;
+  /** Line, 1-based */
+  line: number;
+  /** Offsets in the source, end exclusive */
+  start: number;
+  end: number;
+  /** Depth of braces, parentheses and brackets around the token */
+  depth: number;
+}
+
+/**
+ * Offsets of a part of the source, end exclusive
+ */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * A statement declaring or exporting names, with the spans needed to
+ * remove it or some of its names
+ */
+export interface Statement {
+  /** From its first keyword to its semicolon, if any */
+  span: Span;
+  /** Names it declares, or exports for export statements */
+  names: string[];
+  /**
+   * Comma separated parts binding names one each, in the order of names:
+   * the declarators of a variable statement or the elements of an export
+   * list. Unset when names cannot be removed one by one, as when
+   * destructuring.
+   */
+  items?: Span[];
+}
+
+/**
+ * A name bound by an import declaration
+ */
+export interface ImportBinding {
+  /** Name in the imported module, "default", or "*" for the whole module */
+  imported: string;
+  local: string;
+  line: number;
+  /** The binding with its type modifier and alias, or `* as local` */
+  span: Span;
+}
+
+export interface ImportDeclaration {
+  specifier: string;
+  /** import, dynamic or require; re-exports are listed separately */
+  kind: Exclude<ImportKind, "export">;
+  typeOnly: boolean;
+  line: number;
+  /** Empty for side-effect imports; dynamic imports and requires use it all */
+  bindings: ImportBinding[];
+  /** The statement, or the call of dynamic imports and requires */
+  span: Span;
+  /** The braces around named bindings */
+  braces?: Span;
+}
+
+/**
+ * A name exported by a module from its own declarations
+ */
+export interface ExportedName {
+  /** Exported name, "default" for default exports */
+  name: string;
+  /** Declared name the export refers to, unset for default expressions */
+  local?: string;
+  line: number;
+  kind: "value" | "type";
+  /** Statements exporting the name, several for overloads */
+  statements: Statement[];
+}
+
+/**
+ * `export * from`, `export * as ns from` or `export { a as b } from`
+ */
+export interface ReExport {
+  specifier: string;
+  typeOnly: boolean;
+  line: number;
+  /** Names re-exported, unset for `export *` */
+  names?: { imported: string; exported: string; line: number }[];
+  /** Name of `export * as ns` */
+  namespace?: string;
+}
+
+/**
+ * A top-level declaration that is not exported where it is declared
+ */
+export interface LocalDeclaration {
+  name: string;
+  line: number;
+  kind: "value" | "type";
+  /** Statements declaring the name, several for overloads and merging */
+  statements: Statement[];
+}
+
+export interface ModuleSyntax {
+  imports: ImportDeclaration[];
+  exports: ExportedName[];
+  reExports: ReExport[];
+  locals: LocalDeclaration[];
+  /**
+   * Occurrences of each identifier outside import and export lists and
+   * declaration names, member names after "." left out
+   */
+  references: Map<string, number>;
+  /** `declare global` or `declare module` augmentations */
+  augmentsGlobals: boolean;
+}
+
+// After these, a slash starts a regex literal rather than a division
+const REGEX_PREFIX_KEYWORDS = new Set([
+  "return",
+  "typeof",
+  "case",
+  "do",
+  "else",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "instanceof",
+  "yield",
+  "await",
+]);
+
+// A declaration keyword after these on an earlier line continues an
+// expression instead of starting a statement
+const CONTINUATIONS = new Set([
+  "=",
+  "(",
+  "[",
+  ",",
+  ":",
+  "?",
+  ".",
+  "?.",
+  "=>",
+  "&",
+  "|",
+  "+",
+  "-",
+  "*",
+  "/",
+  "<",
+  ">",
+  "!",
+  "@",
+]);
+
+// Keywords continuing a statement even at the start of a line or after a
+// closing brace, where other identifiers start the next one
+const CONTINUING_KEYWORDS = new Set([
+  "from",
+  "as",
+  "satisfies",
+  "in",
+  "instanceof",
+  "extends",
+  "implements",
+]);
+
+const IDENTIFIER = /[A-Za-z_$\u00a0-\uffff][\w$\u00a0-\uffff]*/y;
+const NUMBER = /\d[\w.]*|\.\d\w*/y;
+
+/**
+ * Match a sticky regex at an index, returning the matched text
+ */
+function matchAt(regex: RegExp, source: string, index: number) {
+  regex.lastIndex = index;
+  return regex.exec(source)?.[0];
+}
+
+/**
+ * Split source code into tokens, dropping comments and whitespace
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const length = source.length;
+  // Depths at which the template substitutions being scanned started
+  const templates: number[] = [];
+  let depth = 0;
+  let line = 1;
+  let i = 0;
+  // Offset of the token being scanned; tokens are pushed once scanned
+  let start = 0;
+
+  const push = (type: Token["type"], value: string, tokenLine = line) =>
+    tokens.push({ type, value, line: tokenLine, start, end: i, depth });
+
+  const regexAllowed = () => {
+    const previous = tokens[tokens.length - 1];
+    if (!previous) return true;
+    if (previous.type === "punctuator") {
+      return ![")", "]", "}"].includes(previous.value);
+    }
+    return (
+      previous.type === "identifier" &&
+      REGEX_PREFIX_KEYWORDS.has(previous.value)
+    );
+  };
+
+  // Scan template text from i up to its end or next substitution. Only
+  // templates without substitutions are tokens of type template.
+  const scanTemplate = (head: boolean) => {
+    const startLine = line;
+    let text = "";
+    while (i < length) {
+      const char = source[i];
+      if (char === "\\") {
+        text += source.slice(i, i + 2);
+        i += 2;
+      } else if (char === "`") {
+        i++;
+        push(head ? "template" : "other", text, startLine);
+        return;
+      } else if (char === "$" && source[i + 1] === "{") {
+        i += 2;
+        push("other", text, startLine);
+        templates.push(depth);
+        depth++;
+        return;
+      } else {
+        if (char === "\n") line++;
+        text += char;
+        i++;
+      }
+    }
+    push("other", text, startLine);
+  };
+
+  while (i < length) {
+    const char = source[i];
+    const next = source[i + 1];
+    start = i;
+
+    if (char === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      i = end === -1 ? length : end;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? length : end + 2;
+      for (let j = i; j < stop; j++) if (source[j] === "\n") line++;
+      i = stop;
+    } else if (char === '"' || char === "'") {
+      // Strings end at the line, so a quote in JSX text swallows one line
+      // at most
+      let text = "";
+      i++;
+      while (i < length && source[i] !== char && source[i] !== "\n") {
+        if (source[i] === "\\") {
+          // A line continuation stays in the string
+          if (source[i + 1] === "\n") line++;
+          text += source[i + 1] ?? "";
+          i += 2;
+        } else {
+          text += source[i++];
+        }
+      }
+      if (source[i] === char) i++;
+      push("string", text);
+    } else if (char === "`") {
+      i++;
+      scanTemplate(true);
+    } else if (char === "}" && templates[templates.length - 1] === depth - 1) {
+      templates.pop();
+      depth--;
+      i++;
+      scanTemplate(false);
+    } else if (char === "/" && regexAllowed()) {
+      let inClass = false;
+      i++;
+      while (i < length && source[i] !== "\n") {
+        if (source[i] === "\\") i++;
+        else if (source[i] === "[") inClass = true;
+        else if (source[i] === "]") inClass = false;
+        else if (source[i] === "/" && !inClass) break;
+        i++;
+      }
+      i++;
+      i += matchAt(IDENTIFIER, source, i)?.length ?? 0;
+      push("other", "regex");
+    } else if (matchAt(IDENTIFIER, source, i)) {
+      const name = matchAt(IDENTIFIER, source, i)!;
+      i += name.length;
+      push("identifier", name);
+    } else if (char === "#" && matchAt(IDENTIFIER, source, i + 1)) {
+      // Private names are their own namespace, so they refer to nothing here
+      i += 1 + matchAt(IDENTIFIER, source, i + 1)!.length;
+      push("other", "private name");
+    } else if (matchAt(NUMBER, source, i)) {
+      i += matchAt(NUMBER, source, i)!.length;
+      push("other", "number");
+    } else {
+      let value = char;
+      if (source.startsWith("...", i)) value = "...";
+      else if (char === "?" && next === ".") value = "?.";
+      else if (char === "=" && next === ">") value = "=>";
+      if (char === "}" || char === ")" || char === "]") {
+        depth = Math.max(depth - 1, 0);
+      }
+      i += value.length;
+      push("punctuator", value);
+      if (char === "{" || char === "(" || char === "[") depth++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Scan the imports, exports, re-exports and top-level declarations of a
+ * module
+ */
+export function scanModuleSyntax(source: string): ModuleSyntax {
+  const tokens = tokenize(source);
+  const syntax: ModuleSyntax = {
+    imports: [],
+    exports: [],
+    reExports: [],
+    locals: [],
+    references: new Map(),
+    augmentsGlobals: false,
+  };
+  // Tokens that do not refer to declarations: import and export lists and
+  // declaration names
+  const excluded = new Set<number>();
+
+  const is = (index: number, value: string) =>
+    tokens[index]?.value === value && tokens[index].type !== "string";
+  const isIdentifier = (index: number) => tokens[index]?.type === "identifier";
+  const isSpecifier = (index: number) =>
+    tokens[index]?.type === "string" || tokens[index]?.type === "template";
+
+  const excludeRange = (from: number, to: number) => {
+    for (let index = from; index < to; index++) excluded.add(index);
+  };
+
+  // Span of the tokens from one index to another, both included
+  const spanOf = (from: number, to: number): Span => ({
+    start: tokens[from].start,
+    end: tokens[Math.min(to, tokens.length - 1)].end,
+  });
+
+  /**
+   * Parse `{ a, type b, c as d, "e" as f }` from the opening brace, calling
+   * back with each name, its alias, whether it is marked `type` and its
+   * span. Returns the index after the closing brace.
+   */
+  const parseList = (
+    start: number,
+    onName: (
+      name: string,
+      alias: string,
+      line: number,
+      type: boolean,
+      span: Span,
+    ) => void,
+  ): number => {
+    let index = start + 1;
+    while (index < tokens.length && !is(index, "}")) {
+      if (is(index, ",")) {
+        index++;
+        continue;
+      }
+      const first = index;
+      // "type" is a modifier unless it is the name, as in `{ type as t }`
+      const type =
+        is(index, "type") &&
+        !is(index + 1, ",") &&
+        !is(index + 1, "}") &&
+        !(is(index + 1, "as") && !is(index + 2, "as"));
+      if (type) index++;
+      const name = tokens[index];
+      let alias = name;
+      if (is(index + 1, "as") && tokens[index + 2]) {
+        alias = tokens[index + 2];
+        index += 2;
+      }
+      if (name) {
+        onName(name.value, alias.value, alias.line, type, spanOf(first, index));
+      }
+      index++;
+    }
+    return index + 1;
+  };
+
+  const atStatementStart = (index: number) => {
+    const previous = tokens[index - 1];
+    if (!previous) return true;
+    if (previous.value === ";" || previous.value === "}") return true;
+    return (
+      previous.line < tokens[index].line &&
+      !(previous.type === "punctuator" && CONTINUATIONS.has(previous.value))
+    );
+  };
+
+  /**
+   * Index of the last token of the statement starting at the index: its
+   * semicolon, or the token before the next statement
+   */
+  const statementEnd = (start: number): number => {
+    const base = tokens[start].depth;
+    let index = start + 1;
+    for (; index < tokens.length; index++) {
+      if (tokens[index].depth < base) break;
+      if (tokens[index].depth > base) continue;
+      if (is(index, ";")) return index;
+      if (
+        isIdentifier(index) &&
+        !CONTINUING_KEYWORDS.has(tokens[index].value) &&
+        atStatementStart(index)
+      ) {
+        break;
+      }
+    }
+    return index - 1;
+  };
+
+  const statementOf = (
+    start: number,
+    names: string[],
+    items?: Span[],
+  ): Statement => ({
+    span: spanOf(start, statementEnd(start)),
+    names,
+    items,
+  });
+
+  /**
+   * Names bound by a declaration starting at the index (after export and
+   * declare), with the index of their tokens. Variable statements binding
+   * one name per declarator list the spans of the declarators as items.
+   */
+  const parseDeclaration = (
+    start: number,
+  ): {
+    names: { name: string; index: number }[];
+    kind: "value" | "type";
+    items?: Span[];
+  } => {
+    let index = start;
+    while (
+      ["declare", "async", "abstract"].includes(tokens[index]?.value) &&
+      isIdentifier(index + 1)
+    ) {
+      index++;
+    }
+    if (is(index, "const") && is(index + 1, "enum")) index++;
+
+    const keyword = tokens[index]?.value;
+    const named = (nameIndex: number, kind: "value" | "type" = "value") =>
+      isIdentifier(nameIndex)
+        ? { names: [{ name: tokens[nameIndex].value, index: nameIndex }], kind }
+        : { names: [], kind };
+
+    switch (keyword) {
+      case "function":
+        return named(is(index + 1, "*") ? index + 2 : index + 1);
+      case "class":
+      case "enum":
+      case "namespace":
+      case "module":
+        return named(index + 1);
+      case "interface":
+        return named(index + 1, "type");
+      case "type":
+        return is(index + 2, "=") || is(index + 2, "<")
+          ? named(index + 1, "type")
+          : { names: [], kind: "type" };
+      case "const":
+      case "let":
+      case "var":
+      case "using": {
+        const names: { name: string; index: number }[] = [];
+        const declarators: Span[] = [];
+        let destructures = false;
+        const result = () => ({
+          names,
+          kind: "value" as const,
+          items: destructures ? undefined : declarators,
+        });
+        const base = tokens[index].depth;
+        let j = index + 1;
+        while (j < tokens.length) {
+          const first = j;
+          if (isIdentifier(j)) {
+            names.push({ name: tokens[j].value, index: j });
+          } else if (is(j, "{") || is(j, "[")) {
+            destructures = true;
+            // Destructuring: names not followed by ":" are bound
+            for (j++; j < tokens.length && tokens[j].depth > base; j++) {
+              const previous = tokens[j - 1].value;
+              if (
+                isIdentifier(j) &&
+                ["{", "[", ",", ":", "..."].includes(previous) &&
+                !is(j + 1, ":")
+              ) {
+                names.push({ name: tokens[j].value, index: j });
+              }
+            }
+          } else {
+            break;
+          }
+          // Skip the type and initializer to the next declarator
+          for (j++; j < tokens.length; j++) {
+            if (tokens[j].depth < base) break;
+            if (tokens[j].depth > base) continue;
+            if (is(j, ",") || is(j, ";") || atStatementStart(j)) break;
+          }
+          declarators.push(spanOf(first, j - 1));
+          if (!is(j, ",") || tokens[j].depth !== base) return result();
+          j++;
+        }
+        return result();
+      }
+      default:
+        return { names: [], kind: "value" };
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "identifier" || is(i - 1, ".") || is(i - 1, "?.")) {
+      continue;
+    }
+
+    // import("x") and require("x") anywhere
+    if (
+      (token.value === "import" || token.value === "require") &&
+      is(i + 1, "(") &&
+      isSpecifier(i + 2) &&
+      (is(i + 3, ")") || is(i + 3, ","))
+    ) {
+      syntax.imports.push({
+        specifier: tokens[i + 2].value,
+        kind: token.value === "import" ? "dynamic" : "require",
+        typeOnly: false,
+        line: token.line,
+        bindings: [],
+        span: spanOf(i, i + 3),
+      });
+      continue;
+    }
+
+    if (token.depth !== 0) continue;
+
+    if (token.value === "import" && !is(i + 1, ".") && !is(i + 1, "(")) {
+      let j = i + 1;
+      let typeOnly = false;
+      if (is(j, "type") && !is(j + 1, "from") && !is(j + 1, ",")) {
+        typeOnly = true;
+        j++;
+      }
+      const declaration: ImportDeclaration = {
+        specifier: "",
+        kind: "import",
+        typeOnly,
+        line: token.line,
+        bindings: [],
+        span: spanOf(i, statementEnd(i)),
+      };
+
+      if (isIdentifier(j) && is(j + 1, "=")) {
+        // import x = require("y"), or an alias of a namespace member
+        if (is(j + 2, "require") && isSpecifier(j + 4)) {
+          declaration.specifier = tokens[j + 4].value;
+          declaration.bindings.push({
+            imported: "*",
+            local: tokens[j].value,
+            line: tokens[j].line,
+            span: spanOf(j, j),
+          });
+          syntax.imports.push(declaration);
+          excludeRange(i, j + 6);
+          i = j + 5;
+        } else {
+          excluded.add(j);
+          syntax.locals.push({
+            name: tokens[j].value,
+            line: tokens[j].line,
+            kind: "value",
+            statements: [statementOf(i, [tokens[j].value])],
+          });
+        }
+        continue;
+      }
+
+      // A default import, unless "from" of `import {} from` or `import * as`
+      if (isIdentifier(j) && !(is(j, "from") && isSpecifier(j + 1))) {
+        declaration.bindings.push({
+          imported: "default",
+          local: tokens[j].value,
+          line: tokens[j].line,
+          span: spanOf(j, j),
+        });
+        j++;
+        if (is(j, ",")) j++;
+      }
+      if (is(j, "*") && is(j + 1, "as") && isIdentifier(j + 2)) {
+        declaration.bindings.push({
+          imported: "*",
+          local: tokens[j + 2].value,
+          line: tokens[j + 2].line,
+          span: spanOf(j, j + 2),
+        });
+        j += 3;
+      } else if (is(j, "{")) {
+        let allTypes = true;
+        const open = j;
+        j = parseList(j, (imported, local, line, type, span) => {
+          declaration.bindings.push({ imported, local, line, span });
+          allTypes &&= type;
+        });
+        declaration.braces = spanOf(open, j - 1);
+        // `import { type A, type B }` imports types only
+        if (declaration.bindings.length > 0 && allTypes) {
+          declaration.typeOnly = true;
+        }
+      }
+      if (is(j, "from")) j++;
+      if (isSpecifier(j)) {
+        declaration.specifier = tokens[j].value;
+        syntax.imports.push(declaration);
+      }
+      excludeRange(i, j + 1);
+      i = j;
+      continue;
+    }
+
+    if (token.value === "export") {
+      let j = i + 1;
+      let typeOnly = false;
+      if (is(j, "type") && (is(j + 1, "{") || is(j + 1, "*"))) {
+        typeOnly = true;
+        j++;
+      }
+
+      if (is(j, "*")) {
+        const reExport: ReExport = {
+          specifier: "",
+          typeOnly,
+          line: token.line,
+        };
+        j++;
+        if (is(j, "as") && tokens[j + 1]) {
+          reExport.namespace = tokens[j + 1].value;
+          j += 2;
+        }
+        if (is(j, "from") && isSpecifier(j + 1)) {
+          reExport.specifier = tokens[j + 1].value;
+          syntax.reExports.push(reExport);
+          j++;
+        }
+        excludeRange(i, j + 1);
+        i = j;
+        continue;
+      }
+
+      if (is(j, "{")) {
+        const names: { imported: string; exported: string; line: number }[] =
+          [];
+        const items: Span[] = [];
+        let allTypes = true;
+        const end = parseList(j, (imported, exported, line, type, span) => {
+          names.push({ imported, exported, line });
+          items.push(span);
+          allTypes &&= type;
+        });
+        typeOnly ||= names.length > 0 && allTypes;
+        if (is(end, "from") && isSpecifier(end + 1)) {
+          syntax.reExports.push({
+            specifier: tokens[end + 1].value,
+            typeOnly,
+            line: token.line,
+            names,
+          });
+          excludeRange(i, end + 2);
+          i = end + 1;
+        } else {
+          const statement = statementOf(
+            i,
+            names.map(({ exported }) => exported),
+            items,
+          );
+          for (const { imported, exported, line } of names) {
+            syntax.exports.push({
+              name: exported,
+              local: imported,
+              line,
+              kind: typeOnly ? "type" : "value",
+              statements: [statement],
+            });
+          }
+          excludeRange(i, end);
+          i = end - 1;
+        }
+        continue;
+      }
+
+      if (is(j, "default")) {
+        const declaration = parseDeclaration(j + 1);
+        const name = declaration.names[0];
+        if (name) excluded.add(name.index);
+        syntax.exports.push({
+          name: "default",
+          local: name?.name,
+          line: name ? tokens[name.index].line : token.line,
+          kind: declaration.kind,
+          statements: [statementOf(i, ["default"])],
+        });
+        continue;
+      }
+
+      if (is(j, "=")) {
+        syntax.exports.push({
+          name: "default",
+          line: token.line,
+          kind: "value",
+          statements: [statementOf(i, ["default"])],
+        });
+        continue;
+      }
+
+      const declaration = parseDeclaration(j);
+      const statement = statementOf(
+        i,
+        declaration.names.map(({ name }) => name),
+        declaration.items,
+      );
+      for (const { name, index } of declaration.names) {
+        excluded.add(index);
+        syntax.exports.push({
+          name,
+          local: name,
+          line: tokens[index].line,
+          kind: declaration.kind,
+          statements: [statement],
+        });
+      }
+      continue;
+    }
+
+    if (
+      token.value === "declare" &&
+      (is(i + 1, "global") || (is(i + 1, "module") && isSpecifier(i + 2)))
+    ) {
+      syntax.augmentsGlobals = true;
+      continue;
+    }
+
+    if (atStatementStart(i)) {
+      const declaration = parseDeclaration(i);
+      if (declaration.names.length === 0) continue;
+      const statement = statementOf(
+        i,
+        declaration.names.map(({ name }) => name),
+        declaration.items,
+      );
+      for (const { name, index } of declaration.names) {
+        excluded.add(index);
+        syntax.locals.push({
+          name,
+          line: tokens[index].line,
+          kind: declaration.kind,
+          statements: [statement],
+        });
+      }
+    }
+  }
+
+  tokens.forEach((token, index) => {
+    if (
+      token.type === "identifier" &&
+      !excluded.has(index) &&
+      !is(index - 1, ".") &&
+      !is(index - 1, "?.")
+    ) {
+      syntax.references.set(
+        token.value,
+        (syntax.references.get(token.value) ?? 0) + 1,
+      );
+    }
+  });
+
+  // Overloads and merged declarations declare a name more than once; the
+  // first declaration stands for all
+  const exported = new Map<string, ExportedName>();
+  for (const entry of syntax.exports) {
+    const first = exported.get(entry.name);
+    if (first) first.statements.push(...entry.statements);
+    else exported.set(entry.name, entry);
+  }
+  syntax.exports = [...exported.values()];
+  const exportedLocals = new Set(syntax.exports.map((entry) => entry.local));
+  const locals = new Map<string, LocalDeclaration>();
+  for (const local of syntax.locals) {
+    if (exportedLocals.has(local.name)) continue;
+    const first = locals.get(local.name);
+    if (first) first.statements.push(...local.statements);
+    else locals.set(local.name, local);
+  }
+  syntax.locals = [...locals.values()];
+  return syntax;
+}
@@ -9,12 +9,22 @@ export type {
   IndexedSymbol,
   FileSymbols,
   SymbolQuery,
+  SymbolFilter,
+  SymbolFilterField,
+  SymbolPattern,
+  SymbolReferences,
+  FileReferences,
   IndexStats,
   SymbolProvider,
   FileSystem,
   SymbolCache,
   IndexEvent,
 } from "./engine/types.ts";
+export {
+  parseSymbolQuery,
+  compileSymbolFilter,
+  type CompiledSymbolFilter,
+} from "./engine/queryLanguage.ts";
 
 // Diff detection utilities
 export {
@@ -49,6 +59,7 @@ export {
   querySymbols,
   getIndexStats,
   updateIndexIncremental,
+  indexReferences,
 } from "./mcp/IndexerAdapter.ts";
 export type { IndexerDeps } from "./mcp/IndexerAdapter.ts";
 
@@ -94,3 +105,50 @@ export {
   parseImports,
 } from "./providers/symbolResolver.ts";
 export type { ExternalLibraryConfig } from "./providers/externalLibraryProvider.ts";
+
+// Module import graph
+export {
+  scanImports,
+  buildModuleGraph,
+  toDependencyGraph,
+  findCycles,
+  computeFanInOut,
+  type ModuleImport,
+  type ModuleEdge,
+  type ModuleNode,
+  type ModuleGraph,
+  type DependencyEdge,
+  type DependencyGraph,
+  type DependencyGraphOptions,
+  type DependencyCycle,
+} from "./graph/moduleGraph.ts";
+export {
+  ModuleResolver,
+  SOURCE_EXTENSIONS,
+  type ResolvedModule,
+} from "./graph/moduleResolver.ts";
+export {
+  scanModuleSyntax,
+  type ImportKind,
+  type ImportBinding,
+  type ImportDeclaration,
+  type ExportedName,
+  type ReExport,
+  type LocalDeclaration,
+  type ModuleSyntax,
+  type Span,
+  type Statement,
+} from "./graph/moduleSyntax.ts";
+export {
+  detectDeadCode,
+  type DeadCodeOptions,
+  type DeadCodeReport,
+  type UnusedExport,
+  type UnusedImport,
+  type UnusedLocal,
+} from "./graph/deadCode.ts";
+export {
+  listDeclarationDeletions,
+  planDeclarationDeletion,
+  type DeclarationDeletion,
+} from "./graph/deadCodeDeletions.ts";
@@ -280,3 +280,35 @@ export async function updateIndexIncremental(
     };
   }
 }
+
+/**
+ * Run the reference indexing pass, recollecting the references the
+ * changes since the last pass may affect
+ */
+export async function indexReferences(
+  rootPath: string,
+  context?: IndexerDeps,
+): Promise<{
+  success: boolean;
+  collected: string[];
+  message?: string;
+}> {
+  const index = getOrCreateIndex(rootPath, context);
+  if (!index) {
+    return {
+      success: false,
+      collected: [],
+      message: "Failed to create index",
+    };
+  }
+
+  try {
+    return { success: true, collected: await index.indexReferences() };
+  } catch (error) {
+    return {
+      success: false,
+      collected: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -186,12 +186,27 @@ export function createToolCapabilityMap(): Map<
   map.set("get_diagnostics", ["diagnosticProvider"]);
   map.set("get_all_diagnostics", ["diagnosticProvider"]);
   map.set("get_document_symbols", ["documentSymbolProvider"]);
+  map.set("replace_symbol_body", ["documentSymbolProvider"]);
+  map.set("insert_before_symbol", ["documentSymbolProvider"]);
+  map.set("insert_after_symbol", ["documentSymbolProvider"]);
   map.set("get_completion", ["completionProvider"]);
   map.set("get_signature_help", ["signatureHelpProvider"]);
   map.set("format_document", ["documentFormattingProvider"]);
+  map.set("lsp_format_range", ["documentRangeFormattingProvider"]);
+  map.set("lsp_check_formatting", ["documentFormattingProvider"]);
   map.set("get_workspace_symbols", ["workspaceSymbolProvider"]);
   map.set("get_code_actions", ["codeActionProvider"]);
+  map.set("lsp_apply_code_action", ["codeActionProvider"]);
+  map.set("lsp_fix_all", ["codeActionProvider"]);
+  map.set("lsp_extract", ["codeActionProvider"]);
+  map.set("change_signature", ["definitionProvider", "referencesProvider"]);
   map.set("rename_symbol", ["renameProvider"]);
+  map.set("lsp_get_call_hierarchy", ["callHierarchyProvider"]);
+  map.set("lsp_get_type_hierarchy", ["typeHierarchyProvider"]);
+  map.set("lsp_get_implementations", ["implementationProvider"]);
+  map.set("lsp_get_type_definitions", ["typeDefinitionProvider"]);
+  map.set("lsp_get_declarations", ["declarationProvider"]);
+  map.set("lsp_get_inlay_hints", ["inlayHintProvider"]);
 
   // Some tools might work with either of multiple capabilities
   // (These need special handling)
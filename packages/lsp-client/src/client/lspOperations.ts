@@ -1,4 +1,4 @@
-import type { LSPClient } from "../protocol/types/index.ts";
+import type { LSPClient } from "../core/client.ts";
 
 /**
  * Options for LSP operations
@@ -80,9 +80,9 @@ export async function withLSPOperation<T>(
   const actualLanguageId = languageId || client.languageId || "plaintext";
   client.openDocument(fileUri, fileContent, actualLanguageId);
 
-  // Wait for LSP to process the document
+  // Wait for LSP to process the document, falling back to waitTime
   if (waitTime > 0) {
-    await new Promise<void>((resolve) => setTimeout(resolve, waitTime));
+    await client.waitForReady(fileUri, waitTime);
   }
 
   // Execute the operation with timeout
@@ -174,9 +174,11 @@ export async function withBatchLSPOperation<T>(
     client.openDocument(fileUri, fileContent, actualLanguageId);
   }
 
-  // Wait for LSP to process all documents
+  // Wait for LSP to process all documents, falling back to waitTime
   if (waitTime > 0) {
-    await new Promise<void>((resolve) => setTimeout(resolve, waitTime));
+    await Promise.all(
+      files.map(({ fileUri }) => client.waitForReady(fileUri, waitTime)),
+    );
   }
 
   // Execute the operation
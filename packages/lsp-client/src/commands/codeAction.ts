@@ -18,6 +18,7 @@ export function createCodeActionCommand(): LSPCommand<
         range: input.range,
         context: {
           diagnostics: input.diagnostics ?? [],
+          ...(input.only && { only: input.only }),
         },
       };
     },
@@ -28,6 +29,23 @@ export function createCodeActionCommand(): LSPCommand<
   };
 }
 
+export function createCodeActionResolveCommand(): LSPCommand<
+  CodeAction,
+  CodeAction
+> {
+  return {
+    method: "codeAction/resolve",
+
+    buildParams(input: CodeAction) {
+      return input;
+    },
+
+    processResponse(response: unknown): CodeAction {
+      return response as CodeAction;
+    },
+  };
+}
+
 // In-source tests using Vitest
 if (import.meta.vitest) {
   const { describe, it, expect } = import.meta.vitest;
@@ -88,6 +106,28 @@ if (import.meta.vitest) {
           },
         });
       });
+
+      it("should request only the given kinds", () => {
+        const range = {
+          start: { line: 0, character: 0 },
+          end: { line: 5, character: 0 },
+        };
+
+        const params = command.buildParams({
+          uri: "file:///test.ts",
+          range,
+          only: ["source.organizeImports"],
+        });
+
+        expect(params).toEqual({
+          textDocument: { uri: "file:///test.ts" },
+          range,
+          context: {
+            diagnostics: [],
+            only: ["source.organizeImports"],
+          },
+        });
+      });
     });
 
     describe("processResponse", () => {
@@ -164,4 +204,18 @@ if (import.meta.vitest) {
       });
     });
   });
+
+  describe("CodeActionResolveCommand", () => {
+    const command = createCodeActionResolveCommand();
+
+    it("should send the action as is", () => {
+      const action: CodeAction = {
+        title: "Extract function",
+        kind: "refactor.extract",
+        data: { id: 1 },
+      };
+      expect(command.method).toBe("codeAction/resolve");
+      expect(command.buildParams(action)).toBe(action);
+    });
+  });
 }
@@ -6,13 +6,11 @@ import type {
 } from "./types.ts";
 import { isLocationLinkArray, locationLinkToLocation } from "./types.ts";
 
-// Factory function that returns an LSPCommand implementation
-export function createDefinitionCommand(): LSPCommand<
-  TextDocumentPositionParams,
-  Location[]
-> {
+function createLocationCommand(
+  method: string,
+): LSPCommand<TextDocumentPositionParams, Location[]> {
   return {
-    method: "textDocument/definition",
+    method,
 
     buildParams(input: TextDocumentPositionParams) {
       return {
@@ -42,6 +40,36 @@ export function createDefinitionCommand(): LSPCommand<
   };
 }
 
+// Factory function that returns an LSPCommand implementation
+export function createDefinitionCommand(): LSPCommand<
+  TextDocumentPositionParams,
+  Location[]
+> {
+  return createLocationCommand("textDocument/definition");
+}
+
+// Implementation, type definition and declaration share the definition response shape
+export function createImplementationCommand(): LSPCommand<
+  TextDocumentPositionParams,
+  Location[]
+> {
+  return createLocationCommand("textDocument/implementation");
+}
+
+export function createTypeDefinitionCommand(): LSPCommand<
+  TextDocumentPositionParams,
+  Location[]
+> {
+  return createLocationCommand("textDocument/typeDefinition");
+}
+
+export function createDeclarationCommand(): LSPCommand<
+  TextDocumentPositionParams,
+  Location[]
+> {
+  return createLocationCommand("textDocument/declaration");
+}
+
 // In-source tests using Vitest
 if (import.meta.vitest) {
   const { describe, it, expect } = import.meta.vitest;
@@ -177,4 +205,50 @@ if (import.meta.vitest) {
       });
     });
   });
+
+  describe("Implementation, type definition and declaration commands", () => {
+    it("should use the matching LSP methods", () => {
+      expect(createImplementationCommand().method).toBe(
+        "textDocument/implementation",
+      );
+      expect(createTypeDefinitionCommand().method).toBe(
+        "textDocument/typeDefinition",
+      );
+      expect(createDeclarationCommand().method).toBe(
+        "textDocument/declaration",
+      );
+    });
+
+    it("should normalize LocationLink responses like definition", () => {
+      const command = createImplementationCommand();
+      const result = command.processResponse([
+        {
+          targetUri: "file:///impl.ts",
+          targetRange: {
+            start: { line: 1, character: 0 },
+            end: { line: 4, character: 1 },
+          },
+          targetSelectionRange: {
+            start: { line: 1, character: 6 },
+            end: { line: 1, character: 10 },
+          },
+        },
+      ]);
+
+      expect(result).toEqual([
+        {
+          uri: "file:///impl.ts",
+          range: {
+            start: { line: 1, character: 6 },
+            end: { line: 1, character: 10 },
+          },
+        },
+      ]);
+    });
+
+    it("should handle null response", () => {
+      expect(createTypeDefinitionCommand().processResponse(null)).toEqual([]);
+      expect(createDeclarationCommand().processResponse(null)).toEqual([]);
+    });
+  });
 }
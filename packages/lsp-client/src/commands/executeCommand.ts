@@ -0,0 +1,41 @@
+import type { ExecuteCommandParams, LSPCommand } from "./types.ts";
+
+export function createExecuteCommandCommand(): LSPCommand<
+  ExecuteCommandParams,
+  unknown
+> {
+  return {
+    method: "workspace/executeCommand",
+
+    buildParams(input: ExecuteCommandParams) {
+      return {
+        command: input.command,
+        arguments: input.arguments ?? [],
+      };
+    },
+
+    processResponse(response: unknown): unknown {
+      return response ?? null;
+    },
+  };
+}
+
+// In-source tests using Vitest
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("ExecuteCommandCommand", () => {
+    const command = createExecuteCommandCommand();
+
+    it("should default to no arguments", () => {
+      expect(command.buildParams({ command: "fix" })).toEqual({
+        command: "fix",
+        arguments: [],
+      });
+    });
+
+    it("should normalize a missing result to null", () => {
+      expect(command.processResponse(undefined)).toBeNull();
+    });
+  });
+}
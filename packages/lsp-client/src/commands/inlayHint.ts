@@ -0,0 +1,78 @@
+import type { InlayHint } from "@internal/types";
+import type { InlayHintParams, InlayHintResult, LSPCommand } from "./types.ts";
+
+export function createInlayHintCommand(): LSPCommand<
+  InlayHintParams,
+  InlayHint[]
+> {
+  return {
+    method: "textDocument/inlayHint",
+
+    buildParams(input: InlayHintParams) {
+      return {
+        textDocument: { uri: input.uri },
+        range: input.range,
+      };
+    },
+
+    processResponse(response: InlayHintResult): InlayHint[] {
+      if (!response) {
+        return [];
+      }
+
+      // Servers are not required to sort hints; callers render them in order
+      return [...response].sort(
+        (a, b) =>
+          a.position.line - b.position.line ||
+          a.position.character - b.position.character,
+      );
+    },
+  };
+}
+
+// In-source tests using Vitest
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("InlayHintCommand", () => {
+    const command = createInlayHintCommand();
+
+    it("should build correct parameters", () => {
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: 10, character: 0 },
+      };
+
+      expect(command.method).toBe("textDocument/inlayHint");
+      expect(command.buildParams({ uri: "file:///test.ts", range })).toEqual({
+        textDocument: { uri: "file:///test.ts" },
+        range,
+      });
+    });
+
+    it("should handle null response", () => {
+      expect(command.processResponse(null)).toEqual([]);
+    });
+
+    it("should sort hints by position", () => {
+      const late: InlayHint = {
+        position: { line: 2, character: 4 },
+        label: ": number",
+      };
+      const early: InlayHint = {
+        position: { line: 0, character: 10 },
+        label: "value:",
+      };
+      const sameLine: InlayHint = {
+        position: { line: 2, character: 1 },
+        label: ": string",
+      };
+
+      expect(command.processResponse([late, early, sameLine])).toEqual([
+        early,
+        sameLine,
+        late,
+      ]);
+    });
+  });
+}
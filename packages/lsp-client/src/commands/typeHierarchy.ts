@@ -0,0 +1,133 @@
+import type {
+  TypeHierarchyItem,
+  TypeHierarchySubtypeParams,
+  TypeHierarchySupertypeParams,
+} from "@internal/types";
+import type {
+  LSPCommand,
+  TextDocumentPositionParams,
+  TypeHierarchyResult,
+} from "./types.ts";
+
+export function createPrepareTypeHierarchyCommand(): LSPCommand<
+  TextDocumentPositionParams,
+  TypeHierarchyItem[]
+> {
+  return {
+    method: "textDocument/prepareTypeHierarchy",
+
+    buildParams(input: TextDocumentPositionParams) {
+      return {
+        textDocument: { uri: input.uri },
+        position: input.position,
+      };
+    },
+
+    processResponse(response: TypeHierarchyResult): TypeHierarchyItem[] {
+      return response ?? [];
+    },
+  };
+}
+
+export function createSupertypesCommand(): LSPCommand<
+  TypeHierarchySupertypeParams,
+  TypeHierarchyItem[]
+> {
+  return {
+    method: "typeHierarchy/supertypes",
+
+    buildParams(input: TypeHierarchySupertypeParams) {
+      return { item: input.item };
+    },
+
+    processResponse(response: TypeHierarchyResult): TypeHierarchyItem[] {
+      return response ?? [];
+    },
+  };
+}
+
+export function createSubtypesCommand(): LSPCommand<
+  TypeHierarchySubtypeParams,
+  TypeHierarchyItem[]
+> {
+  return {
+    method: "typeHierarchy/subtypes",
+
+    buildParams(input: TypeHierarchySubtypeParams) {
+      return { item: input.item };
+    },
+
+    processResponse(response: TypeHierarchyResult): TypeHierarchyItem[] {
+      return response ?? [];
+    },
+  };
+}
+
+// In-source tests using Vitest
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const item: TypeHierarchyItem = {
+    name: "Animal",
+    kind: 11,
+    uri: "file:///test.ts",
+    range: {
+      start: { line: 0, character: 0 },
+      end: { line: 3, character: 1 },
+    },
+    selectionRange: {
+      start: { line: 0, character: 17 },
+      end: { line: 0, character: 23 },
+    },
+  };
+
+  describe("PrepareTypeHierarchyCommand", () => {
+    const command = createPrepareTypeHierarchyCommand();
+
+    it("should build correct parameters", () => {
+      const params = command.buildParams({
+        uri: "file:///test.ts",
+        position: { line: 0, character: 18 },
+      });
+
+      expect(params).toEqual({
+        textDocument: { uri: "file:///test.ts" },
+        position: { line: 0, character: 18 },
+      });
+    });
+
+    it("should handle null response", () => {
+      expect(command.processResponse(null)).toEqual([]);
+    });
+
+    it("should return items as is", () => {
+      expect(command.processResponse([item])).toEqual([item]);
+    });
+  });
+
+  describe("SupertypesCommand", () => {
+    const command = createSupertypesCommand();
+
+    it("should wrap the item in params", () => {
+      expect(command.method).toBe("typeHierarchy/supertypes");
+      expect(command.buildParams({ item })).toEqual({ item });
+    });
+
+    it("should handle null response", () => {
+      expect(command.processResponse(null)).toEqual([]);
+    });
+  });
+
+  describe("SubtypesCommand", () => {
+    const command = createSubtypesCommand();
+
+    it("should wrap the item in params", () => {
+      expect(command.method).toBe("typeHierarchy/subtypes");
+      expect(command.buildParams({ item })).toEqual({ item });
+    });
+
+    it("should return items as is", () => {
+      expect(command.processResponse([item])).toEqual([item]);
+    });
+  });
+}
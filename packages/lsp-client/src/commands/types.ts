@@ -3,12 +3,16 @@
  */
 
 import type {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
   CodeAction,
   Command,
   CompletionItem,
   Diagnostic,
   DocumentSymbol,
   FormattingOptions,
+  InlayHint,
   Location,
   LocationLink,
   MarkupContent,
@@ -17,6 +21,7 @@ import type {
   SignatureHelp,
   SymbolInformation,
   TextEdit,
+  TypeHierarchyItem,
   WorkspaceEdit,
 } from "@internal/types";
 
@@ -71,6 +76,13 @@ export interface CodeActionParams {
   uri: string;
   range: Range;
   diagnostics?: Diagnostic[];
+  /** Only return actions of these kinds */
+  only?: string[];
+}
+
+export interface ExecuteCommandParams {
+  command: string;
+  arguments?: unknown[];
 }
 
 export interface FormattingParams {
@@ -86,6 +98,15 @@ export interface RenameParams extends TextDocumentPositionParams {
   newName: string;
 }
 
+export interface CallHierarchyCallsParams {
+  item: CallHierarchyItem;
+}
+
+export interface InlayHintParams {
+  uri: string;
+  range: Range;
+}
+
 /**
  * Response type helpers
  */
@@ -110,6 +131,11 @@ export type CodeActionResult = (Command | CodeAction)[] | null;
 export type FormattingResult = TextEdit[] | null;
 export type SignatureHelpResult = SignatureHelp | null;
 export type RenameResult = WorkspaceEdit | null;
+export type PrepareCallHierarchyResult = CallHierarchyItem[] | null;
+export type IncomingCallsResult = CallHierarchyIncomingCall[] | null;
+export type OutgoingCallsResult = CallHierarchyOutgoingCall[] | null;
+export type TypeHierarchyResult = TypeHierarchyItem[] | null;
+export type InlayHintResult = InlayHint[] | null;
 
 /**
  * Utility function to convert LocationLink to Location
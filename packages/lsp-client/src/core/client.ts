@@ -20,19 +20,75 @@ import type {
   FormattingOptions,
   PublishDiagnosticsParams,
   ServerCapabilities,
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  TypeHierarchyItem,
+  InlayHint,
 } from "../protocol/types/index.ts";
+import type { FileEvent } from "vscode-languageserver-protocol";
 import type { LSPClientConfig } from "./state.ts";
 import { createInitialState } from "./state.ts";
 import { ConnectionHandler } from "./connection.ts";
 import { LifecycleManager } from "./lifecycle.ts";
 import { DocumentManager } from "../managers/document-manager.ts";
 import { DiagnosticsManager } from "../managers/diagnostics.ts";
+import { ReadinessTracker } from "../managers/readiness.ts";
+import {
+  FileWatcher,
+  reportFileChanges,
+  type FileChangeReporter,
+} from "../managers/file-watcher.ts";
 import { createFeatureCommands } from "../utils/features.ts";
-import { applyWorkspaceEditManually } from "../managers/workspace.ts";
+import {
+  applyWorkspaceEditManually,
+  type WorkspaceFileChange,
+} from "../managers/workspace.ts";
 import { getLanguageIdFromPath } from "../utils/language.ts";
 import { debug } from "../utils/debug.ts";
 import type { IFileSystem, IServerCharacteristics } from "../interfaces.ts";
 import type { ChildProcess } from "child_process";
+import type {
+  ServerRequestHandler,
+  ServerRequestParamsOf,
+} from "./server-requests.ts";
+
+// Request methods servers may register dynamically, by feature name
+const FEATURE_METHODS: Record<string, string> = {
+  hover: "textDocument/hover",
+  completion: "textDocument/completion",
+  definition: "textDocument/definition",
+  implementation: "textDocument/implementation",
+  typeDefinition: "textDocument/typeDefinition",
+  declaration: "textDocument/declaration",
+  references: "textDocument/references",
+  rename: "textDocument/rename",
+  documentSymbol: "textDocument/documentSymbol",
+  workspaceSymbol: "workspace/symbol",
+  codeAction: "textDocument/codeAction",
+  executeCommand: "workspace/executeCommand",
+  formatting: "textDocument/formatting",
+  rangeFormatting: "textDocument/rangeFormatting",
+  signatureHelp: "textDocument/signatureHelp",
+  callHierarchy: "textDocument/prepareCallHierarchy",
+  typeHierarchy: "textDocument/prepareTypeHierarchy",
+  inlayHint: "textDocument/inlayHint",
+};
+
+/**
+ * Arguments passed to the listeners of each client event
+ */
+export interface LSPClientEvents {
+  diagnostics: [params: PublishDiagnosticsParams];
+  restarted: [];
+  restartFailed: [error: Error];
+  progress: [token: string | number, value: unknown];
+  workspaceEdit: [
+    edit: WorkspaceEdit,
+    label: string | undefined,
+    changes: WorkspaceFileChange[],
+  ];
+}
 
 // Internal LSP Client implementation interface
 export interface InternalLSPClient {
@@ -43,6 +99,7 @@ export interface InternalLSPClient {
   // Lifecycle
   start(): Promise<void>;
   stop(): Promise<void>;
+  restart(): Promise<void>;
   isInitialized(): boolean;
   supportsFeature(feature: string): boolean;
 
@@ -51,6 +108,12 @@ export interface InternalLSPClient {
   closeDocument(uri: string): void;
   updateDocument(uri: string, text: string, version: number): void;
   isDocumentOpen(uri: string): boolean;
+  /**
+   * Tell the server about files changed on disk by the caller. Open
+   * documents are resynced; closed ones are reported to the server's
+   * registered file watchers.
+   */
+  notifyFileChanges(changes: FileEvent[]): Promise<void>;
 
   // LSP features
   findReferences(uri: string, position: Position): Promise<Location[]>;
@@ -58,6 +121,9 @@ export interface InternalLSPClient {
     uri: string,
     position: Position,
   ): Promise<Location | Location[] | LocationLink[]>;
+  getImplementation(uri: string, position: Position): Promise<Location[]>;
+  getTypeDefinition(uri: string, position: Position): Promise<Location[]>;
+  getDeclaration(uri: string, position: Position): Promise<Location[]>;
   getHover(uri: string, position: Position): Promise<Hover | null>;
   getDiagnostics(uri: string): Diagnostic[];
   pullDiagnostics(uri: string): Promise<Diagnostic[]>;
@@ -74,8 +140,10 @@ export interface InternalLSPClient {
   getCodeActions(
     uri: string,
     range: Range,
-    context?: { diagnostics?: Diagnostic[] },
+    context?: { diagnostics?: Diagnostic[]; only?: string[] },
   ): Promise<(Command | CodeAction)[]>;
+  resolveCodeAction(action: CodeAction): Promise<CodeAction>;
+  executeCommand(command: string, args?: unknown[]): Promise<unknown>;
   formatDocument(uri: string, options: FormattingOptions): Promise<TextEdit[]>;
   formatRange(
     uri: string,
@@ -92,6 +160,23 @@ export interface InternalLSPClient {
     edit: WorkspaceEdit,
     label?: string,
   ): Promise<{ applied: boolean; failureReason?: string }>;
+  prepareCallHierarchy(
+    uri: string,
+    position: Position,
+  ): Promise<CallHierarchyItem[]>;
+  getIncomingCalls(
+    item: CallHierarchyItem,
+  ): Promise<CallHierarchyIncomingCall[]>;
+  getOutgoingCalls(
+    item: CallHierarchyItem,
+  ): Promise<CallHierarchyOutgoingCall[]>;
+  prepareTypeHierarchy(
+    uri: string,
+    position: Position,
+  ): Promise<TypeHierarchyItem[]>;
+  getSupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]>;
+  getSubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]>;
+  getInlayHints(uri: string, range: Range): Promise<InlayHint[]>;
 
   // Advanced features
   sendRequest<T = unknown>(method: string, params?: unknown): Promise<T>;
@@ -99,8 +184,31 @@ export interface InternalLSPClient {
     event: "diagnostics",
     listener: (params: PublishDiagnosticsParams) => void,
   ): void;
+  on(event: "restarted", listener: () => void): void;
+  on(event: "restartFailed", listener: (error: Error) => void): void;
+  on(
+    event: "progress",
+    listener: (token: string | number, value: unknown) => void,
+  ): void;
+  on(
+    event: "workspaceEdit",
+    listener: (
+      edit: WorkspaceEdit,
+      label: string | undefined,
+      changes: WorkspaceFileChange[],
+    ) => void,
+  ): void;
+  on<E extends keyof LSPClientEvents>(
+    event: E,
+    listener: (...args: LSPClientEvents[E]) => void,
+  ): void;
+  onServerRequest<M extends string>(
+    method: M,
+    handler: ServerRequestHandler<ServerRequestParamsOf<M>>,
+  ): void;
   emit(event: string, ...args: unknown[]): boolean;
   waitForDiagnostics(fileUri: string, timeout?: number): Promise<Diagnostic[]>;
+  waitForReady(uri?: string, fallbackDelay?: number): Promise<boolean>;
   getDiagnosticSupport(): {
     pushDiagnostics: boolean;
     pullDiagnostics: boolean;
@@ -112,10 +220,56 @@ export interface InternalLSPClient {
 export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
   const state = createInitialState(config);
   const connection = new ConnectionHandler(state);
-  const lifecycle = new LifecycleManager(state, connection, config);
+  const readiness = new ReadinessTracker(state);
+  const lifecycle = new LifecycleManager(state, connection, config, readiness);
   const documentManager = new DocumentManager();
   const diagnosticsManager = new DiagnosticsManager(state.eventEmitter);
   const commands = createFeatureCommands();
+  const fileChangeReporter: FileChangeReporter = {
+    sendNotification: connection.sendNotification.bind(connection),
+    updateDocument: (uri, text) =>
+      client.updateDocument(
+        uri,
+        text,
+        (documentManager.getDocumentVersion(uri) ?? 1) + 1,
+      ),
+  };
+  const fileWatcher =
+    config.fileWatcher &&
+    new FileWatcher(
+      state,
+      documentManager,
+      fileChangeReporter,
+      config.fileWatcher,
+    );
+
+  // Inlay hints are off by default for some servers; the preferences that
+  // enable them are only pushed the first time hints are requested
+  let inlayHintSettingsApplied = false;
+  const applyInlayHintSettings = () => {
+    const settings = state.serverCharacteristics?.inlayHintSettings as
+      | Record<string, unknown>
+      | undefined;
+    if (inlayHintSettingsApplied || !settings) return;
+    inlayHintSettingsApplied = true;
+
+    state.workspaceSettings = { ...state.workspaceSettings, ...settings };
+    connection.sendNotification("workspace/didChangeConfiguration", {
+      settings: state.workspaceSettings,
+    });
+  };
+
+  // A restarted server knows nothing about our documents or settings
+  state.eventEmitter.on("restarted", () => {
+    const sendNotification = connection.sendNotification.bind(connection);
+    if (state.workspaceSettings) {
+      sendNotification("workspace/didChangeConfiguration", {
+        settings: state.workspaceSettings,
+      });
+    }
+    const reopened = documentManager.reopenAllDocuments(sendNotification);
+    debug(`[lspClient] Server restarted, reopened ${reopened} documents`);
+  });
 
   // Create the client interface
   const client: InternalLSPClient = {
@@ -124,11 +278,28 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
     fileSystemApi: state.fileSystemApi,
 
     // Lifecycle
-    start: () => lifecycle.start(),
-    stop: () => lifecycle.stop(),
+    start: async () => {
+      await lifecycle.start();
+      // Walking a large workspace must not hold up the first requests
+      fileWatcher
+        ?.start()
+        .catch((error) =>
+          debug(`[lspClient] Failed to start watching files: ${error}`),
+        );
+    },
+    stop: () => {
+      fileWatcher?.stop();
+      return lifecycle.stop();
+    },
+    restart: () => lifecycle.restart(),
     isInitialized: () => state.serverCapabilities !== undefined,
     supportsFeature: (feature: string) => {
       if (!state.serverCapabilities) return false;
+      // Capabilities registered after initialization count as well
+      const method = FEATURE_METHODS[feature];
+      for (const registration of state.dynamicRegistrations.values()) {
+        if (registration.method === method) return true;
+      }
       // Check common LSP capabilities
       const caps = state.serverCapabilities as any;
       switch (feature) {
@@ -138,6 +309,12 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
           return !!caps.completionProvider;
         case "definition":
           return !!caps.definitionProvider;
+        case "implementation":
+          return !!caps.implementationProvider;
+        case "typeDefinition":
+          return !!caps.typeDefinitionProvider;
+        case "declaration":
+          return !!caps.declarationProvider;
         case "references":
           return !!caps.referencesProvider;
         case "rename":
@@ -148,12 +325,22 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
           return !!caps.workspaceSymbolProvider;
         case "codeAction":
           return !!caps.codeActionProvider;
+        case "codeActionResolve":
+          return !!caps.codeActionProvider?.resolveProvider;
+        case "executeCommand":
+          return !!caps.executeCommandProvider;
         case "formatting":
           return !!caps.documentFormattingProvider;
         case "rangeFormatting":
           return !!caps.documentRangeFormattingProvider;
         case "signatureHelp":
           return !!caps.signatureHelpProvider;
+        case "callHierarchy":
+          return !!caps.callHierarchyProvider;
+        case "typeHierarchy":
+          return !!caps.typeHierarchyProvider;
+        case "inlayHint":
+          return !!caps.inlayHintProvider;
         case "diagnostics":
           return true; // Usually always supported
         default:
@@ -165,6 +352,9 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
     openDocument(uri: string, text: string, languageId?: string): void {
       const actualLanguageId =
         languageId || getLanguageIdFromPath(uri) || state.languageId;
+      if (!documentManager.isDocumentOpen(uri)) {
+        readiness.documentChanged(uri);
+      }
       documentManager.openDocument(
         uri,
         text,
@@ -179,9 +369,11 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
         connection.sendNotification.bind(connection),
       );
       diagnosticsManager.clearDiagnostics(uri);
+      readiness.documentClosed(uri);
     },
 
     updateDocument(uri: string, text: string, version: number): void {
+      readiness.documentChanged(uri);
       documentManager.updateDocument(
         uri,
         text,
@@ -194,6 +386,15 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
       return documentManager.isDocumentOpen(uri);
     },
 
+    notifyFileChanges(changes: FileEvent[]): Promise<void> {
+      return reportFileChanges(
+        state,
+        documentManager,
+        fileChangeReporter,
+        changes,
+      );
+    },
+
     // LSP features - delegated to feature modules
     async findReferences(uri: string, position: Position): Promise<Location[]> {
       const params = commands.references.buildParams({
@@ -228,6 +429,39 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
       return commands.definition.processResponse(result);
     },
 
+    async getImplementation(
+      uri: string,
+      position: Position,
+    ): Promise<Location[]> {
+      const params = commands.implementation.buildParams({ uri, position });
+      const result = await connection.sendRequest(
+        commands.implementation.method,
+        params,
+      );
+      return commands.implementation.processResponse(result);
+    },
+
+    async getTypeDefinition(
+      uri: string,
+      position: Position,
+    ): Promise<Location[]> {
+      const params = commands.typeDefinition.buildParams({ uri, position });
+      const result = await connection.sendRequest(
+        commands.typeDefinition.method,
+        params,
+      );
+      return commands.typeDefinition.processResponse(result);
+    },
+
+    async getDeclaration(uri: string, position: Position): Promise<Location[]> {
+      const params = commands.declaration.buildParams({ uri, position });
+      const result = await connection.sendRequest(
+        commands.declaration.method,
+        params,
+      );
+      return commands.declaration.processResponse(result);
+    },
+
     async getHover(uri: string, position: Position): Promise<Hover | null> {
       const params = commands.hover.buildParams({ uri, position });
       const result = await connection.sendRequest(
@@ -319,12 +553,13 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
     async getCodeActions(
       uri: string,
       range: Range,
-      context?: { diagnostics?: Diagnostic[] },
+      context?: { diagnostics?: Diagnostic[]; only?: string[] },
     ): Promise<(Command | CodeAction)[]> {
       const params = commands.codeAction.buildParams({
         uri,
         range,
         diagnostics: context?.diagnostics,
+        only: context?.only,
       });
       const result = await connection.sendRequest(
         commands.codeAction.method,
@@ -333,6 +568,22 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
       return commands.codeAction.processResponse(result);
     },
 
+    async resolveCodeAction(action: CodeAction): Promise<CodeAction> {
+      const result = await connection.sendRequest(
+        commands.codeActionResolve.method,
+        commands.codeActionResolve.buildParams(action),
+      );
+      return commands.codeActionResolve.processResponse(result) ?? action;
+    },
+
+    async executeCommand(command: string, args?: unknown[]): Promise<unknown> {
+      const result = await connection.sendRequest(
+        commands.executeCommand.method,
+        commands.executeCommand.buildParams({ command, arguments: args }),
+      );
+      return commands.executeCommand.processResponse(result);
+    },
+
     async formatDocument(
       uri: string,
       options: FormattingOptions,
@@ -441,16 +692,103 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
       }
     },
 
+    async prepareCallHierarchy(
+      uri: string,
+      position: Position,
+    ): Promise<CallHierarchyItem[]> {
+      const params = commands.prepareCallHierarchy.buildParams({
+        uri,
+        position,
+      });
+      const result = await connection.sendRequest(
+        commands.prepareCallHierarchy.method,
+        params,
+      );
+      return commands.prepareCallHierarchy.processResponse(result);
+    },
+
+    async getIncomingCalls(
+      item: CallHierarchyItem,
+    ): Promise<CallHierarchyIncomingCall[]> {
+      const params = commands.incomingCalls.buildParams({ item });
+      const result = await connection.sendRequest(
+        commands.incomingCalls.method,
+        params,
+      );
+      return commands.incomingCalls.processResponse(result);
+    },
+
+    async getOutgoingCalls(
+      item: CallHierarchyItem,
+    ): Promise<CallHierarchyOutgoingCall[]> {
+      const params = commands.outgoingCalls.buildParams({ item });
+      const result = await connection.sendRequest(
+        commands.outgoingCalls.method,
+        params,
+      );
+      return commands.outgoingCalls.processResponse(result);
+    },
+
+    async prepareTypeHierarchy(
+      uri: string,
+      position: Position,
+    ): Promise<TypeHierarchyItem[]> {
+      const params = commands.prepareTypeHierarchy.buildParams({
+        uri,
+        position,
+      });
+      const result = await connection.sendRequest(
+        commands.prepareTypeHierarchy.method,
+        params,
+      );
+      return commands.prepareTypeHierarchy.processResponse(result);
+    },
+
+    async getSupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]> {
+      const params = commands.supertypes.buildParams({ item });
+      const result = await connection.sendRequest(
+        commands.supertypes.method,
+        params,
+      );
+      return commands.supertypes.processResponse(result);
+    },
+
+    async getSubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]> {
+      const params = commands.subtypes.buildParams({ item });
+      const result = await connection.sendRequest(
+        commands.subtypes.method,
+        params,
+      );
+      return commands.subtypes.processResponse(result);
+    },
+
+    async getInlayHints(uri: string, range: Range): Promise<InlayHint[]> {
+      applyInlayHintSettings();
+      const params = commands.inlayHint.buildParams({ uri, range });
+      const result = await connection.sendRequest(
+        commands.inlayHint.method,
+        params,
+      );
+      return commands.inlayHint.processResponse(result);
+    },
+
     // Advanced features
     sendRequest: connection.sendRequest.bind(connection),
 
-    on(
-      event: "diagnostics",
-      listener: (params: PublishDiagnosticsParams) => void,
+    on<E extends keyof LSPClientEvents>(
+      event: E,
+      listener: (...args: LSPClientEvents[E]) => void,
     ): void {
       state.eventEmitter.on(event, listener);
     },
 
+    onServerRequest<M extends string>(
+      method: M,
+      handler: ServerRequestHandler<ServerRequestParamsOf<M>>,
+    ): void {
+      connection.serverRequests.register(method, handler);
+    },
+
     emit(event: string, ...args: unknown[]): boolean {
       return state.eventEmitter.emit(event, ...args);
     },
@@ -462,6 +800,10 @@ export function createLSPClient(config: LSPClientConfig): InternalLSPClient {
       return diagnosticsManager.waitForDiagnostics(fileUri, timeout);
     },
 
+    waitForReady(uri?: string, fallbackDelay?: number): Promise<boolean> {
+      return readiness.waitForReady(uri, fallbackDelay);
+    },
+
     getDiagnosticSupport(): {
       pushDiagnostics: boolean;
       pullDiagnostics: boolean;
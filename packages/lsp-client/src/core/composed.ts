@@ -0,0 +1,586 @@
+/**
+ * Composed LSP client that fans out to several language servers
+ */
+
+import type {
+  Position,
+  Diagnostic,
+  CompletionItem,
+  SymbolInformation,
+  ServerCapabilities,
+  TypeHierarchyItem,
+  CallHierarchyItem,
+  CodeAction,
+  Command,
+} from "../protocol/types/index.ts";
+import type { InternalLSPClient, LSPClientEvents } from "./client.ts";
+import type {
+  ServerRequestHandler,
+  ServerRequestParamsOf,
+} from "./server-requests.ts";
+
+/**
+ * A language server taking part in a composed client
+ */
+export interface ComposedClientEntry {
+  client: InternalLSPClient;
+  /** Whether documents with this URI belong to the server (e.g. a preset's files globs) */
+  handles: (uri: string) => boolean;
+}
+
+/**
+ * Combine several LSP clients into one that behaves like a single client.
+ *
+ * Document notifications go to every server handling the document, so two
+ * servers for the same language (e.g. pyright and ruff) both see it.
+ * Requests for a single answer go to the first handling server that supports
+ * the feature. Diagnostics, code actions and workspace symbols are merged.
+ * Documents no server claims fall back to the first entry.
+ */
+export function createComposedLspClient(
+  entries: ComposedClientEntry[],
+): InternalLSPClient {
+  if (entries.length === 0) {
+    throw new Error("createComposedLspClient requires at least one client");
+  }
+
+  const primary = entries[0].client;
+  const clients = entries.map((entry) => entry.client);
+  // Completion items must be resolved by the server that produced them
+  const completionOwners = new WeakMap<CompletionItem, InternalLSPClient>();
+  // Likewise for code actions
+  const codeActionOwners = new WeakMap<
+    Command | CodeAction,
+    InternalLSPClient
+  >();
+
+  const clientsFor = (uri: string): InternalLSPClient[] => {
+    const matching = entries
+      .filter((entry) => entry.handles(uri))
+      .map((entry) => entry.client);
+    return matching.length > 0 ? matching : [primary];
+  };
+
+  const clientFor = (uri: string, feature: string): InternalLSPClient => {
+    const candidates = clientsFor(uri);
+    return (
+      candidates.find((client) => client.supportsFeature(feature)) ??
+      candidates[0]
+    );
+  };
+
+  const forEachClient = (
+    targets: InternalLSPClient[],
+    action: (client: InternalLSPClient) => Promise<void>,
+  ) => Promise.all(targets.map(action)).then(() => undefined);
+
+  const composed: InternalLSPClient = {
+    languageId: primary.languageId,
+    rootPath: primary.rootPath,
+    fileSystemApi: primary.fileSystemApi,
+
+    // Lifecycle
+    start: () => forEachClient(clients, (client) => client.start()),
+    stop: () => forEachClient(clients, (client) => client.stop()),
+    restart: () => forEachClient(clients, (client) => client.restart()),
+    isInitialized: () => clients.every((client) => client.isInitialized()),
+    supportsFeature: (feature: string) =>
+      clients.some((client) => client.supportsFeature(feature)),
+
+    // Document management
+    openDocument(uri: string, text: string, languageId?: string): void {
+      for (const client of clientsFor(uri)) {
+        client.openDocument(uri, text, languageId);
+      }
+    },
+
+    closeDocument(uri: string): void {
+      for (const client of clientsFor(uri)) {
+        client.closeDocument(uri);
+      }
+    },
+
+    updateDocument(uri: string, text: string, version: number): void {
+      for (const client of clientsFor(uri)) {
+        client.updateDocument(uri, text, version);
+      }
+    },
+
+    isDocumentOpen: (uri: string) =>
+      clientsFor(uri).some((client) => client.isDocumentOpen(uri)),
+
+    async notifyFileChanges(changes) {
+      const byClient = new Map<InternalLSPClient, typeof changes>();
+      for (const change of changes) {
+        for (const client of clientsFor(change.uri)) {
+          byClient.set(client, [...(byClient.get(client) ?? []), change]);
+        }
+      }
+      for (const [client, clientChanges] of byClient) {
+        await client.notifyFileChanges(clientChanges);
+      }
+    },
+
+    // LSP features
+    findReferences: (uri, position) =>
+      clientFor(uri, "references").findReferences(uri, position),
+    getDefinition: (uri, position) =>
+      clientFor(uri, "definition").getDefinition(uri, position),
+    getImplementation: (uri, position) =>
+      clientFor(uri, "implementation").getImplementation(uri, position),
+    getTypeDefinition: (uri, position) =>
+      clientFor(uri, "typeDefinition").getTypeDefinition(uri, position),
+    getDeclaration: (uri, position) =>
+      clientFor(uri, "declaration").getDeclaration(uri, position),
+    getHover: (uri, position) =>
+      clientFor(uri, "hover").getHover(uri, position),
+
+    getDiagnostics: (uri: string) =>
+      clientsFor(uri).flatMap((client) => client.getDiagnostics(uri)),
+
+    async pullDiagnostics(uri: string): Promise<Diagnostic[]> {
+      const results = await Promise.all(
+        clientsFor(uri).map((client) => client.pullDiagnostics(uri)),
+      );
+      return results.flat();
+    },
+
+    getDocumentSymbols: (uri) =>
+      clientFor(uri, "documentSymbol").getDocumentSymbols(uri),
+
+    async getWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+      const results = await Promise.all(
+        clients
+          .filter((client) => client.supportsFeature("workspaceSymbol"))
+          .map((client) => client.getWorkspaceSymbols(query)),
+      );
+      return results.flat();
+    },
+
+    async getCompletion(
+      uri: string,
+      position: Position,
+    ): Promise<CompletionItem[]> {
+      const client = clientFor(uri, "completion");
+      const items = await client.getCompletion(uri, position);
+      for (const item of items) {
+        completionOwners.set(item, client);
+      }
+      return items;
+    },
+
+    resolveCompletionItem: (item: CompletionItem) =>
+      (completionOwners.get(item) ?? primary).resolveCompletionItem(item),
+
+    getSignatureHelp: (uri, position) =>
+      clientFor(uri, "signatureHelp").getSignatureHelp(uri, position),
+
+    async getCodeActions(uri, range, context) {
+      const results = await Promise.all(
+        clientsFor(uri)
+          .filter((client) => client.supportsFeature("codeAction"))
+          .map(async (client) => {
+            const actions = await client.getCodeActions(uri, range, context);
+            for (const action of actions) codeActionOwners.set(action, client);
+            return actions;
+          }),
+      );
+      return results.flat();
+    },
+
+    async resolveCodeAction(action: CodeAction) {
+      const owner = codeActionOwners.get(action) ?? primary;
+      const resolved = await owner.resolveCodeAction(action);
+      codeActionOwners.set(resolved, owner);
+      return resolved;
+    },
+
+    // Commands run on the server that advertises them
+    executeCommand: (command, args) =>
+      (
+        clients.find((client) =>
+          client
+            .getServerCapabilities()
+            ?.executeCommandProvider?.commands.includes(command),
+        ) ?? primary
+      ).executeCommand(command, args),
+
+    formatDocument: (uri, options) =>
+      clientFor(uri, "formatting").formatDocument(uri, options),
+    formatRange: (uri, range, options) =>
+      clientFor(uri, "rangeFormatting").formatRange(uri, range, options),
+    prepareRename: (uri, position) =>
+      clientFor(uri, "rename").prepareRename(uri, position),
+    rename: (uri, position, newName) =>
+      clientFor(uri, "rename").rename(uri, position, newName),
+
+    // Edits are applied on the client side; any client can do it
+    applyEdit: (edit, label) => primary.applyEdit(edit, label),
+
+    prepareCallHierarchy: (uri, position) =>
+      clientFor(uri, "callHierarchy").prepareCallHierarchy(uri, position),
+    getIncomingCalls: (item: CallHierarchyItem) =>
+      clientFor(item.uri, "callHierarchy").getIncomingCalls(item),
+    getOutgoingCalls: (item: CallHierarchyItem) =>
+      clientFor(item.uri, "callHierarchy").getOutgoingCalls(item),
+    prepareTypeHierarchy: (uri, position) =>
+      clientFor(uri, "typeHierarchy").prepareTypeHierarchy(uri, position),
+    getSupertypes: (item: TypeHierarchyItem) =>
+      clientFor(item.uri, "typeHierarchy").getSupertypes(item),
+    getSubtypes: (item: TypeHierarchyItem) =>
+      clientFor(item.uri, "typeHierarchy").getSubtypes(item),
+    getInlayHints: (uri, range) =>
+      clientFor(uri, "inlayHint").getInlayHints(uri, range),
+
+    // Advanced features
+    sendRequest<T = unknown>(method: string, params?: unknown): Promise<T> {
+      // Route document requests by their URI, everything else to the primary
+      const uri = (params as { textDocument?: { uri?: string } } | undefined)
+        ?.textDocument?.uri;
+      const client = uri ? clientsFor(uri)[0] : primary;
+      return client.sendRequest<T>(method, params);
+    },
+
+    on<E extends keyof LSPClientEvents>(
+      event: E,
+      listener: (...args: LSPClientEvents[E]) => void,
+    ): void {
+      for (const client of clients) {
+        client.on(event, listener);
+      }
+    },
+
+    onServerRequest<M extends string>(
+      method: M,
+      handler: ServerRequestHandler<ServerRequestParamsOf<M>>,
+    ): void {
+      for (const client of clients) {
+        client.onServerRequest(method, handler);
+      }
+    },
+
+    emit(event: string, ...args: unknown[]): boolean {
+      return clients.map((client) => client.emit(event, ...args)).some(Boolean);
+    },
+
+    async waitForDiagnostics(
+      fileUri: string,
+      timeout?: number,
+    ): Promise<Diagnostic[]> {
+      const results = await Promise.allSettled(
+        clientsFor(fileUri).map((client) =>
+          client.waitForDiagnostics(fileUri, timeout),
+        ),
+      );
+      const published = results.filter(
+        (result): result is PromiseFulfilledResult<Diagnostic[]> =>
+          result.status === "fulfilled",
+      );
+      if (published.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      return published.flatMap((result) => result.value);
+    },
+
+    async waitForReady(uri?: string, fallbackDelay?: number): Promise<boolean> {
+      const results = await Promise.all(
+        (uri ? clientsFor(uri) : clients).map((client) =>
+          client.waitForReady(uri, fallbackDelay),
+        ),
+      );
+      return results.every(Boolean);
+    },
+
+    getDiagnosticSupport() {
+      const supports = clients.map((client) => client.getDiagnosticSupport());
+      return {
+        pushDiagnostics: supports.some((support) => support.pushDiagnostics),
+        pullDiagnostics: supports.some((support) => support.pullDiagnostics),
+      };
+    },
+
+    getServerCapabilities(): ServerCapabilities | undefined {
+      const capabilities = clients
+        .map((client) => client.getServerCapabilities())
+        .filter((caps): caps is ServerCapabilities => caps !== undefined);
+      if (capabilities.length === 0) return undefined;
+      // A capability is provided if any server provides it; earlier servers
+      // win when several do, and false or undefined never hides a provider
+      const merged: Record<string, unknown> = {};
+      for (const caps of capabilities) {
+        for (const [key, value] of Object.entries(caps)) {
+          if (value ? !merged[key] : merged[key] === undefined) {
+            merged[key] = value;
+          }
+        }
+      }
+      return merged as ServerCapabilities;
+    },
+  };
+
+  return composed;
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  const diagnostic = (message: string): Diagnostic => ({
+    range: {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 1 },
+    },
+    message,
+  });
+
+  const symbol = (name: string): SymbolInformation => ({
+    name,
+    kind: 12,
+    location: {
+      uri: "file:///project/a.ts",
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 1 },
+      },
+    },
+  });
+
+  function createFakeClient(
+    name: string,
+    features: string[],
+    overrides: Partial<InternalLSPClient> = {},
+  ): InternalLSPClient {
+    return {
+      languageId: name,
+      rootPath: "/project",
+      supportsFeature: (feature: string) => features.includes(feature),
+      openDocument: vi.fn(),
+      getHover: vi.fn(async () => ({ contents: name })),
+      getDiagnostics: () => [diagnostic(name)],
+      getWorkspaceSymbols: async () => [symbol(name)],
+      getCompletion: async () => [{ label: name }],
+      resolveCompletionItem: async (item: CompletionItem) => ({
+        ...item,
+        detail: name,
+      }),
+      getServerCapabilities: () => ({}),
+      ...overrides,
+    } as unknown as InternalLSPClient;
+  }
+
+  const byExtension =
+    (...extensions: string[]) =>
+    (uri: string) =>
+      extensions.some((extension) => uri.endsWith(extension));
+
+  describe("createComposedLspClient", () => {
+    it("should require at least one client", () => {
+      expect(() => createComposedLspClient([])).toThrow(/at least one client/);
+    });
+
+    it("should route requests by file type", async () => {
+      const ts = createFakeClient("typescript", ["hover"]);
+      const py = createFakeClient("pyright", ["hover"]);
+      const client = createComposedLspClient([
+        { client: ts, handles: byExtension(".ts") },
+        { client: py, handles: byExtension(".py") },
+      ]);
+
+      const position = { line: 0, character: 0 };
+      expect(await client.getHover("file:///project/a.py", position)).toEqual({
+        contents: "pyright",
+      });
+      expect(await client.getHover("file:///project/a.ts", position)).toEqual({
+        contents: "typescript",
+      });
+      // Unclaimed files fall back to the first client
+      expect(await client.getHover("file:///project/a.md", position)).toEqual({
+        contents: "typescript",
+      });
+    });
+
+    it("should prefer the handling server that supports the feature", async () => {
+      const pyright = createFakeClient("pyright", ["hover"]);
+      const ruff = createFakeClient("ruff", ["formatting"], {
+        formatDocument: async () => [
+          {
+            range: {
+              start: { line: 0, character: 0 },
+              end: { line: 0, character: 0 },
+            },
+            newText: "ruff",
+          },
+        ],
+      });
+      const client = createComposedLspClient([
+        { client: pyright, handles: byExtension(".py") },
+        { client: ruff, handles: byExtension(".py") },
+      ]);
+
+      const edits = await client.formatDocument("file:///project/a.py", {
+        tabSize: 4,
+        insertSpaces: true,
+      });
+      expect(edits[0].newText).toBe("ruff");
+    });
+
+    it("should open documents on every handling server", () => {
+      const pyright = createFakeClient("pyright", []);
+      const ruff = createFakeClient("ruff", []);
+      const ts = createFakeClient("typescript", []);
+      const client = createComposedLspClient([
+        { client: ts, handles: byExtension(".ts") },
+        { client: pyright, handles: byExtension(".py") },
+        { client: ruff, handles: byExtension(".py") },
+      ]);
+
+      client.openDocument("file:///project/a.py", "x = 1");
+
+      expect(pyright.openDocument).toHaveBeenCalledOnce();
+      expect(ruff.openDocument).toHaveBeenCalledOnce();
+      expect(ts.openDocument).not.toHaveBeenCalled();
+    });
+
+    it("should merge diagnostics of the handling servers", () => {
+      const client = createComposedLspClient([
+        {
+          client: createFakeClient("typescript", []),
+          handles: byExtension(".ts"),
+        },
+        {
+          client: createFakeClient("pyright", []),
+          handles: byExtension(".py"),
+        },
+        { client: createFakeClient("ruff", []), handles: byExtension(".py") },
+      ]);
+
+      const messages = client
+        .getDiagnostics("file:///project/a.py")
+        .map((d) => d.message);
+      expect(messages).toEqual(["pyright", "ruff"]);
+    });
+
+    it("should merge workspace symbols of all servers", async () => {
+      const client = createComposedLspClient([
+        {
+          client: createFakeClient("typescript", ["workspaceSymbol"]),
+          handles: byExtension(".ts"),
+        },
+        {
+          client: createFakeClient("pyright", ["workspaceSymbol"]),
+          handles: byExtension(".py"),
+        },
+        { client: createFakeClient("ruff", []), handles: byExtension(".py") },
+      ]);
+
+      const symbols = await client.getWorkspaceSymbols("");
+      expect(symbols.map((s) => s.name)).toEqual(["typescript", "pyright"]);
+    });
+
+    it("should resolve completion items on the server that produced them", async () => {
+      const client = createComposedLspClient([
+        {
+          client: createFakeClient("typescript", ["completion"]),
+          handles: byExtension(".ts"),
+        },
+        {
+          client: createFakeClient("pyright", ["completion"]),
+          handles: byExtension(".py"),
+        },
+      ]);
+
+      const [item] = await client.getCompletion("file:///project/a.py", {
+        line: 0,
+        character: 0,
+      });
+      expect((await client.resolveCompletionItem(item)).detail).toBe("pyright");
+    });
+
+    it("should resolve code actions and run commands on the owning server", async () => {
+      const fakeWithActions = (name: string) =>
+        createFakeClient(name, ["codeAction"], {
+          getCodeActions: async () => [{ title: name }],
+          resolveCodeAction: async (action: CodeAction) => ({
+            ...action,
+            kind: name,
+          }),
+          executeCommand: async () => name,
+          getServerCapabilities: () => ({
+            executeCommandProvider: { commands: [`${name}.fix`] },
+          }),
+        });
+      const client = createComposedLspClient([
+        { client: fakeWithActions("pyright"), handles: byExtension(".py") },
+        { client: fakeWithActions("ruff"), handles: byExtension(".py") },
+      ]);
+
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      };
+      const [, ruffAction] = await client.getCodeActions(
+        "file:///project/a.py",
+        range,
+      );
+      expect(
+        (await client.resolveCodeAction(ruffAction as CodeAction)).kind,
+      ).toBe("ruff");
+      expect(await client.executeCommand("ruff.fix")).toBe("ruff");
+    });
+
+    it("should prefer earlier servers when merging capabilities", () => {
+      const client = createComposedLspClient([
+        {
+          client: createFakeClient("typescript", [], {
+            getServerCapabilities: () => ({ hoverProvider: true }),
+          }),
+          handles: byExtension(".ts"),
+        },
+        {
+          client: createFakeClient("ruff", [], {
+            getServerCapabilities: () => ({
+              hoverProvider: false,
+              documentFormattingProvider: true,
+            }),
+          }),
+          handles: byExtension(".py"),
+        },
+      ]);
+
+      expect(client.getServerCapabilities()).toEqual({
+        hoverProvider: true,
+        documentFormattingProvider: true,
+      });
+    });
+
+    it("should not let a missing provider hide another server's", () => {
+      const client = createComposedLspClient([
+        {
+          client: createFakeClient("typescript", [], {
+            getServerCapabilities: () => ({
+              hoverProvider: true,
+              documentFormattingProvider: false,
+              codeActionProvider: undefined,
+            }),
+          }),
+          handles: byExtension(".ts"),
+        },
+        {
+          client: createFakeClient("ruff", [], {
+            getServerCapabilities: () => ({
+              hoverProvider: false,
+              documentFormattingProvider: true,
+              codeActionProvider: { resolveProvider: true },
+            }),
+          }),
+          handles: byExtension(".py"),
+        },
+      ]);
+
+      expect(client.getServerCapabilities()).toEqual({
+        hoverProvider: true,
+        documentFormattingProvider: true,
+        codeActionProvider: { resolveProvider: true },
+      });
+    });
+  });
+}
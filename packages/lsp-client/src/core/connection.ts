@@ -14,10 +14,25 @@ import {
   isLSPRequest,
 } from "../protocol/types/index.ts";
 import type { LSPProcessState } from "./state.ts";
+import { LSPServerRestartError } from "./errors.ts";
 import { debug } from "../utils/debug.ts";
+import {
+  ServerRequestRegistry,
+  registerDefaultServerRequestHandlers,
+  type ServerRequestHandler,
+} from "./server-requests.ts";
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
 
 export class ConnectionHandler {
-  constructor(private state: LSPProcessState) {}
+  /** Handlers for requests and notifications sent by the server */
+  readonly serverRequests = new ServerRequestRegistry();
+
+  constructor(private state: LSPProcessState) {
+    registerDefaultServerRequestHandlers(this.serverRequests, state);
+  }
 
   processBuffer(): void {
     while (this.state.buffer.length > 0) {
@@ -28,16 +43,16 @@ export class ConnectionHandler {
           return;
         }
 
-        const header = this.state.buffer.substring(0, headerEnd);
+        const header = this.state.buffer.subarray(0, headerEnd).toString();
         const contentLengthMatch = header.match(/Content-Length: (\d+)/);
         if (!contentLengthMatch) {
           debug("Invalid LSP header:", header);
-          this.state.buffer = this.state.buffer.substring(headerEnd + 4);
+          this.state.buffer = this.state.buffer.subarray(headerEnd + 4);
           continue;
         }
 
         this.state.contentLength = parseInt(contentLengthMatch[1], 10);
-        this.state.buffer = this.state.buffer.substring(headerEnd + 4);
+        this.state.buffer = this.state.buffer.subarray(headerEnd + 4);
       }
 
       if (this.state.buffer.length < this.state.contentLength) {
@@ -45,11 +60,11 @@ export class ConnectionHandler {
         return;
       }
 
-      const messageBody = this.state.buffer.substring(
-        0,
-        this.state.contentLength,
-      );
-      this.state.buffer = this.state.buffer.substring(this.state.contentLength);
+      // Content-Length counts bytes, not characters
+      const messageBody = this.state.buffer
+        .subarray(0, this.state.contentLength)
+        .toString("utf-8");
+      this.state.buffer = this.state.buffer.subarray(this.state.contentLength);
       this.state.contentLength = -1;
 
       try {
@@ -100,49 +115,76 @@ export class ConnectionHandler {
   private handleNotificationOrRequest(
     message: LSPNotification | LSPRequest,
   ): void {
-    // Handle diagnostics notification
-    if (
-      message.method === "textDocument/publishDiagnostics" &&
-      message.params
-    ) {
-      const params = message.params as any;
-      if (params?.uri && params?.diagnostics) {
-        const validDiagnostics = params.diagnostics.filter(
-          (d: any) => d && d.range,
-        );
-        this.state.diagnostics.set(params.uri, validDiagnostics);
-        this.state.eventEmitter.emit("diagnostics", {
-          ...params,
-          diagnostics: validDiagnostics,
-        });
-      }
-    }
+    const handler = this.serverRequests.get(message.method);
 
-    // Handle workspace/configuration request
-    if (
-      isLSPRequest(message) &&
-      message.method === "workspace/configuration" &&
-      message.params
-    ) {
-      const params = message.params as { items: Array<{ section?: string }> };
-      const configurations = params.items.map((item) => {
-        if (item.section === "deno") {
-          return {
-            enable: true,
-            lint: true,
-            unstable: true,
-          };
-        }
-        return {};
-      });
-      this.sendResponse((message as LSPRequest).id, configurations);
+    if (isLSPRequest(message)) {
+      void this.handleServerRequest(message as LSPRequest, handler);
+    } else if (handler) {
+      void this.handleServerNotification(message, handler);
     }
 
     this.state.eventEmitter.emit("message", message);
   }
 
+  private async handleServerNotification(
+    message: LSPNotification,
+    handler: ServerRequestHandler,
+  ): Promise<void> {
+    try {
+      await handler(message.params);
+    } catch (error) {
+      debug(`[LSP notification] ${message.method} handler failed:`, error);
+    }
+  }
+
+  /**
+   * Run the registered handler and reply; unknown methods get a
+   * MethodNotFound error so the server does not wait forever
+   */
+  private async handleServerRequest(
+    message: LSPRequest,
+    handler: ServerRequestHandler | undefined,
+  ): Promise<void> {
+    let response: LSPResponse;
+    if (!handler) {
+      debug(`[LSP request] No handler for server request ${message.method}`);
+      response = {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: METHOD_NOT_FOUND,
+          message: `Unhandled method ${message.method}`,
+        },
+      };
+    } else {
+      try {
+        const result = await handler(message.params);
+        response = { jsonrpc: "2.0", id: message.id, result: result ?? null };
+      } catch (error) {
+        response = {
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: INTERNAL_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    }
+
+    try {
+      this.sendMessage(response);
+    } catch (error) {
+      // The server went away while the request was being handled
+      debug(`[LSP request] Could not reply to ${message.method}:`, error);
+    }
+  }
+
   sendMessage(message: LSPMessage): void {
     if (!this.state.process) {
+      if (this.state.restarting) {
+        throw new LSPServerRestartError("LSP server is restarting");
+      }
       throw new Error("LSP server not started");
     }
     const content = JSON.stringify(message);
@@ -156,6 +198,15 @@ export class ConnectionHandler {
     timeout: number = 30000,
   ): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (!this.state.process && this.state.restarting) {
+        reject(
+          new LSPServerRestartError(
+            `LSP server is restarting; retry ${method} shortly`,
+          ),
+        );
+        return;
+      }
+
       const id = ++this.state.messageId;
       const request: LSPRequest = {
         jsonrpc: "2.0",
@@ -174,6 +225,19 @@ export class ConnectionHandler {
     });
   }
 
+  /**
+   * Reject every request still waiting for a response
+   */
+  rejectPendingRequests(error: Error): void {
+    for (const [id, handler] of this.state.responseHandlers) {
+      if (handler.timer) {
+        clearTimeout(handler.timer);
+      }
+      this.state.responseHandlers.delete(id);
+      handler.reject(error);
+    }
+  }
+
   sendNotification(method: string, params?: unknown): void {
     const notification: LSPNotification = {
       jsonrpc: "2.0",
@@ -182,13 +246,4 @@ export class ConnectionHandler {
     };
     this.sendMessage(notification);
   }
-
-  private sendResponse(id: number | string, result: unknown): void {
-    const response: LSPResponse = {
-      jsonrpc: "2.0",
-      id,
-      result,
-    };
-    this.sendMessage(response);
-  }
 }
@@ -0,0 +1,23 @@
+/**
+ * LSP client error types
+ */
+
+/**
+ * Raised for requests interrupted by a language server crash or restart.
+ * The request did not fail on its own and can be retried once the server is back.
+ */
+export class LSPServerRestartError extends Error {
+  readonly retryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "LSPServerRestartError";
+  }
+}
+
+/**
+ * Check whether an error was caused by a server crash or restart
+ */
+export function isRetryableLSPError(error: unknown): boolean {
+  return error instanceof LSPServerRestartError;
+}
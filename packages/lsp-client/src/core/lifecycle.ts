@@ -9,14 +9,29 @@ import type {
 } from "../protocol/types/index.ts";
 import type { LSPProcessState, LSPClientConfig } from "./state.ts";
 import type { ConnectionHandler } from "./connection.ts";
+import type { ReadinessTracker } from "../managers/readiness.ts";
+import { LSPServerRestartError } from "./errors.ts";
 import { debug, formatError } from "../utils/debug.ts";
 import { getServerCharacteristics } from "../utils/helpers.ts";
 
+// Restart policy defaults, overridable through serverCharacteristics
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_RESTART_BACKOFF = 1000;
+// A server that stayed up this long gets its restart budget back
+const STABLE_UPTIME = 60_000;
+
 export class LifecycleManager {
+  private stopping = false;
+  // Bumped on stop() so that pending automatic restarts are abandoned
+  private generation = 0;
+  private restartAttempts = 0;
+  private startedAt = 0;
+
   constructor(
     private state: LSPProcessState,
     private connection: ConnectionHandler,
     private config: LSPClientConfig,
+    private readiness: ReadinessTracker,
   ) {}
 
   async initialize(): Promise<void> {
@@ -72,7 +87,40 @@ export class LifecycleManager {
           definition: {
             linkSupport: true,
           },
+          implementation: {
+            linkSupport: true,
+          },
+          typeDefinition: {
+            linkSupport: true,
+          },
+          declaration: {
+            linkSupport: true,
+          },
           references: {},
+          codeAction: {
+            dynamicRegistration: false,
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: [
+                  "",
+                  "quickfix",
+                  "refactor",
+                  "refactor.extract",
+                  "refactor.inline",
+                  "refactor.rewrite",
+                  "source",
+                  "source.organizeImports",
+                  "source.fixAll",
+                ],
+              },
+            },
+            isPreferredSupport: true,
+            disabledSupport: true,
+            dataSupport: true,
+            resolveSupport: {
+              properties: ["edit"],
+            },
+          },
           hover: {
             contentFormat: ["markdown", "plaintext"],
           },
@@ -84,10 +132,46 @@ export class LifecycleManager {
           documentSymbol: {
             hierarchicalDocumentSymbolSupport: true,
           },
+          callHierarchy: {
+            dynamicRegistration: false,
+          },
+          typeHierarchy: {
+            dynamicRegistration: false,
+          },
+          inlayHint: {
+            dynamicRegistration: false,
+          },
+          formatting: {
+            dynamicRegistration: true,
+          },
+          rangeFormatting: {
+            dynamicRegistration: true,
+          },
         },
         workspace: {
           workspaceFolders: true,
           configuration: true,
+          applyEdit: true,
+          executeCommand: {
+            dynamicRegistration: false,
+          },
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: ["create", "rename", "delete"],
+          },
+          ...(this.config.fileWatcher && {
+            didChangeWatchedFiles: {
+              dynamicRegistration: true,
+              relativePatternSupport: true,
+            },
+          }),
+        },
+        window: {
+          workDoneProgress: true,
+          showMessage: {},
+          showDocument: {
+            support: false,
+          },
         },
       },
       initializationOptions: this.config.initializationOptions,
@@ -100,9 +184,12 @@ export class LifecycleManager {
       this.state.serverCharacteristics,
     );
 
-    // Simply wait for the server to be ready based on its characteristics
-    await new Promise((resolve) =>
-      setTimeout(resolve, characteristics.readinessCheckTimeout),
+    // Servers reporting progress while loading the project are ready when
+    // it ends; the timeout bounds the wait, also for servers reporting nothing
+    await this.readiness.waitForReady(
+      undefined,
+      characteristics.readinessCheckTimeout,
+      characteristics.readinessCheckTimeout,
     );
   }
 
@@ -111,14 +198,17 @@ export class LifecycleManager {
       throw new Error("No process provided to LSP client");
     }
 
+    const serverProcess = this.state.process;
     let stderrBuffer = "";
     let processExitPromise: Promise<void> | null = null;
 
     // Create a promise that rejects if the process exits unexpectedly
     processExitPromise = new Promise<void>((resolve, reject) => {
       // If the process exits during initialization, reject the promise
-      this.state.process!.once("exit", (code) => {
-        this.state.process = null;
+      serverProcess.once("exit", (code) => {
+        if (this.state.process === serverProcess) {
+          this.state.process = null;
+        }
 
         if (code !== 0 && code !== null) {
           const stderr = stderrBuffer.trim();
@@ -132,18 +222,20 @@ export class LifecycleManager {
         }
       });
 
-      this.state.process!.once("error", (error) => {
-        this.state.process = null;
+      serverProcess.once("error", (error) => {
+        if (this.state.process === serverProcess) {
+          this.state.process = null;
+        }
         reject(new Error(`LSP server process error: ${error.message}`));
       });
     });
 
-    this.state.process.stdout?.on("data", (data: Buffer) => {
-      this.state.buffer += data.toString();
+    serverProcess.stdout?.on("data", (data: Buffer) => {
+      this.state.buffer = Buffer.concat([this.state.buffer, data]);
       this.connection.processBuffer();
     });
 
-    this.state.process.stderr?.on("data", (data: Buffer) => {
+    serverProcess.stderr?.on("data", (data: Buffer) => {
       stderrBuffer += data.toString();
       // Log stderr in real-time for debugging
       const lines = data
@@ -160,18 +252,22 @@ export class LifecycleManager {
       await Promise.race([this.initialize(), processExitPromise]);
 
       // If initialization succeeded, remove the exit handlers
-      // and add a new one that just logs the exit
-      this.state.process?.removeAllListeners("exit");
-      this.state.process?.removeAllListeners("error");
+      // and supervise the process from now on
+      serverProcess.removeAllListeners("exit");
+      serverProcess.removeAllListeners("error");
+      this.startedAt = Date.now();
 
-      this.state.process?.on("exit", (code) => {
+      serverProcess.on("exit", (code, signal) => {
+        // Ignore processes that have already been replaced or stopped
+        if (this.state.process !== serverProcess) return;
         this.state.process = null;
         if (code !== 0 && code !== null) {
           debug(`[LSP] Server exited with code ${code}`);
         }
+        this.handleUnexpectedExit(code !== null ? `code ${code}` : `${signal}`);
       });
 
-      this.state.process?.on("error", (error) => {
+      serverProcess.on("error", (error) => {
         debug(`[LSP] Server error: ${error.message}`);
       });
     } catch (error) {
@@ -193,6 +289,10 @@ export class LifecycleManager {
   }
 
   async stop(): Promise<void> {
+    this.stopping = true;
+    this.generation++;
+    this.state.restarting = false;
+
     if (this.state.process) {
       // Send shutdown request
       try {
@@ -216,6 +316,123 @@ export class LifecycleManager {
     }
   }
 
+  /**
+   * Stop the current server (if any) and start a fresh one.
+   * Requires a spawnProcess factory in the client config.
+   */
+  async restart(): Promise<void> {
+    if (!this.config.spawnProcess) {
+      throw new Error(
+        "Cannot restart the LSP server: the client was created without a spawnProcess factory",
+      );
+    }
+
+    this.connection.rejectPendingRequests(
+      new LSPServerRestartError("LSP server is restarting"),
+    );
+    await this.stop();
+
+    this.restartAttempts = 0;
+    this.state.restarting = true;
+    try {
+      await this.respawn();
+    } finally {
+      this.state.restarting = false;
+    }
+  }
+
+  private getRestartPolicy(): { maxRestarts: number; restartBackoff: number } {
+    return {
+      maxRestarts:
+        this.state.serverCharacteristics?.maxRestarts ?? DEFAULT_MAX_RESTARTS,
+      restartBackoff:
+        this.state.serverCharacteristics?.restartBackoff ??
+        DEFAULT_RESTART_BACKOFF,
+    };
+  }
+
+  private handleUnexpectedExit(reason: string): void {
+    if (this.stopping) return;
+
+    const canRestart = !!this.config.spawnProcess;
+    this.state.restarting = canRestart;
+    this.connection.rejectPendingRequests(
+      canRestart
+        ? new LSPServerRestartError(
+            `LSP server exited unexpectedly (${reason}) and is being restarted; retry the request`,
+          )
+        : new Error(`LSP server exited unexpectedly (${reason})`),
+    );
+
+    if (!canRestart) {
+      this.state.eventEmitter.emit(
+        "restartFailed",
+        new Error(`LSP server exited unexpectedly (${reason})`),
+      );
+      return;
+    }
+
+    if (Date.now() - this.startedAt > STABLE_UPTIME) {
+      this.restartAttempts = 0;
+    }
+    void this.restartWithBackoff();
+  }
+
+  /**
+   * Respawn a crashed server, doubling the delay after every failed attempt
+   */
+  private async restartWithBackoff(): Promise<void> {
+    const generation = this.generation;
+    const { maxRestarts, restartBackoff } = this.getRestartPolicy();
+
+    while (this.restartAttempts < maxRestarts) {
+      const delay = restartBackoff * 2 ** this.restartAttempts;
+      this.restartAttempts++;
+      debug(
+        `[LSP] Restarting server in ${delay}ms (attempt ${this.restartAttempts}/${maxRestarts})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (generation !== this.generation) return;
+
+      try {
+        await this.respawn();
+        return;
+      } catch (error) {
+        this.state.process = null;
+        debug(
+          `[LSP] Restart attempt ${this.restartAttempts} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+
+    this.state.restarting = false;
+    this.state.eventEmitter.emit(
+      "restartFailed",
+      new Error(
+        `LSP server could not be restarted after ${maxRestarts} attempts`,
+      ),
+    );
+  }
+
+  private async respawn(): Promise<void> {
+    this.stopping = false;
+    this.state.process = this.config.spawnProcess!();
+    this.state.buffer = Buffer.alloc(0);
+    this.state.contentLength = -1;
+    // Progress and registrations belonged to the old server
+    this.state.progress.clear();
+    this.state.dynamicRegistrations.clear();
+    this.readiness.reset();
+
+    await this.start();
+
+    this.state.restarting = false;
+    this.state.eventEmitter.emit("restarted");
+  }
+
   getServerCapabilities(): ServerCapabilities | undefined {
     return this.state.serverCapabilities;
   }
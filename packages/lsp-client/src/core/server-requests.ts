@@ -0,0 +1,382 @@
+/**
+ * Handlers for requests and notifications initiated by the language server
+ */
+
+import type {
+  ApplyWorkspaceEditParams,
+  ApplyWorkspaceEditResult,
+  ConfigurationParams,
+  ProgressToken,
+  RegistrationParams,
+  ShowDocumentParams,
+  ShowMessageRequestParams,
+  UnregistrationParams,
+  WorkDoneProgressBegin,
+  WorkDoneProgressCreateParams,
+  WorkDoneProgressEnd,
+  WorkDoneProgressReport,
+} from "vscode-languageserver-protocol";
+import type { PublishDiagnosticsParams } from "../protocol/types/index.ts";
+import type { LSPProcessState } from "./state.ts";
+import { applyWorkspaceEditManually } from "../managers/workspace.ts";
+import { debug } from "../utils/debug.ts";
+
+/**
+ * Handles one server-initiated method. For requests the return value is sent
+ * back as the result; a thrown error is sent back as an error response.
+ */
+export type ServerRequestHandler<P = unknown> = (
+  params: P,
+) => unknown | Promise<unknown>;
+
+/**
+ * Params of the server-initiated methods the client knows about
+ */
+export interface ServerRequestParams {
+  "textDocument/publishDiagnostics": PublishDiagnosticsParams;
+  "workspace/configuration": ConfigurationParams;
+  "workspace/workspaceFolders": null;
+  "workspace/applyEdit": ApplyWorkspaceEditParams;
+  "window/workDoneProgress/create": WorkDoneProgressCreateParams;
+  "$/progress": { token: ProgressToken; value: unknown };
+  "client/registerCapability": RegistrationParams;
+  "client/unregisterCapability": UnregistrationParams;
+  "window/showMessageRequest": ShowMessageRequestParams;
+  "window/showDocument": ShowDocumentParams;
+}
+
+/**
+ * Params a handler of the method receives; unknown for other methods, so
+ * their handlers narrow the params themselves
+ */
+export type ServerRequestParamsOf<M extends string> =
+  M extends keyof ServerRequestParams ? ServerRequestParams[M] : unknown;
+
+/**
+ * A work done progress reported by the server
+ */
+export interface WorkDoneProgressState {
+  token: ProgressToken;
+  title?: string;
+  message?: string;
+  percentage?: number;
+  /** False until the server sends the "begin" notification */
+  active: boolean;
+}
+
+/**
+ * A capability registered at runtime with client/registerCapability
+ */
+export interface DynamicRegistration {
+  id: string;
+  method: string;
+  registerOptions?: unknown;
+}
+
+/**
+ * Pluggable table of handlers for server-initiated requests and notifications
+ */
+export class ServerRequestRegistry {
+  private handlers = new Map<string, ServerRequestHandler>();
+
+  /**
+   * Register a handler, replacing any existing one for the method
+   */
+  register<M extends string>(
+    method: M,
+    handler: ServerRequestHandler<ServerRequestParamsOf<M>>,
+  ): void {
+    // Params arrive from the server as sent, typed by their method
+    this.handlers.set(method, handler as ServerRequestHandler);
+  }
+
+  unregister(method: string): void {
+    this.handlers.delete(method);
+  }
+
+  get(method: string): ServerRequestHandler | undefined {
+    return this.handlers.get(method);
+  }
+
+  has(method: string): boolean {
+    return this.handlers.has(method);
+  }
+}
+
+/**
+ * Resolve a dotted configuration section (e.g. "typescript.inlayHints")
+ */
+function lookupSection(
+  settings: Record<string, unknown> | undefined,
+  section: string | undefined,
+): unknown {
+  if (!settings || !section) return undefined;
+  let current: unknown = settings;
+  for (const key of section.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Register the built-in handlers. They can be replaced per method afterwards.
+ */
+export function registerDefaultServerRequestHandlers(
+  registry: ServerRequestRegistry,
+  state: LSPProcessState,
+): void {
+  registry.register("textDocument/publishDiagnostics", (params) => {
+    if (!params?.uri || !params?.diagnostics) return;
+    const validDiagnostics = params.diagnostics.filter((d) => d && d.range);
+    state.diagnostics.set(params.uri, validDiagnostics);
+    state.eventEmitter.emit("diagnostics", {
+      ...params,
+      diagnostics: validDiagnostics,
+    });
+  });
+
+  registry.register("workspace/configuration", (params) =>
+    params.items.map((item) => {
+      const configured = lookupSection(state.workspaceSettings, item.section);
+      if (configured !== undefined) {
+        return configured;
+      }
+      if (item.section === "deno") {
+        return {
+          enable: true,
+          lint: true,
+          unstable: true,
+        };
+      }
+      return {};
+    }),
+  );
+
+  registry.register("workspace/workspaceFolders", () => [
+    {
+      uri: `file://${state.rootPath}`,
+      name: state.rootPath.split("/").pop() || "workspace",
+    },
+  ]);
+
+  // Servers send edits back while executing commands (e.g. code action fixes)
+  registry.register(
+    "workspace/applyEdit",
+    async (params): Promise<ApplyWorkspaceEditResult> => {
+      try {
+        const changes = await applyWorkspaceEditManually(
+          params.edit,
+          state.fileSystemApi,
+        );
+        state.eventEmitter.emit(
+          "workspaceEdit",
+          params.edit,
+          params.label,
+          changes,
+        );
+        return { applied: true };
+      } catch (error) {
+        return {
+          applied: false,
+          failureReason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  );
+
+  registry.register("window/workDoneProgress/create", (params) => {
+    state.progress.set(params.token, { token: params.token, active: false });
+    return null;
+  });
+
+  registry.register("$/progress", (params) => {
+    const value = params.value as
+      | WorkDoneProgressBegin
+      | WorkDoneProgressReport
+      | WorkDoneProgressEnd
+      | undefined;
+    if (!value?.kind) return;
+
+    const current: WorkDoneProgressState = state.progress.get(params.token) ?? {
+      token: params.token,
+      active: false,
+    };
+    if (value.kind === "end") {
+      state.progress.delete(params.token);
+    } else {
+      state.progress.set(params.token, {
+        ...current,
+        ...(value.kind === "begin" ? { title: value.title } : {}),
+        message: value.message ?? current.message,
+        percentage: value.percentage ?? current.percentage,
+        active: true,
+      });
+    }
+    state.eventEmitter.emit("progress", params.token, value);
+  });
+
+  registry.register("client/registerCapability", (params) => {
+    for (const registration of params.registrations) {
+      state.dynamicRegistrations.set(registration.id, {
+        id: registration.id,
+        method: registration.method,
+        registerOptions: registration.registerOptions,
+      });
+    }
+    return null;
+  });
+
+  registry.register("client/unregisterCapability", (params) => {
+    // The protocol spells the field "unregisterations"
+    for (const unregistration of params.unregisterations) {
+      state.dynamicRegistrations.delete(unregistration.id);
+    }
+    return null;
+  });
+
+  // Nobody is around to pick an action, so the message is dismissed
+  registry.register("window/showMessageRequest", (params) => {
+    debug(`[LSP showMessageRequest] ${params.message}`);
+    return null;
+  });
+
+  registry.register("window/showDocument", () => ({ success: false }));
+
+  // typescript-language-server asks the editor to start renaming the symbol
+  // a refactoring just extracted; the refactoring itself already succeeded
+  registry.register("_typescript.rename", () => null);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { createInitialState } = await import("./state.ts");
+
+  function createRegistry() {
+    const files = new Map<string, string>();
+    const state = createInitialState({
+      process: null as never,
+      rootPath: "/project",
+      fileSystemApi: {
+        readFile: async (path: string) => files.get(path) ?? "",
+        writeFile: async (path: string, data: string | Buffer) => {
+          files.set(path, data.toString());
+        },
+      } as any,
+    });
+    const registry = new ServerRequestRegistry();
+    registerDefaultServerRequestHandlers(registry, state);
+    const call = (method: string, params?: unknown) =>
+      registry.get(method)!(params);
+    return { state, registry, call, files };
+  }
+
+  describe("ServerRequestRegistry", () => {
+    it("should replace handlers per method", () => {
+      const { registry, call } = createRegistry();
+      registry.register("window/showMessageRequest", () => ({ title: "Yes" }));
+      expect(
+        call("window/showMessageRequest", { type: 3, message: "Install?" }),
+      ).toEqual({ title: "Yes" });
+    });
+
+    it("should apply workspace edits through the file system API", async () => {
+      const { call, files, state } = createRegistry();
+      files.set("/project/a.ts", "const a = 1;");
+      const edits: unknown[] = [];
+      const changes: unknown[] = [];
+      state.eventEmitter.on("workspaceEdit", (edit, _label, fileChanges) => {
+        edits.push(edit);
+        changes.push(...fileChanges);
+      });
+
+      const result = await call("workspace/applyEdit", {
+        edit: {
+          changes: {
+            "file:///project/a.ts": [
+              {
+                range: {
+                  start: { line: 0, character: 6 },
+                  end: { line: 0, character: 7 },
+                },
+                newText: "b",
+              },
+            ],
+          },
+        },
+      });
+
+      expect(result).toEqual({ applied: true });
+      expect(files.get("/project/a.ts")).toBe("const b = 1;");
+      expect(edits).toHaveLength(1);
+      expect(changes).toEqual([
+        {
+          filePath: "/project/a.ts",
+          before: "const a = 1;",
+          after: "const b = 1;",
+        },
+      ]);
+    });
+
+    it("should track work done progress until it ends", () => {
+      const { call, state } = createRegistry();
+
+      call("window/workDoneProgress/create", { token: "index" });
+      expect(state.progress.get("index")?.active).toBe(false);
+
+      call("$/progress", {
+        token: "index",
+        value: { kind: "begin", title: "Indexing", percentage: 0 },
+      });
+      call("$/progress", {
+        token: "index",
+        value: { kind: "report", message: "3/10", percentage: 30 },
+      });
+      expect(state.progress.get("index")).toEqual({
+        token: "index",
+        title: "Indexing",
+        message: "3/10",
+        percentage: 30,
+        active: true,
+      });
+
+      call("$/progress", { token: "index", value: { kind: "end" } });
+      expect(state.progress.has("index")).toBe(false);
+    });
+
+    it("should record dynamic registrations", () => {
+      const { call, state } = createRegistry();
+
+      call("client/registerCapability", {
+        registrations: [
+          { id: "1", method: "textDocument/formatting" },
+          { id: "2", method: "workspace/didChangeWatchedFiles" },
+        ],
+      });
+      call("client/unregisterCapability", {
+        unregisterations: [
+          { id: "2", method: "workspace/didChangeWatchedFiles" },
+        ],
+      });
+
+      expect([...state.dynamicRegistrations.values()]).toEqual([
+        {
+          id: "1",
+          method: "textDocument/formatting",
+          registerOptions: undefined,
+        },
+      ]);
+    });
+
+    it("should serve configuration sections from workspace settings", () => {
+      const { call, state } = createRegistry();
+      state.workspaceSettings = { typescript: { inlayHints: { enabled: 1 } } };
+
+      expect(
+        call("workspace/configuration", {
+          items: [{ section: "typescript.inlayHints" }, { section: "other" }],
+        }),
+      ).toEqual([{ enabled: 1 }, {}]);
+    });
+  });
+}
@@ -10,6 +10,11 @@ import type {
   DocumentUri,
 } from "../protocol/types/index.ts";
 import type { IFileSystem } from "../interfaces.ts";
+import type {
+  DynamicRegistration,
+  WorkDoneProgressState,
+} from "./server-requests.ts";
+import type { FileWatcherOptions } from "../managers/file-watcher.ts";
 import { nodeFileSystemApi } from "../utils/filesystem.ts";
 
 export interface LSPProcessState {
@@ -23,7 +28,7 @@ export interface LSPProcessState {
       timer?: NodeJS.Timeout;
     }
   >;
-  buffer: string;
+  buffer: Buffer;
   contentLength: number;
   diagnostics: Map<DocumentUri, Diagnostic[]>;
   eventEmitter: EventEmitter;
@@ -32,6 +37,14 @@ export interface LSPProcessState {
   serverCharacteristics?: Record<string, any>;
   fileSystemApi: IFileSystem;
   serverCapabilities?: ServerCapabilities;
+  /** Settings served for workspace/configuration requests, keyed by section */
+  workspaceSettings?: Record<string, unknown>;
+  /** True while a crashed server is being restarted */
+  restarting: boolean;
+  /** Work done progress the server is currently reporting, keyed by token */
+  progress: Map<string | number, WorkDoneProgressState>;
+  /** Capabilities registered with client/registerCapability, keyed by id */
+  dynamicRegistrations: Map<string, DynamicRegistration>;
 }
 
 export interface LSPClientConfig {
@@ -43,6 +56,10 @@ export interface LSPClientConfig {
   clientName?: string;
   clientVersion?: string;
   initializationOptions?: Record<string, unknown>;
+  /** Spawns a replacement server process; enables automatic crash recovery */
+  spawnProcess?: () => ChildProcess;
+  /** Watches the workspace and reports file changes to the server */
+  fileWatcher?: FileWatcherOptions;
 }
 
 export function createInitialState(config: LSPClientConfig): LSPProcessState {
@@ -50,7 +67,7 @@ export function createInitialState(config: LSPClientConfig): LSPProcessState {
     process: config.process,
     messageId: 0,
     responseHandlers: new Map(),
-    buffer: "",
+    buffer: Buffer.alloc(0),
     contentLength: -1,
     diagnostics: new Map(),
     eventEmitter: new EventEmitter(),
@@ -58,6 +75,9 @@ export function createInitialState(config: LSPClientConfig): LSPProcessState {
     languageId: config.languageId || "plaintext",
     serverCharacteristics: config.serverCharacteristics,
     fileSystemApi: config.fileSystemApi || createDefaultFileSystemApi(),
+    restarting: false,
+    progress: new Map(),
+    dynamicRegistrations: new Map(),
   };
 }
 
@@ -11,12 +11,29 @@ export {
   createLSPClient,
   createAndInitializeLSPClient,
   type LSPClient,
+  type LSPClientEvents,
 } from "./core/client.ts";
+export {
+  createComposedLspClient,
+  type ComposedClientEntry,
+} from "./core/composed.ts";
 
 export type {
   LSPClientConfig,
   LSPProcessState as LSPClientState,
 } from "./core/state.ts";
+export type {
+  ServerRequestHandler,
+  ServerRequestParams,
+  WorkDoneProgressState,
+  DynamicRegistration,
+} from "./core/server-requests.ts";
+export type { FileWatcherOptions } from "./managers/file-watcher.ts";
+export type { WorkspaceFileChange } from "./managers/workspace.ts";
+export {
+  LSPServerRestartError,
+  isRetryableLSPError,
+} from "./core/errors.ts";
 
 // ============================================================================
 // Essential Protocol Types
@@ -40,6 +57,11 @@ export type {
   Command,
   FormattingOptions,
   ServerCapabilities,
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  TypeHierarchyItem,
+  InlayHint,
 } from "./protocol/types/index.ts";
 
 // Export enums and additional types from vscode-languageserver-protocol
@@ -58,6 +80,7 @@ export {
 // Language Support
 // ============================================================================
 export { getLanguageIdFromPath } from "./client/context.ts";
+export { fixFSharpSymbolPositions } from "./utils/fsharp-position-fix.ts";
 
 // ============================================================================
 // Symbol Provider (for code-indexer integration)
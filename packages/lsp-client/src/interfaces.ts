@@ -34,6 +34,12 @@ export interface IServerCharacteristics {
   operationTimeout: number;
   supportsIncrementalSync?: boolean;
   supportsPullDiagnostics?: boolean;
+  /** Workspace settings that enable inlay hints, applied on first request */
+  inlayHintSettings?: Record<string, unknown>;
+  /** Automatic restarts allowed after crashes before giving up */
+  maxRestarts?: number;
+  /** Delay before the first restart attempt (ms), doubled for each retry */
+  restartBackoff?: number;
 }
 
 export interface IServerCharacteristicsProvider {
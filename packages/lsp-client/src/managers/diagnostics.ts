@@ -21,6 +21,10 @@ export class DiagnosticsManager {
 
   constructor(eventEmitter: EventEmitter) {
     this.eventEmitter = eventEmitter;
+    // Pushed diagnostics arrive through the server request handlers
+    eventEmitter.on("diagnostics", (params: PublishDiagnosticsParams) => {
+      this.diagnostics.set(params.uri, params.diagnostics || []);
+    });
   }
 
   /**
@@ -32,7 +36,6 @@ export class DiagnosticsManager {
       count: params.diagnostics?.length || 0,
     });
 
-    this.diagnostics.set(params.uri, params.diagnostics || []);
     this.eventEmitter.emit("diagnostics", params);
   }
 
@@ -142,3 +145,30 @@ export class DiagnosticsManager {
     }
   }
 }
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("DiagnosticsManager", () => {
+    it("should store diagnostics published through the event emitter", () => {
+      const emitter = new EventEmitter();
+      const manager = new DiagnosticsManager(emitter);
+      const diagnostic = {
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 1 },
+        },
+        message: "Cannot find name 'x'.",
+      };
+
+      emitter.emit("diagnostics", {
+        uri: "file:///a.ts",
+        diagnostics: [diagnostic],
+      });
+
+      expect(manager.getDiagnostics("file:///a.ts")).toEqual([diagnostic]);
+      manager.clearDiagnostics("file:///a.ts");
+      expect(manager.getDiagnostics("file:///a.ts")).toEqual([]);
+    });
+  });
+}
@@ -12,6 +12,10 @@ import type {
 export class DocumentManager {
   private openDocuments = new Set<string>();
   private documentVersions = new Map<string, number>();
+  private documentContents = new Map<
+    string,
+    { text: string; languageId: string }
+  >();
 
   /**
    * Open a document in the LSP server
@@ -38,6 +42,10 @@ export class DocumentManager {
     sendNotification("textDocument/didOpen", params);
     this.openDocuments.add(uri);
     this.documentVersions.set(uri, 1);
+    this.documentContents.set(uri, {
+      text: content,
+      languageId: params.textDocument.languageId,
+    });
   }
 
   /**
@@ -58,6 +66,7 @@ export class DocumentManager {
     sendNotification("textDocument/didClose", params);
     this.openDocuments.delete(uri);
     this.documentVersions.delete(uri);
+    this.documentContents.delete(uri);
   }
 
   /**
@@ -86,6 +95,36 @@ export class DocumentManager {
 
     sendNotification("textDocument/didChange", params);
     this.documentVersions.set(uri, newVersion);
+    const existing = this.documentContents.get(uri);
+    if (existing) {
+      this.documentContents.set(uri, { ...existing, text: content });
+    }
+  }
+
+  /**
+   * Re-send didOpen for every tracked document, e.g. after a server restart.
+   * Returns the number of reopened documents.
+   */
+  reopenAllDocuments(
+    sendNotification: (method: string, params: unknown) => void,
+  ): number {
+    let reopened = 0;
+    for (const uri of this.openDocuments) {
+      const content = this.documentContents.get(uri);
+      if (!content) continue;
+
+      const params: DidOpenTextDocumentParams = {
+        textDocument: {
+          uri,
+          languageId: content.languageId,
+          version: this.documentVersions.get(uri) ?? 1,
+          text: content.text,
+        },
+      };
+      sendNotification("textDocument/didOpen", params);
+      reopened++;
+    }
+    return reopened;
   }
 
   /**
@@ -113,6 +152,13 @@ export class DocumentManager {
     }
   }
 
+  /**
+   * Get the text last sent to the server for a document
+   */
+  getDocumentContent(uri: string): string | undefined {
+    return this.documentContents.get(uri)?.text;
+  }
+
   /**
    * Get document version
    */
@@ -0,0 +1,335 @@
+/**
+ * Workspace file watching for workspace/didChangeWatchedFiles
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { readdir, stat } from "fs/promises";
+import { basename, join, relative, sep } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Minimatch } from "minimatch";
+import type {
+  DidChangeWatchedFilesRegistrationOptions,
+  FileEvent,
+  FileSystemWatcher,
+} from "vscode-languageserver-protocol";
+import type { LSPProcessState } from "../core/state.ts";
+import type { DocumentManager } from "./document-manager.ts";
+import { debug } from "../utils/debug.ts";
+
+// FileChangeType values sent to the server
+const CREATED = 1;
+const CHANGED = 2;
+const DELETED = 3;
+
+// WatchKind bits a watcher subscribes to, indexed by FileChangeType
+const WATCH_KIND: Record<number, number> = {
+  [CREATED]: 1,
+  [CHANGED]: 2,
+  [DELETED]: 4,
+};
+
+const DEFAULT_DEBOUNCE = 100;
+
+// Never worth watching, whatever the ignore rules say
+const ALWAYS_IGNORED = new Set([".git", "node_modules"]);
+
+export interface FileWatcherOptions {
+  /**
+   * Paths to skip, e.g. gitignored files. Ignored directories are not watched.
+   */
+  isIgnored?: (filePath: string) => boolean | Promise<boolean>;
+  /** Batch changes arriving within this many milliseconds */
+  debounce?: number;
+}
+
+/**
+ * What reporting file changes needs from the client
+ */
+export interface FileChangeReporter {
+  sendNotification: (method: string, params: unknown) => void;
+  updateDocument: (uri: string, text: string) => void;
+}
+
+/**
+ * Watches the workspace for changes made outside the client, reports them
+ * to the server through its registered watchers and resyncs open documents.
+ */
+export class FileWatcher {
+  private watchers = new Map<string, FSWatcher>();
+  private pending = new Map<string, "rename" | "change">();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private state: LSPProcessState,
+    private documents: DocumentManager,
+    private client: FileChangeReporter,
+    private options: FileWatcherOptions = {},
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await this.watchDirectory(this.state.rootPath);
+    debug(`[lspClient] Watching ${this.watchers.size} directories`);
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.pending.clear();
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+  }
+
+  private async isIgnored(filePath: string): Promise<boolean> {
+    if (ALWAYS_IGNORED.has(basename(filePath))) return true;
+    if (filePath === this.state.rootPath) return false;
+    return (await this.options.isIgnored?.(filePath)) ?? false;
+  }
+
+  private async watchDirectory(dir: string): Promise<void> {
+    if (!this.running || this.watchers.has(dir) || (await this.isIgnored(dir)))
+      return;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+      // The walk runs in the background and may outlive stop()
+      if (!this.running) return;
+      const watcher = watch(dir, (event, filename) => {
+        if (filename) this.enqueue(join(dir, filename.toString()), event);
+      });
+      watcher.on("error", () => this.unwatch(dir));
+      this.watchers.set(dir, watcher);
+    } catch (error) {
+      debug(`[lspClient] Cannot watch ${dir}: ${error}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) await this.watchDirectory(join(dir, entry.name));
+    }
+  }
+
+  private unwatch(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private enqueue(filePath: string, event: "rename" | "change"): void {
+    // A rename (create, delete or atomic save) outweighs a plain change
+    if (this.pending.get(filePath) !== "rename") {
+      this.pending.set(filePath, event);
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => void this.flush(),
+      this.options.debounce ?? DEFAULT_DEBOUNCE,
+    );
+  }
+
+  private async flush(): Promise<void> {
+    const pending = [...this.pending];
+    this.pending.clear();
+
+    const changes: FileEvent[] = [];
+    for (const [filePath, event] of pending) {
+      if (await this.isIgnored(filePath)) continue;
+      const stats = await stat(filePath).catch(() => undefined);
+      if (stats?.isDirectory()) {
+        await this.watchDirectory(filePath);
+      } else if (!stats) {
+        this.unwatch(filePath);
+      }
+      const type = !stats ? DELETED : event === "rename" ? CREATED : CHANGED;
+      changes.push({ uri: pathToFileURL(filePath).toString(), type });
+    }
+    if (!this.running || changes.length === 0) return;
+
+    try {
+      await reportFileChanges(this.state, this.documents, this.client, changes);
+    } catch (error) {
+      // The server may be restarting; it rereads the files when it comes back
+      debug(`[lspClient] Failed to report file changes: ${error}`);
+    }
+  }
+}
+
+/**
+ * Report files changed on disk: open documents are resynced with their disk
+ * content and the server is notified of the changes its registered watchers
+ * cover
+ */
+export async function reportFileChanges(
+  state: LSPProcessState,
+  documents: DocumentManager,
+  client: FileChangeReporter,
+  changes: FileEvent[],
+): Promise<void> {
+  await resyncOpenDocuments(state, documents, client, changes);
+  const watchers = getRegisteredWatchers(state);
+  const watched = changes.filter((change) =>
+    watchers.some((watcher) => matchesWatcher(watcher, change, state.rootPath)),
+  );
+  if (watched.length > 0) {
+    client.sendNotification("workspace/didChangeWatchedFiles", {
+      changes: watched,
+    });
+  }
+}
+
+/**
+ * Push the disk content of changed files that are open in the server
+ */
+async function resyncOpenDocuments(
+  state: LSPProcessState,
+  documents: DocumentManager,
+  client: FileChangeReporter,
+  changes: FileEvent[],
+): Promise<void> {
+  for (const change of changes) {
+    if (change.type === DELETED) continue;
+    const current = documents.getDocumentContent(change.uri);
+    if (current === undefined) continue;
+
+    const text = await state.fileSystemApi
+      .readFile(fileURLToPath(change.uri))
+      .catch(() => undefined);
+    if (text !== undefined && text !== current) {
+      debug(`[lspClient] Resyncing ${change.uri} with its disk content`);
+      client.updateDocument(change.uri, text);
+    }
+  }
+}
+
+function getRegisteredWatchers(state: LSPProcessState): FileSystemWatcher[] {
+  const watchers: FileSystemWatcher[] = [];
+  for (const registration of state.dynamicRegistrations.values()) {
+    if (registration.method !== "workspace/didChangeWatchedFiles") continue;
+    const options =
+      registration.registerOptions as DidChangeWatchedFilesRegistrationOptions;
+    watchers.push(...(options?.watchers ?? []));
+  }
+  return watchers;
+}
+
+// Patterns of the registered watchers, compiled on their first event
+const compiledPatterns = new WeakMap<FileSystemWatcher, Minimatch>();
+
+function compiledPattern(watcher: FileSystemWatcher): Minimatch {
+  let pattern = compiledPatterns.get(watcher);
+  if (!pattern) {
+    pattern = new Minimatch(
+      typeof watcher.globPattern === "string"
+        ? watcher.globPattern
+        : watcher.globPattern.pattern,
+      { dot: true },
+    );
+    compiledPatterns.set(watcher, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Whether a file event is covered by a watcher registered by the server
+ */
+function matchesWatcher(
+  watcher: FileSystemWatcher,
+  change: FileEvent,
+  rootPath: string,
+): boolean {
+  if (((watcher.kind ?? 7) & WATCH_KIND[change.type]) === 0) return false;
+
+  const filePath = fileURLToPath(change.uri).replace(/\\/g, "/");
+  const pattern = compiledPattern(watcher);
+  if (typeof watcher.globPattern === "string") {
+    // Plain patterns may be absolute or relative to the workspace
+    return (
+      pattern.match(filePath) ||
+      pattern.match(relative(rootPath, filePath).replace(/\\/g, "/"))
+    );
+  }
+
+  const { baseUri } = watcher.globPattern;
+  const base = fileURLToPath(
+    typeof baseUri === "string" ? baseUri : baseUri.uri,
+  );
+  const relativePath = relative(base, filePath).replace(/\\/g, "/");
+  return !relativePath.startsWith("..") && pattern.match(relativePath);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("matchesWatcher", () => {
+    const change = (path: string, type: number): FileEvent =>
+      ({ uri: pathToFileURL(path).toString(), type }) as FileEvent;
+
+    it("should match plain patterns against workspace relative paths", () => {
+      const watcher = { globPattern: "src/**/*.ts" };
+      expect(
+        matchesWatcher(
+          watcher,
+          change("/project/src/a/b.ts", CHANGED),
+          "/project",
+        ),
+      ).toBe(true);
+      expect(
+        matchesWatcher(
+          watcher,
+          change("/project/lib/b.ts", CHANGED),
+          "/project",
+        ),
+      ).toBe(false);
+    });
+
+    it("should match relative patterns against their base", () => {
+      const watcher = {
+        globPattern: { baseUri: "file:///project/lib", pattern: "*.json" },
+      };
+      expect(
+        matchesWatcher(
+          watcher,
+          change("/project/lib/a.json", CREATED),
+          "/project",
+        ),
+      ).toBe(true);
+      expect(
+        matchesWatcher(watcher, change("/project/a.json", CREATED), "/project"),
+      ).toBe(false);
+    });
+
+    it("should support groups, single stars and character ranges", () => {
+      const matches = (globPattern: string, path: string) =>
+        matchesWatcher({ globPattern }, change(path, CHANGED), "/project");
+
+      expect(matches("**/*.{ts,tsx}", "/project/src/a.tsx")).toBe(true);
+      expect(matches("**/*.{ts,tsx}", "/project/src/a.js")).toBe(false);
+      expect(matches("src/*.ts", "/project/src/nested/a.ts")).toBe(false);
+      expect(matches("file[0-9].ts", "/project/file1.ts")).toBe(true);
+      expect(matches("file[!0-9].ts", "/project/file1.ts")).toBe(false);
+      expect(matches("a.ts", "/project/abts")).toBe(false);
+    });
+
+    it("should compile the pattern of a watcher once", () => {
+      const watcher = { globPattern: "**/*.ts" };
+      expect(compiledPattern(watcher)).toBe(compiledPattern(watcher));
+    });
+
+    it("should honour the watch kind", () => {
+      // WatchKind.Delete only
+      const watcher = { globPattern: "**/*.ts", kind: 4 };
+      expect(
+        matchesWatcher(watcher, change("/project/a.ts", CHANGED), "/project"),
+      ).toBe(false);
+      expect(
+        matchesWatcher(watcher, change("/project/a.ts", DELETED), "/project"),
+      ).toBe(true);
+    });
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Server readiness tracking
+ */
+
+import type { PublishDiagnosticsParams } from "../protocol/types/index.ts";
+import type { LSPProcessState } from "../core/state.ts";
+import { debug } from "../utils/debug.ts";
+
+// Upper bound for waiting on work done progress (e.g. project indexing)
+const DEFAULT_MAX_BUSY_WAIT = 30000;
+
+/**
+ * Decides when the server is idle from the signals it sends: work done
+ * progress begin/end and diagnostics published for opened documents.
+ *
+ * Servers that never send either signal cost the fixed delay instead.
+ */
+export class ReadinessTracker {
+  // Sequence numbers order document changes and diagnostics publication
+  private sequence = 0;
+  private changedAt = new Map<string, number>();
+  private publishedAt = new Map<string, number>();
+  private reportsProgress = false;
+  private pushesDiagnostics = false;
+
+  constructor(private state: LSPProcessState) {
+    state.eventEmitter.on("progress", () => {
+      this.reportsProgress = true;
+    });
+    state.eventEmitter.on("diagnostics", (params: PublishDiagnosticsParams) => {
+      this.pushesDiagnostics = true;
+      this.publishedAt.set(params.uri, ++this.sequence);
+    });
+  }
+
+  /**
+   * Record that a document was opened or changed
+   */
+  documentChanged(uri: string): void {
+    this.changedAt.set(uri, ++this.sequence);
+  }
+
+  documentClosed(uri: string): void {
+    this.changedAt.delete(uri);
+    this.publishedAt.delete(uri);
+  }
+
+  /**
+   * Forget the signals of a server that was replaced by a new process
+   */
+  reset(): void {
+    this.reportsProgress = false;
+    this.pushesDiagnostics = false;
+    this.publishedAt.clear();
+  }
+
+  /**
+   * Whether progress has begun and not ended. Tokens created with
+   * window/workDoneProgress/create but never begun do not count.
+   */
+  private isBusy(): boolean {
+    for (const progress of this.state.progress.values()) {
+      if (progress.active) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether the server finished its work, including the given document
+   */
+  isReady(uri?: string): boolean {
+    if (this.isBusy()) return false;
+    // Servers offering pull diagnostics may never push any; until they do,
+    // they are judged by their progress alone
+    const awaitDiagnostics =
+      this.pushesDiagnostics ||
+      !this.state.serverCapabilities?.diagnosticProvider;
+    if (uri && awaitDiagnostics && this.changedAt.has(uri)) {
+      return (this.publishedAt.get(uri) ?? 0) > this.changedAt.get(uri)!;
+    }
+    return true;
+  }
+
+  /**
+   * Wait until the server is idle. Without a document, a server that has
+   * not sent any signal yet (e.g. right after initialization) is waited for
+   * until its first progress ends or it publishes diagnostics.
+   *
+   * @param uri Document whose diagnostics mark it as processed
+   * @param fallbackDelay Longest wait for signals that may never come
+   * @param maxBusyWait Longest wait for running progress, the operation
+   *   timeout by default
+   * @returns true if the server signalled readiness, false on fallback
+   */
+  async waitForReady(
+    uri?: string,
+    fallbackDelay = 500,
+    maxBusyWait = this.state.serverCharacteristics?.operationTimeout ??
+      DEFAULT_MAX_BUSY_WAIT,
+  ): Promise<boolean> {
+    const awaitSignal =
+      !uri && !this.reportsProgress && !this.pushesDiagnostics;
+    if (!awaitSignal && this.isReady(uri)) return true;
+
+    const emitter = this.state.eventEmitter;
+
+    return new Promise<boolean>((resolve) => {
+      const timers: NodeJS.Timeout[] = [];
+      let fallbackElapsed = false;
+      const finish = (ready: boolean) => {
+        for (const timer of timers) clearTimeout(timer);
+        emitter.off("progress", check);
+        emitter.off("diagnostics", check);
+        resolve(ready);
+      };
+      // Runs after the tracker's own listeners, so the state is up to date
+      const check = () => {
+        if (this.isReady(uri)) {
+          finish(true);
+        } else if (fallbackElapsed && !this.isBusy()) {
+          // Past the fallback delay only the running progress was awaited
+          finish(true);
+        }
+      };
+
+      emitter.on("progress", check);
+      emitter.on("diagnostics", check);
+
+      // Missing diagnostics only cost the fallback delay, but running
+      // progress (e.g. indexing a large project) is worth waiting longer for
+      timers.push(
+        setTimeout(() => {
+          fallbackElapsed = true;
+          if (!this.isBusy()) finish(false);
+        }, fallbackDelay),
+        setTimeout(() => {
+          debug(`[lspClient] Server still busy after ${maxBusyWait}ms`);
+          finish(false);
+        }, maxBusyWait),
+      );
+    });
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { createInitialState } = await import("../core/state.ts");
+
+  const uri = "file:///project/a.ts";
+
+  function createTracker() {
+    const state = createInitialState({
+      process: null as never,
+      rootPath: "/project",
+    });
+    const tracker = new ReadinessTracker(state);
+    const publish = () =>
+      state.eventEmitter.emit("diagnostics", { uri, diagnostics: [] });
+    const created = (token: string) =>
+      state.progress.set(token, { token, active: false });
+    const progress = (kind: "begin" | "end") => {
+      if (kind === "begin") {
+        state.progress.set("index", { token: "index", active: true });
+      } else {
+        state.progress.delete("index");
+      }
+      state.eventEmitter.emit("progress", "index", { kind });
+    };
+    return { state, tracker, publish, created, progress };
+  }
+
+  describe("ReadinessTracker", () => {
+    it("should fall back to the delay when the server sends no signals", async () => {
+      const { tracker } = createTracker();
+      tracker.documentChanged(uri);
+      const start = Date.now();
+
+      expect(await tracker.waitForReady(uri, 50)).toBe(false);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it("should not wait for diagnostics a pull diagnostics server never pushes", async () => {
+      const { state, tracker } = createTracker();
+      state.serverCapabilities = {
+        diagnosticProvider: {
+          interFileDependencies: false,
+          workspaceDiagnostics: false,
+        },
+      };
+      tracker.documentChanged(uri);
+
+      expect(await tracker.waitForReady(uri, 1000)).toBe(true);
+    });
+
+    it("should wait for diagnostics of a changed document", async () => {
+      const { tracker, publish } = createTracker();
+      publish();
+      tracker.documentChanged(uri);
+      expect(tracker.isReady(uri)).toBe(false);
+
+      const ready = tracker.waitForReady(uri, 1000);
+      setTimeout(publish, 10);
+
+      expect(await ready).toBe(true);
+      expect(tracker.isReady(uri)).toBe(true);
+    });
+
+    it("should keep waiting while progress is running", async () => {
+      const { tracker, progress } = createTracker();
+      progress("begin");
+
+      const ready = tracker.waitForReady(undefined, 20);
+      setTimeout(() => progress("end"), 60);
+
+      expect(await ready).toBe(true);
+    });
+
+    it("should not wait for progress created but never begun", async () => {
+      const { tracker, publish, created } = createTracker();
+      publish();
+      created("lost");
+
+      expect(tracker.isReady()).toBe(true);
+      expect(tracker.isReady(uri)).toBe(true);
+      const start = Date.now();
+      expect(await tracker.waitForReady(uri, 1000)).toBe(true);
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+
+    it("should wait for the first progress of a server without signals yet", async () => {
+      const { tracker, progress } = createTracker();
+
+      const ready = tracker.waitForReady(undefined, 1000);
+      setTimeout(() => progress("begin"), 10);
+      setTimeout(() => progress("end"), 30);
+      const start = Date.now();
+
+      expect(await ready).toBe(true);
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+
+    it("should give up on missing diagnostics after the delay", async () => {
+      const { tracker, publish } = createTracker();
+      publish();
+      tracker.documentChanged(uri);
+
+      expect(await tracker.waitForReady(uri, 30)).toBe(false);
+    });
+
+    it("should stop waiting for progress after the busy bound", async () => {
+      const { tracker, progress } = createTracker();
+      progress("begin");
+      const start = Date.now();
+
+      expect(await tracker.waitForReady(undefined, 20, 50)).toBe(false);
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+  });
+}
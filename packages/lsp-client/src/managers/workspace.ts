@@ -2,35 +2,166 @@
  * Workspace edit management
  */
 
-import type { WorkspaceEdit } from "../protocol/types/index.ts";
+import { fileURLToPath } from "url";
+import type {
+  CreateFile,
+  DeleteFile,
+  RenameFile,
+} from "vscode-languageserver-protocol";
+import type { TextEdit, WorkspaceEdit } from "../protocol/types/index.ts";
 import type { IFileSystem } from "../interfaces.ts";
 import { applyTextEdits } from "../utils/textEdits.ts";
 
-export async function applyWorkspaceEditManually(
-  edit: WorkspaceEdit,
+function uriToPath(uri: string): string {
+  return uri.startsWith("file://") ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * Content of a file before and after a workspace edit, null where the file
+ * does not exist
+ */
+export interface WorkspaceFileChange {
+  filePath: string;
+  before: string | null;
+  after: string | null;
+}
+
+type ChangeTracker = Map<string, WorkspaceFileChange>;
+
+/**
+ * Remember the new content of a file, keeping the content it had before the
+ * first operation touching it
+ */
+function track(
+  changes: ChangeTracker,
+  filePath: string,
+  before: string | null,
+  after: string | null,
+): void {
+  const existing = changes.get(filePath);
+  changes.set(filePath, {
+    filePath,
+    before: existing ? existing.before : before,
+    after,
+  });
+}
+
+async function readIfExists(
+  filePath: string,
   fileSystemApi: IFileSystem,
+): Promise<string | null> {
+  if (!(await fileSystemApi.exists(filePath))) return null;
+  return fileSystemApi.readFile(filePath);
+}
+
+async function applyEditsToFile(
+  uri: string,
+  edits: TextEdit[],
+  fileSystemApi: IFileSystem,
+  changes: ChangeTracker,
 ): Promise<void> {
-  if (!edit.changes) {
+  if (!edits || edits.length === 0) {
     return;
   }
 
-  for (const [uri, edits] of Object.entries(edit.changes)) {
-    if (!edits || edits.length === 0) {
-      continue;
-    }
-
-    // Convert file:// URI to file path
-    const filePath = uri.startsWith("file://") ? uri.slice(7) : uri;
+  const filePath = uriToPath(uri);
+  const currentContent = await fileSystemApi.readFile(filePath);
+  const newContent = applyTextEdits(currentContent, edits);
+  await fileSystemApi.writeFile(filePath, newContent);
+  track(changes, filePath, currentContent, newContent);
+}
 
-    // Read current content
-    const currentContent = await fileSystemApi.readFile(filePath);
+/**
+ * Apply a create, rename or delete file operation
+ */
+async function applyResourceOperation(
+  operation: CreateFile | RenameFile | DeleteFile,
+  fileSystemApi: IFileSystem,
+  changes: ChangeTracker,
+): Promise<void> {
+  switch (operation.kind) {
+    case "create": {
+      const filePath = uriToPath(operation.uri);
+      const before = await readIfExists(filePath, fileSystemApi);
+      if (before !== null) {
+        if (operation.options?.ignoreIfExists) return;
+        if (!operation.options?.overwrite) {
+          throw new Error(`File already exists: ${filePath}`);
+        }
+      }
+      await fileSystemApi.writeFile(filePath, "");
+      track(changes, filePath, before, "");
+      return;
+    }
+    case "rename": {
+      const oldPath = uriToPath(operation.oldUri);
+      const newPath = uriToPath(operation.newUri);
+      const replaced = await readIfExists(newPath, fileSystemApi);
+      if (replaced !== null) {
+        if (operation.options?.ignoreIfExists) return;
+        if (!operation.options?.overwrite) {
+          throw new Error(`File already exists: ${newPath}`);
+        }
+      }
+      const content = await fileSystemApi.readFile(oldPath);
+      await fileSystemApi.writeFile(newPath, content);
+      await fileSystemApi.rm(oldPath);
+      track(changes, newPath, replaced, content);
+      track(changes, oldPath, content, null);
+      return;
+    }
+    case "delete": {
+      const filePath = uriToPath(operation.uri);
+      if (!(await fileSystemApi.exists(filePath))) {
+        if (operation.options?.ignoreIfNotExists) return;
+        throw new Error(`File does not exist: ${filePath}`);
+      }
+      // Directories have no content to restore
+      const before = await fileSystemApi
+        .readFile(filePath)
+        .catch(() => undefined);
+      await fileSystemApi.rm(filePath, {
+        recursive: operation.options?.recursive,
+      });
+      if (before !== undefined) track(changes, filePath, before, null);
+      return;
+    }
+  }
+}
 
-    // Apply edits
-    const newContent = applyTextEdits(currentContent, edits);
+/**
+ * Apply a workspace edit through the file system API.
+ * Returns the content of every changed file before and after the edit.
+ */
+export async function applyWorkspaceEditManually(
+  edit: WorkspaceEdit,
+  fileSystemApi: IFileSystem,
+): Promise<WorkspaceFileChange[]> {
+  const changes: ChangeTracker = new Map();
 
-    // Write back
-    await fileSystemApi.writeFile(filePath, newContent);
+  // documentChanges takes precedence over changes when both are present
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ("kind" in change) {
+        await applyResourceOperation(change, fileSystemApi, changes);
+      } else {
+        await applyEditsToFile(
+          change.textDocument.uri,
+          change.edits as TextEdit[],
+          fileSystemApi,
+          changes,
+        );
+      }
+    }
+  } else {
+    for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+      await applyEditsToFile(uri, edits, fileSystemApi, changes);
+    }
   }
+
+  return [...changes.values()].filter(
+    (change) => change.before !== change.after,
+  );
 }
 
 export function createApplyWorkspaceEditParams(
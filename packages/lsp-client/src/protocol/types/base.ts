@@ -55,6 +55,8 @@ export {
   DocumentUri,
   FormattingOptions,
   Hover,
+  InlayHint,
+  InlayHintLabelPart,
   integer,
   Location,
   LocationLink,
@@ -68,4 +70,11 @@ export {
 } from "@internal/types";
 
 // Type aliases need to be exported separately
-export type { Definition, SignatureHelp } from "@internal/types";
+export type {
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  Definition,
+  SignatureHelp,
+  TypeHierarchyItem,
+} from "@internal/types";
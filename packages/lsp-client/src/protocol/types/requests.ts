@@ -62,7 +62,30 @@ export interface ClientCapabilities {
     definition?: {
       linkSupport?: boolean;
     };
+    implementation?: {
+      linkSupport?: boolean;
+    };
+    typeDefinition?: {
+      linkSupport?: boolean;
+    };
+    declaration?: {
+      linkSupport?: boolean;
+    };
     references?: Record<string, unknown>;
+    codeAction?: {
+      dynamicRegistration?: boolean;
+      codeActionLiteralSupport?: {
+        codeActionKind: {
+          valueSet: string[];
+        };
+      };
+      isPreferredSupport?: boolean;
+      disabledSupport?: boolean;
+      dataSupport?: boolean;
+      resolveSupport?: {
+        properties: string[];
+      };
+    };
     hover?: {
       contentFormat?: string[];
     };
@@ -74,10 +97,44 @@ export interface ClientCapabilities {
     documentSymbol?: {
       hierarchicalDocumentSymbolSupport?: boolean;
     };
+    callHierarchy?: {
+      dynamicRegistration?: boolean;
+    };
+    typeHierarchy?: {
+      dynamicRegistration?: boolean;
+    };
+    inlayHint?: {
+      dynamicRegistration?: boolean;
+    };
+    formatting?: {
+      dynamicRegistration?: boolean;
+    };
+    rangeFormatting?: {
+      dynamicRegistration?: boolean;
+    };
   };
   workspace?: {
     workspaceFolders?: boolean;
     configuration?: boolean;
+    applyEdit?: boolean;
+    executeCommand?: {
+      dynamicRegistration?: boolean;
+    };
+    workspaceEdit?: {
+      documentChanges?: boolean;
+      resourceOperations?: string[];
+    };
+    didChangeWatchedFiles?: {
+      dynamicRegistration?: boolean;
+      relativePatternSupport?: boolean;
+    };
+  };
+  window?: {
+    workDoneProgress?: boolean;
+    showMessage?: Record<string, unknown>;
+    showDocument?: {
+      support: boolean;
+    };
   };
 }
 
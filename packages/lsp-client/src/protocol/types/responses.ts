@@ -53,7 +53,11 @@ export interface ServerCapabilities {
     | boolean
     | {
         codeActionKinds?: string[];
+        resolveProvider?: boolean;
       };
+  executeCommandProvider?: {
+    commands: string[];
+  };
   diagnosticProvider?: {
     identifier?: string;
     interFileDependencies?: boolean;
@@ -3,7 +3,7 @@
  */
 
 import type { LSPClient } from "./protocol/types/index.ts";
-import type { DocumentSymbol } from "@internal/types";
+import type { DocumentSymbol, Location, Position } from "@internal/types";
 import { fixFSharpSymbolPositions } from "./utils/fsharp-position-fix.ts";
 
 /**
@@ -11,6 +11,7 @@ import { fixFSharpSymbolPositions } from "./utils/fsharp-position-fix.ts";
  */
 export interface SymbolProvider {
   getDocumentSymbols(uri: string): Promise<DocumentSymbol[]>;
+  getReferences?(uri: string, positions: Position[]): Promise<Location[][]>;
 }
 
 /**
@@ -55,12 +56,40 @@ export class LSPSymbolProvider implements SymbolProvider {
         // Always close document
         this.client.closeDocument(uri);
       }
-    } catch (error) {
+    } catch {
       // Return empty array for files that can't be processed
       // This prevents cascading failures during incremental updates
       return [];
     }
   }
+
+  async getReferences(
+    uri: string,
+    positions: Position[],
+  ): Promise<Location[][]> {
+    const content = await this.fileContentProvider(uri);
+
+    // Open the document once for all of its symbols
+    this.client.openDocument(uri, content);
+
+    try {
+      // Wait a bit for LSP to process
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const references: Location[][] = [];
+      for (const position of positions) {
+        try {
+          references.push(await this.client.findReferences(uri, position));
+        } catch {
+          // A symbol the server cannot resolve has no known references
+          references.push([]);
+        }
+      }
+      return references;
+    } finally {
+      this.client.closeDocument(uri);
+    }
+  }
 }
 
 /**
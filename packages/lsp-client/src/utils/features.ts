@@ -2,7 +2,12 @@
  * LSP feature commands aggregation
  */
 
-import { createDefinitionCommand } from "../commands/definition.ts";
+import {
+  createDeclarationCommand,
+  createDefinitionCommand,
+  createImplementationCommand,
+  createTypeDefinitionCommand,
+} from "../commands/definition.ts";
 import { createReferencesCommand } from "../commands/references.ts";
 import { createHoverCommand } from "../commands/hover.ts";
 import {
@@ -19,11 +24,29 @@ import {
   createPrepareRenameCommand,
   createRenameCommand,
 } from "../commands/rename.ts";
-import { createCodeActionCommand } from "../commands/codeAction.ts";
+import {
+  createCodeActionCommand,
+  createCodeActionResolveCommand,
+} from "../commands/codeAction.ts";
+import { createExecuteCommandCommand } from "../commands/executeCommand.ts";
 import { createSignatureHelpCommand } from "../commands/signatureHelp.ts";
+import {
+  createIncomingCallsCommand,
+  createOutgoingCallsCommand,
+  createPrepareCallHierarchyCommand,
+} from "../commands/callHierarchy.ts";
+import {
+  createPrepareTypeHierarchyCommand,
+  createSubtypesCommand,
+  createSupertypesCommand,
+} from "../commands/typeHierarchy.ts";
+import { createInlayHintCommand } from "../commands/inlayHint.ts";
 
 export interface FeatureCommands {
   definition: ReturnType<typeof createDefinitionCommand>;
+  implementation: ReturnType<typeof createImplementationCommand>;
+  typeDefinition: ReturnType<typeof createTypeDefinitionCommand>;
+  declaration: ReturnType<typeof createDeclarationCommand>;
   references: ReturnType<typeof createReferencesCommand>;
   hover: ReturnType<typeof createHoverCommand>;
   completion: ReturnType<typeof createCompletionCommand>;
@@ -35,12 +58,24 @@ export interface FeatureCommands {
   prepareRename: ReturnType<typeof createPrepareRenameCommand>;
   rename: ReturnType<typeof createRenameCommand>;
   codeAction: ReturnType<typeof createCodeActionCommand>;
+  codeActionResolve: ReturnType<typeof createCodeActionResolveCommand>;
+  executeCommand: ReturnType<typeof createExecuteCommandCommand>;
   signatureHelp: ReturnType<typeof createSignatureHelpCommand>;
+  prepareCallHierarchy: ReturnType<typeof createPrepareCallHierarchyCommand>;
+  incomingCalls: ReturnType<typeof createIncomingCallsCommand>;
+  outgoingCalls: ReturnType<typeof createOutgoingCallsCommand>;
+  prepareTypeHierarchy: ReturnType<typeof createPrepareTypeHierarchyCommand>;
+  supertypes: ReturnType<typeof createSupertypesCommand>;
+  subtypes: ReturnType<typeof createSubtypesCommand>;
+  inlayHint: ReturnType<typeof createInlayHintCommand>;
 }
 
 export function createFeatureCommands(): FeatureCommands {
   return {
     definition: createDefinitionCommand(),
+    implementation: createImplementationCommand(),
+    typeDefinition: createTypeDefinitionCommand(),
+    declaration: createDeclarationCommand(),
     references: createReferencesCommand(),
     hover: createHoverCommand(),
     completion: createCompletionCommand(),
@@ -52,6 +87,15 @@ export function createFeatureCommands(): FeatureCommands {
     prepareRename: createPrepareRenameCommand(),
     rename: createRenameCommand(),
     codeAction: createCodeActionCommand(),
+    codeActionResolve: createCodeActionResolveCommand(),
+    executeCommand: createExecuteCommandCommand(),
     signatureHelp: createSignatureHelpCommand(),
+    prepareCallHierarchy: createPrepareCallHierarchyCommand(),
+    incomingCalls: createIncomingCallsCommand(),
+    outgoingCalls: createOutgoingCallsCommand(),
+    prepareTypeHierarchy: createPrepareTypeHierarchyCommand(),
+    supertypes: createSupertypesCommand(),
+    subtypes: createSubtypesCommand(),
+    inlayHint: createInlayHintCommand(),
   };
 }
@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes, createHash } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createApplyEditsTool } from "../../../../src/tools/lsp/applyEdits.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SHAPE = `export interface Shape {
+  area(): number;
+}
+`;
+
+const SQUARE = `import type { Shape } from "./shape";
+
+export class Square implements Shape {
+  constructor(private size: number) {}
+
+  area(): number {
+    return this.size * this.size;
+  }
+}
+`;
+
+const sha256 = (content: string) =>
+  createHash("sha256").update(content).digest("hex");
+
+describe("apply_edits", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tool: ReturnType<typeof createApplyEditsTool>;
+  let tmpDir: string;
+
+  const read = (name: string) => fs.readFile(path.join(tmpDir, name), "utf-8");
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-apply-edits-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+    tool = createApplyEditsTool(lspClient);
+  }, 30000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "shape.ts"), SHAPE);
+    await fs.writeFile(path.join(tmpDir, "square.ts"), SQUARE);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should apply range and symbol edits across files together", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      edits: [
+        {
+          file: "shape.ts",
+          range: {
+            startLine: 2,
+            startCharacter: 2,
+            endLine: 2,
+            endCharacter: 6,
+          },
+          newText: "getArea",
+          expectedHash: sha256(SHAPE),
+        },
+        {
+          file: "square.ts",
+          symbolPath: "Square/area",
+          newText: "getArea(): number {\n    return this.size ** 2;\n  }",
+        },
+      ],
+    });
+
+    const square = await read("square.ts");
+    expect(await read("shape.ts")).toContain("  getArea(): number;");
+    expect(square).toContain(
+      "  getArea(): number {\n    return this.size ** 2;\n  }\n}",
+    );
+    expect(result).toContain("Applied 2 edit(s) to 2 file(s):");
+    expect(result).toContain(
+      `  square.ts: 1 edit(s), sha256 ${sha256(square)}`,
+    );
+  }, 30000);
+
+  it("should resync documents open in the server", async () => {
+    const uri = pathToFileURL(path.join(tmpDir, "shape.ts")).toString();
+    lspClient.openDocument(uri, SHAPE);
+    try {
+      await tool.execute({
+        root: tmpDir,
+        edits: [
+          {
+            file: "shape.ts",
+            range: {
+              startLine: 1,
+              startCharacter: 17,
+              endLine: 1,
+              endCharacter: 22,
+            },
+            newText: "Polygon",
+          },
+        ],
+      });
+
+      const symbols = await lspClient.getDocumentSymbols(uri);
+      expect(symbols.map((symbol) => symbol.name)).toEqual(["Polygon"]);
+    } finally {
+      lspClient.closeDocument(uri);
+    }
+  }, 30000);
+
+  it("should apply nothing when any edit is invalid", async () => {
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        edits: [
+          {
+            file: "shape.ts",
+            range: {
+              startLine: 2,
+              startCharacter: 2,
+              endLine: 2,
+              endCharacter: 6,
+            },
+            newText: "getArea",
+          },
+          {
+            file: "square.ts",
+            symbolPath: "Square/perimeter",
+            newText: "",
+          },
+          {
+            file: "square.ts",
+            range: {
+              startLine: 1,
+              startCharacter: 0,
+              endLine: 1,
+              endCharacter: 0,
+            },
+            newText: "// changed\n",
+            expectedHash: sha256("something else"),
+          },
+        ],
+      }),
+    ).rejects.toThrow(
+      [
+        "No edits were applied:",
+        "  edit 3 (square.ts): file changed since expectedHash was taken",
+        '  edit 2 (square.ts): Symbol "Square/perimeter" not found',
+      ].join("\n"),
+    );
+
+    expect(await read("shape.ts")).toBe(SHAPE);
+    expect(await read("square.ts")).toBe(SQUARE);
+  }, 30000);
+
+  it("should reject overlapping edits", async () => {
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        edits: [
+          {
+            file: "square.ts",
+            symbolPath: "Square",
+            newText: "",
+          },
+          {
+            file: "square.ts",
+            range: {
+              startLine: 6,
+              startCharacter: 2,
+              endLine: 6,
+              endCharacter: 6,
+            },
+            newText: "size",
+          },
+        ],
+      }),
+    ).rejects.toThrow("edits 1 and 2 overlap in square.ts");
+  }, 30000);
+
+  it("should preview the batch in dry run mode", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      edits: [
+        {
+          file: "shape.ts",
+          range: {
+            startLine: 2,
+            startCharacter: 2,
+            endLine: 2,
+            endCharacter: 6,
+          },
+          newText: "getArea",
+        },
+      ],
+      dryRun: true,
+    });
+
+    expect(result).toContain("Dry run: 1 edit(s) would change 1 file(s)");
+    expect(result).toContain("-  area(): number;\n+  getArea(): number;");
+    expect(await read("shape.ts")).toBe(SHAPE);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import { waitForDiagnosticsWithRetry } from "@internal/lsp-client";
+import { clearIndex, indexFiles } from "@internal/code-indexer";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { replaceRegexTool } from "../../../../src/tools/editor/regexEditTools.ts";
+import { NodeFileSystemApi } from "../../../../src/infrastructure/NodeFileSystemApi.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const MATH = `export function add(a: number, b: number): number {
+  return a + b;
+}
+
+export const zero: number = "0";
+`;
+
+const MAIN = `import { add } from "./math";
+
+console.log(add(1, 2));
+`;
+
+describe("diagnostics delta after edits", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const context = () => ({ lspClient, fs: new NodeFileSystemApi() });
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-diagnostics-delta-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    await fs.writeFile(path.join(tmpDir, "math.ts"), MATH);
+    await fs.writeFile(path.join(tmpDir, "main.ts"), MAIN);
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+    await indexFiles(tmpDir, ["math.ts", "main.ts"], {
+      context: context(),
+    });
+
+    // Loading the project can take longer than the tools wait for the
+    // first diagnostics on a busy machine
+    const mathUri = pathToFileURL(path.join(tmpDir, "math.ts")).toString();
+    await waitForDiagnosticsWithRetry(lspClient, mathUri, MATH, undefined, {
+      timeout: 20000,
+    });
+    lspClient.closeDocument(mathUri);
+  }, 40000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "math.ts"), MATH);
+  });
+
+  afterAll(async () => {
+    clearIndex(tmpDir);
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should report errors introduced in dependents of the changed file", async () => {
+    const result = JSON.parse(
+      await replaceRegexTool.execute(
+        {
+          root: tmpDir,
+          relativePath: "math.ts",
+          regex: "a: number, b: number",
+          repl: "a: number",
+          allowMultipleOccurrences: false,
+          reportDiagnostics: true,
+        },
+        context(),
+      ),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toMatch(
+      /^Diagnostics \(\+ introduced, - resolved\) in 2 checked file\(s\):\n {2}math\.ts:\n {4}\+ ERROR 2:14 Cannot find name 'b'\.\n {2}main\.ts:\n {4}\+ ERROR 3:20 Expected 1 arguments?, but got 2\.$/,
+    );
+  }, 60000);
+
+  it("should report resolved errors and leave unchanged ones out", async () => {
+    const result = JSON.parse(
+      await replaceRegexTool.execute(
+        {
+          root: tmpDir,
+          relativePath: "math.ts",
+          regex: '"0"',
+          repl: "0",
+          allowMultipleOccurrences: false,
+          reportDiagnostics: true,
+        },
+        context(),
+      ),
+    );
+
+    expect(result.diagnostics).toBe(
+      [
+        "Diagnostics (+ introduced, - resolved) in 2 checked file(s):",
+        "  math.ts:",
+        "    - ERROR 5:14 Type 'string' is not assignable to type 'number'.",
+      ].join("\n"),
+    );
+  }, 60000);
+
+  it("should say when no language server is available", async () => {
+    const result = JSON.parse(
+      await replaceRegexTool.execute({
+        root: tmpDir,
+        relativePath: "math.ts",
+        regex: "zero",
+        repl: "none",
+        allowMultipleOccurrences: false,
+        reportDiagnostics: true,
+      }),
+    );
+
+    expect(result.diagnostics).toBe(
+      "Diagnostics are not available without a language server",
+    );
+  });
+});
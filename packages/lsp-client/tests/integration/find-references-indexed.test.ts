@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import { waitForDiagnosticsWithRetry } from "@internal/lsp-client";
+import { clearIndex, indexFiles } from "@internal/code-indexer";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { findReferencesIndexedTool } from "../../../../src/tools/highlevel/findReferencesIndexed.ts";
+import { NodeFileSystemApi } from "../../../../src/infrastructure/NodeFileSystemApi.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const MATH = `export function add(a: number, b: number): number {
+  return a + b;
+}
+`;
+
+const APP = `import { add } from "./math";
+
+export const total = add(1, add(2, 3));
+`;
+
+describe("find_references_indexed", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const context = () => ({ lspClient, fs: new NodeFileSystemApi() });
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-references-indexed-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    await fs.writeFile(path.join(tmpDir, "math.ts"), MATH);
+    await fs.writeFile(path.join(tmpDir, "app.ts"), APP);
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+    await indexFiles(tmpDir, ["math.ts", "app.ts"], {
+      context: context(),
+    });
+
+    // Load the project so references across files are found
+    const appUri = pathToFileURL(path.join(tmpDir, "app.ts")).toString();
+    await waitForDiagnosticsWithRetry(lspClient, appUri, APP, undefined, {
+      timeout: 20000,
+    });
+    lspClient.closeDocument(appUri);
+  }, 40000);
+
+  afterAll(async () => {
+    clearIndex(tmpDir);
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should answer from the reference graph and report staleness", async () => {
+    const args = { root: tmpDir, relativePath: "math.ts", symbolName: "add" };
+
+    const notIndexed = await findReferencesIndexedTool.execute(
+      { ...args, refresh: false },
+      context(),
+    );
+    expect(notIndexed).toContain("are not indexed");
+
+    const fresh = await findReferencesIndexedTool.execute(
+      { ...args, refresh: true },
+      context(),
+    );
+    expect(fresh).toContain("add [Function] at math.ts:1:17: 3 reference(s)");
+    expect(fresh).toContain("app.ts:1:10");
+    expect(fresh).toContain("app.ts:3:22");
+    expect(fresh).toContain("app.ts:3:29");
+    expect(fresh).toContain("Up to date");
+
+    // Make sure the modification time moves past the indexing time
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await fs.writeFile(
+      path.join(tmpDir, "app.ts"),
+      `${APP}export const more = add(4, 5);\n`,
+    );
+
+    const stale = await findReferencesIndexedTool.execute(
+      { ...args, refresh: false },
+      context(),
+    );
+    expect(stale).toContain("3 reference(s)");
+    expect(stale).toContain("1 file(s) with references changed since: app.ts.");
+    expect(stale).toContain("refresh: true");
+
+    const refreshed = await findReferencesIndexedTool.execute(
+      { ...args, refresh: true },
+      context(),
+    );
+    expect(refreshed).toContain("4 reference(s)");
+    expect(refreshed).toContain("app.ts:4:21");
+    expect(refreshed).toContain("Up to date");
+  }, 60000);
+});
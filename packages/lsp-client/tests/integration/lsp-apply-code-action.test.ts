@@ -0,0 +1,283 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createApplyCodeActionTool } from "../../../../src/tools/lsp/applyCodeAction.ts";
+import { undoLastEditTool } from "../../../../src/tools/editor/editHistoryTools.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const MATH = `export function add(a: number, b: number) {
+  return a + b;
+}
+`;
+
+const MAIN = `const total = add(1, 2);
+console.log(total);
+`;
+
+const GREET = `const greeting = "hello";
+console.log(greeting);
+`;
+
+// A server offering one code action with an edit and one that needs to be
+// resolved before it has any
+const FAKE_SERVER = `
+let buffer = "";
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+};
+
+process.stdin.on("data", (chunk) => {
+  buffer += chunk.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf("\\r\\n\\r\\n");
+    if (headerEnd === -1) return;
+    const length = Number(buffer.slice(0, headerEnd).match(/Content-Length: (\\d+)/)[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.slice(headerEnd + 4, headerEnd + 4 + length));
+    buffer = buffer.slice(headerEnd + 4 + length);
+    handle(message);
+  }
+});
+
+const range = (line, start, end) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+});
+
+function handle(message) {
+  if (message.method === "initialize") {
+    send({ id: message.id, result: { capabilities: {
+      textDocumentSync: 1,
+      codeActionProvider: { resolveProvider: true },
+    } } });
+  } else if (message.method === "textDocument/codeAction") {
+    const uri = message.params.textDocument.uri;
+    send({ id: message.id, result: [
+      {
+        title: "Rename to total",
+        kind: "quickfix",
+        isPreferred: true,
+        edit: { changes: { [uri]: [{ range: range(0, 6, 9), newText: "total" }] } },
+      },
+      { title: "Add header comment", kind: "source.addHeader", data: { uri } },
+    ] });
+  } else if (message.method === "codeAction/resolve") {
+    const uri = message.params.data.uri;
+    send({ id: message.id, result: {
+      ...message.params,
+      edit: { changes: { [uri]: [{ range: range(0, 0, 0), newText: "// header\\n" }] } },
+    } });
+  } else if (message.method === "shutdown") {
+    send({ id: message.id, result: null });
+  } else if (message.method === "exit") {
+    process.exit(0);
+  }
+}
+`;
+
+describe("lsp_apply_code_action with typescript-language-server", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tool: ReturnType<typeof createApplyCodeActionTool>;
+  let tmpDir: string;
+
+  // Keep the file open until its semantic diagnostics arrived, as an editor
+  // would, so quick fixes get them as context
+  const openWithDiagnostics = async (name: string) => {
+    const uri = pathToFileURL(path.join(tmpDir, name)).toString();
+    const content = await fs.readFile(path.join(tmpDir, name), "utf-8");
+    lspClient.openDocument(uri, content);
+    const deadline = Date.now() + 20000;
+    while (
+      lspClient.getDiagnostics(uri).length === 0 &&
+      Date.now() < deadline
+    ) {
+      await lspClient.waitForDiagnostics(uri, 20000).catch(() => []);
+    }
+  };
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-apply-code-action-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "math.ts"), MATH);
+    await fs.writeFile(path.join(tmpDir, "main.ts"), MAIN);
+    await fs.writeFile(path.join(tmpDir, "greet.ts"), GREET);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+    tool = createApplyCodeActionTool(lspClient);
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should apply a quick fix for a diagnostic on the line", async () => {
+    await openWithDiagnostics("main.ts");
+
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "main.ts",
+      startLine: "add(1, 2)",
+      title: "Add import",
+    });
+
+    expect(result).toContain('Applied "Add import from');
+    expect(result).toContain("Changed files:\n  main.ts");
+    expect(result).toContain("main.ts: 0 error(s)");
+    expect(await fs.readFile(path.join(tmpDir, "main.ts"), "utf-8")).toMatch(
+      /^import \{ add \} from "\.\/math";\n/,
+    );
+  }, 30000);
+
+  it("should run refactorings that apply their edits through a command", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "greet.ts",
+      startLine: 2,
+      title: "Extract to function in global scope",
+    });
+
+    expect(result).toContain("Changed files:\n  greet.ts");
+    const content = await fs.readFile(path.join(tmpDir, "greet.ts"), "utf-8");
+    expect(content).toContain("function newFunction()");
+  }, 30000);
+
+  it("should journal the edits of the command so they can be undone", async () => {
+    const result = await undoLastEditTool.execute({ root: tmpDir });
+
+    expect(result).toContain(
+      'Undid "lsp_apply_code_action Extract to function in global scope"',
+    );
+    expect(await fs.readFile(path.join(tmpDir, "greet.ts"), "utf-8")).toBe(
+      GREET,
+    );
+  });
+
+  it("should list the candidates when the selection is ambiguous", async () => {
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        relativePath: "greet.ts",
+        startLine: 1,
+        title: "Extract",
+      }),
+    ).rejects.toThrow(/code actions match; pass index to pick one/);
+  }, 30000);
+});
+
+describe("lsp_apply_code_action dry run", () => {
+  let client: LSPClient;
+  let tool: ReturnType<typeof createApplyCodeActionTool>;
+  let tmpDir: string;
+  const SOURCE = "const sum = 1 + 2;\n";
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-apply-code-action-dry-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "sum.ts"), SOURCE);
+    const serverPath = path.join(tmpDir, "server.cjs");
+    await fs.writeFile(serverPath, FAKE_SERVER);
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    client = createLSPClient({
+      process: spawn(process.execPath, [serverPath], {
+        stdio: ["pipe", "pipe", "pipe"],
+      }),
+      rootPath: tmpDir,
+      serverCharacteristics: { readinessCheckTimeout: 10 },
+    });
+    await client.start();
+    tool = createApplyCodeActionTool(client);
+  }, 10000);
+
+  afterAll(async () => {
+    if (client) await client.stop();
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should return a unified diff for an action selected by kind", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "sum.ts",
+      startLine: 1,
+      kind: "quickfix",
+      dryRun: true,
+    });
+
+    expect(result).toBe(
+      [
+        'Dry run: "Rename to total" would change 1 file(s)',
+        "",
+        "--- a/sum.ts",
+        "+++ b/sum.ts",
+        "@@ -1 +1 @@",
+        "-const sum = 1 + 2;",
+        "+const total = 1 + 2;",
+        "",
+      ].join("\n"),
+    );
+    expect(await fs.readFile(path.join(tmpDir, "sum.ts"), "utf-8")).toBe(
+      SOURCE,
+    );
+  });
+
+  it("should resolve actions that come without edits", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "sum.ts",
+      startLine: 1,
+      kind: "source",
+      dryRun: true,
+    });
+
+    expect(result).toContain('Dry run: "Add header comment"');
+    expect(result).toContain("@@ -1 +1,2 @@\n+// header\n const sum");
+  });
+});
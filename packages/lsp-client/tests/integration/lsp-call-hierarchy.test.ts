@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import { createCallHierarchyTool } from "../../../../src/tools/lsp/callHierarchy.ts";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SOURCE = `export function leaf(value: number): number {
+  return value * 2;
+}
+
+export function middle(value: number): number {
+  return leaf(value) + leaf(value + 1);
+}
+
+export function top(): number {
+  return middle(1);
+}
+
+export function countdown(n: number): number {
+  return n <= 0 ? 0 : countdown(n - 1);
+}
+`;
+
+describe("lsp_get_call_hierarchy", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+  let tool: ReturnType<typeof createCallHierarchyTool>;
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-call-hierarchy-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "calls.ts"), SOURCE);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+
+    tool = createCallHierarchyTool(lspClient);
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should advertise call hierarchy support", () => {
+    expect(lspClient.supportsFeature("callHierarchy")).toBe(true);
+  });
+
+  it("should list callers recursively", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "calls.ts",
+      textTarget: "leaf",
+      direction: "incoming",
+      depth: 2,
+    });
+
+    expect(result).toContain("Incoming calls (callers):");
+    expect(result).not.toContain("Outgoing calls");
+    expect(result).toMatch(
+      /\n {2}- middle \[Function\].*calls\.ts:5:17 \(calls at 6:10, 6:24\)/,
+    );
+    expect(result).toMatch(/\n {4}- top \[Function\].*calls\.ts:9:17/);
+  }, 30000);
+
+  it("should list callees", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "calls.ts",
+      line: 9,
+      textTarget: "top",
+      direction: "outgoing",
+      depth: 1,
+    });
+
+    expect(result).toContain("Outgoing calls (callees):");
+    expect(result).toMatch(/- middle \[Function\]/);
+    expect(result).not.toMatch(/- leaf \[Function\]/);
+  }, 30000);
+
+  it("should mark recursive calls instead of expanding them", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "calls.ts",
+      textTarget: "countdown",
+      direction: "incoming",
+      depth: 3,
+    });
+
+    expect(result).toContain("(recursive)");
+  }, 30000);
+
+  it("should fail when the target text is missing", async () => {
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        relativePath: "calls.ts",
+        textTarget: "doesNotExist",
+        direction: "both",
+        depth: 1,
+      }),
+    ).rejects.toThrow();
+  });
+});
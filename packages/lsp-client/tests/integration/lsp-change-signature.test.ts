@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import { waitForDiagnosticsWithRetry } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createChangeSignatureTool } from "../../../../src/tools/lsp/changeSignature.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const GREET = `export function greet(name: string, greeting: string, punctuation = "!") {
+  return \`\${greeting}, \${name}\${punctuation}\`;
+}
+`;
+
+const APP = `import { greet } from "./greet";
+
+export const a = greet("Ann", "Hi");
+export const b = greet(
+  "Bob",
+  "Hello",
+  "?",
+);
+export const c = greet(greet("Cy", "Hey"), "Yo");
+const args: [string, string] = ["Di", "Hi"];
+export const d = greet(...args);
+export const e = greet.call(null, "Ed", "Hi");
+export const f = greet("Flo", "Hi", String.fromCharCode(33));
+`;
+
+describe("change_signature", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const read = (file: string) => fs.readFile(path.join(tmpDir, file), "utf-8");
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-change-signature-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    await fs.writeFile(path.join(tmpDir, "greet.ts"), GREET);
+    await fs.writeFile(path.join(tmpDir, "app.ts"), APP);
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+
+    // References only reach other files once the project is loaded
+    const appUri = pathToFileURL(path.join(tmpDir, "app.ts")).toString();
+    await waitForDiagnosticsWithRetry(lspClient, appUri, APP, undefined, {
+      timeout: 20000,
+    });
+    lspClient.closeDocument(appUri);
+  }, 40000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  const parameters = [
+    { name: "greeting" },
+    { name: "name" },
+    { name: "loud", declaration: "loud: boolean", defaultValue: "false" },
+  ];
+
+  it("should preview the change and list the calls it cannot update", async () => {
+    const result = await createChangeSignatureTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "app.ts",
+      line: "export const a",
+      symbolName: "greet",
+      parameters,
+      dryRun: true,
+    });
+
+    expect(result).toContain(
+      'Would change greet(name: string, greeting: string, punctuation = "!") to greet(greeting: string, name: string, loud: boolean)',
+    );
+    expect(result).toContain("Would update 3 call site(s):");
+    expect(result).toContain(
+      'app.ts:9: reordering argument greet("Cy", "Hey") could change the order of its side effects',
+    );
+    expect(result).toContain("app.ts:11: spread argument ...args");
+    expect(result).toContain("app.ts:12: dynamic call through .call");
+    expect(result).toContain(
+      "app.ts:13: removing argument String.fromCharCode(33) could drop its side effects",
+    );
+    expect(await read("app.ts")).toBe(APP);
+    expect(await read("greet.ts")).toBe(GREET);
+  }, 30000);
+
+  it("should rewrite the declaration and the call sites", async () => {
+    await createChangeSignatureTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "greet.ts",
+      line: 1,
+      symbolName: "greet",
+      parameters,
+    });
+
+    expect(await read("greet.ts")).toBe(
+      GREET.replace(
+        'name: string, greeting: string, punctuation = "!"',
+        "greeting: string, name: string, loud: boolean",
+      ),
+    );
+    expect(await read("app.ts")).toBe(
+      APP.replace('greet("Ann", "Hi")', 'greet("Hi", "Ann", false)')
+        .replace(
+          '  "Bob",\n  "Hello",\n  "?",\n',
+          '  "Hello",\n  "Bob",\n  false,\n',
+        )
+        .replace(
+          'greet(greet("Cy", "Hey"), "Yo")',
+          'greet(greet("Hey", "Cy", false), "Yo")',
+        ),
+    );
+  }, 30000);
+});
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+import { createCheckFormattingTool } from "../../../../src/tools/lsp/checkFormatting.ts";
+import { checkFormattingCommand } from "../../../../src/cli/subcommands.ts";
+import { PresetRegistry } from "../../../../src/config/loader.ts";
+import { registerBuiltinAdapters } from "../../../../src/config/presets.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const FORMATTED = `export function add(a: number, b: number) {
+  return a + b;
+}
+`;
+
+const UNFORMATTED = `export function sub(a: number, b: number) {
+  return a-b;
+}
+`;
+
+describe("formatting check", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-check-formatting-${hash}`);
+    await fs.mkdir(path.join(tmpDir, "src"), { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    await fs.writeFile(path.join(tmpDir, "src", "add.ts"), FORMATTED);
+    await fs.writeFile(path.join(tmpDir, "src", "sub.ts"), UNFORMATTED);
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should list the files formatting would change without writing", async () => {
+    const result = await createCheckFormattingTool(lspClient).execute({
+      root: tmpDir,
+      pattern: "src/**/*.ts",
+    });
+
+    expect(result).toContain(
+      "1 of 2 checked file(s) would be reformatted:\n  src/sub.ts\n",
+    );
+    expect(result).toContain("-  return a-b;\n+  return a - b;");
+    expect(await fs.readFile(path.join(tmpDir, "src", "sub.ts"), "utf-8")).toBe(
+      UNFORMATTED,
+    );
+  }, 30000);
+
+  it("should exit non-zero from the CLI only while files are unformatted", async () => {
+    const registry = new PresetRegistry();
+    registerBuiltinAdapters(registry);
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      expect(
+        await checkFormattingCommand(
+          tmpDir,
+          "src/*.ts",
+          registry,
+          "typescript",
+        ),
+      ).toBe(1);
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining("would be reformatted"),
+      );
+
+      await fs.writeFile(
+        path.join(tmpDir, "src", "sub.ts"),
+        UNFORMATTED.replace("a-b", "a - b"),
+      );
+      expect(
+        await checkFormattingCommand(
+          tmpDir,
+          "src/*.ts",
+          registry,
+          "typescript",
+        ),
+      ).toBe(0);
+      expect(log).toHaveBeenLastCalledWith(
+        "All 2 checked file(s) are formatted",
+      );
+    } finally {
+      log.mockRestore();
+    }
+  }, 60000);
+});
@@ -110,6 +110,73 @@ console.log(processData("world"));`;
     expect(actualContent).toContain("function processData");
   });
 
+  it("should preview a deletion as a diff in dry run mode", async () => {
+    const testContent = `const foo = 1;
+const bar = foo + 2;
+`;
+    const testFile = path.join(tmpDir, "delete-dry-run.ts");
+    await fs.writeFile(testFile, testContent);
+
+    const result = await lspDeleteSymbolTool.execute({
+      root: tmpDir,
+      relativePath: "delete-dry-run.ts",
+      line: 1,
+      textTarget: "foo",
+      removeReferences: true,
+      dryRun: true,
+    });
+
+    expect(result).toContain(
+      "Dry run: deleting the symbol would remove 2 occurrence(s)",
+    );
+    expect(result).toContain("delete-dry-run.ts: +2 -2");
+    expect(result).toContain("-const bar = foo + 2;");
+    expect(result).toContain("+const bar =  + 2;");
+
+    // The file is left untouched
+    expect(await fs.readFile(testFile, "utf-8")).toBe(testContent);
+  });
+
+  it("should delete a whole declaration with removeDeclaration", async () => {
+    const testContent = `import { readFile, writeFile } from "fs/promises";
+
+/** Not used anywhere */
+export function stale(): void {
+  return;
+}
+
+export const kept = readFile;
+`;
+    const testFile = path.join(tmpDir, "delete-declaration.ts");
+    await fs.writeFile(testFile, testContent);
+
+    const deleteDeclaration = (line: number, textTarget: string) =>
+      lspDeleteSymbolTool.execute({
+        root: tmpDir,
+        relativePath: "delete-declaration.ts",
+        line,
+        textTarget,
+        removeDeclaration: true,
+      });
+
+    expect(await deleteDeclaration(4, "stale")).toContain(
+      "Successfully deleted symbol",
+    );
+    expect(await deleteDeclaration(1, "writeFile")).toContain(
+      "Successfully deleted symbol",
+    );
+    expect(await fs.readFile(testFile, "utf-8")).toBe(
+      `import { readFile } from "fs/promises";
+
+export const kept = readFile;
+`,
+    );
+
+    expect(await deleteDeclaration(1, "fs")).toContain(
+      'No declaration of "fs" found on line 1',
+    );
+  });
+
   it("should handle deletion errors gracefully", async () => {
     // Try to delete from a non-existent file
     await expect(
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+import { createExtractTool } from "../../../../src/tools/lsp/extract.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const PRICES = `export function total(prices: number[]): number {
+  const sum = prices.reduce((a, b) => a + b, 0);
+  return sum * 1.2;
+}
+`;
+
+describe("lsp_extract", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const read = () => fs.readFile(path.join(tmpDir, "prices.ts"), "utf-8");
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-extract-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+  }, 30000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "prices.ts"), PRICES);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should extract a function and give it the requested name", async () => {
+    const result = await createExtractTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "prices.ts",
+      kind: "function",
+      startText: "prices.reduce",
+      endText: "0)",
+      title: "module scope",
+      newName: "sumOf",
+    });
+
+    expect(result).toContain("Extracted as sumOf");
+    const content = await read();
+    expect(content).toContain("const sum = sumOf(prices);");
+    expect(content).toMatch(/function sumOf\(prices: number\[\]\)/);
+    expect(content).not.toContain("newFunction");
+  }, 30000);
+
+  it("should extract a constant selected by a range", async () => {
+    const result = await createExtractTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "prices.ts",
+      kind: "constant",
+      range: { startLine: 3, startCharacter: 15, endLine: 3, endCharacter: 18 },
+      title: "enclosing scope",
+    });
+
+    expect(result).toContain("Extracted as newLocal");
+    expect(await read()).toContain("const newLocal = 1.2;");
+  }, 30000);
+
+  it("should explain why no extraction is applied", async () => {
+    const tool = createExtractTool(lspClient);
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        relativePath: "prices.ts",
+        kind: "enum",
+        startText: "sum * 1.2",
+      }),
+    ).rejects.toThrow(/No "enum" extraction available.*Offered: /);
+    await expect(
+      tool.execute({
+        root: tmpDir,
+        relativePath: "prices.ts",
+        kind: "interface",
+        startText: "sum * 1.2",
+      }),
+    ).rejects.toThrow('"Extract to interface" is not available');
+    expect(await read()).toBe(PRICES);
+  }, 30000);
+});
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// A minimal server that registers a watcher for TypeScript files and reports
+// the notifications and responses it receives back as "test/notification"
+const FAKE_SERVER = `
+let buffer = "";
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+};
+
+process.stdin.on("data", (chunk) => {
+  buffer += chunk.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf("\\r\\n\\r\\n");
+    if (headerEnd === -1) return;
+    const length = Number(buffer.slice(0, headerEnd).match(/Content-Length: (\\d+)/)[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.slice(headerEnd + 4, headerEnd + 4 + length));
+    buffer = buffer.slice(headerEnd + 4 + length);
+    handle(message);
+  }
+});
+
+function handle(message) {
+  if (message.method === "initialize") {
+    send({ id: message.id, result: { capabilities: { textDocumentSync: 1 } } });
+  } else if (message.method === "initialized") {
+    send({ id: "register", method: "client/registerCapability", params: {
+      registrations: [{
+        id: "watch",
+        method: "workspace/didChangeWatchedFiles",
+        registerOptions: { watchers: [{ globPattern: "**/*.ts" }] },
+      }],
+    } });
+  } else if (message.method === "shutdown") {
+    send({ id: message.id, result: null });
+  } else if (message.method === "exit") {
+    process.exit(0);
+  } else if (message.id === undefined || message.method === undefined) {
+    send({ method: "test/notification", params: message });
+  }
+}
+`;
+
+describe("Workspace file watcher", () => {
+  let tmpDir: string;
+  let client: LSPClient;
+  const notifications: { id?: string; method?: string; params?: any }[] = [];
+
+  const waitFor = async <T>(find: () => T | undefined) => {
+    for (let i = 0; i < 100; i++) {
+      const found = find();
+      if (found !== undefined) return found;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return undefined;
+  };
+  const watchedChanges = () =>
+    notifications
+      .filter((n) => n.method === "workspace/didChangeWatchedFiles")
+      .flatMap((n) => n.params.changes);
+  const uriOf = (name: string) =>
+    pathToFileURL(path.join(tmpDir, name)).toString();
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-file-watcher-${hash}`);
+    await fs.mkdir(path.join(tmpDir, "ignored"), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "value.ts"), "const value = 1;\n");
+    const serverPath = path.join(tmpDir, "server.cjs");
+    await fs.writeFile(serverPath, FAKE_SERVER);
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    client = createLSPClient({
+      process: spawn(process.execPath, [serverPath], {
+        stdio: ["pipe", "pipe", "pipe"],
+      }),
+      rootPath: tmpDir,
+      serverCharacteristics: { readinessCheckTimeout: 10 },
+      fileWatcher: {
+        isIgnored: (filePath) => filePath.includes(`${path.sep}ignored`),
+        debounce: 20,
+      },
+    });
+    client.onServerRequest("test/notification", (notification) => {
+      notifications.push(notification as (typeof notifications)[number]);
+    });
+    await client.start();
+    // The watcher is registered once the client answered the request
+    await waitFor(() => notifications.find((n) => n.id === "register"));
+  }, 10000);
+
+  afterAll(async () => {
+    if (client) await client.stop();
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should report files matching the registered watchers", async () => {
+    await fs.writeFile(path.join(tmpDir, "notes.md"), "# notes\n");
+    await fs.writeFile(path.join(tmpDir, "ignored", "skip.ts"), "");
+    await fs.writeFile(path.join(tmpDir, "created.ts"), "export {};\n");
+
+    const created = await waitFor(() =>
+      watchedChanges().find((change) => change.uri === uriOf("created.ts")),
+    );
+    expect(created).toEqual({ uri: uriOf("created.ts"), type: 1 });
+
+    const uris = watchedChanges().map((change) => change.uri);
+    expect(uris).not.toContain(uriOf("notes.md"));
+    expect(uris).not.toContain(uriOf("ignored/skip.ts"));
+  });
+
+  it("should report deleted files", async () => {
+    await fs.rm(path.join(tmpDir, "created.ts"));
+
+    const deleted = await waitFor(() =>
+      watchedChanges().find(
+        (change) => change.uri === uriOf("created.ts") && change.type === 3,
+      ),
+    );
+    expect(deleted).toBeDefined();
+  });
+
+  it("should resync open documents changed on disk", async () => {
+    const uri = uriOf("value.ts");
+    client.openDocument(uri, "const value = 1;\n");
+
+    await fs.writeFile(path.join(tmpDir, "value.ts"), "const value = 2;\n");
+
+    const change = await waitFor(() =>
+      notifications.find((n) => n.method === "textDocument/didChange"),
+    );
+    expect(change?.params).toEqual({
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "const value = 2;\n" }],
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+import { createFixAllTool } from "../../../../src/tools/lsp/fixAll.ts";
+import { undoLastEditTool } from "../../../../src/tools/editor/editHistoryTools.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const UTIL = `export const a = 1;
+export const b = 2;
+export const unused = 3;
+`;
+
+const MAIN = `import { unused } from "./util";
+import { b, a } from "./util";
+
+console.log(a, b);
+`;
+
+describe("lsp_fix_all", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tool: ReturnType<typeof createFixAllTool>;
+  let tmpDir: string;
+
+  const read = (name: string) => fs.readFile(path.join(tmpDir, name), "utf-8");
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-fix-all-${hash}`);
+    await fs.mkdir(path.join(tmpDir, "generated"), { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    await fs.writeFile(path.join(tmpDir, ".gitignore"), "generated/\n");
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+    tool = createFixAllTool(lspClient);
+  }, 30000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "util.ts"), UTIL);
+    await fs.writeFile(path.join(tmpDir, "main.ts"), MAIN);
+    await fs.writeFile(path.join(tmpDir, "generated", "main.ts"), MAIN);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should organize imports in every matching file", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      pattern: "**/*.ts",
+      kinds: ["source.organizeImports"],
+    });
+
+    expect(result).toBe(
+      "Ran source.organizeImports and changed 1 of 2 file(s):\n  main.ts: Organize Imports",
+    );
+    expect(await read("main.ts")).toBe(
+      'import { a, b, unused } from "./util";\n\nconsole.log(a, b);\n',
+    );
+    expect(await read("util.ts")).toBe(UTIL);
+    expect(await read("generated/main.ts")).toBe(MAIN);
+  }, 60000);
+
+  it("should undo all fixes as one edit", async () => {
+    await tool.execute({
+      root: tmpDir,
+      pattern: "**/*.ts",
+      kinds: ["source.organizeImports"],
+    });
+
+    const result = await undoLastEditTool.execute({ root: tmpDir });
+    expect(result).toContain(
+      'Undid "lsp_fix_all source.organizeImports in **/*.ts"',
+    );
+    expect(await read("main.ts")).toBe(MAIN);
+  }, 60000);
+
+  it("should preview the fixes in dry run mode", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      pattern: "*.ts",
+      kinds: ["source.removeUnused", "source.nonexistent"],
+      dryRun: true,
+    });
+
+    expect(result).toContain(
+      "Dry run: source.removeUnused would change 1 of 2 file(s)",
+    );
+    expect(result).toContain("The server does not offer: source.nonexistent");
+    expect(result).toContain('-import { unused } from "./util";');
+    expect(await read("main.ts")).toBe(MAIN);
+  }, 60000);
+});
@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createFormatRangeTool } from "../../../../src/tools/lsp/formatting.ts";
+import { replaceRangeTool } from "../../../../src/tools/editor/rangeEditTools.ts";
+import { createReplaceSymbolBodyTool } from "../../../../src/tools/lsp/symbolEditTools.ts";
+import { NodeFileSystemApi } from "../../../../src/infrastructure/NodeFileSystemApi.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const MATH = `export function add(a: number, b: number) {
+    return a+b;
+}
+
+export function sub(a: number, b: number) {
+    return a-b;
+}
+`;
+
+describe("range formatting", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const read = () => fs.readFile(path.join(tmpDir, "math.ts"), "utf-8");
+  const context = () => ({
+    lspClient,
+    fs: new NodeFileSystemApi(),
+    config: { settings: { formatAfterEdit: true } },
+  });
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-format-range-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+  }, 30000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "math.ts"), MATH);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should format only the given lines", async () => {
+    const result = await createFormatRangeTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "math.ts",
+      startLine: 2,
+      endLine: 2,
+    });
+
+    expect(result).toContain("Formatted math.ts:2-2");
+    const content = await read();
+    expect(content).toContain("    return a + b;");
+    expect(content).toContain("    return a-b;");
+  }, 30000);
+
+  it("should preview the formatting without writing", async () => {
+    const result = await createFormatRangeTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "math.ts",
+      startLine: 5,
+      endLine: 7,
+      dryRun: true,
+    });
+
+    expect(result).toContain("+    return a - b;");
+    expect(await read()).toBe(MATH);
+  }, 30000);
+
+  it("should leave a document opened elsewhere open", async () => {
+    const uri = pathToFileURL(path.join(tmpDir, "math.ts")).toString();
+    lspClient.openDocument(uri, MATH);
+    try {
+      const result = await createFormatRangeTool(lspClient).execute({
+        root: tmpDir,
+        relativePath: "math.ts",
+        startLine: 6,
+        endLine: 6,
+      });
+
+      expect(result).toContain("Formatted math.ts:6-6");
+      expect(await read()).toContain("    return a - b;");
+      expect(lspClient.isDocumentOpen(uri)).toBe(true);
+    } finally {
+      lspClient.closeDocument(uri);
+    }
+  }, 30000);
+
+  it("should format the lines replace_range changed when enabled", async () => {
+    const result = await replaceRangeTool.execute(
+      {
+        root: tmpDir,
+        relativePath: "math.ts",
+        startLine: 6,
+        startCharacter: 4,
+        endLine: 6,
+        endCharacter: 15,
+        newContent: "return a-b*2;",
+        preserveIndentation: true,
+      },
+      context(),
+    );
+
+    expect(JSON.parse(result).success).toBe(true);
+    const content = await read();
+    expect(content).toContain("    return a - b * 2;");
+    expect(content).toContain("    return a+b;");
+  }, 30000);
+
+  it("should format the declaration a symbol edit replaced when enabled", async () => {
+    await createReplaceSymbolBodyTool(lspClient).execute(
+      {
+        root: tmpDir,
+        relativePath: "math.ts",
+        symbolPath: "sub",
+        body: "export function sub(a: number,b: number) {\n  return a-b;\n}",
+      },
+      context(),
+    );
+
+    const content = await read();
+    expect(content).toContain(
+      "export function sub(a: number, b: number) {\n    return a - b;\n}",
+    );
+    expect(content).toContain("    return a+b;");
+  }, 30000);
+});
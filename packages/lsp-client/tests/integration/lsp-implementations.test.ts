@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import {
+  createImplementationsTool,
+  createTypeDefinitionsTool,
+} from "../../../../src/tools/lsp/definitions.ts";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SHAPES = `export interface Shape {
+  area(): number;
+}
+
+export class Square implements Shape {
+  constructor(private size: number) {}
+  area(): number {
+    return this.size * this.size;
+  }
+}
+
+export class Circle implements Shape {
+  constructor(private radius: number) {}
+  area(): number {
+    return Math.PI * this.radius * this.radius;
+  }
+}
+`;
+
+const MAIN = `import { Square } from "./shapes";
+
+const square = new Square(2);
+console.log(square.area());
+`;
+
+describe("lsp_get_implementations / lsp_get_type_definitions", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+  let implementationsTool: ReturnType<typeof createImplementationsTool>;
+  let typeDefinitionsTool: ReturnType<typeof createTypeDefinitionsTool>;
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-implementations-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "shapes.ts"), SHAPES);
+    await fs.writeFile(path.join(tmpDir, "main.ts"), MAIN);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+
+    implementationsTool = createImplementationsTool(lspClient);
+    typeDefinitionsTool = createTypeDefinitionsTool(lspClient);
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should advertise implementation and type definition support", () => {
+    expect(lspClient.supportsFeature("implementation")).toBe(true);
+    expect(lspClient.supportsFeature("typeDefinition")).toBe(true);
+  });
+
+  it("should find every implementation of an interface method", async () => {
+    const result = await implementationsTool.execute({
+      root: tmpDir,
+      relativePath: "shapes.ts",
+      line: 2,
+      symbolName: "area",
+    });
+
+    expect(result).toContain('Found 2 implementations for "area"');
+    expect(result).toContain("shapes.ts:7:");
+    expect(result).toContain("shapes.ts:14:");
+  }, 30000);
+
+  it("should include implementation bodies when requested", async () => {
+    const result = await implementationsTool.execute({
+      root: tmpDir,
+      relativePath: "shapes.ts",
+      line: 1,
+      symbolName: "Shape",
+      includeBody: true,
+    });
+
+    expect(result).toContain("class Square implements Shape");
+    expect(result).toContain("class Circle implements Shape");
+    expect(result).toContain("return this.size * this.size;");
+  }, 30000);
+
+  it("should jump from a variable to its type", async () => {
+    const result = await typeDefinitionsTool.execute({
+      root: tmpDir,
+      relativePath: "main.ts",
+      line: 4,
+      symbolName: "square",
+    });
+
+    expect(result).toContain('Found 1 type definition for "square"');
+    expect(result).toContain("shapes.ts:5:14 - Square");
+  }, 30000);
+});
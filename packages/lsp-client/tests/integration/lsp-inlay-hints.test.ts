@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import { createInlayHintsTool } from "../../../../src/tools/lsp/inlayHints.ts";
+import { typescriptAdapter } from "../../../../src/presets/typescript-language-server.ts";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SOURCE = `export function add(left: number, right: number) {
+  return left + right;
+}
+
+const total = add(1, 2);
+console.log(total);
+`;
+
+describe("lsp_get_inlay_hints", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+  let tool: ReturnType<typeof createInlayHintsTool>;
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-inlay-hints-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "math.ts"), SOURCE);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+      serverCharacteristics: {
+        inlayHintSettings:
+          typescriptAdapter.serverCharacteristics?.inlayHintSettings,
+      },
+    });
+    await lspClient.start();
+
+    tool = createInlayHintsTool(lspClient);
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should advertise inlay hint support", () => {
+    expect(lspClient.supportsFeature("inlayHint")).toBe(true);
+  });
+
+  it("should render inferred types and parameter names inline", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "math.ts",
+    });
+
+    expect(result).toMatch(/Found \d+ inlay hints? in math\.ts:1-7/);
+    expect(result).toContain(
+      "1: export function add(left: number, right: number) : number {",
+    );
+    expect(result).toContain(
+      "5: const total : number = add(left: 1, right: 2);",
+    );
+  }, 30000);
+
+  it("should limit hints to the requested range", async () => {
+    const result = await tool.execute({
+      root: tmpDir,
+      relativePath: "math.ts",
+      startLine: "const total",
+      endLine: 5,
+    });
+
+    expect(result).toContain("math.ts:5-5");
+    expect(result).not.toContain("1: export function add");
+  }, 30000);
+});
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SOURCE = `export const count: number = "not a number";
+`;
+
+describe("Server readiness", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+  let fileUri: string;
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-readiness-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "count.ts"), SOURCE);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    fileUri = pathToFileURL(path.join(tmpDir, "count.ts")).toString();
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+  }, 30000);
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should be ready once the opened document has diagnostics", async () => {
+    const published: string[] = [];
+    lspClient.on("diagnostics", (params) => published.push(params.uri));
+    lspClient.openDocument(fileUri, SOURCE);
+
+    expect(await lspClient.waitForReady(fileUri, 20000)).toBe(true);
+    expect(published).toContain(fileUri);
+  }, 30000);
+
+  it("should not wait for the fallback delay after a change", async () => {
+    lspClient.updateDocument(fileUri, "export const count: number = 1;\n", 2);
+
+    const start = Date.now();
+    expect(await lspClient.waitForReady(fileUri, 10000)).toBe(true);
+    expect(Date.now() - start).toBeLessThan(10000);
+  }, 30000);
+});
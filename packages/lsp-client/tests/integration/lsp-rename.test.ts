@@ -44,7 +44,7 @@ describe("lsp rename symbol", { timeout: 30000 }, () => {
     lspProcess = spawn(tsLspPath, ["--stdio"], {
       cwd: tmpDir,
       stdio: ["pipe", "pipe", "pipe"],
-      shell: process.platform === 'win32', // Use shell on Windows
+      shell: process.platform === "win32", // Use shell on Windows
     });
 
     // Initialize LSP client
@@ -100,6 +100,32 @@ describe("lsp rename symbol", { timeout: 30000 }, () => {
     expect(actualContent.trim()).toBe(expectedContent.trim());
   });
 
+  it("should preview a rename as a diff in dry run mode", async () => {
+    const inputFile = path.join(FIXTURES_DIR, "simple-variable.input.ts");
+    const testFile = path.join(tmpDir, "simple-variable-dry-run.ts");
+    await fs.copyFile(inputFile, testFile);
+    const originalContent = await fs.readFile(testFile, "utf-8");
+
+    const result = await lspRenameSymbolTool.execute({
+      root: tmpDir,
+      relativePath: "simple-variable-dry-run.ts",
+      line: 1,
+      textTarget: "foo",
+      newName: "bar",
+      dryRun: true,
+    });
+
+    expect(result).toContain("Dry run: renaming would change 1 file(s)");
+    expect(result).toContain(
+      "--- a/simple-variable-dry-run.ts\n+++ b/simple-variable-dry-run.ts",
+    );
+    expect(result).toContain("-const foo = 1;");
+    expect(result).toContain("+const bar = 1;");
+
+    // The file is left untouched
+    expect(await fs.readFile(testFile, "utf-8")).toBe(originalContent);
+  });
+
   it("should rename a function", async () => {
     // Copy test file to temp directory
     const inputFile = path.join(FIXTURES_DIR, "function.input.ts");
@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import { isRetryableLSPError, type LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SOURCE = `export const answer: number = 42;
+`;
+
+function waitForRestart(client: LSPClient): Promise<void> {
+  return new Promise((resolve) => client.on("restarted", () => resolve()));
+}
+
+function waitForExit(child: ChildProcess): Promise<void> {
+  return new Promise((resolve) => child.once("exit", () => resolve()));
+}
+
+describe("LSP server crash recovery", () => {
+  const processes: ChildProcess[] = [];
+  let lspClient: LSPClient;
+  let tmpDir: string;
+  let tsLspPath: string;
+  let fileUri: string;
+
+  const spawnServer = () => {
+    const child = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+    processes.push(child);
+    return child;
+  };
+  const currentProcess = () => processes[processes.length - 1];
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-restart-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, "answer.ts"), SOURCE);
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+    fileUri = pathToFileURL(path.join(tmpDir, "answer.ts")).toString();
+
+    tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: spawnServer(),
+      rootPath: tmpDir,
+      languageId: "typescript",
+      serverCharacteristics: { maxRestarts: 2, restartBackoff: 300 },
+      spawnProcess: spawnServer,
+    });
+    await lspClient.start();
+    lspClient.openDocument(fileUri, SOURCE);
+  }, 30000);
+
+  afterAll(async () => {
+    if (lspClient) await lspClient.stop();
+    for (const child of processes) {
+      if (child.exitCode === null) child.kill();
+    }
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  }, 30000);
+
+  it("should reject requests with a retryable error while restarting", async () => {
+    const crashed = currentProcess();
+    const restarted = waitForRestart(lspClient);
+    const exited = waitForExit(crashed);
+    crashed.kill("SIGKILL");
+    await exited;
+
+    const error = await lspClient
+      .getHover(fileUri, { line: 0, character: 14 })
+      .catch((e: unknown) => e);
+    expect(isRetryableLSPError(error)).toBe(true);
+
+    await restarted;
+    expect(currentProcess()).not.toBe(crashed);
+  }, 30000);
+
+  it("should reopen tracked documents after an automatic restart", async () => {
+    expect(lspClient.isDocumentOpen(fileUri)).toBe(true);
+
+    const hover = await lspClient.getHover(fileUri, {
+      line: 0,
+      character: 14,
+    });
+    expect(JSON.stringify(hover?.contents)).toContain("answer");
+  }, 30000);
+
+  it("should restart on demand", async () => {
+    const previous = currentProcess();
+    await lspClient.restart();
+
+    expect(currentProcess()).not.toBe(previous);
+    expect(lspClient.isInitialized()).toBe(true);
+    const hover = await lspClient.getHover(fileUri, {
+      line: 0,
+      character: 14,
+    });
+    expect(JSON.stringify(hover?.contents)).toContain("answer");
+  }, 30000);
+});
+
+describe("LSP server restart policy", () => {
+  it("should give up after maxRestarts failed attempts", async () => {
+    const { createLSPClient } = await import("@internal/lsp-client");
+    const failingSpawn = () =>
+      spawn(process.execPath, ["-e", "process.exit(1)"], {
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+    // A server that answers initialize and then crashes shortly after
+    const crashingServer = spawn(
+      process.execPath,
+      [
+        "-e",
+        `process.stdin.once("data", (chunk) => {
+          const id = JSON.parse(chunk.toString().split("\\r\\n\\r\\n")[1]).id;
+          const body = JSON.stringify({ jsonrpc: "2.0", id, result: { capabilities: {} } });
+          process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+          setTimeout(() => process.exit(1), 200);
+        });`,
+      ],
+      { stdio: ["pipe", "pipe", "pipe"] },
+    );
+
+    const client = createLSPClient({
+      process: crashingServer,
+      rootPath: process.cwd(),
+      serverCharacteristics: {
+        readinessCheckTimeout: 10,
+        maxRestarts: 2,
+        restartBackoff: 20,
+      },
+      spawnProcess: failingSpawn,
+    });
+    await client.start();
+
+    let attempts = 0;
+    const failed = new Promise<Error>((resolve) =>
+      client.on("restartFailed", resolve),
+    );
+    client.on("restarted", () => attempts++);
+
+    const error = await failed;
+    expect(error.message).toContain("after 2 attempts");
+    expect(attempts).toBe(0);
+    await client.stop();
+  }, 10000);
+});
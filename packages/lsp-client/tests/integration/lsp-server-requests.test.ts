@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// A minimal server that sends requests to the client after "initialized"
+// and reports the replies back as "test/reply" notifications
+const FAKE_SERVER = `
+let buffer = "";
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+};
+const fileUri = process.argv[2];
+
+process.stdin.on("data", (chunk) => {
+  buffer += chunk.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf("\\r\\n\\r\\n");
+    if (headerEnd === -1) return;
+    const length = Number(buffer.slice(0, headerEnd).match(/Content-Length: (\\d+)/)[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.slice(headerEnd + 4, headerEnd + 4 + length));
+    buffer = buffer.slice(headerEnd + 4 + length);
+    handle(message);
+  }
+});
+
+function handle(message) {
+  if (message.method === "initialize") {
+    send({ id: message.id, result: { capabilities: {} } });
+  } else if (message.method === "initialized") {
+    send({ id: "register", method: "client/registerCapability", params: {
+      registrations: [{ id: "fmt", method: "textDocument/formatting" }],
+    } });
+    send({ id: "progress", method: "window/workDoneProgress/create", params: { token: "load" } });
+    send({ method: "$/progress", params: { token: "load", value: { kind: "begin", title: "Loading…" } } });
+    send({ id: "unknown", method: "custom/unknown", params: {} });
+  } else if (message.method === "workspace/executeCommand") {
+    send({ id: "edit", method: "workspace/applyEdit", params: {
+      label: "fix",
+      edit: { changes: { [fileUri]: [{
+        range: { start: { line: 0, character: 6 }, end: { line: 0, character: 11 } },
+        newText: "renamed",
+      }] } },
+    } });
+    send({ id: message.id, result: null });
+  } else if (message.method === "shutdown") {
+    send({ id: message.id, result: null });
+  } else if (message.method === "exit") {
+    process.exit(0);
+  } else if (message.id !== undefined && message.method === undefined) {
+    send({ method: "test/reply", params: message });
+  }
+}
+`;
+
+describe("Server-initiated requests", () => {
+  let tmpDir: string;
+  let filePath: string;
+  let client: LSPClient;
+  const replies = new Map<string, any>();
+  const progress: unknown[] = [];
+
+  const waitForReply = async (id: string) => {
+    for (let i = 0; i < 50 && !replies.has(id); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return replies.get(id);
+  };
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-server-requests-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    filePath = path.join(tmpDir, "value.ts");
+    await fs.writeFile(filePath, "const value = 1;\n");
+    const serverPath = path.join(tmpDir, "server.cjs");
+    await fs.writeFile(serverPath, FAKE_SERVER);
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    client = createLSPClient({
+      process: spawn(
+        process.execPath,
+        [serverPath, pathToFileURL(filePath).toString()],
+        { stdio: ["pipe", "pipe", "pipe"] },
+      ),
+      rootPath: tmpDir,
+      serverCharacteristics: { readinessCheckTimeout: 10 },
+    });
+    client.onServerRequest("test/reply", (reply) => {
+      replies.set((reply as { id: string }).id, reply);
+    });
+    client.on("progress", (token, value) => progress.push({ token, value }));
+    await client.start();
+  }, 10000);
+
+  afterAll(async () => {
+    if (client) await client.stop();
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reflect dynamic registrations in supportsFeature", async () => {
+    expect(await waitForReply("register")).toMatchObject({ result: null });
+    expect(client.supportsFeature("formatting")).toBe(true);
+    expect(client.supportsFeature("rangeFormatting")).toBe(false);
+  });
+
+  it("should track work done progress", async () => {
+    expect(await waitForReply("progress")).toMatchObject({ result: null });
+    expect(progress).toEqual([
+      { token: "load", value: { kind: "begin", title: "Loading…" } },
+    ]);
+  });
+
+  it("should answer unknown requests with MethodNotFound", async () => {
+    const reply = await waitForReply("unknown");
+    expect(reply.error.code).toBe(-32601);
+  });
+
+  it("should apply edits sent while executing a command", async () => {
+    const edits: unknown[] = [];
+    client.on("workspaceEdit", (edit) => edits.push(edit));
+
+    await client.sendRequest("workspace/executeCommand", { command: "fix" });
+
+    expect(await waitForReply("edit")).toMatchObject({
+      result: { applied: true },
+    });
+    expect(await fs.readFile(filePath, "utf-8")).toBe("const renamed = 1;\n");
+    expect(edits).toHaveLength(1);
+  });
+});
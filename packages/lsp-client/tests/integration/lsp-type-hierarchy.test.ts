@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import { createTypeHierarchyTool } from "../../../../src/tools/lsp/typeHierarchy.ts";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const SOURCE = `interface Named {}
+class Animal implements Named {}
+class Dog extends Animal {}
+class Puppy extends Dog {}
+`;
+
+// typescript-language-server has no type hierarchy, so a minimal server
+// answers it for the classes of SOURCE. With "--unsupported" it advertises
+// no typeHierarchyProvider and rejects the requests like a server without
+// the feature.
+const FAKE_SERVER = `
+let buffer = "";
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+};
+const fileUri = process.argv[2];
+const supported = process.argv[3] !== "--unsupported";
+
+const lines = ["Named", "Animal", "Dog", "Puppy"];
+const item = (name) => {
+  const line = lines.indexOf(name);
+  const character = line === 0 ? 10 : 6;
+  return {
+    name,
+    kind: line === 0 ? 11 : 5,
+    uri: fileUri,
+    range: { start: { line, character: 0 }, end: { line, character: 40 } },
+    selectionRange: {
+      start: { line, character },
+      end: { line, character: character + name.length },
+    },
+  };
+};
+const supertypes = { Animal: ["Named"], Dog: ["Animal"], Puppy: ["Dog"] };
+const subtypes = { Named: ["Animal"], Animal: ["Dog"], Dog: ["Puppy"] };
+
+process.stdin.on("data", (chunk) => {
+  buffer += chunk.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf("\\r\\n\\r\\n");
+    if (headerEnd === -1) return;
+    const length = Number(buffer.slice(0, headerEnd).match(/Content-Length: (\\d+)/)[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.slice(headerEnd + 4, headerEnd + 4 + length));
+    buffer = buffer.slice(headerEnd + 4 + length);
+    handle(message);
+  }
+});
+
+function handle(message) {
+  const { method, params } = message;
+  if (method === "initialize") {
+    send({ id: message.id, result: { capabilities: supported ? { typeHierarchyProvider: true } : {} } });
+  } else if (!supported && method?.toLowerCase().includes("typehierarchy")) {
+    send({ id: message.id, error: { code: -32601, message: "Unhandled method " + method } });
+  } else if (method === "textDocument/prepareTypeHierarchy") {
+    const name = lines[params.position.line];
+    send({ id: message.id, result: name ? [item(name)] : null });
+  } else if (method === "typeHierarchy/supertypes") {
+    send({ id: message.id, result: (supertypes[params.item.name] ?? []).map(item) });
+  } else if (method === "typeHierarchy/subtypes") {
+    send({ id: message.id, result: (subtypes[params.item.name] ?? []).map(item) });
+  } else if (method === "shutdown") {
+    send({ id: message.id, result: null });
+  } else if (method === "exit") {
+    process.exit(0);
+  } else if (message.id !== undefined && method !== undefined) {
+    send({ id: message.id, result: null });
+  }
+}
+`;
+
+describe("lsp_get_type_hierarchy", () => {
+  let tmpDir: string;
+  let filePath: string;
+  let serverPath: string;
+  const clients: LSPClient[] = [];
+
+  const startClient = async (...args: string[]) => {
+    const { createLSPClient } = await import("@internal/lsp-client");
+    const client = createLSPClient({
+      process: spawn(
+        process.execPath,
+        [serverPath, pathToFileURL(filePath).toString(), ...args],
+        { stdio: ["pipe", "pipe", "pipe"] },
+      ),
+      rootPath: tmpDir,
+      languageId: "typescript",
+      serverCharacteristics: { readinessCheckTimeout: 10 },
+    });
+    clients.push(client);
+    await client.start();
+    return client;
+  };
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-lsp-type-hierarchy-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    filePath = path.join(tmpDir, "animals.ts");
+    await fs.writeFile(filePath, SOURCE);
+    serverPath = path.join(tmpDir, "server.cjs");
+    await fs.writeFile(serverPath, FAKE_SERVER);
+  });
+
+  afterAll(async () => {
+    for (const client of clients) await client.stop();
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("with a server supporting type hierarchy", () => {
+    let client: LSPClient;
+
+    beforeAll(async () => {
+      client = await startClient();
+    }, 10000);
+
+    it("should prepare the item at a position", async () => {
+      expect(client.supportsFeature("typeHierarchy")).toBe(true);
+
+      const items = await client.prepareTypeHierarchy(
+        pathToFileURL(filePath).toString(),
+        { line: 2, character: 6 },
+      );
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ name: "Dog", kind: 5 });
+    });
+
+    it("should list supertypes recursively", async () => {
+      const result = await createTypeHierarchyTool(client).execute({
+        root: tmpDir,
+        relativePath: "animals.ts",
+        textTarget: "Puppy",
+        direction: "supertypes",
+        depth: 3,
+      });
+
+      expect(result).toContain('Type hierarchy for "Puppy" (depth 3)');
+      expect(result).toContain("Puppy [Class] animals.ts:4:7");
+      expect(result).toMatch(
+        /Supertypes \(extends\/implements\):\n {2}- Dog \[Class\] animals\.ts:3:7\n {4}- Animal \[Class\] animals\.ts:2:7\n {6}- Named \[Interface\] animals\.ts:1:11/,
+      );
+      expect(result).not.toContain("Subtypes");
+    });
+
+    it("should list subtypes up to the depth", async () => {
+      const result = await createTypeHierarchyTool(client).execute({
+        root: tmpDir,
+        relativePath: "animals.ts",
+        textTarget: "Named",
+        direction: "subtypes",
+        depth: 2,
+      });
+
+      expect(result).toMatch(
+        /Subtypes \(extended\/implemented by\):\n {2}- Animal \[Class\] animals\.ts:2:7\n {4}- Dog \[Class\] animals\.ts:3:7/,
+      );
+      expect(result).not.toContain("Puppy");
+    });
+
+    it("should show both directions", async () => {
+      const result = await createTypeHierarchyTool(client).execute({
+        root: tmpDir,
+        relativePath: "animals.ts",
+        textTarget: "Dog",
+        direction: "both",
+        depth: 1,
+      });
+
+      expect(result).toMatch(/Supertypes[^\n]*:\n {2}- Animal /);
+      expect(result).toMatch(/Subtypes[^\n]*:\n {2}- Puppy /);
+    });
+  });
+
+  describe("with a server without type hierarchy", () => {
+    let client: LSPClient;
+
+    beforeAll(async () => {
+      client = await startClient("--unsupported");
+    }, 10000);
+
+    it("should not advertise the feature, so the tool is filtered out", async () => {
+      const { CapabilityChecker, createToolCapabilityMap } = await import(
+        "@internal/lsp-client"
+      );
+      const tool = createTypeHierarchyTool(client);
+
+      expect(client.supportsFeature("typeHierarchy")).toBe(false);
+      expect(
+        new CapabilityChecker(client.getServerCapabilities()).filterTools(
+          [tool],
+          createToolCapabilityMap(),
+        ),
+      ).toEqual([]);
+    });
+
+    it("should fail with the server error when called anyway", async () => {
+      await expect(
+        createTypeHierarchyTool(client).execute({
+          root: tmpDir,
+          relativePath: "animals.ts",
+          textTarget: "Dog",
+          direction: "both",
+          depth: 1,
+        }),
+      ).rejects.toThrow(/Unhandled method textDocument\/prepareTypeHierarchy/);
+    });
+  });
+});
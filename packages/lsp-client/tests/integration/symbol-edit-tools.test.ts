@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "child_process";
+import type { LSPClient } from "@internal/lsp-client";
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+import {
+  createInsertAfterSymbolTool,
+  createInsertBeforeSymbolTool,
+  createReplaceSymbolBodyTool,
+} from "../../../../src/tools/lsp/symbolEditTools.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, "../../../..");
+
+const SERVICE = `export class UserService {
+  private users: string[] = [];
+
+  /** Store a user */
+  save(name: string): void {
+    this.users.push(name);
+  }
+}
+`;
+
+describe("symbol editing tools", () => {
+  let lspProcess: ChildProcess;
+  let lspClient: LSPClient;
+  let tmpDir: string;
+
+  const read = () => fs.readFile(path.join(tmpDir, "service.ts"), "utf-8");
+
+  beforeAll(async () => {
+    const hash = randomBytes(8).toString("hex");
+    tmpDir = path.join(__dirname, `tmp-symbol-edit-tools-${hash}`);
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(
+      path.join(tmpDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    );
+
+    const tsLspPath = path.join(
+      projectRoot,
+      "node_modules",
+      ".bin",
+      "typescript-language-server",
+    );
+    if (!existsSync(tsLspPath)) {
+      throw new Error(
+        `typescript-language-server not found at ${tsLspPath}. Please run 'pnpm install' first.`,
+      );
+    }
+
+    lspProcess = spawn(tsLspPath, ["--stdio"], {
+      cwd: tmpDir,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+
+    const { createLSPClient } = await import("@internal/lsp-client");
+    lspClient = createLSPClient({
+      process: lspProcess,
+      rootPath: tmpDir,
+      languageId: "typescript",
+    });
+    await lspClient.start();
+  }, 30000);
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tmpDir, "service.ts"), SERVICE);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    if (lspProcess) {
+      if (lspClient) await lspClient.stop();
+      lspProcess.kill();
+    }
+  }, 30000);
+
+  it("should replace a method found by its dotted name path", async () => {
+    const result = await createReplaceSymbolBodyTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "service.ts",
+      symbolPath: "UserService.save",
+      body: "save(name: string): void {\n  this.users.push(name.trim());\n}",
+    });
+
+    expect(JSON.parse(result)).toEqual({
+      success: true,
+      filesChanged: ["service.ts"],
+    });
+    expect(await read()).toContain(
+      "  /** Store a user */\n  save(name: string): void {\n    this.users.push(name.trim());\n  }\n}",
+    );
+  }, 30000);
+
+  it("should replace an exported arrow function const", async () => {
+    const greetPath = path.join(tmpDir, "greet.ts");
+    await fs.writeFile(
+      greetPath,
+      "export const greet = (name: string) => {\n  return `Hello ${name}`;\n};\n",
+    );
+
+    const result = await createReplaceSymbolBodyTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "greet.ts",
+      symbolPath: "greet",
+      body: "export const greet = (name: string, greeting = 'Hello') => {\n  return `${greeting} ${name}`;\n};",
+    });
+
+    expect(JSON.parse(result)).toMatchObject({ success: true });
+    expect(await fs.readFile(greetPath, "utf-8")).toBe(
+      "export const greet = (name: string, greeting = 'Hello') => {\n  return `${greeting} ${name}`;\n};\n",
+    );
+  }, 30000);
+
+  it("should insert above the doc comment of a symbol", async () => {
+    await createInsertBeforeSymbolTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "service.ts",
+      symbolPath: "UserService/save",
+      content: "clear(): void {\n  this.users = [];\n}\n\n",
+    });
+
+    expect(await read()).toContain(
+      "  private users: string[] = [];\n\n  clear(): void {\n    this.users = [];\n  }\n\n  /** Store a user */\n",
+    );
+  }, 30000);
+
+  it("should insert after the end of a symbol", async () => {
+    await createInsertAfterSymbolTool(lspClient).execute({
+      root: tmpDir,
+      relativePath: "service.ts",
+      symbolPath: "UserService",
+      content: "\nexport const service = new UserService();",
+    });
+
+    expect(await read()).toBe(
+      `${SERVICE}\nexport const service = new UserService();\n`,
+    );
+  }, 30000);
+
+  it("should preview without writing and report unknown symbols", async () => {
+    const tool = createInsertAfterSymbolTool(lspClient);
+    const preview = JSON.parse(
+      await tool.execute({
+        root: tmpDir,
+        relativePath: "service.ts",
+        symbolPath: "UserService.save",
+        content: "\ncount(): number {\n  return this.users.length;\n}",
+        dryRun: true,
+      }),
+    );
+    expect(preview.diff).toContain("+  count(): number {");
+    expect(await read()).toBe(SERVICE);
+
+    const missing = JSON.parse(
+      await tool.execute({
+        root: tmpDir,
+        relativePath: "service.ts",
+        symbolPath: "UserService.load",
+        content: "",
+      }),
+    );
+    expect(missing).toEqual({
+      success: false,
+      error: 'Symbol "UserService.load" not found',
+    });
+  }, 30000);
+});
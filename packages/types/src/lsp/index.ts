@@ -49,6 +49,20 @@ export {
   DocumentLink,
 } from "vscode-languageserver-types";
 
+// Interfaces without a runtime namespace must be re-exported as types only
+export type {
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  TypeHierarchyItem,
+} from "vscode-languageserver-types";
+
+// Request params defined by the protocol rather than the types package
+export type {
+  TypeHierarchySupertypesParams as TypeHierarchySupertypeParams,
+  TypeHierarchySubtypesParams as TypeHierarchySubtypeParams,
+} from "vscode-languageserver-protocol";
+
 // Type aliases that are not exported at runtime from vscode-languageserver-types
 export type Definition = Location | Location[];
 import type { SignatureInformation as SignatureInfo } from "vscode-languageserver-types";
@@ -57,10 +71,4 @@ export type SignatureHelp = {
   activeSignature?: number;
   activeParameter?: number;
 };
-export type CallHierarchyItem = any; // These types are not available in v3.17.5
-export type CallHierarchyIncomingCall = any;
-export type CallHierarchyOutgoingCall = any;
-export type TypeHierarchyItem = any;
-export type TypeHierarchySupertypeParams = any;
-export type TypeHierarchySubtypeParams = any;
-export type SemanticTokensEdit = any;
+export type SemanticTokensEdit = any; // These types are not available in v3.17.5
@@ -15,11 +15,13 @@ Usage:
   lsmcp init [-p <preset>]                 Initialize project
   lsmcp index                              Build symbol index
   lsmcp doctor [-p <preset>]               Analyze environment & suggest setup
+  lsmcp check-formatting [<pattern>]       Check formatting without writing
 
 Commands:
-  init      Initialize lsmcp project configuration
-  index     Build symbol index from config.json
-  doctor    Analyze environment and suggest MCP configurations
+  init              Initialize lsmcp project configuration
+  index             Build symbol index from config.json
+  doctor            Analyze environment and suggest MCP configurations
+  check-formatting  Report files the language server would reformat; exits 1 if any
 
 Options:
   -p, --preset <preset>     Language adapter to use (see list below)
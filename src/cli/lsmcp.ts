@@ -32,7 +32,11 @@ const lspConfigLoader = new LspConfigLoader(process.cwd());
 registerBuiltinAdapters(adapterRegistry);
 
 // Import subcommands
-import { initCommand, indexCommand } from "./subcommands.ts";
+import {
+  checkFormattingCommand,
+  initCommand,
+  indexCommand,
+} from "./subcommands.ts";
 import { doctorCommand } from "./doctor.ts";
 import { detectProjectType } from "../utils/projectDetector.ts";
 
@@ -132,6 +136,17 @@ async function main() {
     process.exit(0);
   }
 
+  if (subcommand === "check-formatting") {
+    process.exit(
+      await checkFormattingCommand(
+        process.cwd(),
+        positionals[1] ?? values.include,
+        adapterRegistry,
+        values.preset,
+      ),
+    );
+  }
+
   if (subcommand === "doctor") {
     await doctorCommand(process.cwd(), {
       preset: values.preset,
@@ -490,12 +505,17 @@ async function listTools(presetName?: string, disableList?: string) {
       const name = tool.name;
 
       // High-level tools
-      if (name.includes("project_overview")) {
+      if (
+        name.includes("project_overview") ||
+        name === "get_module_graph" ||
+        name === "lsmcp_detect_dead_code"
+      ) {
         categories["Project Overview"].push(tool);
       } else if (name.includes("memory") || name === "index_onboarding") {
         categories["Memory System"].push(tool);
       } else if (
         name === "search_symbols" ||
+        name === "find_references_indexed" ||
         name.includes("index_symbols") ||
         name.includes("clear_index") ||
         name.includes("search_symbol") ||
@@ -510,6 +530,14 @@ async function listTools(presetName?: string, disableList?: string) {
       } else if (
         name === "replace_range" ||
         name === "replace_regex" ||
+        name === "apply_edits" ||
+        name === "replace_symbol_body" ||
+        name === "insert_before_symbol" ||
+        name === "insert_after_symbol" ||
+        name === "change_signature" ||
+        name === "undo_last_edit" ||
+        name === "redo_edit" ||
+        name === "list_edit_history" ||
         (name.includes("replace") && !name.includes("lsp")) ||
         (name.includes("insert") && !name.includes("lsp"))
       ) {
@@ -530,7 +558,11 @@ async function listTools(presetName?: string, disableList?: string) {
         name.includes("lsp_rename") ||
         name.includes("lsp_delete") ||
         name.includes("lsp_format") ||
-        name.includes("lsp_get_code_actions")
+        name.includes("lsp_get_code_actions") ||
+        name.includes("lsp_apply_code_action") ||
+        name === "lsp_fix_all" ||
+        name === "lsp_check_formatting" ||
+        name === "lsp_extract"
       ) {
         categories["LSP: Code Actions"].push(tool);
       } else if (
@@ -30,6 +30,12 @@ import {
 } from "@internal/lsp-client";
 import { spawn } from "child_process";
 import { fileURLToPath } from "url";
+import { getProjectFiles } from "../tools/lsp/allDiagnostics.ts";
+import {
+  checkFormatting,
+  describeFormattingCheck,
+  formattingCheckOptions,
+} from "../tools/lsp/checkFormatting.ts";
 
 /**
  * Initialize lsmcp project
@@ -141,8 +147,17 @@ export async function initCommand(
     gitignoreContent = await readFile(gitignorePath, "utf-8");
   }
 
-  if (!gitignoreContent.includes(".lsmcp/cache")) {
-    await appendFile(gitignorePath, "\n# lsmcp cache\n.lsmcp/cache\n");
+  const ignoredEntries = [
+    { pattern: ".lsmcp/cache", comment: "lsmcp cache" },
+    { pattern: ".lsmcp/history", comment: "lsmcp edit history" },
+  ].filter(({ pattern }) => !gitignoreContent.includes(pattern));
+  if (ignoredEntries.length > 0) {
+    await appendFile(
+      gitignorePath,
+      ignoredEntries
+        .map(({ pattern, comment }) => `\n# ${comment}\n${pattern}\n`)
+        .join(""),
+    );
     console.log("✓ Updated .gitignore");
   }
 
@@ -697,3 +712,97 @@ export async function indexCommand(
     }
   }
 }
+
+/**
+ * Check that project files are formatted as the preset's language server
+ * formats them. Returns the exit code: 1 when any file would be reformatted
+ * or could not be checked.
+ * @param projectRoot - Root directory of the project
+ * @param pattern - Glob for files to check; defaults to the config's files
+ * @param adapterRegistry - Adapter registry instance
+ * @param preset - Preset to use instead of the one in config.json
+ */
+export async function checkFormattingCommand(
+  projectRoot: string,
+  pattern: string | undefined,
+  adapterRegistry: PresetRegistry,
+  preset?: string,
+): Promise<number> {
+  const configPath = join(projectRoot, ".lsmcp", "config.json");
+  let config: LSMCPConfig | undefined;
+  if (existsSync(configPath)) {
+    try {
+      const result = await new MainConfigLoader(projectRoot).load({
+        configFile: ".lsmcp/config.json",
+      });
+      config = result.config;
+    } catch (error) {
+      errorLog(
+        "❌ Invalid config.json:",
+        error instanceof Error ? error.message : String(error),
+      );
+      return 1;
+    }
+  }
+
+  const presetId = preset ?? config?.preset;
+  const adapterConfig = presetId ? adapterRegistry.get(presetId) : undefined;
+  if (!adapterConfig) {
+    errorLog(
+      presetId
+        ? `❌ Unknown preset: ${presetId}`
+        : "❌ No preset configured. Run 'lsmcp init' or pass -p <preset>.",
+    );
+    return 1;
+  }
+
+  const patterns = pattern ? [pattern] : (config?.files ?? adapterConfig.files);
+  const files = new Set<string>();
+  for (const filePattern of patterns) {
+    for (const file of await getProjectFiles(projectRoot, filePattern)) {
+      files.add(file);
+    }
+  }
+  if (files.size === 0) {
+    console.log(`No files found matching ${patterns.join(", ")}`);
+    return 0;
+  }
+
+  const { command, args } = resolveAdapterCommand(adapterConfig, projectRoot);
+  const lspProcess = spawn(command, args, {
+    stdio: ["pipe", "pipe", "pipe"],
+    cwd: projectRoot,
+  });
+  lspProcess.on("error", (error: Error) => {
+    errorLog(`Failed to start ${command}: ${error.message}`);
+  });
+  const lspClient = createLSPClient({
+    process: lspProcess,
+    rootPath: projectRoot,
+    languageId: adapterConfig.baseLanguage || adapterConfig.presetId,
+    initializationOptions: adapterConfig.initializationOptions as
+      | Record<string, unknown>
+      | undefined,
+    serverCharacteristics: adapterConfig.serverCharacteristics,
+  });
+
+  try {
+    await lspClient.start();
+    const check = await checkFormatting(
+      lspClient,
+      projectRoot,
+      [...files].sort(),
+      formattingCheckOptions(),
+    );
+    console.log(describeFormattingCheck(check, projectRoot));
+    return check.unformatted.length > 0 || check.failed.length > 0 ? 1 : 0;
+  } catch (error) {
+    errorLog(
+      `❌ Formatting check failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  } finally {
+    await lspClient.stop().catch(() => {});
+    lspProcess.kill();
+  }
+}
@@ -207,6 +207,24 @@ describe("ConfigLoader with Preset Language Features", () => {
       expect(result.config.files).toEqual(["**/*.rs"]);
       expect(result.config.preset).toBe("rust-analyzer");
     });
+
+    it("should keep additional presets from config file", async () => {
+      const configPath = join(tempDir, ".lsmcp", "config.json");
+      const config = {
+        preset: "pyright",
+        presets: ["ruff", "tsgo"],
+      };
+
+      const configDir = join(tempDir, ".lsmcp");
+      mkdirSync(configDir, { recursive: true });
+      writeFileSync(configPath, JSON.stringify(config, null, 2));
+
+      const result = await loader.load();
+
+      expect(result.config.preset).toBe("pyright");
+      expect(result.config.presets).toEqual(["ruff", "tsgo"]);
+      expect(result.config.files).toEqual(["**/*.py", "**/*.pyi"]);
+    });
   });
 
   describe(".lsmcp/config.json file loading", () => {
@@ -20,6 +20,8 @@ const DEFAULT_BASE_CONFIG: LSMCPConfig = {
     indexConcurrency: 5,
     autoIndexDelay: 500,
     enableWatchers: true,
+    formatAfterEdit: false,
+    indexReferences: false,
     memoryLimit: 1024,
   },
   symbolFilter: {
@@ -91,6 +93,9 @@ function mergeConfigs(
   if (override.files !== undefined) {
     result.files = override.files;
   }
+  if (override.presets !== undefined) {
+    result.presets = override.presets;
+  }
   if (override.ignorePatterns !== undefined) {
     result.ignorePatterns = override.ignorePatterns;
   }
@@ -6,12 +6,12 @@ import { z } from "zod";
 
 // Server characteristics schema
 export const serverCharacteristicsSchema = z.object({
-  /** Time to wait after opening a document before sending requests (ms) */
+  /** Fallback wait after opening a document, used when the server reports neither progress nor diagnostics (ms) */
   documentOpenDelay: z
     .number()
     .optional()
     .describe(
-      "Time to wait after opening a document before sending requests (ms)",
+      "Fallback wait after opening a document before sending requests, used when the server reports neither progress nor diagnostics (ms)",
     ),
 
   /** Time to wait for server readiness check (ms) */
@@ -57,6 +57,32 @@ export const serverCharacteristicsSchema = z.object({
     .boolean()
     .optional()
     .describe("Whether the server supports pull diagnostics"),
+
+  /** Workspace settings that enable inlay hints (sent on first hint request) */
+  inlayHintSettings: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe(
+      "Workspace settings sent via workspace/didChangeConfiguration the first time inlay hints are requested",
+    ),
+
+  /** Maximum automatic restarts after the server crashes */
+  maxRestarts: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      "Maximum automatic restarts after the server crashes (0 disables crash recovery)",
+    ),
+
+  /** Delay before the first restart attempt (ms) */
+  restartBackoff: z
+    .number()
+    .optional()
+    .describe(
+      "Delay before the first restart attempt (ms); doubled for each further attempt",
+    ),
 });
 
 export type ServerCharacteristics = z.infer<typeof serverCharacteristicsSchema>;
@@ -236,6 +262,14 @@ export const configSchema = z
     /** Preset adapter name (e.g., "tsgo", "typescript", "rust-analyzer") */
     preset: z.string().optional().describe("Preset adapter to use"),
 
+    /** Additional presets to run alongside the main one (e.g. ["pyright", "ruff"]) */
+    presets: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Additional preset adapters to run alongside 'preset'. Requests are routed to each server by its preset's file patterns",
+      ),
+
     /** Glob patterns for files to index (required when no preset) */
     files: z
       .array(z.string())
@@ -271,7 +305,25 @@ export const configSchema = z
         enableWatchers: z
           .boolean()
           .default(true)
-          .describe("Enable file watchers for auto-indexing"),
+          .describe(
+            "Enable file watchers for auto-indexing and for notifying language servers of file changes",
+          ),
+
+        /** Range format the lines edit tools change */
+        formatAfterEdit: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Format the lines replace_range, replace_regex and the symbol editing tools change with the language server's range formatter",
+          ),
+
+        /** Record references of indexed symbols */
+        indexReferences: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Record the references to indexed symbols in the index cache and keep them updated, for find_references_indexed",
+          ),
 
         /** Memory limit for indexing (MB) */
         memoryLimit: z
@@ -409,6 +461,8 @@ export const DEFAULT_CONFIG: LSMCPConfig = {
     indexConcurrency: 5,
     autoIndexDelay: 500,
     enableWatchers: true,
+    formatAfterEdit: false,
+    indexReferences: false,
     memoryLimit: 1024,
   },
   symbolFilter: DEFAULT_SYMBOL_FILTER,
@@ -0,0 +1,277 @@
+/**
+ * Diagnostics an edit introduces or resolves, found by collecting them for
+ * the changed files and their direct dependents before and after the edit
+ */
+
+import { readFile } from "node:fs/promises";
+import { relative } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { LSPClient } from "@internal/lsp-client";
+import {
+  getLanguageIdFromPath,
+  waitForDiagnosticsWithRetry,
+} from "@internal/lsp-client";
+import { querySymbols } from "@internal/code-indexer";
+import type { Diagnostic, Position } from "@internal/types";
+import { FileChangeType } from "vscode-languageserver-protocol";
+import { debugLog } from "../../utils/debugLog.ts";
+
+/** Dependents beyond this many are not checked */
+const MAX_DEPENDENTS = 20;
+
+export interface DiagnosticsBaseline {
+  root: string;
+  /** Files the edit changes */
+  changedFiles: string[];
+  /** Diagnostics before the edit for the changed files and their dependents */
+  before: Map<string, Diagnostic[]>;
+}
+
+/**
+ * Collect current diagnostics of files, skipping the ones that do not exist
+ */
+async function collectDiagnostics(
+  client: LSPClient,
+  filePaths: string[],
+): Promise<Map<string, Diagnostic[]>> {
+  const result = new Map<string, Diagnostic[]>();
+  for (const filePath of filePaths) {
+    const content = await readFile(filePath, "utf-8").catch(() => undefined);
+    if (content === undefined) continue;
+
+    const fileUri = pathToFileURL(filePath).toString();
+    const documentWasOpen = client.isDocumentOpen(fileUri);
+    try {
+      result.set(
+        filePath,
+        await waitForDiagnosticsWithRetry(
+          client,
+          fileUri,
+          content,
+          getLanguageIdFromPath(filePath) || undefined,
+          // Clean files get an empty push, so polling long after it
+          // only slows down checking many files
+          { timeout: 5000, forceRefresh: true, maxPolls: 10 },
+        ),
+      );
+    } catch (error) {
+      debugLog(`[diagnosticsDelta] No diagnostics for ${filePath}: ${error}`);
+    } finally {
+      if (!documentWasOpen) client.closeDocument(fileUri);
+    }
+  }
+  return result;
+}
+
+function namePosition(
+  lines: string[],
+  name: string,
+  start: Position,
+  end: Position,
+): Position | undefined {
+  for (let line = start.line; line <= end.line && line < lines.length; line++) {
+    const column = lines[line].indexOf(
+      name,
+      line === start.line ? start.character : 0,
+    );
+    if (column >= 0) return { line, character: column };
+  }
+  return undefined;
+}
+
+/**
+ * Files referencing the top-level symbols the index knows for the changed
+ * files
+ */
+async function findDependents(
+  client: LSPClient,
+  root: string,
+  changedFiles: string[],
+): Promise<string[]> {
+  const dependents = new Set<string>();
+  for (const filePath of changedFiles) {
+    const fileUri = pathToFileURL(filePath).toString();
+    const symbols = querySymbols(root, {
+      file: relative(root, filePath),
+    }).filter(
+      (symbol) => symbol.location.uri === fileUri && !symbol.containerName,
+    );
+    if (symbols.length === 0) continue;
+
+    const content = await readFile(filePath, "utf-8").catch(() => undefined);
+    if (content === undefined) continue;
+    const lines = content.split("\n");
+    const documentWasOpen = client.isDocumentOpen(fileUri);
+    if (!documentWasOpen) client.openDocument(fileUri, content);
+    try {
+      for (const symbol of symbols) {
+        const { start, end } = symbol.location.range;
+        const position = namePosition(lines, symbol.name, start, end);
+        if (!position) continue;
+        const references = await client
+          .findReferences(fileUri, position)
+          .catch(() => []);
+        for (const reference of references) {
+          const referencePath = fileURLToPath(reference.uri);
+          if (!changedFiles.includes(referencePath)) {
+            dependents.add(referencePath);
+          }
+        }
+      }
+    } finally {
+      if (!documentWasOpen) client.closeDocument(fileUri);
+    }
+  }
+  return [...dependents].sort().slice(0, MAX_DEPENDENTS);
+}
+
+/**
+ * Record the diagnostics of the files an edit is about to change and of
+ * their direct dependents. Call before writing anything.
+ */
+export async function captureDiagnosticsBaseline(
+  client: LSPClient,
+  root: string,
+  changedFiles: string[],
+): Promise<DiagnosticsBaseline> {
+  // Diagnostics only arrive once the server has loaded the project, which
+  // references need to reach other files
+  const before = await collectDiagnostics(client, changedFiles);
+  const dependents = await findDependents(client, root, changedFiles);
+  for (const [filePath, diagnostics] of await collectDiagnostics(
+    client,
+    dependents,
+  )) {
+    before.set(filePath, diagnostics);
+  }
+  return { root, changedFiles, before };
+}
+
+function diagnosticKey(diagnostic: Diagnostic): string {
+  return [
+    diagnostic.severity,
+    diagnostic.source,
+    diagnostic.code,
+    diagnostic.message,
+  ].join("\0");
+}
+
+function formatDiagnostic(sign: string, diagnostic: Diagnostic): string {
+  const severity = diagnostic.severity === 1 ? "ERROR" : "WARNING";
+  const { line, character } = diagnostic.range.start;
+  return `    ${sign} ${severity} ${line + 1}:${character + 1} ${diagnostic.message}`;
+}
+
+/**
+ * Diagnostics only present after, and only present before. Lines move with
+ * the edit, so diagnostics are matched by what they report, not by position.
+ */
+export function compareDiagnostics(
+  before: Diagnostic[],
+  after: Diagnostic[],
+): { introduced: Diagnostic[]; resolved: Diagnostic[] } {
+  const relevant = (diagnostic: Diagnostic) =>
+    diagnostic.severity === 1 || diagnostic.severity === 2;
+  const resolved = before.filter(relevant);
+  const introduced: Diagnostic[] = [];
+  for (const diagnostic of after.filter(relevant)) {
+    const index = resolved.findIndex(
+      (candidate) => diagnosticKey(candidate) === diagnosticKey(diagnostic),
+    );
+    if (index >= 0) resolved.splice(index, 1);
+    else introduced.push(diagnostic);
+  }
+  return { introduced, resolved };
+}
+
+/**
+ * Collect the diagnostics again after the edit was written and describe the
+ * errors and warnings that appeared or went away
+ */
+export async function reportDiagnosticsDelta(
+  client: LSPClient,
+  baseline: DiagnosticsBaseline,
+): Promise<string> {
+  // Open documents still hold the content from before the edit
+  await client
+    .notifyFileChanges(
+      baseline.changedFiles.map((filePath) => ({
+        uri: pathToFileURL(filePath).toString(),
+        type: FileChangeType.Changed,
+      })),
+    )
+    .catch((error) =>
+      debugLog(`[diagnosticsDelta] Failed to notify the server: ${error}`),
+    );
+
+  const files = [
+    ...new Set([...baseline.changedFiles, ...baseline.before.keys()]),
+  ];
+  const after = await collectDiagnostics(client, files);
+  const sections: string[] = [];
+  for (const filePath of files) {
+    const { introduced, resolved } = compareDiagnostics(
+      baseline.before.get(filePath) ?? [],
+      after.get(filePath) ?? [],
+    );
+    if (introduced.length === 0 && resolved.length === 0) continue;
+    sections.push(
+      [
+        `  ${relative(baseline.root, filePath).replace(/\\/g, "/")}:`,
+        ...introduced.map((diagnostic) => formatDiagnostic("+", diagnostic)),
+        ...resolved.map((diagnostic) => formatDiagnostic("-", diagnostic)),
+      ].join("\n"),
+    );
+  }
+
+  if (sections.length === 0) {
+    return `Diagnostics: no errors or warnings introduced or resolved in ${files.length} checked file(s)`;
+  }
+  return `Diagnostics (+ introduced, - resolved) in ${files.length} checked file(s):\n${sections.join("\n")}`;
+}
+
+/**
+ * Capture the baseline for tools that may run without a language server and
+ * return the function reporting the delta once the edit is written
+ */
+export async function trackDiagnostics(
+  client: LSPClient | undefined,
+  root: string,
+  changedFiles: string[],
+): Promise<() => Promise<string>> {
+  if (!client) {
+    return async () =>
+      "Diagnostics are not available without a language server";
+  }
+  const baseline = await captureDiagnosticsBaseline(client, root, changedFiles);
+  return () => reportDiagnosticsDelta(client, baseline);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const diagnostic = (
+    line: number,
+    message: string,
+    severity: Diagnostic["severity"] = 1,
+  ): Diagnostic => ({
+    range: {
+      start: { line, character: 0 },
+      end: { line, character: 1 },
+    },
+    message,
+    severity,
+  });
+
+  describe("compareDiagnostics", () => {
+    it("should match moved diagnostics by their content", () => {
+      const { introduced, resolved } = compareDiagnostics(
+        [diagnostic(1, "a"), diagnostic(2, "b"), diagnostic(3, "b")],
+        [diagnostic(5, "b"), diagnostic(6, "c"), diagnostic(7, "hint", 4)],
+      );
+
+      expect(introduced).toEqual([diagnostic(6, "c")]);
+      expect(resolved).toEqual([diagnostic(1, "a"), diagnostic(3, "b")]);
+    });
+  });
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import { EditJournal, diffToTextEdits } from "./editJournal.ts";
+
+// Paths whose next write fails, for the rollback tests
+const failingWrites = new Set<string>();
+
+vi.mock("node:fs/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:fs/promises")>();
+  return {
+    ...actual,
+    writeFile: (async (path, ...args) => {
+      if (failingWrites.delete(String(path))) {
+        throw new Error(`ENOSPC: no space left on device, write '${path}'`);
+      }
+      return actual.writeFile(path, ...args);
+    }) as typeof actual.writeFile,
+  };
+});
+
+describe("diffToTextEdits", () => {
+  it("should produce edits covering only the changed span", () => {
+    const before = "const a = 1;\nconst b = 2;\n";
+    const after = "const a = 1;\nconst renamed = 2;\nexport {};\n";
+
+    const { forward, reverse } = diffToTextEdits(before, after);
+
+    expect(forward.range.start).toEqual({ line: 1, character: 6 });
+    expect(applyTextEdits(before, [forward])).toBe(after);
+    expect(applyTextEdits(after, [reverse])).toBe(before);
+  });
+
+  it("should handle empty contents on either side", () => {
+    const { forward, reverse } = diffToTextEdits("", "new\nfile\n");
+    expect(applyTextEdits("", [forward])).toBe("new\nfile\n");
+    expect(applyTextEdits("new\nfile\n", [reverse])).toBe("");
+  });
+});
+
+describe("EditJournal", () => {
+  let testDir: string;
+  let journal: EditJournal;
+
+  const read = (name: string) => fs.readFile(join(testDir, name), "utf-8");
+  const write = (name: string, content: string) =>
+    fs.writeFile(join(testDir, name), content);
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `lsmcp-journal-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    journal = new EditJournal(testDir);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should store the journal under .lsmcp/history", async () => {
+    await write("a.ts", "after");
+    await journal.record("edit a", [
+      { filePath: join(testDir, "a.ts"), before: "before", after: "after" },
+    ]);
+
+    expect(existsSync(join(testDir, ".lsmcp", "history", "journal.json"))).toBe(
+      true,
+    );
+    const { undo, redo } = await journal.list();
+    expect(undo.map((op) => op.label)).toEqual(["edit a"]);
+    expect(undo[0].files[0].path).toBe("a.ts");
+    expect(redo).toEqual([]);
+  });
+
+  it("should skip operations that change nothing", async () => {
+    const operation = await journal.record("noop", [
+      { filePath: join(testDir, "a.ts"), before: "same", after: "same" },
+    ]);
+
+    expect(operation).toBeUndefined();
+    expect((await journal.list()).undo).toEqual([]);
+  });
+
+  it("should undo and redo a multi-file operation", async () => {
+    await write("a.ts", "const foo = 1;\n");
+    await write("b.ts", "import { foo } from './a';\n");
+    await journal.record("rename foo", [
+      {
+        filePath: join(testDir, "a.ts"),
+        before: "const bar = 1;\n",
+        after: "const foo = 1;\n",
+      },
+      {
+        filePath: join(testDir, "b.ts"),
+        before: "import { bar } from './a';\n",
+        after: "import { foo } from './a';\n",
+      },
+    ]);
+
+    const undone = await journal.undo();
+    expect(undone.status).toBe("applied");
+    expect(await read("a.ts")).toBe("const bar = 1;\n");
+    expect(await read("b.ts")).toBe("import { bar } from './a';\n");
+    expect((await journal.list()).redo.map((op) => op.label)).toEqual([
+      "rename foo",
+    ]);
+
+    const redone = await journal.redo();
+    expect(redone.status).toBe("applied");
+    expect(await read("a.ts")).toBe("const foo = 1;\n");
+    expect(await read("b.ts")).toBe("import { foo } from './a';\n");
+  });
+
+  it("should remove created files and restore deleted ones", async () => {
+    await write("new.ts", "export {};\n");
+    await journal.record("move", [
+      {
+        filePath: join(testDir, "new.ts"),
+        before: null,
+        after: "export {};\n",
+      },
+      {
+        filePath: join(testDir, "old.ts"),
+        before: "export {};\n",
+        after: null,
+      },
+    ]);
+
+    expect((await journal.undo()).status).toBe("applied");
+    expect(existsSync(join(testDir, "new.ts"))).toBe(false);
+    expect(await read("old.ts")).toBe("export {};\n");
+  });
+
+  it("should refuse to undo when a file changed since the operation", async () => {
+    await write("a.ts", "after\n");
+    await write("b.ts", "other after\n");
+    await journal.record("edit", [
+      { filePath: join(testDir, "a.ts"), before: "before\n", after: "after\n" },
+      {
+        filePath: join(testDir, "b.ts"),
+        before: "other before\n",
+        after: "other after\n",
+      },
+    ]);
+    await write("b.ts", "edited by hand\n");
+
+    const result = await journal.undo();
+
+    expect(result.status).toBe("conflict");
+    expect(result.status === "conflict" && result.conflicts).toEqual([
+      { path: "b.ts", reason: "modified" },
+    ]);
+    // Nothing was reverted
+    expect(await read("a.ts")).toBe("after\n");
+    expect((await journal.list()).undo).toHaveLength(1);
+  });
+
+  it("should restore the files already written when a write fails", async () => {
+    await write("a.ts", "const foo = 1;\n");
+    await write("b.ts", "import { foo } from './a';\n");
+    await journal.record("rename foo", [
+      {
+        filePath: join(testDir, "a.ts"),
+        before: "const bar = 1;\n",
+        after: "const foo = 1;\n",
+      },
+      {
+        filePath: join(testDir, "b.ts"),
+        before: "import { bar } from './a';\n",
+        after: "import { foo } from './a';\n",
+      },
+    ]);
+    failingWrites.add(join(testDir, "b.ts"));
+
+    await expect(journal.undo()).rejects.toThrow("ENOSPC");
+
+    expect(await read("a.ts")).toBe("const foo = 1;\n");
+    expect(await read("b.ts")).toBe("import { foo } from './a';\n");
+    expect(await journal.list()).toMatchObject({
+      undo: [{ label: "rename foo" }],
+      redo: [],
+    });
+    expect((await journal.undo()).status).toBe("applied");
+  });
+
+  it("should discard redoable operations when a new one is recorded", async () => {
+    await write("a.ts", "2");
+    await journal.record("first", [
+      { filePath: join(testDir, "a.ts"), before: "1", after: "2" },
+    ]);
+    await journal.undo();
+    await journal.record("second", [
+      { filePath: join(testDir, "a.ts"), before: "1", after: "3" },
+    ]);
+
+    expect(await journal.list()).toMatchObject({
+      undo: [{ label: "second" }],
+      redo: [],
+    });
+    expect((await journal.redo()).status).toBe("empty");
+  });
+});
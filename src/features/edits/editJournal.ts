@@ -0,0 +1,368 @@
+/**
+ * Journal of the file edits lsmcp applies, so they can be undone and redone
+ * without touching unrelated changes in the working tree
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import type { TextEdit } from "@internal/types";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import { debugLog } from "../../utils/debugLog.ts";
+
+/** Oldest operations are dropped beyond this many */
+const MAX_OPERATIONS = 100;
+
+/**
+ * A file's content before and after an edit. Null means the file does not
+ * exist at that point.
+ */
+export interface FileContentChange {
+  filePath: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface JournalFileChange {
+  /** Path relative to the project root */
+  path: string;
+  /** sha256 of the content before the operation, null if it did not exist */
+  beforeHash: string | null;
+  /** sha256 of the content after the operation, null if it was deleted */
+  afterHash: string | null;
+  /** Turns the before content into the after content */
+  forward: TextEdit;
+  /** Turns the after content back into the before content */
+  reverse: TextEdit;
+}
+
+export interface EditOperation {
+  id: string;
+  label: string;
+  timestamp: string;
+  files: JournalFileChange[];
+}
+
+interface JournalData {
+  version: 1;
+  undo: EditOperation[];
+  redo: EditOperation[];
+}
+
+export interface EditConflict {
+  path: string;
+  reason: "modified" | "deleted" | "exists";
+}
+
+export type ReplayResult =
+  | {
+      status: "applied";
+      operation: EditOperation;
+      /** Contents of the files before and after the replay */
+      changes: FileContentChange[];
+    }
+  | { status: "conflict"; operation: EditOperation; conflicts: EditConflict[] }
+  | { status: "empty" };
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function positionAt(content: string, offset: number) {
+  const preceding = content.slice(0, offset).split("\n");
+  return {
+    line: preceding.length - 1,
+    character: preceding[preceding.length - 1].length,
+  };
+}
+
+/**
+ * Single edits turning before into after and back, covering only the span
+ * between their common prefix and suffix
+ */
+export function diffToTextEdits(
+  before: string,
+  after: string,
+): { forward: TextEdit; reverse: TextEdit } {
+  let prefix = 0;
+  const shorter = Math.min(before.length, after.length);
+  while (prefix < shorter && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const beforeEnd = before.length - suffix;
+  const afterEnd = after.length - suffix;
+  return {
+    forward: {
+      range: {
+        start: positionAt(before, prefix),
+        end: positionAt(before, beforeEnd),
+      },
+      newText: after.slice(prefix, afterEnd),
+    },
+    reverse: {
+      range: {
+        start: positionAt(after, prefix),
+        end: positionAt(after, afterEnd),
+      },
+      newText: before.slice(prefix, beforeEnd),
+    },
+  };
+}
+
+async function writeContent(
+  filePath: string,
+  content: string | null,
+): Promise<void> {
+  if (content === null) {
+    await rm(filePath, { force: true });
+    return;
+  }
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, "utf-8");
+}
+
+/**
+ * Write all files, restoring the ones already written if any write fails
+ */
+export async function writeAll(changes: FileContentChange[]): Promise<void> {
+  const written: FileContentChange[] = [];
+  try {
+    for (const change of changes) {
+      written.push(change);
+      await writeContent(change.filePath, change.after);
+    }
+  } catch (error) {
+    for (const change of written) {
+      await writeContent(change.filePath, change.before);
+    }
+    throw error;
+  }
+}
+
+// Serializes journal updates of concurrent tool calls per project
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+export class EditJournal {
+  private rootPath: string;
+  private journalPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = resolve(rootPath);
+    this.journalPath = join(this.rootPath, ".lsmcp", "history", "journal.json");
+  }
+
+  /**
+   * Record an applied operation. Changes are given in the order they were
+   * applied, unchanged files are left out and a new operation discards
+   * everything that could be redone.
+   */
+  async record(
+    label: string,
+    changes: FileContentChange[],
+  ): Promise<EditOperation | undefined> {
+    // A file edited in several steps goes from its first to its last content
+    const merged = new Map<string, FileContentChange>();
+    for (const change of changes) {
+      const filePath = resolve(this.rootPath, change.filePath);
+      const previous = merged.get(filePath);
+      merged.set(filePath, {
+        filePath,
+        before: previous ? previous.before : change.before,
+        after: change.after,
+      });
+    }
+    const files = [...merged.values()]
+      .filter((change) => change.before !== change.after)
+      .map((change) => this.toJournalChange(change));
+    if (files.length === 0) return undefined;
+
+    return this.update((data) => {
+      const operation: EditOperation = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        timestamp: new Date().toISOString(),
+        files,
+      };
+      data.undo.push(operation);
+      if (data.undo.length > MAX_OPERATIONS) {
+        data.undo.splice(0, data.undo.length - MAX_OPERATIONS);
+      }
+      data.redo = [];
+      return operation;
+    });
+  }
+
+  /**
+   * Revert the most recent operation. Nothing is written when any of its
+   * files changed since.
+   */
+  async undo(): Promise<ReplayResult> {
+    return this.update(async (data) => {
+      const operation = data.undo.at(-1);
+      if (!operation) return { status: "empty" } as const;
+
+      const conflicts = await this.checkFiles(operation, "afterHash");
+      if (conflicts.length > 0) {
+        return { status: "conflict", operation, conflicts } as const;
+      }
+      const changes = await Promise.all(
+        operation.files.map((file) =>
+          this.replay(file.path, file.afterHash, file.reverse, file.beforeHash),
+        ),
+      );
+      await writeAll(changes);
+      data.undo.pop();
+      data.redo.push(operation);
+      return { status: "applied", operation, changes } as const;
+    });
+  }
+
+  /**
+   * Apply the most recently undone operation again
+   */
+  async redo(): Promise<ReplayResult> {
+    return this.update(async (data) => {
+      const operation = data.redo.at(-1);
+      if (!operation) return { status: "empty" } as const;
+
+      const conflicts = await this.checkFiles(operation, "beforeHash");
+      if (conflicts.length > 0) {
+        return { status: "conflict", operation, conflicts } as const;
+      }
+      const changes = await Promise.all(
+        operation.files.map((file) =>
+          this.replay(file.path, file.beforeHash, file.forward, file.afterHash),
+        ),
+      );
+      await writeAll(changes);
+      data.redo.pop();
+      data.undo.push(operation);
+      return { status: "applied", operation, changes } as const;
+    });
+  }
+
+  /**
+   * Operations that can be undone and redone, most recent first
+   */
+  async list(): Promise<{ undo: EditOperation[]; redo: EditOperation[] }> {
+    const data = await this.load();
+    return { undo: [...data.undo].reverse(), redo: [...data.redo].reverse() };
+  }
+
+  private toJournalChange(change: FileContentChange): JournalFileChange {
+    return {
+      path: relative(this.rootPath, change.filePath).replace(/\\/g, "/"),
+      beforeHash: change.before === null ? null : hashContent(change.before),
+      afterHash: change.after === null ? null : hashContent(change.after),
+      ...diffToTextEdits(change.before ?? "", change.after ?? ""),
+    };
+  }
+
+  private async readCurrent(path: string): Promise<string | null> {
+    try {
+      return await readFile(join(this.rootPath, path), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  private async checkFiles(
+    operation: EditOperation,
+    expected: "beforeHash" | "afterHash",
+  ): Promise<EditConflict[]> {
+    const conflicts: EditConflict[] = [];
+    for (const file of operation.files) {
+      const current = await this.readCurrent(file.path);
+      const expectedHash = file[expected];
+      if (current === null) {
+        if (expectedHash !== null) {
+          conflicts.push({ path: file.path, reason: "deleted" });
+        }
+      } else if (expectedHash === null) {
+        conflicts.push({ path: file.path, reason: "exists" });
+      } else if (hashContent(current) !== expectedHash) {
+        conflicts.push({ path: file.path, reason: "modified" });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * The change replaying an edit makes to a file, without writing it
+   */
+  private async replay(
+    path: string,
+    fromHash: string | null,
+    edit: TextEdit,
+    toHash: string | null,
+  ): Promise<FileContentChange> {
+    const filePath = join(this.rootPath, path);
+    const before = await this.readCurrent(path);
+    if (toHash === null) return { filePath, before, after: null };
+
+    const content = applyTextEdits(fromHash === null ? "" : (before ?? ""), [
+      edit,
+    ]);
+    if (hashContent(content) !== toHash) {
+      throw new Error(
+        `Replaying the journal on ${path} produced unexpected content`,
+      );
+    }
+    return { filePath, before, after: content };
+  }
+
+  private async load(): Promise<JournalData> {
+    try {
+      const data = JSON.parse(await readFile(this.journalPath, "utf-8"));
+      if (data?.version === 1) return data;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        debugLog("[EditJournal] Ignoring unreadable journal:", error);
+      }
+    }
+    return { version: 1, undo: [], redo: [] };
+  }
+
+  private async update<T>(
+    change: (data: JournalData) => T | Promise<T>,
+  ): Promise<T> {
+    const previous = pendingUpdates.get(this.rootPath) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const data = await this.load();
+        const result = await change(data);
+        await mkdir(dirname(this.journalPath), { recursive: true });
+        await writeFile(
+          this.journalPath,
+          JSON.stringify(data, null, 2),
+          "utf-8",
+        );
+        return result;
+      });
+    pendingUpdates.set(this.rootPath, next);
+    return next;
+  }
+}
+
+/**
+ * Record an applied edit without failing the tool that applied it
+ */
+export async function recordEdit(
+  root: string,
+  label: string,
+  changes: FileContentChange[],
+): Promise<void> {
+  try {
+    await new EditJournal(root).record(label, changes);
+  } catch (error) {
+    debugLog("[EditJournal] Failed to record edit:", error);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Range formatting of the lines an edit changed, enabled by the
+ * settings.formatAfterEdit config option
+ */
+
+import { pathToFileURL } from "node:url";
+import type { LSPClient } from "@internal/lsp-client";
+import type { FormattingOptions, Range, TextEdit } from "@internal/types";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import { changedLineRanges } from "../../utils/unifiedDiff.ts";
+import { debugLog } from "../../utils/debugLog.ts";
+
+/**
+ * Whether the config asks edit tools to format the lines they changed
+ */
+export function isFormatAfterEditEnabled(
+  config: Record<string, unknown> | undefined,
+): boolean {
+  const settings = config?.settings as
+    | { formatAfterEdit?: boolean }
+    | undefined;
+  return settings?.formatAfterEdit === true;
+}
+
+/**
+ * Indentation options matching the file, so the server's own formatter
+ * configuration decides everything else
+ */
+export function inferFormattingOptions(content: string): FormattingOptions {
+  const indents = content
+    .split("\n")
+    .map((line) => line.match(/^[ \t]*(?=\S)/)?.[0] ?? "")
+    .filter((indent) => indent !== "");
+  if (indents.some((indent) => indent.startsWith("\t"))) {
+    return { tabSize: 4, insertSpaces: false };
+  }
+  const tabSize = Math.min(...indents.map((indent) => indent.length));
+  return {
+    tabSize: Number.isFinite(tabSize) && tabSize <= 8 ? tabSize : 2,
+    insertSpaces: true,
+  };
+}
+
+function isWithin(inner: Range, outer: Range): boolean {
+  const before = (a: Range["start"], b: Range["start"]) =>
+    a.line < b.line || (a.line === b.line && a.character <= b.character);
+  return before(outer.start, inner.start) && before(inner.end, outer.end);
+}
+
+/**
+ * Format ranges of a file's content with the server's range formatter and
+ * return the result. Edits the server makes outside a requested range are
+ * dropped. A document already open in the server must hold the content,
+ * and is left open.
+ */
+export async function formatRanges(
+  client: LSPClient,
+  filePath: string,
+  content: string,
+  ranges: Range[],
+  options: FormattingOptions = inferFormattingOptions(content),
+): Promise<string> {
+  const uri = pathToFileURL(filePath).toString();
+  const documentWasOpen = client.isDocumentOpen(uri);
+  client.openDocument(uri, content);
+  try {
+    const edits: TextEdit[] = [];
+    for (const range of ranges) {
+      const rangeEdits = await client.formatRange(uri, range, options);
+      edits.push(...rangeEdits.filter((edit) => isWithin(edit.range, range)));
+    }
+    return applyTextEdits(content, edits);
+  } finally {
+    if (!documentWasOpen) client.closeDocument(uri);
+  }
+}
+
+/**
+ * Format the lines an edit added or replaced when the config enables it and
+ * the server supports range formatting. Formatting problems leave the edited
+ * content as it is.
+ */
+export async function formatAfterEdit(
+  client: LSPClient | undefined,
+  config: Record<string, unknown> | undefined,
+  filePath: string,
+  before: string,
+  after: string,
+): Promise<string> {
+  if (
+    !client ||
+    !isFormatAfterEditEnabled(config) ||
+    !client.getServerCapabilities()?.documentRangeFormattingProvider ||
+    // An open document may hold content other than the edited one
+    client.isDocumentOpen(pathToFileURL(filePath).toString())
+  ) {
+    return after;
+  }
+
+  const lines = after.split("\n");
+  const ranges = changedLineRanges(before, after).map(({ start, end }) => ({
+    start: { line: start, character: 0 },
+    end: { line: end, character: lines[end].replace(/\r$/, "").length },
+  }));
+  try {
+    // The indentation the file had is the one the edit should follow
+    return await formatRanges(
+      client,
+      filePath,
+      after,
+      ranges,
+      inferFormattingOptions(before),
+    );
+  } catch (error) {
+    debugLog(`[formatAfterEdit] Failed to format ${filePath}: ${error}`);
+    return after;
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("inferFormattingOptions", () => {
+    it("should follow the indentation of the file", () => {
+      expect(inferFormattingOptions("a {\n    b;\n        c;\n}\n")).toEqual({
+        tabSize: 4,
+        insertSpaces: true,
+      });
+      expect(inferFormattingOptions("a {\n\tb;\n}\n")).toEqual({
+        tabSize: 4,
+        insertSpaces: false,
+      });
+      expect(inferFormattingOptions("a;\n")).toEqual({
+        tabSize: 2,
+        insertSpaces: true,
+      });
+    });
+  });
+
+  describe("isFormatAfterEditEnabled", () => {
+    it("should read settings.formatAfterEdit", () => {
+      expect(
+        isFormatAfterEditEnabled({ settings: { formatAfterEdit: true } }),
+      ).toBe(true);
+      expect(isFormatAfterEditEnabled({ settings: {} })).toBe(false);
+      expect(isFormatAfterEditEnabled(undefined)).toBe(false);
+    });
+  });
+}
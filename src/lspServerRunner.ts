@@ -3,8 +3,13 @@
  */
 
 import { spawn } from "child_process";
+import { relative } from "path";
+import { fileURLToPath } from "url";
+import { minimatch } from "minimatch";
+import { checkGitignoreReason } from "gitaware-glob";
 import { debug as debugLog } from "./utils/mcpHelpers.ts";
 import type { McpToolDef, McpContext } from "@internal/types";
+import type { FileWatcherOptions, LSPClient } from "@internal/lsp-client";
 import { ErrorContext, formatError } from "./utils/errorHandler.ts";
 import { errorLog } from "./utils/debugLog.ts";
 import { createLSPTools } from "./tools/lsp/createLspTools.ts";
@@ -16,7 +21,11 @@ import { highLevelTools, onboardingToolsList } from "./tools/toolLists.ts";
 import { getSerenityToolsList } from "./tools/index.ts";
 import { createGetSymbolDetailsTool } from "./tools/highlevel/indexTools.ts";
 import { resolveAdapterCommand } from "./presets/utils.ts";
-import { PresetRegistry, type ExtendedLSMCPConfig } from "./config/loader.ts";
+import {
+  ConfigLoader,
+  PresetRegistry,
+  type ExtendedLSMCPConfig,
+} from "./config/loader.ts";
 import type { LspClientConfig } from "./config/schema.ts";
 
 export async function runLanguageServerWithConfig(
@@ -42,61 +51,54 @@ export async function runLanguageServerWithConfig(
   try {
     const projectRoot = process.cwd();
 
-    // Check required fields - bin OR binFindStrategy must be present
-    if (!config.bin && !config.binFindStrategy) {
-      throw new Error(
-        `Missing 'bin' field in configuration. Please specify a language server command or binFindStrategy.`,
-      );
-    }
+    // Additional presets run side by side with the main server
+    const configLoader = new ConfigLoader(projectRoot);
+    const serverConfigs = [
+      config,
+      ...(config.presets ?? [])
+        .filter((name) => name !== config.preset)
+        .map(
+          (name) =>
+            configLoader.loadFromPreset(name, { applyDefaults: true }).config,
+        ),
+    ];
 
-    // Resolve the command for node_modules binaries
-    const resolved = resolveAdapterCommand(
-      {
-        id: config.id || config.preset || "custom",
-        name: config.name || config.preset || "Custom LSP",
-        bin: config.bin,
-        args: config.args || [],
-        files: config.files || [],
-        binFindStrategy: config.binFindStrategy,
-      } as LspClientConfig,
-      projectRoot,
+    // Servers are told about files changed outside the open documents
+    const fileWatcher: FileWatcherOptions | undefined =
+      config.settings?.enableWatchers === false
+        ? undefined
+        : {
+            isIgnored: createIgnoreMatcher(
+              projectRoot,
+              config.ignorePatterns ?? [],
+            ),
+          };
+
+    const clients = await Promise.all(
+      serverConfigs.map((serverConfig) =>
+        startLanguageServerClient(
+          serverConfig,
+          projectRoot,
+          customEnv,
+          fileWatcher,
+        ),
+      ),
     );
 
-    const lspProcess = spawn(resolved.command, resolved.args, {
-      cwd: projectRoot,
-      env: {
-        ...process.env,
-        ...customEnv,
-      },
-      shell: process.platform === "win32", // Use shell on Windows
-    });
-
-    // Create and initialize LSP client with the spawned process
-    // Convert ServerCharacteristics to IServerCharacteristics (with required fields)
-    const serverChars = config.serverCharacteristics
-      ? {
-          documentOpenDelay:
-            (config.serverCharacteristics as any).documentOpenDelay ?? 100,
-          operationTimeout:
-            (config.serverCharacteristics as any).operationTimeout ?? 30000,
-          supportsIncrementalSync: (config.serverCharacteristics as any)
-            .supportsIncrementalSync,
-          supportsPullDiagnostics: (config.serverCharacteristics as any)
-            .supportsPullDiagnostics,
-        }
-      : undefined;
-
-    // Create and initialize LSP client
-    const { createAndInitializeLSPClient } = await import(
-      "@internal/lsp-client"
-    );
-    const lspClient = await createAndInitializeLSPClient(
-      projectRoot,
-      lspProcess,
-      config.id || config.preset || "custom",
-      config.initializationOptions,
-      serverChars,
-    );
+    // Route document requests to each server by its file patterns
+    const { createComposedLspClient } = await import("@internal/lsp-client");
+    const lspClient =
+      clients.length === 1
+        ? clients[0]
+        : createComposedLspClient(
+            clients.map((client, index) => ({
+              client,
+              handles: createFileMatcher(
+                projectRoot,
+                serverConfigs[index].files ?? [],
+              ),
+            })),
+          );
 
     // Create file system API using Node.js implementation
     const { NodeFileSystemApi } = await import(
@@ -125,7 +127,7 @@ export async function runLanguageServerWithConfig(
     server.setContext(mcpContext);
 
     // Create capability filter
-    const capabilityFilter = createCapabilityFilter();
+    const capabilityFilter = createCapabilityFilter(lspClient);
 
     // Create LSP tools with the adapter
     const lspTools = createLSPTools(lspClient);
@@ -170,29 +172,6 @@ export async function runLanguageServerWithConfig(
     // Start the server
     await server.start();
     debugLog(`lsmcp MCP server connected for: ${config.name}`);
-
-    // Handle LSP process errors
-    const fullCommand =
-      resolved.args.length > 0
-        ? `${resolved.command} ${resolved.args.join(" ")}`
-        : resolved.command;
-
-    lspProcess.on("error", (error) => {
-      const context: ErrorContext = {
-        operation: "LSP server process",
-        language: config.id,
-        details: { command: fullCommand },
-      };
-      errorLog(formatError(error, context));
-      process.exit(1);
-    });
-
-    lspProcess.on("exit", (code) => {
-      if (code !== 0) {
-        errorLog(`LSP server exited with code ${code}`);
-        process.exit(code || 1);
-      }
-    });
   } catch (error) {
     const context: ErrorContext = {
       operation: "MCP server startup",
@@ -204,6 +183,139 @@ export async function runLanguageServerWithConfig(
   }
 }
 
+/**
+ * Spawn a language server and start a client for it.
+ * Crashed servers are restarted by the client; errors are only reported when it gives up.
+ */
+async function startLanguageServerClient(
+  config: ExtendedLSMCPConfig,
+  projectRoot: string,
+  customEnv?: Record<string, string | undefined>,
+  fileWatcher?: FileWatcherOptions,
+): Promise<LSPClient> {
+  // Check required fields - bin OR binFindStrategy must be present
+  if (!config.bin && !config.binFindStrategy) {
+    throw new Error(
+      `Missing 'bin' field in configuration. Please specify a language server command or binFindStrategy.`,
+    );
+  }
+
+  // Resolve the command for node_modules binaries
+  const resolved = resolveAdapterCommand(
+    {
+      id: config.id || config.preset || "custom",
+      name: config.name || config.preset || "Custom LSP",
+      bin: config.bin,
+      args: config.args || [],
+      files: config.files || [],
+      binFindStrategy: config.binFindStrategy,
+    } as LspClientConfig,
+    projectRoot,
+  );
+
+  const spawnLspProcess = () =>
+    spawn(resolved.command, resolved.args, {
+      cwd: projectRoot,
+      env: {
+        ...process.env,
+        ...customEnv,
+      },
+      shell: process.platform === "win32", // Use shell on Windows
+    });
+  const lspProcess = spawnLspProcess();
+
+  // Convert ServerCharacteristics to IServerCharacteristics (with required fields)
+  const characteristics = config.serverCharacteristics;
+  const serverChars = characteristics
+    ? {
+        documentOpenDelay: characteristics.documentOpenDelay ?? 100,
+        operationTimeout: characteristics.operationTimeout ?? 30000,
+        supportsIncrementalSync: characteristics.supportsIncrementalSync,
+        supportsPullDiagnostics: characteristics.supportsPullDiagnostics,
+        inlayHintSettings: characteristics.inlayHintSettings,
+        maxRestarts: characteristics.maxRestarts,
+        restartBackoff: characteristics.restartBackoff,
+      }
+    : undefined;
+
+  // Create and initialize LSP client; it respawns the server if it crashes
+  const { createLSPClient } = await import("@internal/lsp-client");
+  const lspClient = createLSPClient({
+    rootPath: projectRoot,
+    process: lspProcess,
+    languageId: config.id || config.preset || "custom",
+    initializationOptions: config.initializationOptions as
+      | Record<string, unknown>
+      | undefined,
+    serverCharacteristics: serverChars,
+    spawnProcess: spawnLspProcess,
+    fileWatcher,
+  });
+  await lspClient.start();
+
+  const fullCommand =
+    resolved.args.length > 0
+      ? `${resolved.command} ${resolved.args.join(" ")}`
+      : resolved.command;
+
+  lspClient.on("restartFailed", (error) => {
+    const context: ErrorContext = {
+      operation: "LSP server process",
+      language: config.id,
+      details: { command: fullCommand },
+    };
+    errorLog(formatError(error, context));
+  });
+
+  return lspClient;
+}
+
+/**
+ * Create a predicate telling whether a document URI matches the given file patterns
+ */
+function createFileMatcher(
+  projectRoot: string,
+  patterns: string[],
+): (uri: string) => boolean {
+  return (uri: string) => {
+    let filePath: string;
+    try {
+      filePath = relative(projectRoot, fileURLToPath(uri)).replace(/\\/g, "/");
+    } catch {
+      return false;
+    }
+    return patterns.some((pattern) =>
+      minimatch(filePath, pattern, { dot: true }),
+    );
+  };
+}
+
+/**
+ * Create a predicate telling whether a path is gitignored or matches the ignore patterns
+ */
+function createIgnoreMatcher(
+  projectRoot: string,
+  patterns: string[],
+): (filePath: string) => Promise<boolean> {
+  return async (filePath: string) => {
+    const relativePath = relative(projectRoot, filePath).replace(/\\/g, "/");
+    // The trailing slash lets "**/dist/**" match the directory itself
+    const matchesPattern = patterns.some(
+      (pattern) =>
+        minimatch(relativePath, pattern, { dot: true }) ||
+        minimatch(`${relativePath}/`, pattern, { dot: true }),
+    );
+    if (matchesPattern) return true;
+    try {
+      return (
+        (await checkGitignoreReason(filePath, projectRoot))?.ignored === true
+      );
+    } catch {
+      return false;
+    }
+  };
+}
+
 export async function runLanguageServer(
   language: string,
   positionals: string[] = [],
@@ -250,14 +362,16 @@ export async function runLanguageServer(
   try {
     // Spawn LSP server process
     const projectRoot = process.cwd();
-    const lspProcess = spawn(lspBin, lspArgs, {
-      cwd: projectRoot,
-      env: {
-        ...process.env,
-        ...customEnv,
-      },
-      shell: process.platform === "win32", // Use shell on Windows
-    });
+    const spawnLspProcess = () =>
+      spawn(lspBin, lspArgs, {
+        cwd: projectRoot,
+        env: {
+          ...process.env,
+          ...customEnv,
+        },
+        shell: process.platform === "win32", // Use shell on Windows
+      });
+    const lspProcess = spawnLspProcess();
 
     // Initialize LSP client with the spawned process
     const initOptions = adapter?.initializationOptions as
@@ -274,20 +388,23 @@ export async function runLanguageServer(
             serverCharacteristics.supportsIncrementalSync,
           supportsPullDiagnostics:
             serverCharacteristics.supportsPullDiagnostics,
+          inlayHintSettings: serverCharacteristics.inlayHintSettings,
+          maxRestarts: serverCharacteristics.maxRestarts,
+          restartBackoff: serverCharacteristics.restartBackoff,
         }
       : undefined;
 
-    // Create and initialize LSP client
-    const { createAndInitializeLSPClient } = await import(
-      "@internal/lsp-client"
-    );
-    const lspClient = await createAndInitializeLSPClient(
-      projectRoot,
-      lspProcess,
-      language,
-      initOptions,
-      serverChars,
-    );
+    // Create and initialize LSP client; it respawns the server if it crashes
+    const { createLSPClient } = await import("@internal/lsp-client");
+    const lspClient = createLSPClient({
+      rootPath: projectRoot,
+      process: lspProcess,
+      languageId: language,
+      initializationOptions: initOptions,
+      serverCharacteristics: serverChars,
+      spawnProcess: spawnLspProcess,
+    });
+    await lspClient.start();
 
     // Create file system API using Node.js implementation
     const { NodeFileSystemApi } = await import(
@@ -315,7 +432,7 @@ export async function runLanguageServer(
     server.setContext(mcpContext);
 
     // Create capability filter
-    const capabilityFilter = createCapabilityFilter();
+    const capabilityFilter = createCapabilityFilter(lspClient);
 
     // Create LSP tools with the adapter
     const lspTools = createLSPTools(lspClient);
@@ -348,21 +465,14 @@ export async function runLanguageServer(
     debugLog(`lsmcp MCP server connected for language: ${language}`);
 
     // Handle LSP process errors
-    lspProcess.on("error", (error) => {
+    // Crashed servers are restarted by the client; only report when it gives up
+    lspClient.on("restartFailed", (error) => {
       const context: ErrorContext = {
         operation: "LSP server process",
         language,
         details: { command: fullCommand },
       };
       errorLog(formatError(error, context));
-      process.exit(1);
-    });
-
-    lspProcess.on("exit", (code) => {
-      if (code !== 0) {
-        errorLog(`LSP server exited with code ${code}`);
-        process.exit(code || 1);
-      }
     });
   } catch (error) {
     const context: ErrorContext = {
@@ -387,26 +497,24 @@ export async function runCustomLspServer(
     const [cmd, ...cmdArgs] = bin.split(" ");
 
     // Spawn LSP server process
-    const lspProcess = spawn(cmd, cmdArgs, {
-      cwd: projectRoot,
-      env: {
-        ...process.env,
-        ...customEnv,
-      },
-      shell: process.platform === "win32", // Use shell on Windows
+    const spawnLspProcess = () =>
+      spawn(cmd, cmdArgs, {
+        cwd: projectRoot,
+        env: {
+          ...process.env,
+          ...customEnv,
+        },
+        shell: process.platform === "win32", // Use shell on Windows
+      });
+
+    // Create and initialize LSP client; it respawns the server if it crashes
+    const { createLSPClient } = await import("@internal/lsp-client");
+    const lspClient = createLSPClient({
+      rootPath: projectRoot,
+      process: spawnLspProcess(),
+      spawnProcess: spawnLspProcess,
     });
-
-    // Create and initialize LSP client
-    const { createAndInitializeLSPClient } = await import(
-      "@internal/lsp-client"
-    );
-    const lspClient = await createAndInitializeLSPClient(
-      projectRoot,
-      lspProcess,
-      undefined,
-      undefined,
-      undefined,
-    );
+    await lspClient.start();
 
     // Create file system API using Node.js implementation
     const { NodeFileSystemApi } = await import(
@@ -434,7 +542,7 @@ export async function runCustomLspServer(
     server.setContext(mcpContext);
 
     // Create capability filter
-    const capabilityFilter = createCapabilityFilter();
+    const capabilityFilter = createCapabilityFilter(lspClient);
 
     // Create LSP tools with the adapter
     const lspTools = createLSPTools(lspClient);
@@ -458,20 +566,13 @@ export async function runCustomLspServer(
     debugLog(`lsmcp MCP server connected for custom LSP: ${bin}`);
 
     // Handle LSP process errors
-    lspProcess.on("error", (error) => {
+    // Crashed servers are restarted by the client; only report when it gives up
+    lspClient.on("restartFailed", (error) => {
       const context: ErrorContext = {
         operation: "LSP server process",
         details: { command: bin },
       };
       errorLog(formatError(error, context));
-      process.exit(1);
-    });
-
-    lspProcess.on("exit", (code) => {
-      if (code !== 0) {
-        errorLog(`LSP server exited with code ${code}`);
-        process.exit(code || 1);
-      }
     });
   } catch (error) {
     const context: ErrorContext = {
@@ -60,9 +60,25 @@ describe("tsgoAdapter", () => {
         requiresProjectInit: false,
         sendsInitialDiagnostics: false,
         operationTimeout: 5000,
+        inlayHintSettings: expect.any(Object),
       });
     });
 
+    it("should only enable inlay hints through on-demand settings", () => {
+      const settings = tsgoAdapter.serverCharacteristics?.inlayHintSettings as
+        | Record<string, any>
+        | undefined;
+      expect(settings?.typescript.inlayHints).toMatchObject({
+        includeInlayParameterNameHints: "all",
+        includeInlayVariableTypeHints: true,
+        includeInlayFunctionLikeReturnTypeHints: true,
+      });
+      expect(
+        (tsgoAdapter.initializationOptions as any).preferences
+          .includeInlayVariableTypeHints,
+      ).toBe(false);
+    });
+
     it("should have initialization options for TypeScript", () => {
       expect(tsgoAdapter.initializationOptions).toEqual({
         preferences: {
@@ -1,4 +1,5 @@
 import type { Preset } from "../config/schema.ts";
+import { inlayHintPreferences } from "./typescript-inlay-hints.ts";
 
 /**
  * tsgo adapter - Fast TypeScript language server
@@ -32,6 +33,10 @@ export const tsgoAdapter: Preset = {
     requiresProjectInit: false,
     sendsInitialDiagnostics: false,
     operationTimeout: 5000,
+    inlayHintSettings: {
+      typescript: { inlayHints: inlayHintPreferences },
+      javascript: { inlayHints: inlayHintPreferences },
+    },
   },
 
   // Initialize with TypeScript preferences
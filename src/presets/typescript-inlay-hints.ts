@@ -0,0 +1,13 @@
+/**
+ * TypeScript preferences that turn on every inlay hint. Kept out of the
+ * default preferences and only pushed when inlay hints are requested.
+ */
+export const inlayHintPreferences = {
+  includeInlayParameterNameHints: "all",
+  includeInlayParameterNameHintsWhenArgumentMatchesName: false,
+  includeInlayFunctionParameterTypeHints: true,
+  includeInlayVariableTypeHints: true,
+  includeInlayPropertyDeclarationTypeHints: true,
+  includeInlayFunctionLikeReturnTypeHints: true,
+  includeInlayEnumMemberValueHints: true,
+};
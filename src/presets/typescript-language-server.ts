@@ -1,4 +1,5 @@
 import type { Preset } from "../config/schema.ts";
+import { inlayHintPreferences } from "./typescript-inlay-hints.ts";
 
 /**
  * TypeScript Language Server adapter (default)
@@ -39,6 +40,10 @@ export const typescriptAdapter: Preset = {
     requiresProjectInit: true,
     sendsInitialDiagnostics: true,
     operationTimeout: 15000,
+    inlayHintSettings: {
+      typescript: { inlayHints: inlayHintPreferences },
+      javascript: { inlayHints: inlayHintPreferences },
+    },
   },
 
   // Language-specific features
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { mkdirSync, rmSync } from "node:fs";
+import {
+  undoLastEditTool,
+  redoEditTool,
+  listEditHistoryTool,
+} from "./editHistoryTools.ts";
+import { replaceRegexTool } from "./regexEditTools.ts";
+import { markFileModified } from "@internal/code-indexer";
+
+vi.mock("@internal/code-indexer");
+
+describe("editHistoryTools", () => {
+  let testDir: string;
+
+  const read = (name: string) => fs.readFile(join(testDir, name), "utf-8");
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `lsmcp-edit-history-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    await fs.writeFile(join(testDir, "a.ts"), "const value = 1;\n");
+    await replaceRegexTool.execute({
+      root: testDir,
+      relativePath: "a.ts",
+      regex: "value",
+      repl: "count",
+      allowMultipleOccurrences: false,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should list recorded edits", async () => {
+    const result = await listEditHistoryTool.execute({ root: testDir });
+
+    expect(result).toMatch(
+      /^Can be undone:\n {2}1\. replace_regex in a\.ts \(.+\): a\.ts$/,
+    );
+  });
+
+  it("should undo and redo the last edit", async () => {
+    expect(await read("a.ts")).toBe("const count = 1;\n");
+
+    const undone = await undoLastEditTool.execute({ root: testDir });
+    expect(undone).toBe(
+      'Undid "replace_regex in a.ts"\n\nRestored files:\n  a.ts',
+    );
+    expect(await read("a.ts")).toBe("const value = 1;\n");
+
+    const redone = await redoEditTool.execute({ root: testDir });
+    expect(redone).toContain('Redid "replace_regex in a.ts"');
+    expect(await read("a.ts")).toBe("const count = 1;\n");
+  });
+
+  it("should notify the index and the language server of replayed files", async () => {
+    const notifyFileChanges = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(markFileModified).mockClear();
+
+    await undoLastEditTool.execute({ root: testDir }, {
+      lspClient: { notifyFileChanges },
+    } as any);
+
+    expect(markFileModified).toHaveBeenCalledWith(
+      testDir,
+      join(testDir, "a.ts"),
+    );
+    expect(notifyFileChanges).toHaveBeenCalledWith([
+      { uri: pathToFileURL(join(testDir, "a.ts")).toString(), type: 2 },
+    ]);
+  });
+
+  it("should refuse to undo over later changes", async () => {
+    await fs.writeFile(join(testDir, "a.ts"), "const count = 2;\n");
+
+    await expect(undoLastEditTool.execute({ root: testDir })).rejects.toThrow(
+      'Cannot undo "replace_regex in a.ts", no files were changed. Conflicting files:\n  a.ts: modified since the operation',
+    );
+    expect(await read("a.ts")).toBe("const count = 2;\n");
+  });
+
+  it("should report when there is nothing to redo", async () => {
+    expect(await redoEditTool.execute({ root: testDir })).toBe(
+      "Nothing to redo",
+    );
+  });
+});
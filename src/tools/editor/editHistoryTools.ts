@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { McpToolDef } from "@internal/types";
+import {
+  EditJournal,
+  type EditConflict,
+  type EditOperation,
+  type ReplayResult,
+} from "../../features/edits/editJournal.ts";
+import { notifyFileEdits } from "../lsp/fileEdits.ts";
+
+const CONFLICT_REASONS: Record<EditConflict["reason"], string> = {
+  modified: "modified since the operation",
+  deleted: "deleted since the operation",
+  exists: "exists again although the operation removed it",
+};
+
+function describeOperation(operation: EditOperation): string {
+  const files = operation.files.map((file) => file.path).join(", ");
+  return `${operation.label} (${operation.timestamp}): ${files}`;
+}
+
+function formatReplay(action: "undo" | "redo", result: ReplayResult): string {
+  if (result.status === "empty") {
+    return action === "undo" ? "Nothing to undo" : "Nothing to redo";
+  }
+  if (result.status === "conflict") {
+    const conflicts = result.conflicts
+      .map(
+        (conflict) =>
+          `  ${conflict.path}: ${CONFLICT_REASONS[conflict.reason]}`,
+      )
+      .join("\n");
+    throw new Error(
+      `Cannot ${action} "${result.operation.label}", no files were changed. Conflicting files:\n${conflicts}`,
+    );
+  }
+  const verb = action === "undo" ? "Undid" : "Redid";
+  return `${verb} "${result.operation.label}"\n\nRestored files:\n${result.operation.files
+    .map((file) => `  ${file.path}`)
+    .join("\n")}`;
+}
+
+const undoLastEditSchema = z.object({
+  root: z.string().describe("Root directory of the project"),
+});
+
+export const undoLastEditTool: McpToolDef<typeof undoLastEditSchema> = {
+  name: "undo_last_edit",
+  description:
+    "Revert the most recent edit applied by lsmcp tools (rename, regex and range replacements, code actions, formatting). Refuses without changing anything if one of its files changed since.",
+  schema: undoLastEditSchema,
+  execute: async ({ root }, context) => {
+    const result = await new EditJournal(root).undo();
+    if (result.status === "applied") {
+      await notifyFileEdits(
+        root,
+        "undo_last_edit",
+        result.changes,
+        context?.lspClient,
+      );
+    }
+    return formatReplay("undo", result);
+  },
+};
+
+const redoEditSchema = z.object({
+  root: z.string().describe("Root directory of the project"),
+});
+
+export const redoEditTool: McpToolDef<typeof redoEditSchema> = {
+  name: "redo_edit",
+  description:
+    "Apply the most recently undone edit again. Refuses without changing anything if one of its files changed since the undo.",
+  schema: redoEditSchema,
+  execute: async ({ root }, context) => {
+    const result = await new EditJournal(root).redo();
+    if (result.status === "applied") {
+      await notifyFileEdits(
+        root,
+        "redo_edit",
+        result.changes,
+        context?.lspClient,
+      );
+    }
+    return formatReplay("redo", result);
+  },
+};
+
+const listEditHistorySchema = z.object({
+  root: z.string().describe("Root directory of the project"),
+});
+
+export const listEditHistoryTool: McpToolDef<typeof listEditHistorySchema> = {
+  name: "list_edit_history",
+  description:
+    "List the edits applied by lsmcp that can be undone or redone, most recent first",
+  schema: listEditHistorySchema,
+  execute: async ({ root }) => {
+    const { undo, redo } = await new EditJournal(root).list();
+    if (undo.length === 0 && redo.length === 0) {
+      return "No edits recorded";
+    }
+    const sections: string[] = [];
+    if (undo.length > 0) {
+      sections.push(
+        `Can be undone:\n${undo.map((op, i) => `  ${i + 1}. ${describeOperation(op)}`).join("\n")}`,
+      );
+    }
+    if (redo.length > 0) {
+      sections.push(
+        `Can be redone:\n${redo.map((op, i) => `  ${i + 1}. ${describeOperation(op)}`).join("\n")}`,
+      );
+    }
+    return sections.join("\n\n");
+  },
+};
@@ -203,4 +203,41 @@ describe("replaceRangeTool", () => {
       "/test/test.ts",
     );
   });
+
+  it("should return a diff without writing in dry run mode", async () => {
+    const mockContent = "const x = 5;\nconst y = 10;\n";
+    vi.mocked(readFile).mockResolvedValue(mockContent);
+
+    const result = await replaceRangeTool.execute({
+      root: "/test",
+      relativePath: "test.ts",
+      startLine: 2,
+      startCharacter: 6,
+      endLine: 2,
+      endCharacter: 7,
+      newContent: "z",
+      preserveIndentation: false,
+      dryRun: true,
+    });
+
+    expect(writeFile).not.toHaveBeenCalled();
+    expect(codeIndexer.markFileModified).not.toHaveBeenCalled();
+
+    const parsed = JSON.parse(result);
+    expect(parsed).toEqual({
+      success: true,
+      dryRun: true,
+      filesChanged: ["test.ts"],
+      summary: "1 file(s) would change:\n  test.ts: +1 -1",
+      diff: [
+        "--- a/test.ts",
+        "+++ b/test.ts",
+        "@@ -1,2 +1,2 @@",
+        " const x = 5;",
+        "-const y = 10;",
+        "+const z = 10;",
+        "",
+      ].join("\n"),
+    });
+  });
 });
@@ -4,6 +4,14 @@ import type { SerenityEditResult } from "./regexEditTools.ts";
 import { readFile, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { markFileModified } from "@internal/code-indexer";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { recordEdit } from "../../features/edits/editJournal.ts";
+import { trackDiagnostics } from "../../features/edits/diagnosticsDelta.ts";
+import { formatAfterEdit } from "../../features/edits/formatAfterEdit.ts";
 
 const replaceRangeSchema = z.object({
   root: z.string().describe("Root directory for resolving relative paths"),
@@ -25,6 +33,16 @@ const replaceRangeSchema = z.object({
     .boolean()
     .default(true)
     .describe("Whether to preserve the indentation of the first line"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the change without writing the file"),
+  reportDiagnostics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Report the errors and warnings the edit introduces or resolves in the changed files and the files depending on them (default: false)",
+    ),
 });
 
 /**
@@ -39,16 +57,21 @@ export const replaceRangeTool: McpToolDef<typeof replaceRangeSchema> = {
     "Can be used to: replace symbol bodies, insert before/after symbols, delete ranges, or make precise edits. " +
     "Line numbers are 1-based, character positions are 0-based.",
   schema: replaceRangeSchema,
-  execute: async ({
-    root,
-    relativePath,
-    startLine,
-    startCharacter,
-    endLine,
-    endCharacter,
-    newContent,
-    preserveIndentation,
-  }) => {
+  execute: async (
+    {
+      root,
+      relativePath,
+      startLine,
+      startCharacter,
+      endLine,
+      endCharacter,
+      newContent,
+      preserveIndentation,
+      dryRun,
+      reportDiagnostics,
+    },
+    context,
+  ) => {
     try {
       const absolutePath = resolve(root, relativePath);
 
@@ -114,31 +137,51 @@ export const replaceRangeTool: McpToolDef<typeof replaceRangeSchema> = {
       }
 
       // Perform the replacement
-      if (startLineIdx === endLineIdx) {
-        // Single line replacement
-        const line = lines[startLineIdx];
-        const before = line.substring(0, startCharacter);
-        const after = line.substring(endCharacter);
-        lines[startLineIdx] = before + processedContent + after;
-      } else {
-        // Multi-line replacement
-        const firstLine = lines[startLineIdx].substring(0, startCharacter);
-        const lastLine = lines[endLineIdx].substring(endCharacter);
-
-        // Combine the replacement
-        const replacement = firstLine + processedContent + lastLine;
-        const replacementLines = replacement.split("\n");
-
-        // Splice in the new lines
-        lines.splice(
-          startLineIdx,
-          endLineIdx - startLineIdx + 1,
-          ...replacementLines,
-        );
+      const editedContent = applyTextEdits(fileContent, [
+        {
+          range: {
+            start: { line: startLineIdx, character: startCharacter },
+            end: { line: endLineIdx, character: endCharacter },
+          },
+          newText: processedContent,
+        },
+      ]);
+      const newFileContent = await formatAfterEdit(
+        context?.lspClient,
+        context?.config,
+        absolutePath,
+        fileContent,
+        editedContent,
+      );
+
+      if (dryRun) {
+        const previews = [
+          {
+            filePath: absolutePath,
+            before: fileContent,
+            after: newFileContent,
+          },
+        ].filter((preview) => preview.before !== preview.after);
+        return JSON.stringify({
+          success: true,
+          dryRun: true,
+          filesChanged: previews.length > 0 ? [relativePath] : [],
+          summary: summarizeEditPreview(previews, root),
+          diff: formatEditPreview(previews, root),
+        } as SerenityEditResult);
       }
 
+      // Diagnostics need the language server from the MCP context
+      const reportDelta = reportDiagnostics
+        ? await trackDiagnostics(context?.lspClient, root, [absolutePath])
+        : undefined;
+
       // Write back to file
-      await writeFile(absolutePath, lines.join("\n"), "utf-8");
+      await writeFile(absolutePath, newFileContent, "utf-8");
+
+      await recordEdit(root, `replace_range in ${relativePath}`, [
+        { filePath: absolutePath, before: fileContent, after: newFileContent },
+      ]);
 
       // Mark file as modified for auto-indexing
       markFileModified(root, absolutePath);
@@ -146,6 +189,7 @@ export const replaceRangeTool: McpToolDef<typeof replaceRangeSchema> = {
       return JSON.stringify({
         success: true,
         filesChanged: [relativePath],
+        diagnostics: await reportDelta?.(),
       } as SerenityEditResult);
     } catch (error) {
       return JSON.stringify({
@@ -157,6 +157,32 @@ const b = 1;`;
       expect(parsedResult.error).toContain("No matches found");
     });
 
+    it("should preview the replacement in dry run mode", async () => {
+      const content = `const value = "test";\nconst another = "test";\n`;
+      await fs.writeFile(testFile, content);
+
+      const result = await replaceRegexTool.execute({
+        root: testDir,
+        relativePath: "test.ts",
+        regex: '"test"',
+        repl: '"demo"',
+        allowMultipleOccurrences: true,
+        dryRun: true,
+      });
+
+      const parsedResult = JSON.parse(result);
+      expect(parsedResult.success).toBe(true);
+      expect(parsedResult.dryRun).toBe(true);
+      expect(parsedResult.summary).toBe(
+        "1 file(s) would change:\n  test.ts: +2 -2",
+      );
+      expect(parsedResult.diff).toContain('-const value = "test";');
+      expect(parsedResult.diff).toContain('+const another = "demo";');
+
+      // The file is left untouched
+      expect(await fs.readFile(testFile, "utf-8")).toBe(content);
+    });
+
     it("should handle file not found", async () => {
       const result = await replaceRegexTool.execute({
         root: testDir,
@@ -4,11 +4,25 @@ export interface SerenityEditResult {
   success: boolean;
   error?: string;
   filesChanged?: string[];
+  /** Set when the change was only previewed, not written */
+  dryRun?: boolean;
+  summary?: string;
+  /** Unified diff of the previewed change */
+  diff?: string;
+  /** Diagnostics the edit introduced or resolved */
+  diagnostics?: string;
 }
 import { readFile, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { markFileModified } from "@internal/code-indexer";
 import type { McpToolDef } from "@internal/types";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { recordEdit } from "../../features/edits/editJournal.ts";
+import { trackDiagnostics } from "../../features/edits/diagnosticsDelta.ts";
+import { formatAfterEdit } from "../../features/edits/formatAfterEdit.ts";
 
 const replaceRegexSchema = z.object({
   root: z.string().describe("Root directory for resolving relative paths"),
@@ -21,6 +35,16 @@ const replaceRegexSchema = z.object({
     .boolean()
     .default(false)
     .describe("Replace all occurrences if true"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the change without writing the file"),
+  reportDiagnostics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Report the errors and warnings the edit introduces or resolves in the changed files and the files depending on them (default: false)",
+    ),
 });
 
 export const replaceRegexTool: McpToolDef<typeof replaceRegexSchema> = {
@@ -28,13 +52,18 @@ export const replaceRegexTool: McpToolDef<typeof replaceRegexSchema> = {
   description:
     "Replace content using regular expressions with dotall and multiline flags",
   schema: replaceRegexSchema,
-  execute: async ({
-    root,
-    relativePath,
-    regex,
-    repl,
-    allowMultipleOccurrences = false,
-  }) => {
+  execute: async (
+    {
+      root,
+      relativePath,
+      regex,
+      repl,
+      allowMultipleOccurrences = false,
+      dryRun,
+      reportDiagnostics,
+    },
+    context,
+  ) => {
     try {
       const absolutePath = resolve(root, relativePath);
 
@@ -64,32 +93,63 @@ export const replaceRegexTool: McpToolDef<typeof replaceRegexSchema> = {
       }
 
       // Perform replacement
-      let newContent: string;
+      let replacedContent: string;
       if (allowMultipleOccurrences) {
         // Replace all occurrences
-        newContent = fileContent.replace(new RegExp(regex, "gms"), repl);
+        replacedContent = fileContent.replace(new RegExp(regex, "gms"), repl);
       } else {
         // Replace only the first occurrence
-        newContent = fileContent.replace(regexObj, repl);
+        replacedContent = fileContent.replace(regexObj, repl);
       }
 
       // Check if content actually changed
-      if (newContent === fileContent) {
+      if (replacedContent === fileContent) {
         return JSON.stringify({
           success: false,
           error: "No changes made - replacement resulted in identical content",
         } as SerenityEditResult);
       }
 
+      const newContent = await formatAfterEdit(
+        context?.lspClient,
+        context?.config,
+        absolutePath,
+        fileContent,
+        replacedContent,
+      );
+
+      if (dryRun) {
+        const previews = [
+          { filePath: absolutePath, before: fileContent, after: newContent },
+        ];
+        return JSON.stringify({
+          success: true,
+          dryRun: true,
+          filesChanged: [relativePath],
+          summary: summarizeEditPreview(previews, root),
+          diff: formatEditPreview(previews, root),
+        } as SerenityEditResult);
+      }
+
+      // Diagnostics need the language server from the MCP context
+      const reportDelta = reportDiagnostics
+        ? await trackDiagnostics(context?.lspClient, root, [absolutePath])
+        : undefined;
+
       // Write back
       await writeFile(absolutePath, newContent, "utf-8");
 
+      await recordEdit(root, `replace_regex in ${relativePath}`, [
+        { filePath: absolutePath, before: fileContent, after: newContent },
+      ]);
+
       // Mark file as modified for auto-indexing
       markFileModified(root, absolutePath);
 
       return JSON.stringify({
         success: true,
         filesChanged: [relativePath],
+        diagnostics: await reportDelta?.(),
       } as SerenityEditResult);
     } catch (error) {
       return JSON.stringify({
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { detectDeadCodeTool } from "./detectDeadCode.ts";
+
+describe("detectDeadCodeTool", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lsmcp-dead-code-tool-test-"));
+    await mkdir(join(root, "src/util"), { recursive: true });
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ main: "./src/index.ts" }),
+    );
+    await writeFile(
+      join(root, "src/index.ts"),
+      `import { used, type Unused } from "./util/text";\nused();\n`,
+    );
+    await writeFile(
+      join(root, "src/util/text.ts"),
+      `export function used() {}\nexport function stale() {}\nexport type Unused = string;\n`,
+    );
+    await writeFile(join(root, "src/old.ts"), `export const old = 1;\n`);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const execute = (
+    args: Partial<Parameters<typeof detectDeadCodeTool.execute>[0]>,
+  ) =>
+    detectDeadCodeTool.execute({
+      root,
+      usePackageJson: true,
+      includeTests: true,
+      emitDeletions: false,
+      ...args,
+    });
+
+  it("should report findings grouped by file", async () => {
+    const output = await execute({});
+
+    expect(output).toContain("Entry Points:\n  - src/index.ts");
+    expect(output).toContain(
+      "Unused Exports:\n  src/util/text.ts:\n    - stale (line 2): Named export",
+    );
+    expect(output).toContain(
+      "Unused Imports:\n  src/index.ts:\n    - { Unused }: Named import from './util/text' (line 1)",
+    );
+    expect(output).toContain("Unreachable Modules:\n  - src/old.ts");
+    expect(output).not.toContain("Deletions");
+  });
+
+  it("should emit lsp_delete_symbol arguments and scope findings", async () => {
+    const output = await execute({
+      directory: "src/util",
+      emitDeletions: true,
+    });
+
+    expect(output).not.toContain("src/old.ts");
+    expect(output).toContain("Deletions (1), lsp_delete_symbol arguments");
+    expect(JSON.parse(output.slice(output.indexOf("\n[")))).toEqual([
+      {
+        root,
+        relativePath: "src/util/text.ts",
+        line: 2,
+        textTarget: "stale",
+        removeDeclaration: true,
+      },
+    ]);
+  });
+});
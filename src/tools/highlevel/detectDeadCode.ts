@@ -0,0 +1,243 @@
+/**
+ * Dead code detection tool: unused exports, imports, local declarations
+ * and unreachable files of a project
+ */
+
+import { z } from "zod";
+import type { McpToolDef } from "@internal/types";
+import {
+  detectDeadCode,
+  listDeclarationDeletions,
+  type DeadCodeReport,
+  type UnusedExport,
+} from "@internal/code-indexer";
+import { glob } from "gitaware-glob";
+import { debugLogWithPrefix } from "../../utils/debugLog.ts";
+
+const MODULE_PATTERN = "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}";
+
+const schema = z.object({
+  root: z.string().describe("Root directory for the project").optional(),
+  entryPoints: z
+    .array(z.string())
+    .describe(
+      'Globs of entry point files relative to root, e.g. ["src/main.ts", "scripts/*.ts"]. Added to the entry points of package.json',
+    )
+    .optional(),
+  usePackageJson: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Take main, module, types, exports and bin of package.json as entry points. Build outputs such as dist/cli.js stand for the source of the same name under src",
+    ),
+  includeTests: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Treat test files as entry points. Turn off to also report code only tests use",
+    ),
+  testPatterns: z
+    .array(z.string())
+    .describe(
+      "Globs of test files (default **/*.{test,spec,bench}.*, **/__tests__/**, **/__mocks__/**)",
+    )
+    .optional(),
+  directory: z
+    .string()
+    .describe(
+      "Only report findings under this directory (relative to root). The whole project is still analyzed",
+    )
+    .optional(),
+  emitDeletions: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Append lsp_delete_symbol arguments deleting the unused imports, local declarations and exports",
+    ),
+});
+
+/**
+ * Arguments for lsp_delete_symbol removing the declaration of one finding
+ */
+interface DeletionEdit {
+  root: string;
+  relativePath: string;
+  line: number;
+  textTarget: string;
+  removeDeclaration: true;
+}
+
+function describeExport(entry: UnusedExport): string {
+  const kind = entry.reExport
+    ? "Re-export"
+    : entry.name === "default"
+      ? "Default export"
+      : entry.kind === "type"
+        ? "Type export"
+        : "Named export";
+  const note = entry.usedLocally ? " — used locally, remove the export" : "";
+  return `${entry.name} (line ${entry.line}): ${kind}${note}`;
+}
+
+function describeImport(imported: string, local: string): string {
+  if (imported === "*") return `* as ${local}: Namespace import`;
+  if (imported === "default") return `${local}: Default import`;
+  return imported === local
+    ? `{ ${local} }: Named import`
+    : `{ ${imported} as ${local} }: Named import`;
+}
+
+function groupByFile<T extends { file: string }>(
+  items: T[],
+  describe: (item: T) => string,
+): string[] {
+  const lines: string[] = [];
+  let file: string | undefined;
+  for (const item of items) {
+    if (item.file !== file) {
+      file = item.file;
+      lines.push(`  ${file}:`);
+    }
+    lines.push(`    - ${describe(item)}`);
+  }
+  return lines;
+}
+
+/**
+ * Deletions of the findings lsp_delete_symbol can remove by declaration,
+ * in the order to apply them
+ */
+export function toDeletionEdits(
+  rootPath: string,
+  report: DeadCodeReport,
+): DeletionEdit[] {
+  return listDeclarationDeletions(report).map(({ file, line, name }) => ({
+    root: rootPath,
+    relativePath: file,
+    line,
+    textTarget: name,
+    removeDeclaration: true as const,
+  }));
+}
+
+/**
+ * Render a report in the layout of docs/design/dead-code-detection.md
+ */
+export function formatDeadCodeReport(
+  rootPath: string,
+  report: DeadCodeReport,
+): string {
+  const lines = ["# Dead Code Analysis Report", "", `Project: ${rootPath}`];
+  lines.push("Entry Points:");
+  for (const entry of report.entryPoints) lines.push(`  - ${entry}`);
+  if (report.testFiles.length > 0) {
+    lines.push(`Test Files: ${report.testFiles.length}`);
+  }
+
+  lines.push(
+    "",
+    "Summary:",
+    `  Total Modules: ${report.totalModules}`,
+    `  Analyzed Modules: ${report.reachableModules}`,
+    `  Unreachable Modules: ${report.unusedFiles.length}`,
+    `  Unused Exports: ${report.unusedExports.length}`,
+    `  Unused Imports: ${report.unusedImports.length}`,
+    `  Unused Local Declarations: ${report.unusedLocals.length}`,
+  );
+
+  if (report.unusedExports.length > 0) {
+    lines.push("", "Unused Exports:");
+    lines.push(...groupByFile(report.unusedExports, describeExport));
+  }
+  if (report.unusedImports.length > 0) {
+    lines.push("", "Unused Imports:");
+    lines.push(
+      ...groupByFile(
+        report.unusedImports,
+        (entry) =>
+          `${describeImport(entry.imported, entry.local)} from '${entry.specifier}' (line ${entry.line})`,
+      ),
+    );
+  }
+  if (report.unusedLocals.length > 0) {
+    lines.push("", "Unused Local Declarations:");
+    lines.push(
+      ...groupByFile(
+        report.unusedLocals,
+        (entry) =>
+          `${entry.name} (line ${entry.line}): ${entry.kind === "type" ? "Type" : "Value"}`,
+      ),
+    );
+  }
+  if (report.unusedFiles.length > 0) {
+    lines.push("", "Unreachable Modules:");
+    for (const file of report.unusedFiles) lines.push(`  - ${file}`);
+  }
+  return lines.join("\n");
+}
+
+export const detectDeadCodeTool: McpToolDef<typeof schema> = {
+  name: "lsmcp_detect_dead_code",
+  description:
+    "Detect dead code in a TypeScript/JavaScript project by mark and sweep over its import graph: " +
+    "exports no module imports, files no entry point reaches, and imports and top-level declarations never used. " +
+    "Entry points come from package.json (main, exports, bin) and globs; test files count as entry points unless includeTests is off. " +
+    "Set emitDeletions for lsp_delete_symbol arguments removing unused imports, locals and exports: whole declarations, or single import bindings and declarators.",
+  schema,
+  execute: async ({
+    root,
+    entryPoints,
+    usePackageJson = true,
+    includeTests = true,
+    testPatterns,
+    directory,
+    emitDeletions = false,
+  }) => {
+    const rootPath = root || process.cwd();
+    const scope = (directory ?? "").replace(/^\.\/?/, "").replace(/\/+$/, "");
+
+    const files: string[] = [];
+    for await (const file of glob(MODULE_PATTERN, { cwd: rootPath })) {
+      if (!file.split(/[\\/]/).includes("node_modules")) files.push(file);
+    }
+    if (files.length === 0) {
+      return `No TypeScript or JavaScript files found under ${rootPath}.`;
+    }
+
+    const startTime = Date.now();
+    const fullReport = await detectDeadCode(rootPath, files, {
+      entryPoints,
+      usePackageJson,
+      includeTests,
+      testPatterns,
+    });
+    debugLogWithPrefix(
+      "lsmcp_detect_dead_code",
+      `Analyzed ${files.length} files in ${Date.now() - startTime}ms`,
+    );
+    if (fullReport.entryPoints.length === 0) {
+      return "No entry points found. Pass entryPoints, or set main, exports or bin in package.json.";
+    }
+
+    const inScope = (item: { file: string }) =>
+      scope === "" || item.file.startsWith(`${scope}/`);
+    const report: DeadCodeReport = {
+      ...fullReport,
+      unusedFiles: fullReport.unusedFiles.filter((file) => inScope({ file })),
+      unusedExports: fullReport.unusedExports.filter(inScope),
+      unusedImports: fullReport.unusedImports.filter(inScope),
+      unusedLocals: fullReport.unusedLocals.filter(inScope),
+    };
+
+    let output = formatDeadCodeReport(rootPath, report);
+    if (emitDeletions) {
+      const edits = toDeletionEdits(rootPath, report);
+      output +=
+        edits.length === 0
+          ? "\n\nNo deletions to emit."
+          : `\n\nDeletions (${edits.length}), lsp_delete_symbol arguments to run one after another in this order, which keeps the lines of the later ones; check each with dryRun first:\n` +
+            JSON.stringify(edits, null, 2);
+    }
+    return output;
+  },
+};
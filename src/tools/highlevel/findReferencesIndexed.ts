@@ -0,0 +1,189 @@
+/**
+ * Find references from the persisted reference graph of the symbol index
+ */
+
+import { z } from "zod";
+import type { McpToolDef, McpContext } from "@internal/types";
+import {
+  getOrCreateIndex,
+  getIndexStats,
+  updateIndexIncremental,
+  indexReferences,
+  getSymbolKindName,
+  type SymbolReferences,
+} from "@internal/code-indexer";
+import { readFile } from "fs/promises";
+import { relative } from "path";
+import { fileURLToPath } from "url";
+
+// Changed files listed by name before the rest are only counted
+const MAX_LISTED_FILES = 10;
+
+const schema = z.object({
+  root: z.string().describe("Root directory for the project").optional(),
+  relativePath: z
+    .string()
+    .describe("File declaring the symbol (relative to root)"),
+  symbolName: z
+    .string()
+    .describe(
+      "Name of the symbol, or its name path for members (e.g. 'UserService/getUser')",
+    ),
+  line: z
+    .union([z.number(), z.string()])
+    .describe(
+      "Line number (1-based) or string to match in the declaration line, to pick among symbols of the same name",
+    )
+    .optional(),
+  refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Run the reference indexing pass first. Unchanged files come from the cache; changed files and those they may affect are asked from the language server",
+    ),
+});
+
+function listFiles(rootPath: string, uris: string[]): string {
+  const names = uris
+    .slice(0, MAX_LISTED_FILES)
+    .map((uri) => relative(rootPath, fileURLToPath(uri)));
+  const more = uris.length - names.length;
+  return more > 0 ? `${names.join(", ")} and ${more} more` : names.join(", ");
+}
+
+/**
+ * Symbols of the graph entry named by a name or name path, narrowed to a
+ * declaration line when given
+ */
+function findSymbols(
+  symbols: SymbolReferences[],
+  symbolName: string,
+  line: number | string | undefined,
+  lines: string[],
+): SymbolReferences[] {
+  return symbols.filter((symbol) => {
+    if (
+      symbol.namePath !== symbolName &&
+      !symbol.namePath.endsWith(`/${symbolName}`)
+    ) {
+      return false;
+    }
+    if (typeof line === "number") {
+      return symbol.position.line === line - 1;
+    }
+    if (typeof line === "string") {
+      return lines[symbol.position.line]?.includes(line) ?? false;
+    }
+    return true;
+  });
+}
+
+export const findReferencesIndexedTool: McpToolDef<typeof schema> = {
+  name: "find_references_indexed",
+  description:
+    "Find references to a symbol from the reference graph of the symbol index, without asking the language server. " +
+    "Much faster than lsp_find_references for widely used symbols, and reports whether files changed since the references were indexed. " +
+    'The graph is built by the reference indexing pass: pass refresh: true, or set "indexReferences": true in the settings of .lsmcp/config.json to keep it updated with the index.',
+  schema,
+  execute: async (
+    { root, relativePath, symbolName, line, refresh = false },
+    context?: McpContext,
+  ) => {
+    const rootPath = root || process.cwd();
+
+    const index = getOrCreateIndex(rootPath, context);
+    if (!index) {
+      return `Error: Failed to create symbol index. LSP client may not be properly initialized.`;
+    }
+
+    if (refresh) {
+      if (getIndexStats(rootPath).totalFiles === 0) {
+        return "No symbol index for this project yet. Run search_symbols to build it, then refresh the references.";
+      }
+      await updateIndexIncremental(rootPath, context);
+      const result = await indexReferences(rootPath, context);
+      if (!result.success) {
+        return `Error: Failed to index references: ${result.message}`;
+      }
+    }
+
+    const entry = await index.getFileReferences(relativePath);
+    if (!entry) {
+      return `References to the symbols of ${relativePath} are not indexed. Run find_references_indexed with refresh: true, or use lsp_find_references.`;
+    }
+
+    let lines: string[] = [];
+    try {
+      lines = (await readFile(fileURLToPath(entry.uri), "utf-8")).split("\n");
+    } catch {
+      // Removed since; the staleness report below says so
+    }
+
+    const matches = findSymbols(entry.symbols, symbolName, line, lines);
+    if (matches.length === 0) {
+      return `Symbol "${symbolName}" not found among the indexed symbols of ${relativePath}.`;
+    }
+    if (matches.length > 1) {
+      return (
+        `Several symbols match "${symbolName}" in ${relativePath}, pass line to pick one:\n` +
+        matches
+          .map(
+            (symbol) =>
+              `  ${symbol.namePath} (line ${symbol.position.line + 1})`,
+          )
+          .join("\n")
+      );
+    }
+
+    const symbol = matches[0];
+    const kindName =
+      getSymbolKindName(symbol.kind) || `Unknown(${symbol.kind})`;
+    let output = `${symbol.namePath} [${kindName}] at ${relativePath}:${symbol.position.line + 1}:${symbol.position.character + 1}: `;
+    output += `${symbol.references.length} reference(s), indexed ${new Date(entry.indexedAt).toISOString()}\n`;
+
+    const fileLines = new Map<string, string[]>();
+    for (const reference of symbol.references) {
+      const path = fileURLToPath(reference.uri);
+      if (!fileLines.has(path)) {
+        try {
+          fileLines.set(path, (await readFile(path, "utf-8")).split("\n"));
+        } catch {
+          fileLines.set(path, []);
+        }
+      }
+      const { start } = reference.range;
+      const text = fileLines.get(path)![start.line]?.trim();
+      output += `\n${relative(rootPath, path)}:${start.line + 1}:${start.character + 1}\n`;
+      if (text) {
+        output += `  ${text}\n`;
+      }
+    }
+
+    const staleness = await index.getReferenceStaleness(entry);
+    const notes: string[] = [];
+    if (staleness.declarationChanged) {
+      notes.push(
+        `${relativePath} changed since its references were indexed, so the symbol may have moved or gone.`,
+      );
+    }
+    if (staleness.referencing.length > 0) {
+      notes.push(
+        `${staleness.referencing.length} file(s) with references changed since: ${listFiles(rootPath, staleness.referencing)}.`,
+      );
+    }
+    if (staleness.others.length > 0) {
+      notes.push(
+        `${staleness.others.length} other indexed file(s) changed since and may add references: ${listFiles(rootPath, staleness.others)}.`,
+      );
+    }
+
+    if (notes.length === 0) {
+      output += `\nUp to date: no indexed file changed since the references were indexed.`;
+    } else {
+      output += `\nStale:\n${notes.map((note) => `- ${note}`).join("\n")}\n`;
+      output += `Run with refresh: true to update the reference graph, or use lsp_find_references for a live answer.`;
+    }
+
+    return output;
+  },
+};
@@ -10,7 +10,7 @@ import { glob } from "gitaware-glob";
 import { searchSymbolsTool } from "./indexTools";
 
 // Mock the IndexerAdapter module
-vi.mock("@internal/code-indexer", () => {
+vi.mock("@internal/code-indexer", async () => {
   const KIND_MAP: Record<string, number> = {
     File: 1,
     Module: 2,
@@ -82,6 +82,11 @@ vi.mock("@internal/code-indexer", () => {
     SYMBOL_KIND_NAMES,
     getSymbolKindName,
     parseSymbolKind,
+    parseSymbolQuery: (
+      await vi.importActual<
+        typeof import("../../../packages/code-indexer/src/engine/queryLanguage.ts")
+      >("../../../packages/code-indexer/src/engine/queryLanguage.ts")
+    ).parseSymbolQuery,
   };
 });
 
@@ -392,6 +397,80 @@ describe("searchSymbolsTool", () => {
     });
   });
 
+  describe("Paging", () => {
+    it("should show the requested page of the ranked results", async () => {
+      vi.mocked(IndexerAdapter.querySymbols).mockReturnValue(
+        ["UserService", "createUserService", "UserServiceMock"].map(
+          (name, line) => ({
+            name,
+            kind: SymbolKind.Class,
+            location: {
+              uri: makeTestUri("file.ts"),
+              range: {
+                start: { line, character: 0 },
+                end: { line, character: 10 },
+              },
+            },
+          }),
+        ),
+      );
+
+      const result = await searchSymbolsTool.execute({
+        name: "usrSvc",
+        limit: 1,
+        offset: 1,
+        root: "/test",
+      } as any);
+
+      expect(result).toContain(
+        "Found 3 symbol(s) matching your search, best matches first (showing 2-2)",
+      );
+      expect(result).toContain("2. createUserService [Class]");
+      expect(result).not.toContain("1. UserService");
+      expect(result).toContain("... and 1 more results.");
+      expect(result).toContain("Use offset 2 to see the next ones");
+    });
+  });
+
+  describe("Structured queries", () => {
+    it("should pass the parsed filters along with the other fields", async () => {
+      vi.mocked(IndexerAdapter.querySymbols).mockReturnValue([]);
+
+      await searchSymbolsTool.execute({
+        query: "kind:method name:handle* -path:**/*.test.ts",
+        containerName: "UserController",
+        root: "/test",
+      } as any);
+
+      expect(IndexerAdapter.querySymbols).toHaveBeenCalledWith(
+        "/test",
+        expect.objectContaining({
+          containerName: "UserController",
+          filters: [
+            { field: "kind", patterns: [{ type: "text", value: "method" }] },
+            { field: "name", patterns: [{ type: "glob", value: "handle*" }] },
+            {
+              field: "path",
+              patterns: [{ type: "glob", value: "**/*.test.ts" }],
+              negate: true,
+            },
+          ],
+        }),
+      );
+    });
+
+    it("should explain the syntax of an invalid query", async () => {
+      const result = await searchSymbolsTool.execute({
+        query: "knd:method",
+        root: "/test",
+      } as any);
+
+      expect(result).toContain('Error: Unknown field "knd"');
+      expect(result).toContain("Query syntax:");
+      expect(IndexerAdapter.querySymbols).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Error handling", () => {
     it("should return helpful error for invalid kind string", async () => {
       const result = await searchSymbolsTool.execute({
@@ -18,6 +18,7 @@ import {
   SYMBOL_KIND_NAMES,
   getSymbolKindName,
   parseSymbolKind,
+  parseSymbolQuery,
 } from "@internal/code-indexer";
 // Remove getLSPClient - no longer needed
 import { loadIndexConfig } from "@internal/code-indexer";
@@ -35,13 +36,15 @@ const searchSymbolSchema = z.object({
   query: z
     .string()
     .describe(
-      "Symbol name or pattern to search for (supports partial matching)",
+      "Symbol name or structured query. A plain name matches case-insensitively, as camelCase or snake_case abbreviation (e.g. 'usrSvc' for UserService) and with a few typos. " +
+        "Structured terms must all hold: name:, kind:, container: and path: (or file:) fields, a leading '-' negates a term, 'a|b' matches either, " +
+        "values may be globs or /regex/flags, e.g. 'kind:method name:handle* container:*Controller path:src/api/** -path:**/*.test.ts'",
     )
     .optional(),
   name: z
     .string()
     .describe(
-      "Symbol name to search for (alias for query, supports partial matching)",
+      "Symbol name to search for (alias for query, same fuzzy matching)",
     )
     .optional(),
   kind: z
@@ -78,6 +81,20 @@ const searchSymbolSchema = z.object({
       "Filter by specific library name (e.g., 'neverthrow', '@types/node')",
     )
     .optional(),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .describe("Maximum number of results to show (default: 10)")
+    .optional(),
+  offset: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe(
+      "Number of ranked results to skip, to page through more results (default: 0)",
+    )
+    .optional(),
   root: z.string().describe("Root directory for the project").optional(),
 });
 
@@ -86,7 +103,9 @@ export const searchSymbolsTool: McpToolDef<typeof searchSymbolSchema> = {
   description:
     "Search for symbols (functions, classes, variables, etc.) in the codebase using an indexed search. " +
     "Automatically creates and updates the symbol index as needed for fast searching across many files. " +
-    "Provides fuzzy name matching and guides you to use specific LSP tools for detailed operations. " +
+    "Provides fuzzy name matching with ranked results, best matches first (exact and prefix matches, top-level and exported symbols, non-test files), and guides you to use specific LSP tools for detailed operations. " +
+    "The 'query' parameter also takes a structured query combining name, kind, container and path filters with globs, regexes, negation and alternatives, " +
+    "e.g. 'kind:method name:handle* container:*Controller path:src/api/** -path:**/*.test.ts'. " +
     "The 'kind' parameter is OPTIONAL - if not specified, searches ALL symbol types. " +
     "When provided, use case-insensitive values like: File, Module, Namespace, Package, Class, Method, Property, Field, " +
     "Constructor, Enum, Interface, Function, Variable, Constant, String, Number, Boolean, Array, Object, Key, " +
@@ -103,6 +122,8 @@ export const searchSymbolsTool: McpToolDef<typeof searchSymbolSchema> = {
       includeExternal,
       onlyExternal,
       sourceLibrary,
+      limit = 10,
+      offset = 0,
       root,
     },
     context?: McpContext,
@@ -248,9 +269,9 @@ export const searchSymbolsTool: McpToolDef<typeof searchSymbolSchema> = {
       }
     }
 
-    // Build query (use 'query' parameter as alias for 'name')
+    // Build query; a plain name in 'query' becomes a fuzzy name filter
     const searchQuery: any = {
-      name: name || query, // Support both 'name' and 'query' parameters
+      name,
       containerName,
       includeChildren,
       file,
@@ -259,6 +280,22 @@ export const searchSymbolsTool: McpToolDef<typeof searchSymbolSchema> = {
       sourceLibrary,
     };
 
+    if (query) {
+      try {
+        searchQuery.filters = parseSymbolQuery(query).filters;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return `Error: ${errorMessage}
+
+Query syntax:
+  • Fields: name:, kind:, container:, path: (or file:); a bare word is a name
+  • Negation: -path:**/*.test.ts
+  • Alternatives: kind:method|function
+  • Values: plain text, globs (handle*), /regex/flags or "quoted text"`;
+      }
+    }
+
     // Use the parseSymbolKind function to handle case-insensitive strings
     // If kind is not specified, search all symbol kinds
     if (kind !== undefined && kind !== null && kind !== "") {
@@ -286,20 +323,26 @@ Examples:
     }
     // If kind is not specified, don't set it in searchQuery to search all kinds
 
-    // Execute query
-    const results = querySymbols(rootPath, searchQuery);
+    // Execute query; the ranked matches are paged here to know their total
+    const matches = querySymbols(rootPath, searchQuery);
+    const total = matches.length;
+    const results = matches.slice(offset, offset + limit);
 
-    if (results.length === 0) {
+    if (total === 0) {
       return "No symbols found matching the query.";
     }
+    if (results.length === 0) {
+      return `No results at offset ${offset}; ${total} symbol(s) match the query.`;
+    }
 
     // Format results with LSP tool guidance
-    let output = `Found ${results.length} symbol(s) matching your search:\n\n`;
-
-    // Show up to 10 results with detailed guidance
-    const displayCount = Math.min(results.length, 10);
+    let output = `Found ${total} symbol(s) matching your search, best matches first`;
+    if (offset > 0 || results.length < total) {
+      output += ` (showing ${offset + 1}-${offset + results.length})`;
+    }
+    output += `:\n\n`;
 
-    for (let i = 0; i < displayCount; i++) {
+    for (let i = 0; i < results.length; i++) {
       const symbol = results[i];
       const filePath = fileURLToPath(symbol.location.uri);
       const relativePath = relative(rootPath, filePath);
@@ -309,7 +352,7 @@ Examples:
       const line = range.start.line + 1;
       const column = range.start.character + 1;
 
-      output += `${i + 1}. ${symbol.name} [${kindName}]`;
+      output += `${offset + i + 1}. ${symbol.name} [${kindName}]`;
       if (symbol.containerName) {
         output += ` in ${symbol.containerName}`;
       }
@@ -332,9 +375,10 @@ Examples:
       output += `\n`;
     }
 
-    if (results.length > displayCount) {
-      output += `\n... and ${results.length - displayCount} more results.\n`;
-      output += `Refine your search with more specific criteria (name, kind, or file pattern) to see more relevant results.`;
+    const remaining = total - offset - results.length;
+    if (remaining > 0) {
+      output += `\n... and ${remaining} more results.\n`;
+      output += `Use offset ${offset + results.length} to see the next ones, or refine your search with more specific criteria (name, kind, or file pattern).`;
     }
 
     return output;
@@ -347,11 +391,17 @@ Examples:
 
 import { getProjectOverviewTool } from "./projectOverview.ts";
 import { createGetSymbolDetailsTool } from "./getSymbolDetails.ts";
+import { findReferencesIndexedTool } from "./findReferencesIndexed.ts";
+import { getModuleGraphTool } from "./moduleGraph.ts";
+import { detectDeadCodeTool } from "./detectDeadCode.ts";
 
 // Export index tools - only user-facing tools
 export const indexTools = [
   getProjectOverviewTool, // Quick project overview with statistics
   searchSymbolsTool, // Unified symbol search tool (combines search_symbol_from_index, find_symbols, query_symbols)
+  findReferencesIndexedTool, // References from the persisted reference graph
+  getModuleGraphTool, // Import graph with cycles and fan-in/fan-out
+  detectDeadCodeTool, // Unused exports, files, imports and locals
 ];
 
 // Export function to create symbol details tool with LSP client
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { getModuleGraphTool } from "./moduleGraph.ts";
+
+describe("getModuleGraphTool", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "lsmcp-module-graph-tool-test-"));
+    await mkdir(join(root, "src/util"), { recursive: true });
+    await writeFile(
+      join(root, "src/a.ts"),
+      `import { b } from "./b";\nimport type { Format } from "./util/format";\n`,
+    );
+    await writeFile(join(root, "src/b.ts"), `import "./a";\nimport "zod";\n`);
+    await writeFile(join(root, "src/util/format.ts"), `import "../b";\n`);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const execute = (
+    args: Partial<Parameters<typeof getModuleGraphTool.execute>[0]>,
+  ) =>
+    getModuleGraphTool.execute({
+      root,
+      format: "json",
+      includeTypeOnly: true,
+      includePackages: false,
+      ...args,
+    });
+
+  it("should report nodes with fan-in/fan-out, cycles and unresolved imports", async () => {
+    const graph = JSON.parse(await execute({}));
+
+    expect(graph.summary).toEqual({
+      nodes: 3,
+      dependencies: 4,
+      cycles: 1,
+      unresolvedImports: 0,
+    });
+    expect(graph.nodes).toContainEqual({
+      id: "src/b.ts",
+      kind: "module",
+      fanIn: 2,
+      fanOut: 1,
+    });
+    expect(graph.cycles).toEqual([
+      {
+        nodes: ["src/a.ts", "src/b.ts", "src/util/format.ts"],
+        path: ["src/a.ts", "src/b.ts"],
+      },
+    ]);
+  });
+
+  it("should render collapsed directories as Mermaid and DOT", async () => {
+    const mermaid = await execute({
+      format: "mermaid",
+      directory: "src",
+      depth: 0,
+      includePackages: true,
+    });
+    expect(mermaid).toContain("flowchart LR");
+    expect(mermaid).toContain(
+      "%% Cycle of 3: src/a.ts -> src/b.ts -> src/a.ts",
+    );
+    expect(mermaid).toContain('n2[/"src/util/"/]');
+    expect(mermaid).toContain('n3(["zod"])');
+    expect(mermaid).toContain("n0 -.-> n2");
+    expect(mermaid).toContain("linkStyle 0,1,2,4 stroke:#d33");
+
+    const dot = await execute({ format: "dot", includeTypeOnly: false });
+    expect(dot).toContain('"src/a.ts" -> "src/b.ts" [color=red];');
+    expect(dot).not.toContain("style=dashed");
+    expect(dot.trim().endsWith("}")).toBe(true);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Module import graph tool for reviewing project dependencies
+ */
+
+import { z } from "zod";
+import type { McpToolDef } from "@internal/types";
+import {
+  buildModuleGraph,
+  toDependencyGraph,
+  findCycles,
+  computeFanInOut,
+  type DependencyCycle,
+  type DependencyGraph,
+  type ModuleGraph,
+} from "@internal/code-indexer";
+import { glob } from "gitaware-glob";
+import { debugLogWithPrefix } from "../../utils/debugLog.ts";
+
+const MODULE_PATTERN = "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}";
+
+// Modules listed in the summary of diagrams by fan-in and by fan-out
+const TOP_MODULES = 5;
+
+const schema = z.object({
+  root: z.string().describe("Root directory for the project").optional(),
+  directory: z
+    .string()
+    .describe(
+      "Only show modules under this directory (relative to root). Imports crossing it are left out",
+    )
+    .optional(),
+  depth: z
+    .number()
+    .int()
+    .min(0)
+    .describe(
+      "Directory levels below the directory whose files are shown; deeper modules are collapsed into one node per directory (0 shows the files of the directory and one node per subdirectory)",
+    )
+    .optional(),
+  format: z
+    .enum(["json", "mermaid", "dot"])
+    .default("json")
+    .describe(
+      "Output format: JSON with metrics, a Mermaid flowchart or Graphviz DOT",
+    ),
+  includeTypeOnly: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Include imports of types only. Turn off to see runtime dependencies and cycles",
+    ),
+  includePackages: z
+    .boolean()
+    .default(false)
+    .describe("Include installed packages imported as nodes"),
+});
+
+type NodeKind = "module" | "directory" | "package";
+
+function nodeKind(graph: ModuleGraph, node: string): NodeKind {
+  if (node.endsWith("/")) return "directory";
+  return graph.modules.has(node) ? "module" : "package";
+}
+
+/**
+ * Edges joining two nodes of the same cycle, keyed "from\0to"
+ */
+function cycleEdges(
+  dependencies: DependencyGraph,
+  cycles: DependencyCycle[],
+): Set<string> {
+  const componentOf = new Map<string, number>();
+  cycles.forEach((cycle, index) => {
+    for (const node of cycle.nodes) componentOf.set(node, index);
+  });
+  return new Set(
+    dependencies.edges
+      .filter(
+        (edge) =>
+          componentOf.has(edge.from) &&
+          componentOf.get(edge.from) === componentOf.get(edge.to),
+      )
+      .map((edge) => `${edge.from}\0${edge.to}`),
+  );
+}
+
+/**
+ * Summary lines for the comments of diagrams
+ */
+function summarize(
+  dependencies: DependencyGraph,
+  cycles: DependencyCycle[],
+  metrics: Map<string, { fanIn: number; fanOut: number }>,
+): string[] {
+  const lines = [
+    `${dependencies.nodes.length} nodes, ${dependencies.edges.length} dependencies, ${cycles.length} cycle(s)`,
+  ];
+  for (const cycle of cycles) {
+    lines.push(
+      `Cycle of ${cycle.nodes.length}: ${[...cycle.path, cycle.path[0]].join(" -> ")}`,
+    );
+  }
+  const top = (metric: "fanIn" | "fanOut") =>
+    [...metrics.entries()]
+      .filter(([, value]) => value[metric] > 0)
+      .sort((a, b) => b[1][metric] - a[1][metric] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_MODULES)
+      .map(([node, value]) => `${node} (${value[metric]})`)
+      .join(", ");
+  const fanIn = top("fanIn");
+  const fanOut = top("fanOut");
+  if (fanIn) lines.push(`Highest fan-in: ${fanIn}`);
+  if (fanOut) lines.push(`Highest fan-out: ${fanOut}`);
+  return lines;
+}
+
+/**
+ * Render a dependency graph as a Mermaid flowchart. Type-only dependencies
+ * are dotted, cycles red.
+ */
+export function toMermaid(
+  graph: ModuleGraph,
+  dependencies: DependencyGraph,
+  cycles: DependencyCycle[],
+): string {
+  const metrics = computeFanInOut(dependencies);
+  const inCycles = cycleEdges(dependencies, cycles);
+  const ids = new Map(dependencies.nodes.map((node, i) => [node, `n${i}`]));
+  const label = (node: string) => node.replace(/"/g, "#quot;");
+
+  const lines = ["flowchart LR"];
+  for (const line of summarize(dependencies, cycles, metrics)) {
+    lines.push(`  %% ${line}`);
+  }
+  for (const node of dependencies.nodes) {
+    const id = ids.get(node)!;
+    switch (nodeKind(graph, node)) {
+      case "directory":
+        lines.push(`  ${id}[/"${label(node)}"/]`);
+        break;
+      case "package":
+        lines.push(`  ${id}(["${label(node)}"])`);
+        break;
+      default:
+        lines.push(`  ${id}["${label(node)}"]`);
+    }
+  }
+
+  const cycleLinks: number[] = [];
+  dependencies.edges.forEach((edge, index) => {
+    const arrow = edge.typeOnly ? "-.->" : "-->";
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+    if (inCycles.has(`${edge.from}\0${edge.to}`)) cycleLinks.push(index);
+  });
+
+  if (cycles.length > 0) {
+    const cycleNodes = cycles.flatMap((cycle) =>
+      cycle.nodes.map((node) => ids.get(node)!),
+    );
+    lines.push("  classDef cycle stroke:#d33,stroke-width:2px");
+    lines.push(`  class ${cycleNodes.join(",")} cycle`);
+    lines.push(`  linkStyle ${cycleLinks.join(",")} stroke:#d33`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a dependency graph as Graphviz DOT. Type-only dependencies are
+ * dashed, cycles red.
+ */
+export function toDot(
+  graph: ModuleGraph,
+  dependencies: DependencyGraph,
+  cycles: DependencyCycle[],
+): string {
+  const metrics = computeFanInOut(dependencies);
+  const inCycles = cycleEdges(dependencies, cycles);
+  const cycleNodes = new Set(cycles.flatMap((cycle) => cycle.nodes));
+  const quote = (text: string) => `"${text.replace(/["\\]/g, "\\$&")}"`;
+  const attributes = (list: string[]) =>
+    list.length > 0 ? ` [${list.join(", ")}]` : "";
+
+  const lines = ["digraph modules {"];
+  for (const line of summarize(dependencies, cycles, metrics)) {
+    lines.push(`  // ${line}`);
+  }
+  lines.push("  rankdir=LR;", "  node [shape=box];");
+
+  for (const node of dependencies.nodes) {
+    const list: string[] = [];
+    const kind = nodeKind(graph, node);
+    if (kind === "directory") list.push("shape=folder");
+    if (kind === "package") list.push("shape=ellipse");
+    if (cycleNodes.has(node)) list.push("color=red");
+    lines.push(`  ${quote(node)}${attributes(list)};`);
+  }
+  for (const edge of dependencies.edges) {
+    const list: string[] = [];
+    if (edge.typeOnly) list.push("style=dashed");
+    if (inCycles.has(`${edge.from}\0${edge.to}`)) list.push("color=red");
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}${attributes(list)};`,
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * The dependency graph with its metrics, cycles and unresolved imports
+ */
+export function toJson(
+  graph: ModuleGraph,
+  dependencies: DependencyGraph,
+  cycles: DependencyCycle[],
+): string {
+  const metrics = computeFanInOut(dependencies);
+  const shown = new Set(dependencies.nodes);
+  const unresolved = [...graph.modules.values()]
+    .filter((module) => shown.has(module.path))
+    .flatMap((module) =>
+      module.unresolved.map(({ specifier, line }) => ({
+        file: module.path,
+        specifier,
+        line,
+      })),
+    );
+
+  return JSON.stringify(
+    {
+      summary: {
+        nodes: dependencies.nodes.length,
+        dependencies: dependencies.edges.length,
+        cycles: cycles.length,
+        unresolvedImports: unresolved.length,
+      },
+      nodes: dependencies.nodes.map((node) => ({
+        id: node,
+        kind: nodeKind(graph, node),
+        ...metrics.get(node),
+      })),
+      dependencies: dependencies.edges,
+      cycles,
+      unresolved,
+    },
+    null,
+    2,
+  );
+}
+
+export const getModuleGraphTool: McpToolDef<typeof schema> = {
+  name: "get_module_graph",
+  description:
+    "Get the file-to-file import graph of a TypeScript/JavaScript project, resolving relative imports, tsconfig paths and workspace package entry points. " +
+    "Reports import cycles and fan-in/fan-out (how many modules depend on a module, and how many it depends on). " +
+    "Scope it to a directory and collapse deep directories with depth for architecture reviews; output JSON, Mermaid or Graphviz DOT.",
+  schema,
+  execute: async ({
+    root,
+    directory,
+    depth,
+    format = "json",
+    includeTypeOnly = true,
+    includePackages = false,
+  }) => {
+    const rootPath = root || process.cwd();
+    const scope = (directory ?? "").replace(/^\.\/?/, "").replace(/\/+$/, "");
+
+    const files: string[] = [];
+    const pattern = scope ? `${scope}/${MODULE_PATTERN}` : MODULE_PATTERN;
+    for await (const file of glob(pattern, { cwd: rootPath })) {
+      if (!file.split(/[\\/]/).includes("node_modules")) files.push(file);
+    }
+    if (files.length === 0) {
+      return `No TypeScript or JavaScript files found under ${scope || rootPath}.`;
+    }
+
+    const startTime = Date.now();
+    const graph = await buildModuleGraph(rootPath, files);
+    const dependencies = toDependencyGraph(graph, {
+      directory: scope,
+      depth,
+      includeTypeOnly,
+      includePackages,
+    });
+    const cycles = findCycles(dependencies);
+    debugLogWithPrefix(
+      "get_module_graph",
+      `Built graph of ${files.length} files in ${Date.now() - startTime}ms`,
+    );
+
+    switch (format) {
+      case "mermaid":
+        return toMermaid(graph, dependencies, cycles);
+      case "dot":
+        return toDot(graph, dependencies, cycles);
+      default:
+        return toJson(graph, dependencies, cycles);
+    }
+  },
+};
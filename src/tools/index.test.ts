@@ -74,7 +74,7 @@ describe("Configurable Language Features", () => {
 
       // Count total tools
       const toolCount = Object.keys(tools).length;
-      const coreToolCount = 8; // Number of core tools (removed findFile, searchForPattern and 3 symbol tools, added replaceRange)
+      const coreToolCount = 11; // Number of core tools (removed findFile, searchForPattern and 3 symbol tools, added replaceRange and the edit history tools)
       const typescriptToolCount = 6; // Number of TypeScript-specific tools
 
       expect(toolCount).toBe(coreToolCount + typescriptToolCount);
@@ -1,5 +1,6 @@
 export * from "./editor/regexEditTools.ts";
 export * from "./editor/rangeEditTools.ts";
+export * from "./editor/editHistoryTools.ts";
 export * from "./memory/memoryTools.ts";
 // Internal tools - not exported
 export * from "./highlevel/fileSystemTools.ts";
@@ -12,6 +13,11 @@ export * from "./highlevel/symbolResolverTools.ts";
 import type { McpToolDef } from "@internal/types";
 import { replaceRegexTool } from "./editor/regexEditTools.ts";
 import { replaceRangeTool } from "./editor/rangeEditTools.ts";
+import {
+  undoLastEditTool,
+  redoEditTool,
+  listEditHistoryTool,
+} from "./editor/editHistoryTools.ts";
 import {
   listMemoriesTool,
   readMemoryTool,
@@ -39,6 +45,11 @@ const coreTools = {
   replaceRange: replaceRangeTool,
   replaceRegex: replaceRegexTool,
 
+  // Edit history tools
+  undoLastEdit: undoLastEditTool,
+  redoEdit: redoEditTool,
+  listEditHistory: listEditHistoryTool,
+
   // Memory tools
   listMemories: listMemoriesTool,
   readMemory: readMemoryTool,
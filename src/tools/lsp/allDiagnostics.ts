@@ -71,7 +71,7 @@ const SEVERITY_MAP: Record<
  * Get all project files using gitaware-glob
  * This automatically respects .gitignore
  */
-async function getProjectFiles(
+export async function getProjectFiles(
   root: string,
   pattern: string,
   exclude?: string,
@@ -0,0 +1,395 @@
+import type { LSPClient } from "@internal/lsp-client";
+import {
+  getLanguageIdFromPath,
+  resolveLineParameter,
+  waitForDiagnosticsWithRetry,
+} from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { fileURLToPath, pathToFileURL } from "url";
+import type {
+  CodeAction,
+  Command,
+  Diagnostic,
+  McpToolDef,
+  WorkspaceEdit,
+} from "@internal/types";
+import { getLineRangeCodeActions, isCommand } from "./codeActions.ts";
+import { withLSPDocument } from "./common.ts";
+import {
+  formatEditPreview,
+  previewWorkspaceEdit,
+} from "../../utils/workspaceEditPreview.ts";
+import {
+  recordEdit,
+  type FileContentChange,
+} from "../../features/edits/editJournal.ts";
+
+const schemaShape = {
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe("File path to apply the code action in (relative to root)"),
+  startLine: z
+    .union([z.number(), z.string()])
+    .describe("Start line number (1-based) or string to match"),
+  endLine: z
+    .union([z.number(), z.string()])
+    .describe("End line number (1-based) or string to match")
+    .optional(),
+  index: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Number of the action as listed by lsp_get_code_actions")
+    .optional(),
+  title: z
+    .string()
+    .describe("Title of the action, or a unique part of it")
+    .optional(),
+  kind: z
+    .string()
+    .describe(
+      "Code action kind or kind prefix (e.g., 'quickfix', 'source.organizeImports')",
+    )
+    .optional(),
+  dryRun: z
+    .boolean()
+    .describe(
+      "Return a unified diff of the action's edits without applying them (default: false)",
+    )
+    .optional(),
+};
+
+const schema = z.object(schemaShape);
+
+type ApplyCodeActionRequest = z.infer<typeof schema>;
+
+/** An edit the server applied through workspace/applyEdit */
+interface ServerEdit {
+  edit: WorkspaceEdit;
+  changes: FileContentChange[];
+}
+
+/** Runs a command and returns the edits the server applied meanwhile */
+export type ServerEditRecorder = (
+  run: () => Promise<unknown>,
+) => Promise<ServerEdit[]>;
+
+interface NumberedAction {
+  action: Command | CodeAction;
+  number: number;
+}
+
+function describeAction({ action, number }: NumberedAction): string {
+  const kind = !isCommand(action) && action.kind ? ` [${action.kind}]` : "";
+  return `${number}. ${action.title}${kind}`;
+}
+
+/**
+ * Pick one action by number, kind and title. Several matches are only
+ * accepted when exactly one of them is the server's preferred fix.
+ */
+function selectCodeAction(
+  actions: (Command | CodeAction)[],
+  {
+    index,
+    title,
+    kind,
+  }: Pick<ApplyCodeActionRequest, "index" | "title" | "kind">,
+): Command | CodeAction {
+  const all = actions.map((action, i) => ({ action, number: i + 1 }));
+  const available = all.map(describeAction).join("\n");
+  if (index === undefined && title === undefined && kind === undefined) {
+    throw new Error(
+      `Specify index, title or kind of the code action. Available actions:\n${available}`,
+    );
+  }
+
+  let candidates = all;
+  if (index !== undefined) {
+    candidates = candidates.filter((candidate) => candidate.number === index);
+  }
+  if (kind !== undefined) {
+    candidates = candidates.filter(
+      ({ action }) =>
+        !isCommand(action) &&
+        (action.kind === kind || !!action.kind?.startsWith(`${kind}.`)),
+    );
+  }
+  if (title !== undefined) {
+    const exact = candidates.filter(({ action }) => action.title === title);
+    candidates =
+      exact.length > 0
+        ? exact
+        : candidates.filter(({ action }) =>
+            action.title.toLowerCase().includes(title.toLowerCase()),
+          );
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(`No code action matches. Available actions:\n${available}`);
+  }
+  if (candidates.length > 1) {
+    // Loose titles and kinds easily match actions that do not apply here
+    const enabled = candidates.filter(
+      ({ action }) => isCommand(action) || !action.disabled,
+    );
+    if (enabled.length > 0) candidates = enabled;
+  }
+  if (candidates.length > 1) {
+    const preferred = candidates.filter(
+      ({ action }) => !isCommand(action) && action.isPreferred,
+    );
+    if (preferred.length === 1) return preferred[0].action;
+    throw new Error(
+      `${candidates.length} code actions match; pass index to pick one:\n${candidates
+        .map(describeAction)
+        .join("\n")}`,
+    );
+  }
+  return candidates[0].action;
+}
+
+function editedFiles(edit: WorkspaceEdit): string[] {
+  const uris = Object.keys(edit.changes ?? {});
+  for (const change of edit.documentChanges ?? []) {
+    if ("textDocument" in change) uris.push(change.textDocument.uri);
+    else if (change.kind === "rename") uris.push(change.oldUri, change.newUri);
+    else uris.push(change.uri);
+  }
+  return uris.map((uri) => fileURLToPath(uri));
+}
+
+async function collectDiagnostics(
+  client: LSPClient,
+  filePath: string,
+): Promise<Diagnostic[] | undefined> {
+  const content = await fs.readFile(filePath, "utf-8").catch(() => undefined);
+  // Deleted files have nothing to report
+  if (content === undefined) return undefined;
+
+  const fileUri = pathToFileURL(filePath).toString();
+  const documentWasOpen = client.isDocumentOpen(fileUri);
+  try {
+    return await waitForDiagnosticsWithRetry(
+      client,
+      fileUri,
+      content,
+      getLanguageIdFromPath(filePath) || undefined,
+      { timeout: 5000, forceRefresh: true },
+    );
+  } finally {
+    if (!documentWasOpen) client.closeDocument(fileUri);
+  }
+}
+
+function formatDiagnostics(
+  relativePath: string,
+  diagnostics: Diagnostic[],
+): string {
+  const errors = diagnostics.filter((d) => d.severity === 1).length;
+  const warnings = diagnostics.filter((d) => d.severity === 2).length;
+  let result = `${relativePath}: ${errors} error(s), ${warnings} warning(s)`;
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.severity !== 1 && diagnostic.severity !== 2) continue;
+    const severity = diagnostic.severity === 1 ? "ERROR" : "WARNING";
+    const { line, character } = diagnostic.range.start;
+    result += `\n  ${severity} ${line + 1}:${character + 1} ${diagnostic.message}`;
+  }
+  return result;
+}
+
+/**
+ * Apply a resolved code action's edit, run its command and journal all
+ * changes under one label. Returns the changed files and the workspace edits
+ * applied, the action's own followed by the ones its command sent.
+ */
+export async function performCodeAction(
+  client: LSPClient,
+  root: string,
+  action: Command | CodeAction,
+  recordServerEdits: ServerEditRecorder,
+  label: string,
+): Promise<{ changedFiles: string[]; edits: WorkspaceEdit[] }> {
+  const command = isCommand(action) ? action : action.command;
+  const edit = isCommand(action) ? undefined : action.edit;
+  const previews = edit ? await previewWorkspaceEdit(edit) : [];
+
+  const changedFiles = previews.map((preview) => preview.filePath);
+  const edits = edit ? [edit] : [];
+  const journalChanges: FileContentChange[] = [...previews];
+  if (edit) {
+    const result = await client.applyEdit(edit, action.title);
+    if (!result.applied) {
+      throw new Error(
+        `Failed to apply "${action.title}": ${result.failureReason ?? "unknown reason"}`,
+      );
+    }
+  }
+  if (command) {
+    // Commands apply their edits through workspace/applyEdit requests
+    const serverEdits = await recordServerEdits(() =>
+      client.executeCommand(command.command, command.arguments),
+    );
+    changedFiles.push(
+      ...serverEdits.flatMap((serverEdit) => editedFiles(serverEdit.edit)),
+    );
+    edits.push(...serverEdits.map((serverEdit) => serverEdit.edit));
+    journalChanges.push(
+      ...serverEdits.flatMap((serverEdit) => serverEdit.changes),
+    );
+  }
+  await recordEdit(root, label, journalChanges);
+  return { changedFiles: [...new Set(changedFiles)], edits };
+}
+
+async function handleApplyCodeAction(
+  request: ApplyCodeActionRequest,
+  client: LSPClient,
+  recordServerEdits: ServerEditRecorder,
+): Promise<string> {
+  if (!client) {
+    throw new Error("LSP client not initialized");
+  }
+
+  const { root, relativePath, startLine, endLine, dryRun } = request;
+  const absolutePath = path.resolve(root, relativePath);
+  const fileUri = pathToFileURL(absolutePath).toString();
+  const content = await fs.readFile(absolutePath, "utf-8");
+
+  const lines = content.split("\n");
+  const startLineIndex = resolveLineParameter(lines, startLine);
+  const endLineIndex =
+    endLine !== undefined
+      ? resolveLineParameter(lines, endLine)
+      : startLineIndex;
+
+  const outcome = await withLSPDocument<
+    { preview: string } | { title: string; changedFiles: string[] }
+  >(client, fileUri, content, async () => {
+    const actions = await getLineRangeCodeActions(
+      client,
+      fileUri,
+      lines,
+      startLineIndex,
+      endLineIndex,
+    );
+    if (actions.length === 0) {
+      throw new Error(
+        `No code actions available for ${relativePath}:${startLineIndex + 1}-${
+          endLineIndex + 1
+        }`,
+      );
+    }
+
+    let action = selectCodeAction(actions, request);
+    if (!isCommand(action)) {
+      if (action.disabled) {
+        throw new Error(
+          `Code action "${action.title}" is disabled: ${action.disabled.reason}`,
+        );
+      }
+      // Servers may leave the edit out until the action is resolved
+      if (!action.edit && client.supportsFeature("codeActionResolve")) {
+        action = await client.resolveCodeAction(action);
+      }
+    }
+
+    const command = isCommand(action) ? action : action.command;
+    const edit = isCommand(action) ? undefined : action.edit;
+    const previews = edit ? await previewWorkspaceEdit(edit) : [];
+
+    if (dryRun) {
+      let result = `Dry run: "${action.title}" would change ${previews.length} file(s)`;
+      if (command) {
+        result += `\nIt then runs the command ${command.command}, whose edits cannot be previewed`;
+      }
+      const diff = formatEditPreview(previews, root);
+      return { preview: diff ? `${result}\n\n${diff}` : result };
+    }
+
+    const { changedFiles } = await performCodeAction(
+      client,
+      root,
+      action,
+      recordServerEdits,
+      `lsp_apply_code_action ${action.title}`,
+    );
+    return { title: action.title, changedFiles };
+  });
+
+  if ("preview" in outcome) {
+    return outcome.preview;
+  }
+
+  const toRelative = (filePath: string) =>
+    path.relative(root, filePath).replace(/\\/g, "/");
+  let result = `Applied "${outcome.title}"`;
+  if (outcome.changedFiles.length === 0) {
+    return `${result}\nNo files were changed`;
+  }
+
+  result += `\n\nChanged files:\n${outcome.changedFiles
+    .map((filePath) => `  ${toRelative(filePath)}`)
+    .join("\n")}`;
+
+  const diagnostics: string[] = [];
+  for (const filePath of outcome.changedFiles) {
+    const fileDiagnostics = await collectDiagnostics(client, filePath);
+    if (fileDiagnostics) {
+      diagnostics.push(
+        formatDiagnostics(toRelative(filePath), fileDiagnostics),
+      );
+    }
+  }
+  if (diagnostics.length > 0) {
+    result += `\n\nDiagnostics after applying:\n${diagnostics.join("\n")}`;
+  }
+  return result;
+}
+
+/**
+ * Collect the edits the server sends back while one of our commands runs
+ */
+export function createServerEditRecorder(
+  client: LSPClient,
+): ServerEditRecorder {
+  let serverEdits: ServerEdit[] | undefined;
+  let listening = false;
+  return async (run) => {
+    if (!listening) {
+      client.on("workspaceEdit", (edit, _label, changes) =>
+        serverEdits?.push({ edit, changes }),
+      );
+      listening = true;
+    }
+    serverEdits = [];
+    try {
+      await run();
+      return serverEdits;
+    } finally {
+      serverEdits = undefined;
+    }
+  };
+}
+
+/**
+ * Create apply code action tool with injected LSP client
+ */
+export function createApplyCodeActionTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  const recordServerEdits = createServerEditRecorder(client);
+
+  return {
+    name: "lsp_apply_code_action",
+    description:
+      "Apply a code action (quick fix, refactoring, source action) for a line range using LSP. Pick the action by its number from lsp_get_code_actions, its title or its kind. Reports changed files and their diagnostics afterwards; use dryRun to get a unified diff instead.",
+    schema,
+    execute: async (args) => {
+      return handleApplyCodeAction(args, client, recordServerEdits);
+    },
+  };
+}
@@ -0,0 +1,296 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { pathToFileURL } from "url";
+import type { McpToolDef, Range, TextEdit } from "@internal/types";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+  type FileEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { hashContent } from "../../features/edits/editJournal.ts";
+import { withLSPDocument } from "./common.ts";
+import { resolveSymbolPath } from "./symbolPath.ts";
+import { writeFileEdits } from "./fileEdits.ts";
+
+const rangeSchema = z.object({
+  startLine: z.number().int().describe("Start line number (1-based)"),
+  startCharacter: z
+    .number()
+    .int()
+    .describe("Start character position in the line (0-based)"),
+  endLine: z.number().int().describe("End line number (1-based)"),
+  endCharacter: z
+    .number()
+    .int()
+    .describe("End character position in the line (0-based, exclusive)"),
+});
+
+const editSchema = z.object({
+  file: z.string().describe("File to edit (relative to root)"),
+  range: rangeSchema
+    .describe("Range to replace; give either range or symbolPath")
+    .optional(),
+  symbolPath: z
+    .string()
+    .describe(
+      "Symbol whose whole declaration is replaced, as a name path (e.g. 'UserService/getUser' or 'UserService.getUser')",
+    )
+    .optional(),
+  newText: z.string().describe("Replacement text"),
+  expectedHash: z
+    .string()
+    .describe(
+      "sha256 (hex) of the file content the edit was written against, as reported by a previous apply_edits call. The batch is rejected if the file differs.",
+    )
+    .optional(),
+});
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  edits: z
+    .array(editSchema)
+    .min(1)
+    .describe(
+      "Edits to apply together; either all of them or none are applied",
+    ),
+  dryRun: z
+    .boolean()
+    .describe(
+      "Return a unified diff of the batch without writing any file (default: false)",
+    )
+    .optional(),
+  reportDiagnostics: z
+    .boolean()
+    .describe(
+      "Report the errors and warnings the edit introduces or resolves in the changed files and the files depending on them (default: false)",
+    )
+    .optional(),
+});
+
+type ApplyEditsRequest = z.infer<typeof schema>;
+type EditOperation = z.infer<typeof editSchema>;
+
+interface FileBatch {
+  relativePath: string;
+  absolutePath: string;
+  content: string;
+  edits: { index: number; edit: TextEdit }[];
+}
+
+function toLspRange(
+  range: z.infer<typeof rangeSchema>,
+  lines: string[],
+): Range | string {
+  const { startLine, startCharacter, endLine, endCharacter } = range;
+  if (startLine < 1 || endLine > lines.length || startLine > endLine) {
+    return `lines ${startLine}-${endLine} are outside the file (1-${lines.length})`;
+  }
+  if (startLine === endLine && startCharacter > endCharacter) {
+    return `range ends before it starts`;
+  }
+  if (startCharacter < 0 || startCharacter > lines[startLine - 1].length) {
+    return `start character ${startCharacter} is outside line ${startLine}`;
+  }
+  if (endCharacter < 0 || endCharacter > lines[endLine - 1].length) {
+    return `end character ${endCharacter} is outside line ${endLine}`;
+  }
+  return {
+    start: { line: startLine - 1, character: startCharacter },
+    end: { line: endLine - 1, character: endCharacter },
+  };
+}
+
+function comparePositions(a: Range["start"], b: Range["start"]): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+/**
+ * Report edits of one file that overlap or insert at the same position,
+ * since the order they apply in would be ambiguous
+ */
+function findOverlaps(batch: FileBatch): string[] {
+  const sorted = [...batch.edits].sort((a, b) =>
+    comparePositions(a.edit.range.start, b.edit.range.start),
+  );
+  const problems: string[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    if (
+      comparePositions(current.edit.range.start, previous.edit.range.end) < 0 ||
+      comparePositions(current.edit.range.start, previous.edit.range.start) ===
+        0
+    ) {
+      problems.push(
+        `edits ${previous.index + 1} and ${current.index + 1} overlap in ${batch.relativePath}`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read every file once and turn the operations into text edits, collecting
+ * all problems instead of stopping at the first
+ */
+async function validateEdits(
+  root: string,
+  edits: EditOperation[],
+  client: LSPClient,
+): Promise<{ batches: FileBatch[]; problems: string[] }> {
+  const batches = new Map<string, FileBatch>();
+  const symbolEdits = new Map<
+    FileBatch,
+    { operation: EditOperation; index: number }[]
+  >();
+  const problems: string[] = [];
+
+  for (const [index, operation] of edits.entries()) {
+    const label = `edit ${index + 1} (${operation.file})`;
+    const absolutePath = path.resolve(root, operation.file);
+    let batch = batches.get(absolutePath);
+    if (!batch) {
+      const content = await fs
+        .readFile(absolutePath, "utf-8")
+        .catch(() => null);
+      if (content === null) {
+        problems.push(`${label}: file not found`);
+        continue;
+      }
+      batch = {
+        relativePath: path.relative(root, absolutePath).replace(/\\/g, "/"),
+        absolutePath,
+        content,
+        edits: [],
+      };
+      batches.set(absolutePath, batch);
+    }
+
+    if (
+      operation.expectedHash !== undefined &&
+      operation.expectedHash.toLowerCase() !== hashContent(batch.content)
+    ) {
+      problems.push(`${label}: file changed since expectedHash was taken`);
+      continue;
+    }
+    if (
+      (operation.range === undefined) ===
+      (operation.symbolPath === undefined)
+    ) {
+      problems.push(`${label}: give exactly one of range and symbolPath`);
+      continue;
+    }
+
+    if (operation.range) {
+      const range = toLspRange(operation.range, batch.content.split("\n"));
+      if (typeof range === "string") {
+        problems.push(`${label}: ${range}`);
+        continue;
+      }
+      batch.edits.push({ index, edit: { range, newText: operation.newText } });
+    } else {
+      symbolEdits.set(batch, [
+        ...(symbolEdits.get(batch) ?? []),
+        { operation, index },
+      ]);
+    }
+  }
+
+  // Symbols are looked up with one open document per file
+  for (const [batch, pending] of symbolEdits) {
+    const fileUri = pathToFileURL(batch.absolutePath).toString();
+    await withLSPDocument(client, fileUri, batch.content, async () => {
+      for (const { operation, index } of pending) {
+        try {
+          const symbol = await resolveSymbolPath(
+            client,
+            fileUri,
+            operation.symbolPath!,
+            batch.content,
+          );
+          batch.edits.push({
+            index,
+            edit: { range: symbol.range, newText: operation.newText },
+          });
+        } catch (error) {
+          problems.push(
+            `edit ${index + 1} (${operation.file}): ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      }
+    });
+  }
+
+  for (const batch of batches.values()) {
+    problems.push(...findOverlaps(batch));
+  }
+  return { batches: [...batches.values()], problems };
+}
+
+async function handleApplyEdits(
+  { root, edits, dryRun, reportDiagnostics }: ApplyEditsRequest,
+  client: LSPClient,
+): Promise<string> {
+  const { batches, problems } = await validateEdits(root, edits, client);
+  if (problems.length > 0) {
+    throw new Error(
+      `No edits were applied:\n${problems.map((problem) => `  ${problem}`).join("\n")}`,
+    );
+  }
+
+  const previews: FileEditPreview[] = batches
+    .map((batch) => ({
+      filePath: batch.absolutePath,
+      before: batch.content,
+      after: applyTextEdits(
+        batch.content,
+        batch.edits.map(({ edit }) => edit),
+      ),
+    }))
+    .filter((preview) => preview.before !== preview.after);
+
+  if (dryRun) {
+    const summary = summarizeEditPreview(previews, root);
+    const diff = formatEditPreview(previews, root);
+    return `Dry run: ${edits.length} edit(s) would change ${previews.length} file(s)\n\n${summary}${
+      diff ? `\n\n${diff}` : ""
+    }`;
+  }
+
+  const diagnostics = await writeFileEdits(
+    root,
+    `apply_edits (${edits.length} edit(s))`,
+    previews,
+    client,
+    reportDiagnostics,
+  );
+
+  const lines = previews.map((preview) => {
+    const batch = batches.find((b) => b.absolutePath === preview.filePath)!;
+    return `  ${batch.relativePath}: ${batch.edits.length} edit(s), sha256 ${hashContent(preview.after!)}`;
+  });
+  const result = `Applied ${edits.length} edit(s) to ${previews.length} file(s):\n${lines.join("\n")}`;
+  return diagnostics ? `${result}\n\n${diagnostics}` : result;
+}
+
+/**
+ * Create the batch edit tool with injected LSP client
+ */
+export function createApplyEditsTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return {
+    name: "apply_edits",
+    description:
+      "Apply a batch of edits across several files atomically. Each edit replaces a range or a whole symbol (by name path) with new text. All edits are validated against the current content first, optionally against an expected sha256 of the file; if any is invalid or overlaps another, nothing is written. Reports the new sha256 of each changed file. Use dryRun to get a unified diff instead.",
+    schema,
+    execute: async (args) => {
+      return handleApplyEdits(args, client);
+    },
+  };
+}
@@ -0,0 +1,271 @@
+import type { CallHierarchyItem, LSPClient, Range } from "@internal/lsp-client";
+import { z } from "zod";
+import { err, ok, type Result } from "neverthrow";
+import path from "path";
+import { fileURLToPath } from "url";
+import { SymbolKindNames } from "@internal/types";
+import { createLSPTool } from "./toolFactory.ts";
+import { resolveFileAndSymbol, withLSPDocument } from "./common.ts";
+
+const MAX_DEPTH = 5;
+const MAX_NODES = 200;
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe("File path containing the symbol (relative to root)"),
+  line: z
+    .union([z.number(), z.string()])
+    .describe("Line number (1-based) or string to match in the line")
+    .optional(),
+  textTarget: z.string().describe("Symbol to get the call hierarchy for"),
+  direction: z
+    .enum(["incoming", "outgoing", "both"])
+    .default("both")
+    .describe(
+      "incoming: who calls this symbol, outgoing: what this symbol calls, both: both trees",
+    ),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_DEPTH)
+    .default(2)
+    .describe(`How many levels of calls to expand (1-${MAX_DEPTH})`),
+});
+
+type GetCallHierarchyRequest = z.infer<typeof schema>;
+type CallDirection = "incoming" | "outgoing";
+
+interface CallTreeNode {
+  item: CallHierarchyItem;
+  /** Call sites, in the caller's file */
+  callSites: Range[];
+  children: CallTreeNode[];
+  recursive: boolean;
+}
+
+interface GetCallHierarchySuccess {
+  message: string;
+  root: string;
+  roots: CallHierarchyItem[];
+  incoming?: CallTreeNode[][];
+  outgoing?: CallTreeNode[][];
+  truncated: boolean;
+}
+
+function itemKey(item: CallHierarchyItem): string {
+  const { line, character } = item.selectionRange.start;
+  return `${item.uri}:${line}:${character}`;
+}
+
+/**
+ * Recursively expand calls for an item up to the requested depth
+ */
+async function expandCalls(
+  client: LSPClient,
+  item: CallHierarchyItem,
+  direction: CallDirection,
+  depth: number,
+  ancestors: Set<string>,
+  budget: { remaining: number },
+): Promise<CallTreeNode[]> {
+  if (depth <= 0 || budget.remaining <= 0) {
+    return [];
+  }
+
+  const calls =
+    direction === "incoming"
+      ? (await client.getIncomingCalls(item)).map((call) => ({
+          item: call.from,
+          callSites: call.fromRanges,
+        }))
+      : (await client.getOutgoingCalls(item)).map((call) => ({
+          item: call.to,
+          callSites: call.fromRanges,
+        }));
+
+  const nodes: CallTreeNode[] = [];
+  for (const call of calls) {
+    if (budget.remaining <= 0) break;
+    budget.remaining--;
+
+    const key = itemKey(call.item);
+    const recursive = ancestors.has(key);
+    const children = recursive
+      ? []
+      : await expandCalls(
+          client,
+          call.item,
+          direction,
+          depth - 1,
+          new Set([...ancestors, key]),
+          budget,
+        );
+
+    nodes.push({ ...call, children, recursive });
+  }
+  return nodes;
+}
+
+/**
+ * Gets the call hierarchy for a symbol using LSP
+ */
+async function getCallHierarchy(
+  request: GetCallHierarchyRequest,
+  client: LSPClient,
+): Promise<Result<GetCallHierarchySuccess, string>> {
+  try {
+    if (!client) {
+      return err("LSP client not available");
+    }
+
+    const { fileUri, fileContent, lines, lineIndex, symbolIndex } =
+      resolveFileAndSymbol({
+        root: request.root,
+        relativePath: request.relativePath,
+        line: request.line,
+        textTarget: request.textTarget,
+      });
+
+    if (!lines[lineIndex]?.startsWith(request.textTarget, symbolIndex)) {
+      return err(
+        `Target "${request.textTarget}" not found in ${request.relativePath}`,
+      );
+    }
+
+    return await withLSPDocument(client, fileUri, fileContent, async () => {
+      const roots = await client.prepareCallHierarchy(fileUri, {
+        line: lineIndex,
+        character: symbolIndex,
+      });
+
+      if (roots.length === 0) {
+        return ok({
+          message: `No call hierarchy available for "${request.textTarget}" at ${request.relativePath}:${lineIndex + 1}:${symbolIndex + 1}`,
+          root: request.root,
+          roots: [],
+          truncated: false,
+        });
+      }
+
+      const budget = { remaining: MAX_NODES };
+      const expandAll = async (direction: CallDirection) => {
+        const trees: CallTreeNode[][] = [];
+        for (const item of roots) {
+          trees.push(
+            await expandCalls(
+              client,
+              item,
+              direction,
+              request.depth,
+              new Set([itemKey(item)]),
+              budget,
+            ),
+          );
+        }
+        return trees;
+      };
+
+      const incoming =
+        request.direction !== "outgoing"
+          ? await expandAll("incoming")
+          : undefined;
+      const outgoing =
+        request.direction !== "incoming"
+          ? await expandAll("outgoing")
+          : undefined;
+
+      return ok({
+        message: `Call hierarchy for "${request.textTarget}" (depth ${request.depth})`,
+        root: request.root,
+        roots,
+        incoming,
+        outgoing,
+        truncated: budget.remaining <= 0,
+      });
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function formatItemLocation(root: string, item: CallHierarchyItem): string {
+  let filePath: string;
+  try {
+    filePath = path.relative(root, fileURLToPath(item.uri));
+  } catch {
+    filePath = item.uri;
+  }
+  const { line, character } = item.selectionRange.start;
+  return `${filePath}:${line + 1}:${character + 1}`;
+}
+
+function formatItem(root: string, item: CallHierarchyItem): string {
+  const kind = SymbolKindNames[item.kind] || "Unknown";
+  const detail = item.detail ? ` - ${item.detail}` : "";
+  return `${item.name} [${kind}]${detail} ${formatItemLocation(root, item)}`;
+}
+
+function formatCallTree(
+  root: string,
+  nodes: CallTreeNode[],
+  indent: string,
+): string[] {
+  const output: string[] = [];
+  for (const node of nodes) {
+    const sites = node.callSites
+      .map((range) => `${range.start.line + 1}:${range.start.character + 1}`)
+      .join(", ");
+    const suffix = node.recursive ? " (recursive)" : "";
+    output.push(
+      `${indent}- ${formatItem(root, node.item)}${sites ? ` (calls at ${sites})` : ""}${suffix}`,
+    );
+    output.push(...formatCallTree(root, node.children, indent + "  "));
+  }
+  return output;
+}
+
+function formatCallHierarchy(result: GetCallHierarchySuccess): string {
+  const { root } = result;
+  const output = [result.message];
+
+  result.roots.forEach((item, index) => {
+    output.push("", formatItem(root, item));
+
+    const sections: [string, CallTreeNode[][] | undefined][] = [
+      ["Incoming calls (callers)", result.incoming],
+      ["Outgoing calls (callees)", result.outgoing],
+    ];
+    for (const [title, trees] of sections) {
+      if (!trees) continue;
+      const tree = trees[index];
+      output.push(`\n${title}:`);
+      output.push(
+        ...(tree.length > 0 ? formatCallTree(root, tree, "  ") : ["  (none)"]),
+      );
+    }
+  });
+
+  if (result.truncated) {
+    output.push("", `Output truncated after ${MAX_NODES} calls.`);
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Create call hierarchy tool with injected LSP client
+ */
+export function createCallHierarchyTool(client: LSPClient) {
+  return createLSPTool({
+    name: "lsp_get_call_hierarchy",
+    description:
+      "Get the call hierarchy of a function or method using LSP. Shows a recursive tree of callers (incoming) and/or callees (outgoing) with file locations.",
+    schema,
+    language: "lsp",
+    handler: (request) => getCallHierarchy(request, client),
+    formatSuccess: formatCallHierarchy,
+  });
+}
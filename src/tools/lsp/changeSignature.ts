@@ -0,0 +1,912 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { validateLineAndSymbol } from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { fileURLToPath } from "url";
+import type {
+  Location,
+  LocationLink,
+  McpToolDef,
+  Position,
+} from "@internal/types";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+  type FileEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { readFileWithMetadata, withLSPDocument } from "./common.ts";
+import { writeFileEdits } from "./fileEdits.ts";
+
+const parameterSchema = z.object({
+  name: z
+    .string()
+    .describe("Name of an existing parameter to keep, or of a new parameter"),
+  declaration: z
+    .string()
+    .optional()
+    .describe(
+      "Declaration of the parameter, e.g. 'timeout: number = 1000'; defaults to the existing declaration, or to the name for a new parameter",
+    ),
+  defaultValue: z
+    .string()
+    .optional()
+    .describe(
+      "Argument inserted at every call site for a new parameter; required unless the declaration makes the parameter optional",
+    ),
+});
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe(
+      "File containing the function or one of its calls (relative to root)",
+    ),
+  line: z
+    .union([z.number(), z.string()])
+    .describe("Line number (1-based) or string to match in the line"),
+  symbolName: z.string().describe("Name of the function or method"),
+  parameters: z
+    .array(parameterSchema)
+    .describe(
+      "The complete new parameter list in order. Existing parameters are referenced by name; the ones left out are removed along with their arguments.",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the change without writing any file"),
+  reportDiagnostics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Report the errors and warnings the edit introduces or resolves in the changed files and the files depending on them (default: false)",
+    ),
+});
+
+type ChangeSignatureRequest = z.infer<typeof schema>;
+type NewParameter = ChangeSignatureRequest["parameters"][number];
+
+/**
+ * An item of a parenthesized list, trimmed, with its offsets in the content
+ */
+interface ListItem {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ParsedList {
+  /** Offset of the opening bracket */
+  open: number;
+  /** Offset of the closing bracket */
+  close: number;
+  items: ListItem[];
+  trailingComma: boolean;
+}
+
+const CLOSERS: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+  "<": ">",
+};
+
+function skipString(content: string, start: number): number {
+  const quote = content[start];
+  for (let i = start + 1; i < content.length; i++) {
+    if (content[i] === "\\") i++;
+    else if (content[i] === quote) return i;
+    else if (content[i] === "\n" && quote !== "`") return i;
+  }
+  return content.length;
+}
+
+/**
+ * Split the bracketed list opening at `open` on its top-level commas,
+ * skipping strings and comments. Angle brackets only nest when
+ * `trackAngles` is set, since in expressions they are comparisons.
+ */
+function parseList(
+  content: string,
+  open: number,
+  trackAngles: boolean,
+): ParsedList {
+  const closer = CLOSERS[content[open]];
+  const stack: string[] = [];
+  const items: ListItem[] = [];
+  let itemStart = open + 1;
+  let sawComma = false;
+
+  const pushItem = (end: number) => {
+    const raw = content.slice(itemStart, end);
+    const text = raw.trim();
+    const start = itemStart + raw.indexOf(text);
+    items.push({ start, end: start + text.length, text });
+  };
+
+  for (let i = open + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipString(content, i);
+    } else if (char === "/" && content[i + 1] === "/") {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end;
+    } else if (char === "/" && content[i + 1] === "*") {
+      const end = content.indexOf("*/", i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "=" && content[i + 1] === ">") {
+      i++;
+    } else if ("([{".includes(char) || (trackAngles && char === "<")) {
+      stack.push(CLOSERS[char]);
+    } else if (stack.length > 0) {
+      if (char === stack.at(-1)) stack.pop();
+    } else if (char === closer) {
+      pushItem(i);
+      const last = items.at(-1)!;
+      // A trailing comma or an empty list leaves an empty last item
+      const trailingComma = last.text === "" && sawComma;
+      if (last.text === "" && (trailingComma || items.length === 1)) {
+        items.pop();
+      }
+      return { open, close: i, items, trailingComma };
+    } else if (char === ",") {
+      pushItem(i);
+      itemStart = i + 1;
+      sawComma = true;
+    }
+  }
+  throw new Error(`Unterminated "${content[open]}" at offset ${open}`);
+}
+
+/**
+ * Name a parameter declaration binds, undefined for destructuring patterns
+ */
+function parameterName(declaration: string): string | undefined {
+  return declaration.match(
+    /^(?:@[\w$.]+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|readonly|override)\s+)*(?:\.\.\.|\*{1,2}|&(?:mut\s+)?)?\s*([A-Za-z_$][\w$]*)/,
+  )?.[1];
+}
+
+function isRestParameter(declaration: string): boolean {
+  return /^(?:\.\.\.|\*)/.test(declaration.replace(/^(?:[a-z]+\s+)*/, ""));
+}
+
+/**
+ * Whether call sites may leave the parameter out: rest parameters and the
+ * ones marked optional or given a default value
+ */
+function isOptionalParameter(declaration: string): boolean {
+  return (
+    isRestParameter(declaration) ||
+    /^[\w$]+\s*\?/.test(declaration) ||
+    /(?<![=!<>])=(?![=>])/.test(declaration)
+  );
+}
+
+/**
+ * Arguments whose removal or reordering cannot affect a side effect
+ */
+function isSideEffectFree(argument: string): boolean {
+  return (
+    /^(?:[A-Za-z_$][\w$]*(?:\??\.[A-Za-z_$][\w$]*)*|-?\d[\w.]*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`[^`$]*`)$/.test(
+      argument,
+    ) || /^(?:async\s+)?(?:\([^()]*\)|[A-Za-z_$][\w$]*)\s*=>/.test(argument)
+  );
+}
+
+function skipWhitespace(content: string, offset: number): number {
+  while (offset < content.length && /\s/.test(content[offset])) offset++;
+  return offset;
+}
+
+/**
+ * Skip type arguments such as `<T, U>` when they follow the offset
+ */
+function skipTypeArguments(content: string, offset: number): number {
+  const start = skipWhitespace(content, offset);
+  if (content[start] !== "<") return offset;
+  try {
+    return parseList(content, start, true).close + 1;
+  } catch {
+    return offset;
+  }
+}
+
+/**
+ * Parameter list of the declaration whose name ends at `nameEnd`, for
+ * function and method declarations as well as functions assigned to a name
+ */
+function findParameterList(content: string, nameEnd: number): ParsedList {
+  let offset = skipWhitespace(content, skipTypeArguments(content, nameEnd));
+  if (content[offset] !== "(") {
+    const assigned = content
+      .slice(offset)
+      .match(
+        /^[?!]?\s*(?::\s*|=\s*)(?:async\s+)?(?:function\b\s*\*?\s*(?:[A-Za-z_$][\w$]*)?\s*)?/,
+      );
+    if (assigned) {
+      offset = skipWhitespace(
+        content,
+        skipTypeArguments(content, offset + assigned[0].length),
+      );
+    }
+  }
+  if (content[offset] !== "(") {
+    throw new Error("Could not find the parameter list of the declaration");
+  }
+  return parseList(content, offset, true);
+}
+
+function lineStartOf(content: string, offset: number): number {
+  return content.lastIndexOf("\n", offset - 1) + 1;
+}
+
+/**
+ * Render list items in place of the old ones, keeping one item per line
+ * when the list was laid out that way
+ */
+function formatList(content: string, list: ParsedList, texts: string[]) {
+  const first = list.items[0];
+  const opensLine =
+    first !== undefined &&
+    content.slice(list.open + 1, first.start).includes("\n");
+  if (!opensLine || texts.length === 0) {
+    return texts.join(", ");
+  }
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const indent = content.slice(lineStartOf(content, first.start), first.start);
+  const closeIndent = content.slice(
+    lineStartOf(content, list.close),
+    list.close,
+  );
+  const closesLine = closeIndent.trim() === "";
+  return [
+    eol,
+    indent,
+    texts.join(`,${eol}${indent}`),
+    list.trailingComma ? "," : "",
+    closesLine ? `${eol}${closeIndent}` : "",
+  ].join("");
+}
+
+interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * Content between two offsets with the edits inside it applied, so nested
+ * calls keep their own rewrite
+ */
+function sliceWithEdits(
+  content: string,
+  start: number,
+  end: number,
+  edits: OffsetEdit[],
+): string {
+  const inside = edits.filter((edit) => edit.start >= start && edit.end <= end);
+  const outermost = inside
+    .filter(
+      (edit) =>
+        !inside.some(
+          (other) =>
+            other !== edit &&
+            other.start <= edit.start &&
+            other.end >= edit.end &&
+            other.end - other.start > edit.end - edit.start,
+        ),
+    )
+    .sort((a, b) => b.start - a.start);
+  let text = content.slice(start, end);
+  for (const edit of outermost) {
+    text =
+      text.slice(0, edit.start - start) +
+      edit.newText +
+      text.slice(edit.end - start);
+  }
+  return text;
+}
+
+interface Signature {
+  list: ParsedList;
+  /** A leading `this` or `self` parameter that is not passed as argument */
+  receiver?: ListItem;
+  parameters: { item: ListItem; name: string; rest: boolean }[];
+}
+
+function readSignature(content: string, nameEnd: number): Signature {
+  const list = findParameterList(content, nameEnd);
+  const items = [...list.items];
+  const receiver = /^(?:&(?:mut\s+)?)?(?:this|self)\b/.test(
+    items[0]?.text ?? "",
+  )
+    ? items.shift()
+    : undefined;
+  const parameters = items.map((item, index) => {
+    const name = parameterName(item.text);
+    if (!name) {
+      throw new Error(
+        `Parameter ${index + 1} (${item.text}) is a destructuring pattern; give it a name before changing the signature`,
+      );
+    }
+    const rest = isRestParameter(item.text);
+    if (rest && index !== items.length - 1) {
+      throw new Error(`Rest parameter ${name} is not the last parameter`);
+    }
+    return { item, name, rest };
+  });
+  return { list, receiver, parameters };
+}
+
+/**
+ * Check the requested parameter list against the current one
+ */
+function validateParameters(
+  signature: Signature,
+  parameters: NewParameter[],
+): void {
+  const seen = new Set<string>();
+  parameters.forEach((parameter, index) => {
+    if (seen.has(parameter.name)) {
+      throw new Error(`Parameter ${parameter.name} is listed twice`);
+    }
+    seen.add(parameter.name);
+    const existing = signature.parameters.find(
+      (candidate) => candidate.name === parameter.name,
+    );
+    const declaration =
+      parameter.declaration ?? existing?.item.text ?? parameter.name;
+    if (isRestParameter(declaration) && index !== parameters.length - 1) {
+      throw new Error(
+        `Rest parameter ${parameter.name} must be the last parameter`,
+      );
+    }
+    if (
+      !existing &&
+      parameter.defaultValue === undefined &&
+      !isOptionalParameter(declaration)
+    ) {
+      throw new Error(
+        `New parameter ${parameter.name} needs a defaultValue to pass at the call sites`,
+      );
+    }
+  });
+}
+
+/** Marks an argument the call leaves out */
+const OMITTED = Symbol("omitted");
+
+/**
+ * New arguments of a call, as indexes of the arguments it passes and texts
+ * of inserted ones, or the reason it cannot be rewritten safely
+ */
+function rewriteArguments(
+  signature: Signature,
+  parameters: NewParameter[],
+  args: string[],
+): (number | string)[] | { reason: string } {
+  const spread = args.find((arg) => arg.startsWith("..."));
+  if (spread) {
+    return { reason: `spread argument ${spread}` };
+  }
+  if (args.some((arg) => arg === "")) {
+    return { reason: "empty argument" };
+  }
+  const named = args.find((arg) => /^[A-Za-z_$][\w$]*\s*=(?![=>])/.test(arg));
+  if (named) {
+    return { reason: `named or assigning argument ${named}` };
+  }
+  const restIndex = signature.parameters.findIndex(
+    (parameter) => parameter.rest,
+  );
+  if (restIndex === -1 && args.length > signature.parameters.length) {
+    return {
+      reason: `${args.length} arguments for ${signature.parameters.length} parameter(s)`,
+    };
+  }
+
+  const argumentsOf = (index: number) =>
+    args
+      .map((_, argIndex) => argIndex)
+      .slice(index, index === restIndex ? undefined : index + 1);
+  const kept = new Set<number>();
+  const result: (number | string | typeof OMITTED)[] = [];
+  for (const parameter of parameters) {
+    const index = signature.parameters.findIndex(
+      (candidate) => candidate.name === parameter.name,
+    );
+    if (index === -1) {
+      result.push(parameter.defaultValue ?? OMITTED);
+      continue;
+    }
+    kept.add(index);
+    const passed = argumentsOf(index);
+    if (passed.length > 0) result.push(...passed);
+    else if (index !== restIndex) result.push(OMITTED);
+  }
+
+  const dropped = signature.parameters
+    .map((_, index) => index)
+    .filter((index) => !kept.has(index))
+    .flatMap(argumentsOf)
+    .map((argIndex) => args[argIndex]);
+  const unsafe = dropped.find((arg) => !isSideEffectFree(arg));
+  if (unsafe) {
+    return {
+      reason: `removing argument ${unsafe} could drop its side effects`,
+    };
+  }
+  // Arguments passed before or after another than they were change the
+  // order their side effects run in
+  const order = result.filter((arg) => typeof arg === "number");
+  const moved = order.filter((argIndex, position) =>
+    order.some((other, otherPosition) =>
+      otherPosition < position ? other > argIndex : other < argIndex,
+    ),
+  );
+  const reordered = moved
+    .sort((a, b) => a - b)
+    .map((argIndex) => args[argIndex])
+    .find((arg) => !isSideEffectFree(arg));
+  if (reordered) {
+    return {
+      reason: `reordering argument ${reordered} could change the order of its side effects`,
+    };
+  }
+
+  while (result.at(-1) === OMITTED) result.pop();
+  return result.map((arg) => (arg === OMITTED ? "undefined" : arg));
+}
+
+/**
+ * Find the call a reference is the callee of, or say why it is not a
+ * plain call
+ */
+function findCall(
+  content: string,
+  nameEnd: number,
+): ParsedList | { reason: string } {
+  let offset = skipTypeArguments(content, nameEnd);
+  offset = skipWhitespace(content, offset);
+  if (content.startsWith("?.", offset)) {
+    offset = skipWhitespace(content, offset + 2);
+  }
+  if (content[offset] !== "(") {
+    const next = content.slice(offset).match(/^\.?[\w$]*/)![0];
+    return {
+      reason:
+        next === ".call" || next === ".apply" || next === ".bind"
+          ? `dynamic call through ${next}`
+          : "used without being called",
+    };
+  }
+  try {
+    return parseList(content, offset, false);
+  } catch (error) {
+    return { reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * References that are not uses, such as import and export specifiers
+ */
+function isImportOrExport(content: string, nameStart: number): boolean {
+  const before = content.slice(Math.max(0, nameStart - 2000), nameStart);
+  const line = content.slice(lineStartOf(content, nameStart), nameStart);
+  return (
+    /\b(?:import|export)\s*(?:type\s+)?(?:[\w$]+\s*,\s*)?\{[^}]*$/.test(
+      before,
+    ) || /^\s*(?:import\b[^;(]*|export\s+(?:default|=)\s*)$/.test(line)
+  );
+}
+
+/**
+ * Other declarations of the symbol, such as overloads, interface members
+ * and overriding methods
+ */
+function isDeclaration(
+  content: string,
+  nameStart: number,
+  call: ParsedList,
+): boolean {
+  const line = content.slice(lineStartOf(content, nameStart), nameStart);
+  if (/\b(?:function|def|fn|func)\s*\*?\s*$/.test(line)) return true;
+  const after = content.slice(call.close + 1).match(/^\s*(\S{1,2})/)?.[1];
+  return (
+    /^\s*(?:(?:public|private|protected|static|async|override|abstract|readonly|declare|get|set)\s+)*\*?$/.test(
+      line,
+    ) &&
+    after !== undefined &&
+    (after[0] === "{" || (after[0] === ":" && after !== "::"))
+  );
+}
+
+function offsetAt(content: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = content.indexOf("\n", offset);
+    if (next === -1) return content.length;
+    offset = next + 1;
+  }
+  return offset + position.character;
+}
+
+function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length;
+}
+
+function toLocation(location: Location | LocationLink): Location {
+  return "targetUri" in location
+    ? { uri: location.targetUri, range: location.targetSelectionRange }
+    : location;
+}
+
+interface FileChange {
+  content: string;
+  /** Argument and parameter lists to rewrite */
+  lists: { list: ParsedList; texts: (edits: OffsetEdit[]) => string[] }[];
+}
+
+interface SignatureChange {
+  previews: FileEditPreview[];
+  oldSignature: string;
+  newSignature: string;
+  updated: string[];
+  skipped: string[];
+}
+
+async function planSignatureChange(
+  request: ChangeSignatureRequest,
+  client: LSPClient,
+): Promise<SignatureChange> {
+  const { root, relativePath, line, symbolName, parameters } = request;
+  const { fileContent, fileUri } = readFileWithMetadata(root, relativePath);
+  const { lineIndex, symbolIndex } = validateLineAndSymbol(
+    fileContent,
+    line,
+    symbolName,
+    relativePath,
+  );
+
+  const definitions = await withLSPDocument(client, fileUri, fileContent, () =>
+    client.getDefinition(fileUri, {
+      line: lineIndex,
+      character: symbolIndex,
+    }),
+  );
+  const definition = [definitions ?? []].flat().map(toLocation)[0];
+  if (!definition) {
+    throw new Error(`No definition found for ${symbolName}`);
+  }
+  const definitionPath = fileURLToPath(definition.uri);
+  const definitionRelative = path.relative(root, definitionPath);
+  if (
+    definitionRelative.startsWith("..") ||
+    path.isAbsolute(definitionRelative)
+  ) {
+    throw new Error(
+      `${symbolName} is declared outside the project in ${definitionPath}`,
+    );
+  }
+  const definitionContent = await fs.readFile(definitionPath, "utf-8");
+  let nameStart = offsetAt(definitionContent, definition.range.start);
+  if (!definitionContent.startsWith(symbolName, nameStart)) {
+    const found = definitionContent.indexOf(symbolName, nameStart);
+    if (found === -1) {
+      throw new Error(`Could not find ${symbolName} at its definition`);
+    }
+    nameStart = found;
+  }
+  const signature = readSignature(
+    definitionContent,
+    nameStart + symbolName.length,
+  );
+  validateParameters(signature, parameters);
+
+  const references = await withLSPDocument(
+    client,
+    definition.uri,
+    definitionContent,
+    () =>
+      client.findReferences(definition.uri, {
+        line: lineOf(definitionContent, nameStart) - 1,
+        character: nameStart - lineStartOf(definitionContent, nameStart),
+      }),
+  );
+
+  const files = new Map<string, FileChange>();
+  const fileChange = async (filePath: string) => {
+    let change = files.get(filePath);
+    if (!change) {
+      change = { content: await fs.readFile(filePath, "utf-8"), lists: [] };
+      files.set(filePath, change);
+    }
+    return change;
+  };
+
+  // The declaration keeps the text of the parameters it still has
+  const declarationTexts = (edits: OffsetEdit[]) => [
+    ...(signature.receiver
+      ? [
+          sliceWithEdits(
+            definitionContent,
+            signature.receiver.start,
+            signature.receiver.end,
+            edits,
+          ),
+        ]
+      : []),
+    ...parameters.map((parameter) => {
+      const existing = signature.parameters.find(
+        (candidate) => candidate.name === parameter.name,
+      );
+      if (parameter.declaration !== undefined || !existing) {
+        return parameter.declaration ?? parameter.name;
+      }
+      return sliceWithEdits(
+        definitionContent,
+        existing.item.start,
+        existing.item.end,
+        edits,
+      );
+    }),
+  ];
+  (await fileChange(definitionPath)).lists.push({
+    list: signature.list,
+    texts: declarationTexts,
+  });
+
+  const updated: string[] = [];
+  const skipped: string[] = [];
+  const sorted = [...references].sort(
+    (a, b) =>
+      a.uri.localeCompare(b.uri) ||
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character,
+  );
+  for (const reference of sorted) {
+    const filePath = fileURLToPath(reference.uri);
+    const { content, lists } = await fileChange(filePath);
+    const start = offsetAt(content, reference.range.start);
+    if (filePath === definitionPath && start === nameStart) continue;
+    if (isImportOrExport(content, start)) continue;
+
+    const where = `${path.relative(root, filePath).replace(/\\/g, "/")}:${lineOf(content, start)}`;
+    const call = findCall(content, offsetAt(content, reference.range.end));
+    if ("reason" in call) {
+      skipped.push(`${where}: ${call.reason}`);
+      continue;
+    }
+    if (isDeclaration(content, start, call)) {
+      skipped.push(
+        `${where}: another declaration, such as an overload or override`,
+      );
+      continue;
+    }
+    const rewritten = rewriteArguments(
+      signature,
+      parameters,
+      call.items.map((item) => item.text),
+    );
+    if ("reason" in rewritten) {
+      skipped.push(`${where}: ${rewritten.reason}`);
+      continue;
+    }
+    // Passed arguments are taken from the content, so nested calls are
+    // rewritten inside them
+    lists.push({
+      list: call,
+      texts: (edits) =>
+        rewritten.map((arg) => {
+          if (typeof arg === "string") return arg;
+          const item = call.items[arg];
+          return sliceWithEdits(content, item.start, item.end, edits);
+        }),
+    });
+    updated.push(where);
+  }
+
+  const previews: FileEditPreview[] = [];
+  for (const [filePath, { content, lists }] of files) {
+    const edits: OffsetEdit[] = [];
+    // Inner lists first, so outer ones include their rewrite
+    for (const { list, texts } of [...lists].sort(
+      (a, b) => a.list.close - a.list.open - (b.list.close - b.list.open),
+    )) {
+      edits.push({
+        start: list.open + 1,
+        end: list.close,
+        newText: formatList(content, list, texts(edits)),
+      });
+    }
+    const after = sliceWithEdits(content, 0, content.length, edits);
+    if (after !== content) {
+      previews.push({ filePath, before: content, after });
+    }
+  }
+
+  const signatureText = (texts: string[]) =>
+    `${symbolName}(${texts.join(", ")})`;
+  return {
+    previews,
+    oldSignature: signatureText(signature.list.items.map((item) => item.text)),
+    newSignature: signatureText(declarationTexts([])),
+    updated,
+    skipped,
+  };
+}
+
+async function handleChangeSignature(
+  request: ChangeSignatureRequest,
+  client: LSPClient,
+): Promise<string> {
+  const { root, relativePath, symbolName, dryRun, reportDiagnostics } = request;
+  const change = await planSignatureChange(request, client);
+  const output = [
+    `${dryRun ? "Would change" : "Changed"} ${change.oldSignature} to ${change.newSignature}`,
+  ];
+  if (change.updated.length > 0) {
+    output.push(
+      "",
+      `${dryRun ? "Would update" : "Updated"} ${change.updated.length} call site(s):`,
+      ...change.updated.map((where) => `  ${where}`),
+    );
+  }
+  if (change.skipped.length > 0) {
+    output.push(
+      "",
+      `Not updated, change these by hand (${change.skipped.length}):`,
+      ...change.skipped.map((where) => `  ${where}`),
+    );
+  }
+
+  if (dryRun) {
+    output.push(
+      "",
+      summarizeEditPreview(change.previews, root),
+      "",
+      formatEditPreview(change.previews, root).trimEnd(),
+    );
+    return output.join("\n");
+  }
+
+  const diagnostics = await writeFileEdits(
+    root,
+    `change_signature ${symbolName} in ${relativePath}`,
+    change.previews,
+    client,
+    reportDiagnostics,
+  );
+  if (diagnostics) {
+    output.push("", diagnostics);
+  }
+  return output.join("\n");
+}
+
+/**
+ * Create the change signature tool with injected LSP client
+ */
+export function createChangeSignatureTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return {
+    name: "change_signature",
+    description:
+      "Add, remove or reorder the parameters of a function or method and update its call sites. " +
+      "The declaration is found with the definition lookup and the calls with find references. " +
+      "Inserted parameters get their defaultValue as argument; calls that cannot be rewritten safely, such as ones with spread arguments or dynamic calls through call/apply, are listed instead of changed.",
+    schema,
+    execute: async (args) => {
+      return handleChangeSignature(args, client);
+    },
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("parseList", () => {
+    it("should split on top-level commas only", () => {
+      const content = `f(a, g(b, c), "x, y", { d: 1, e }, // z, w\n  h,)`;
+      const list = parseList(content, 1, false);
+
+      expect(list.items.map((item) => item.text)).toEqual([
+        "a",
+        "g(b, c)",
+        '"x, y"',
+        "{ d: 1, e }",
+        "// z, w\n  h",
+      ]);
+      expect(list.trailingComma).toBe(true);
+      expect(list.close).toBe(content.length - 1);
+    });
+
+    it("should nest type arguments in declarations", () => {
+      const content = "(a: Map<string, number>, cb: (x: T) => void)";
+      const list = parseList(content, 0, true);
+
+      expect(list.items.map((item) => item.text)).toEqual([
+        "a: Map<string, number>",
+        "cb: (x: T) => void",
+      ]);
+    });
+
+    it("should return no items for an empty list", () => {
+      expect(parseList("()", 0, false).items).toEqual([]);
+    });
+  });
+
+  describe("parameterName", () => {
+    it("should skip modifiers and rest markers", () => {
+      expect(parameterName("private readonly name: string")).toBe("name");
+      expect(parameterName("...rest: number[]")).toBe("rest");
+      expect(parameterName("count = 1")).toBe("count");
+      expect(parameterName("{ a, b }: Options")).toBeUndefined();
+    });
+  });
+
+  describe("rewriteArguments", () => {
+    const content = "function f(a: number, b?: string, c = 1) {}";
+    const signature = readSignature(content, content.indexOf("f(") + 1);
+    const rewrite = (parameters: NewParameter[], args: string[]) => {
+      const result = rewriteArguments(signature, parameters, args);
+      return "reason" in result
+        ? result
+        : result.map((arg) => (typeof arg === "number" ? args[arg] : arg));
+    };
+
+    it("should reorder, drop and insert arguments", () => {
+      expect(
+        rewrite(
+          [{ name: "b" }, { name: "a" }, { name: "d", defaultValue: "true" }],
+          ["1", "'x'", "2"],
+        ),
+      ).toEqual(["'x'", "1", "true"]);
+    });
+
+    it("should pass undefined for left out arguments before passed ones", () => {
+      expect(
+        rewrite([{ name: "a" }, { name: "b" }, { name: "c" }], ["1"]),
+      ).toEqual(["1"]);
+      expect(rewrite([{ name: "b" }, { name: "a" }], ["1"])).toEqual([
+        "undefined",
+        "1",
+      ]);
+    });
+
+    it("should refuse calls it cannot map safely", () => {
+      expect(rewrite([{ name: "a" }], ["...args"])).toEqual({
+        reason: "spread argument ...args",
+      });
+      expect(rewrite([{ name: "a" }], ["1", "next()"])).toEqual({
+        reason: "removing argument next() could drop its side effects",
+      });
+      expect(rewrite([{ name: "b" }, { name: "a" }], ["a()", "b()"])).toEqual({
+        reason:
+          "reordering argument a() could change the order of its side effects",
+      });
+    });
+
+    it("should keep calls in place when other arguments move", () => {
+      expect(
+        rewrite(
+          [{ name: "a" }, { name: "c" }, { name: "b" }],
+          ["next()", "'x'", "2"],
+        ),
+      ).toEqual(["next()", "2", "'x'"]);
+    });
+  });
+
+  describe("formatList", () => {
+    it("should keep one argument per line", () => {
+      const content = "f(\n  a,\n  b,\n)";
+      const list = parseList(content, 1, false);
+
+      expect(formatList(content, list, ["b", "a", "c"])).toBe(
+        "\n  b,\n  a,\n  c,\n",
+      );
+    });
+  });
+}
@@ -0,0 +1,216 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { pathToFileURL } from "url";
+import type { FormattingOptions, McpToolDef } from "@internal/types";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  type FileEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { getProjectFiles } from "./allDiagnostics.ts";
+import { withLSPDocument } from "./common.ts";
+
+const schema = z.object({
+  root: z.string().describe("Root directory for the project"),
+  pattern: z
+    .string()
+    .describe("Glob pattern for files to check (e.g., 'src/**/*.ts')"),
+  exclude: z
+    .string()
+    .optional()
+    .describe("Glob pattern for files to exclude (e.g., '**/*.test.ts')"),
+  useGitignore: z
+    .boolean()
+    .optional()
+    .describe("Whether to respect .gitignore files (default: true)"),
+  tabSize: z
+    .number()
+    .optional()
+    .describe("Number of spaces for indentation (default: 2)"),
+  insertSpaces: z
+    .boolean()
+    .optional()
+    .describe("Use spaces instead of tabs (default: true)"),
+});
+
+export interface FormattingCheck {
+  /** Number of files checked */
+  checked: number;
+  /** Files the formatter would change, with their formatted content */
+  unformatted: FileEditPreview[];
+  /** Files the server could not format */
+  failed: { file: string; error: string }[];
+}
+
+/**
+ * Options matching lsp_format_document's defaults, so a check agrees with
+ * what formatting through the agent produces
+ */
+export function formattingCheckOptions(
+  tabSize = 2,
+  insertSpaces = true,
+): FormattingOptions {
+  return {
+    tabSize,
+    insertSpaces,
+    trimTrailingWhitespace: true,
+    insertFinalNewline: true,
+    trimFinalNewlines: true,
+  };
+}
+
+/**
+ * Format files in memory and collect the ones whose content would change.
+ * Nothing is written.
+ */
+export async function checkFormatting(
+  client: LSPClient,
+  root: string,
+  files: string[],
+  options: FormattingOptions,
+): Promise<FormattingCheck> {
+  const check: FormattingCheck = { checked: 0, unformatted: [], failed: [] };
+  for (const file of files) {
+    const absolutePath = path.resolve(root, file);
+    const fileUri = pathToFileURL(absolutePath).toString();
+    try {
+      const content = await fs.readFile(absolutePath, "utf-8");
+      const edits = await withLSPDocument(client, fileUri, content, () =>
+        client.formatDocument(fileUri, options),
+      );
+      const formatted = applyTextEdits(content, edits);
+      if (formatted !== content) {
+        check.unformatted.push({
+          filePath: absolutePath,
+          before: content,
+          after: formatted,
+        });
+      }
+      check.checked++;
+    } catch (error) {
+      check.failed.push({
+        file: file.replace(/\\/g, "/"),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return check;
+}
+
+/**
+ * List the unformatted files followed by a diff with one line of context
+ * per file
+ */
+export function describeFormattingCheck(
+  check: FormattingCheck,
+  root: string,
+): string {
+  const lines: string[] = [];
+  if (check.unformatted.length === 0) {
+    lines.push(`All ${check.checked} checked file(s) are formatted`);
+  } else {
+    lines.push(
+      `${check.unformatted.length} of ${check.checked} checked file(s) would be reformatted:`,
+      ...check.unformatted.map(
+        (preview) =>
+          `  ${path.relative(root, preview.filePath).replace(/\\/g, "/")}`,
+      ),
+    );
+  }
+  if (check.failed.length > 0) {
+    lines.push(
+      "",
+      `Could not format ${check.failed.length} file(s):`,
+      ...check.failed.map(({ file, error }) => `  ${file}: ${error}`),
+    );
+  }
+  if (check.unformatted.length > 0) {
+    lines.push("", formatEditPreview(check.unformatted, root, 1).trimEnd());
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Create the formatting check tool with injected LSP client
+ */
+export function createCheckFormattingTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return {
+    name: "lsp_check_formatting",
+    description:
+      "Check whether files matching a glob are formatted according to the language server, without writing anything. Lists the files that formatting would change, each with a compact unified diff.",
+    schema,
+    execute: async ({
+      root,
+      pattern,
+      exclude,
+      useGitignore,
+      tabSize,
+      insertSpaces,
+    }) => {
+      const files = (
+        await getProjectFiles(root, pattern, exclude, useGitignore ?? true)
+      ).sort();
+      const check = await checkFormatting(
+        client,
+        root,
+        files,
+        formattingCheckOptions(tabSize, insertSpaces),
+      );
+      return describeFormattingCheck(check, root);
+    },
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("describeFormattingCheck", () => {
+    it("should list unformatted and failed files with compact diffs", () => {
+      const report = describeFormattingCheck(
+        {
+          checked: 2,
+          unformatted: [
+            {
+              filePath: "/project/src/a.ts",
+              before: "1\n2\n3\nx=1\n5\n6\n",
+              after: "1\n2\n3\nx = 1\n5\n6\n",
+            },
+          ],
+          failed: [{ file: "src/c.ts", error: "timeout" }],
+        },
+        "/project",
+      );
+
+      expect(report).toBe(
+        [
+          "1 of 2 checked file(s) would be reformatted:",
+          "  src/a.ts",
+          "",
+          "Could not format 1 file(s):",
+          "  src/c.ts: timeout",
+          "",
+          "--- a/src/a.ts",
+          "+++ b/src/a.ts",
+          "@@ -3,3 +3,3 @@",
+          " 3",
+          "-x=1",
+          "+x = 1",
+          " 5",
+        ].join("\n"),
+      );
+    });
+
+    it("should say when everything is formatted", () => {
+      expect(
+        describeFormattingCheck(
+          { checked: 3, unformatted: [], failed: [] },
+          "/project",
+        ),
+      ).toBe("All 3 checked file(s) are formatted");
+    });
+  });
+}
@@ -47,14 +47,14 @@ function getCodeActionKindName(kind?: string | CodeActionKind): string {
   return kind;
 }
 
-function isCommand(action: Command | CodeAction): action is Command {
+export function isCommand(action: Command | CodeAction): action is Command {
   return "command" in action && typeof action.command === "string";
 }
 
-function formatCodeAction(action: Command | CodeAction): string {
+function formatCodeAction(action: Command | CodeAction, index: number): string {
   if (isCommand(action)) {
     // Format as command
-    let result = `Command: ${action.title}`;
+    let result = `${index}. Command: ${action.title}`;
     if (action.command) {
       result += ` (${action.command})`;
     }
@@ -62,7 +62,7 @@ function formatCodeAction(action: Command | CodeAction): string {
   } else {
     // Format as code action
     const kind = getCodeActionKindName(action.kind);
-    let result = `${action.title} [${kind}]`;
+    let result = `${index}. ${action.title} [${kind}]`;
 
     if (action.isPreferred) {
       result += " ★"; // Preferred action
@@ -86,12 +86,70 @@ function formatCodeAction(action: Command | CodeAction): string {
         const fileCount = Object.keys(changes).length;
         result += `\n  Edits ${fileCount} file(s)`;
       }
+    } else if (action.data !== undefined) {
+      result += `\n  Edits resolved when applied`;
     }
 
     return result;
   }
 }
 
+/**
+ * Request code actions for whole lines, passing the diagnostics on them as
+ * context. The document must already be open.
+ */
+export async function getLineRangeCodeActions(
+  client: LSPClient,
+  fileUri: string,
+  lines: string[],
+  startLineIndex: number,
+  endLineIndex: number,
+): Promise<(Command | CodeAction)[]> {
+  // Get diagnostics for the range (to provide context for code actions)
+  const diagnostics = client.getDiagnostics(fileUri);
+  const rangeDiagnostics = diagnostics.filter((d: any) => {
+    const line = d.range.start.line;
+    return line >= startLineIndex && line <= endLineIndex;
+  });
+
+  const range = {
+    start: { line: startLineIndex, character: 0 },
+    end: {
+      line: endLineIndex,
+      character: lines[endLineIndex]?.length ?? 0,
+    },
+  };
+
+  const actions = await client.getCodeActions(fileUri, range, {
+    diagnostics: rangeDiagnostics,
+  });
+
+  // Some servers (e.g. typescript-language-server) only offer quick fixes
+  // when asked for the exact range of a diagnostic
+  const seen = new Set(actions.map((action) => actionKey(action)));
+  const fixes: (Command | CodeAction)[] = [];
+  for (const diagnostic of rangeDiagnostics) {
+    const diagnosticActions = await client.getCodeActions(
+      fileUri,
+      diagnostic.range,
+      { diagnostics: [diagnostic] },
+    );
+    for (const action of diagnosticActions) {
+      const key = actionKey(action);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      fixes.push(action);
+    }
+  }
+  return [...fixes, ...actions];
+}
+
+function actionKey(action: Command | CodeAction): string {
+  return isCommand(action)
+    ? `${action.title}\0${action.command}`
+    : `${action.title}\0${action.kind ?? ""}`;
+}
+
 async function handleGetCodeActions(
   {
     root,
@@ -132,25 +190,13 @@ async function handleGetCodeActions(
 
   // Use common LSP document wrapper
   return await withLSPDocument(client, fileUri, content, async () => {
-    // Get diagnostics for the range (to provide context for code actions)
-    const diagnostics = client.getDiagnostics(fileUri);
-    const rangeDiagnostics = diagnostics.filter((d: any) => {
-      const line = d.range.start.line;
-      return line >= startLineIndex && line <= endLineIndex;
-    });
-
-    // Get code actions
-    const range = {
-      start: { line: startLineIndex, character: 0 },
-      end: {
-        line: endLineIndex,
-        character: content.split("\n")[endLineIndex]?.length ?? 0,
-      },
-    };
-
-    const actions = await client.getCodeActions(fileUri, range, {
-      diagnostics: rangeDiagnostics,
-    });
+    const actions = await getLineRangeCodeActions(
+      client,
+      fileUri,
+      lines,
+      startLineIndex,
+      endLineIndex,
+    );
 
     if (actions.length === 0) {
       return `No code actions available for ${relativePath}:${startLineIndex + 1}-${
@@ -188,6 +234,10 @@ async function handleGetCodeActions(
       grouped.get(kind)!.push(action);
     }
 
+    // Numbers follow the server's order so lsp_apply_code_action can use them
+    const numberOf = (action: Command | CodeAction) =>
+      actions.indexOf(action) + 1;
+
     // Format the code actions
     let result = `Code actions for ${relativePath}:${startLineIndex + 1}-${
       endLineIndex + 1
@@ -198,7 +248,7 @@ async function handleGetCodeActions(
       result += `=== ${kindName} ===\n`;
 
       for (const action of kindActions) {
-        result += formatCodeAction(action) + "\n\n";
+        result += formatCodeAction(action, numberOf(action)) + "\n\n";
       }
     }
 
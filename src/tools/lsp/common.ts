@@ -135,8 +135,9 @@ export async function withLSPDocument<T>(
   client.openDocument(fileUri, content);
 
   try {
-    // Wait a bit for LSP to process the document
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    // Wait for the server to process the document; the delay is only used
+    // for servers that report neither progress nor diagnostics
+    await client.waitForReady(fileUri, delay);
 
     // Execute the operation
     return await operation();
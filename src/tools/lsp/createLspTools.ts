@@ -8,17 +8,40 @@ import type { McpToolDef } from "@internal/types";
 // Import individual tool creators
 import { createHoverTool } from "./hover.ts";
 import { createReferencesTool } from "./references.ts";
-import { createDefinitionsTool } from "./definitions.ts";
+import {
+  createDeclarationsTool,
+  createDefinitionsTool,
+  createImplementationsTool,
+  createTypeDefinitionsTool,
+} from "./definitions.ts";
 import { createDiagnosticsTool } from "./diagnostics.ts";
 import { createRenameSymbolTool } from "./rename.ts";
 import { createDocumentSymbolsTool } from "./documentSymbols.ts";
 import { createCompletionTool } from "./completion.ts";
 import { createSignatureHelpTool } from "./signatureHelp.ts";
-import { createFormatDocumentTool } from "./formatting.ts";
+import {
+  createFormatDocumentTool,
+  createFormatRangeTool,
+} from "./formatting.ts";
 import { createWorkspaceSymbolsTool } from "./workspaceSymbols.ts";
 import { createCodeActionsTool } from "./codeActions.ts";
+import { createApplyCodeActionTool } from "./applyCodeAction.ts";
+import { createFixAllTool } from "./fixAll.ts";
+import { createCheckFormattingTool } from "./checkFormatting.ts";
+import { createExtractTool } from "./extract.ts";
+import { createChangeSignatureTool } from "./changeSignature.ts";
+import { createApplyEditsTool } from "./applyEdits.ts";
+import {
+  createInsertAfterSymbolTool,
+  createInsertBeforeSymbolTool,
+  createReplaceSymbolBodyTool,
+} from "./symbolEditTools.ts";
 import { createCheckCapabilitiesTool } from "./checkCapabilities.ts";
+import { createRestartServerTool } from "./restartServer.ts";
 import { createDeleteSymbolTool } from "./deleteSymbol.ts";
+import { createCallHierarchyTool } from "./callHierarchy.ts";
+import { createTypeHierarchyTool } from "./typeHierarchy.ts";
+import { createInlayHintsTool } from "./inlayHints.ts";
 
 /**
  * Create all LSP tools with an injected client
@@ -28,15 +51,32 @@ export function createLSPTools(client: LSPClient): McpToolDef<any>[] {
     createHoverTool(client),
     createReferencesTool(client),
     createDefinitionsTool(client),
+    createImplementationsTool(client),
+    createTypeDefinitionsTool(client),
+    createDeclarationsTool(client),
     createDiagnosticsTool(client),
     createRenameSymbolTool(client),
     createDocumentSymbolsTool(client),
     createCompletionTool(client),
     createSignatureHelpTool(client),
     createFormatDocumentTool(client),
+    createFormatRangeTool(client),
+    createCheckFormattingTool(client),
     createWorkspaceSymbolsTool(client),
     createCodeActionsTool(client),
+    createApplyCodeActionTool(client),
+    createFixAllTool(client),
+    createExtractTool(client),
+    createChangeSignatureTool(client),
+    createApplyEditsTool(client),
+    createReplaceSymbolBodyTool(client),
+    createInsertBeforeSymbolTool(client),
+    createInsertAfterSymbolTool(client),
     createCheckCapabilitiesTool(client),
+    createRestartServerTool(client),
     createDeleteSymbolTool(client),
+    createCallHierarchyTool(client),
+    createTypeHierarchyTool(client),
+    createInlayHintsTool(client),
   ];
 }
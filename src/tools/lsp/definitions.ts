@@ -30,7 +30,7 @@ const schema = z.object({
     .optional()
     .describe("Character position in the line (0-based)"),
   symbolName: commonSchemas.symbolName.describe(
-    "Name of the symbol to get definitions for",
+    "Name of the symbol to look up",
   ),
   before: commonSchemas.before.optional(),
   after: commonSchemas.after.optional(),
@@ -56,6 +56,39 @@ interface GetDefinitionsSuccess {
   definitions: Definition[];
 }
 
+/**
+ * A location-returning LSP request (definition, implementation, ...)
+ */
+interface LocationLookup {
+  /** Singular noun used in messages, e.g. "definition" */
+  label: string;
+  fetch: (
+    client: LSPClient,
+    uri: string,
+    position: { line: number; character: number },
+  ) => Promise<Location | Location[] | LocationLink[]>;
+}
+
+const definitionLookup: LocationLookup = {
+  label: "definition",
+  fetch: (client, uri, position) => client.getDefinition(uri, position),
+};
+
+const implementationLookup: LocationLookup = {
+  label: "implementation",
+  fetch: (client, uri, position) => client.getImplementation(uri, position),
+};
+
+const typeDefinitionLookup: LocationLookup = {
+  label: "type definition",
+  fetch: (client, uri, position) => client.getTypeDefinition(uri, position),
+};
+
+const declarationLookup: LocationLookup = {
+  label: "declaration",
+  fetch: (client, uri, position) => client.getDeclaration(uri, position),
+};
+
 // Import Location and LocationLink types from vscode-languageserver-types via lspTypes
 import type {
   Location,
@@ -115,11 +148,32 @@ function findSymbolAtPosition(
 }
 
 /**
- * Gets definitions for a TypeScript symbol using LSP
+ * Build a preview of the lines around a location
+ */
+function formatContextPreview(
+  lines: string[],
+  startLine: number,
+  before: number,
+  after: number,
+): string {
+  const previewLines: string[] = [];
+  for (
+    let i = Math.max(0, startLine - before);
+    i <= Math.min(lines.length - 1, startLine + after);
+    i++
+  ) {
+    previewLines.push(`${i + 1}: ${lines[i]}`);
+  }
+  return previewLines.join("\n");
+}
+
+/**
+ * Gets the locations (definitions, implementations, ...) for a symbol using LSP
  */
-async function getDefinitionsWithLSP(
+async function getLocationsWithLSP(
   request: GetDefinitionsRequest,
   client: LSPClient,
+  lookup: LocationLookup,
 ): Promise<Result<GetDefinitionsSuccess, string>> {
   try {
     if (!client) {
@@ -147,14 +201,13 @@ async function getDefinitionsWithLSP(
     // Give LSP server time to process the document
     await new Promise<void>((resolve) => setTimeout(resolve, 2000));
 
-    debug("[lspGetDefinitions] Getting definition for:", {
+    debug(`[lspGetDefinitions] Getting ${lookup.label} for:`, {
       fileUri,
       position: { line: targetLine, character: symbolPosition },
       symbolName: request.symbolName,
     });
 
-    // Get definition
-    const result = await client.getDefinition(fileUri, {
+    const result = await lookup.fetch(client, fileUri, {
       line: targetLine,
       character: symbolPosition,
     });
@@ -177,9 +230,9 @@ async function getDefinitionsWithLSP(
     const contextAfter = request.after || 2;
 
     if (locations.length === 0) {
-      debug("[lspGetDefinitions] No definitions found");
+      debug(`[lspGetDefinitions] No ${lookup.label}s found`);
       return ok({
-        message: `No definitions found for "${request.symbolName}"`,
+        message: `No ${lookup.label}s found for "${request.symbolName}"`,
         definitions: [],
       });
     }
@@ -289,39 +342,30 @@ async function getDefinitionsWithLSP(
             preview = bodyLines.join("\n");
           } else {
             // Fallback to context-based preview if symbol not found
-            const previewLines: string[] = [];
-            for (
-              let i = Math.max(0, startLine - contextBefore);
-              i <= Math.min(defLines.length - 1, startLine + contextAfter);
-              i++
-            ) {
-              previewLines.push(`${i + 1}: ${defLines[i]}`);
-            }
-            preview = previewLines.join("\n");
+            preview = formatContextPreview(
+              defLines,
+              startLine,
+              contextBefore,
+              contextAfter,
+            );
           }
         } catch (e) {
           // Fallback to context-based preview if document symbols fails
-          const previewLines: string[] = [];
-          for (
-            let i = Math.max(0, startLine - contextBefore);
-            i <= Math.min(defLines.length - 1, startLine + contextAfter);
-            i++
-          ) {
-            previewLines.push(`${i + 1}: ${defLines[i]}`);
-          }
-          preview = previewLines.join("\n");
+          preview = formatContextPreview(
+            defLines,
+            startLine,
+            contextBefore,
+            contextAfter,
+          );
         }
       } else {
         // Standard context-based preview
-        const previewLines: string[] = [];
-        for (
-          let i = Math.max(0, startLine - contextBefore);
-          i <= Math.min(defLines.length - 1, startLine + contextAfter);
-          i++
-        ) {
-          previewLines.push(`${i + 1}: ${defLines[i]}`);
-        }
-        preview = previewLines.join("\n");
+        preview = formatContextPreview(
+          defLines,
+          startLine,
+          contextBefore,
+          contextAfter,
+        );
       }
 
       definitions.push({
@@ -334,7 +378,7 @@ async function getDefinitionsWithLSP(
     }
 
     return ok({
-      message: `Found ${definitions.length} definition${
+      message: `Found ${definitions.length} ${lookup.label}${
         definitions.length === 1 ? "" : "s"
       } for "${request.symbolName}"`,
       definitions,
@@ -348,22 +392,21 @@ export async function getDefinitions(
   request: GetDefinitionsRequest,
   client: LSPClient,
 ): Promise<Result<GetDefinitionsSuccess, string>> {
-  return getDefinitionsWithLSP(request, client);
+  return getLocationsWithLSP(request, client, definitionLookup);
 }
 
-/**
- * Create definitions tool with injected LSP client
- */
-export function createDefinitionsTool(
+function createLocationTool(
   client: LSPClient,
+  name: string,
+  description: string,
+  lookup: LocationLookup,
 ): McpToolDef<typeof schema> {
   return {
-    name: "lsp_get_definitions",
-    description:
-      "Get the definition(s) of a symbol at a specific position using LSP. Requires exact line:column coordinates.",
+    name,
+    description,
     schema,
     execute: async (args: z.infer<typeof schema>) => {
-      const result = await getDefinitionsWithLSP(args, client);
+      const result = await getLocationsWithLSP(args, client, lookup);
       if (result.isOk()) {
         const messages = [result.value.message];
 
@@ -383,4 +426,58 @@ export function createDefinitionsTool(
   };
 }
 
-// Skip these tests - they require LSP server and should be run as integration tests
+/**
+ * Create definitions tool with injected LSP client
+ */
+export function createDefinitionsTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return createLocationTool(
+    client,
+    "lsp_get_definitions",
+    "Get the definition(s) of a symbol at a specific position using LSP. Requires exact line:column coordinates.",
+    definitionLookup,
+  );
+}
+
+/**
+ * Create implementations tool with injected LSP client
+ */
+export function createImplementationsTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return createLocationTool(
+    client,
+    "lsp_get_implementations",
+    "Get the concrete implementation(s) of an interface, abstract class or method using LSP. Use includeBody to see each implementation's source.",
+    implementationLookup,
+  );
+}
+
+/**
+ * Create type definitions tool with injected LSP client
+ */
+export function createTypeDefinitionsTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return createLocationTool(
+    client,
+    "lsp_get_type_definitions",
+    "Get the definition of the type of a symbol using LSP (e.g. jump from a variable to its class or interface). Use includeBody to see the type's source.",
+    typeDefinitionLookup,
+  );
+}
+
+/**
+ * Create declarations tool with injected LSP client
+ */
+export function createDeclarationsTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return createLocationTool(
+    client,
+    "lsp_get_declarations",
+    "Get the declaration(s) of a symbol using LSP. For languages that separate declarations from definitions (e.g. C/C++ headers).",
+    declarationLookup,
+  );
+}
@@ -12,6 +12,13 @@ import {
 } from "@internal/types";
 import type { McpToolDef } from "@internal/types";
 import { resolveLineParameter } from "@internal/lsp-client";
+import { planDeclarationDeletion } from "@internal/code-indexer";
+import {
+  formatEditPreview,
+  previewWorkspaceEdit,
+  summarizeEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { recordEdit } from "../../features/edits/editJournal.ts";
 
 const schemaShape = {
   root: z.string().describe("Root directory for resolving relative paths"),
@@ -27,6 +34,16 @@ const schemaShape = {
     .optional()
     .default(true)
     .describe("Also delete all references to the symbol"),
+  removeDeclaration: z
+    .boolean()
+    .optional()
+    .describe(
+      "Delete the whole declaration of the symbol on the line instead of its occurrences: the statement with its doc comment, or only the import binding, declarator or export list element when the statement declares other names. TypeScript and JavaScript only; removeReferences is ignored",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the deletion without writing any file"),
 };
 
 const schema = z.object(schemaShape);
@@ -36,6 +53,57 @@ interface DeleteSymbolResult {
   deletedFromFiles: Set<string>;
   totalDeleted: number;
   failureReason?: string;
+  /** Set for dry runs, which leave the files untouched */
+  preview?: { summary: string; diff: string };
+}
+
+/**
+ * Preview or apply the edit deleting a symbol and journal it
+ */
+async function applyDeletion(
+  root: string,
+  textTarget: string,
+  workspaceEdit: WorkspaceEdit,
+  totalDeleted: number,
+  dryRun: boolean | undefined,
+  client: LSPClient,
+): Promise<DeleteSymbolResult> {
+  const deletedFromFiles = new Set(Object.keys(workspaceEdit.changes ?? {}));
+  const previews = await previewWorkspaceEdit(workspaceEdit);
+  if (dryRun) {
+    return {
+      applied: false,
+      deletedFromFiles,
+      totalDeleted,
+      preview: {
+        summary: summarizeEditPreview(previews, root),
+        diff: formatEditPreview(previews, root),
+      },
+    };
+  }
+
+  // Apply the workspace edit
+  const result = await client.applyEdit(
+    workspaceEdit,
+    `Delete symbol "${textTarget}"`,
+  );
+
+  if (!result.applied) {
+    return {
+      applied: false,
+      deletedFromFiles: new Set(),
+      totalDeleted: 0,
+      failureReason: result.failureReason || "Failed to apply workspace edit",
+    };
+  }
+
+  await recordEdit(root, `lsp_delete_symbol ${textTarget}`, previews);
+
+  return {
+    applied: true,
+    deletedFromFiles,
+    totalDeleted,
+  };
 }
 
 async function handleDeleteSymbol(
@@ -45,6 +113,8 @@ async function handleDeleteSymbol(
     line,
     textTarget,
     removeReferences = true,
+    removeDeclaration,
+    dryRun,
   }: z.infer<typeof schema>,
   client: LSPClient,
 ): Promise<DeleteSymbolResult> {
@@ -90,6 +160,26 @@ async function handleDeleteSymbol(
       character: symbolIndex,
     };
 
+    if (removeDeclaration) {
+      const edits = planDeclarationDeletion(content, textTarget, resolvedLine);
+      if (edits.length === 0) {
+        return {
+          applied: false,
+          deletedFromFiles: new Set(),
+          totalDeleted: 0,
+          failureReason: `No declaration of "${textTarget}" found on line ${resolvedLine}`,
+        };
+      }
+      return await applyDeletion(
+        root,
+        textTarget,
+        { changes: { [fileUri]: edits } },
+        1,
+        dryRun,
+        client,
+      );
+    }
+
     // First, find all references if removeReferences is true
     locations = removeReferences
       ? await client.findReferences(fileUri, position)
@@ -174,26 +264,14 @@ async function handleDeleteSymbol(
       workspaceEdit.changes![uri] = edits;
     }
 
-    // Apply the workspace edit
-    const result = await client.applyEdit(
+    return await applyDeletion(
+      root,
+      textTarget,
       workspaceEdit,
-      `Delete symbol "${textTarget}"`,
+      locations.length,
+      dryRun,
+      client,
     );
-
-    if (!result.applied) {
-      return {
-        applied: false,
-        deletedFromFiles: new Set(),
-        totalDeleted: 0,
-        failureReason: result.failureReason || "Failed to apply workspace edit",
-      };
-    }
-
-    return {
-      applied: true,
-      deletedFromFiles: new Set(fileChanges.keys()),
-      totalDeleted: locations.length,
-    };
   } finally {
     // Close all opened documents
     for (const uri of new Set([fileUri, ...locations.map((l) => l.uri)])) {
@@ -203,6 +281,10 @@ async function handleDeleteSymbol(
 }
 
 function formatDeleteSymbolResult(result: DeleteSymbolResult): string {
+  if (result.preview) {
+    return `Dry run: deleting the symbol would remove ${result.totalDeleted} occurrence(s)\n\n${result.preview.summary}\n\n${result.preview.diff}`;
+  }
+
   if (!result.applied) {
     return `Failed to delete symbol: ${result.failureReason}`;
   }
@@ -227,7 +309,7 @@ export function createDeleteSymbolTool(
   return {
     name: "lsp_delete_symbol",
     description:
-      "Delete a symbol and optionally all its references using LSP. Requires exact line:column position of the symbol.",
+      "Delete a symbol and optionally all its references using LSP. Requires exact line:column position of the symbol. Set removeDeclaration to delete the whole declaration instead, as the deletions of lsmcp_detect_dead_code do. Use dryRun to get a unified diff without changing files.",
     schema,
     execute: async (args) => {
       const result = await handleDeleteSymbol(args, client);
@@ -0,0 +1,411 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { pathToFileURL } from "url";
+import type {
+  CodeAction,
+  McpToolDef,
+  Range,
+  WorkspaceEdit,
+} from "@internal/types";
+import { isCommand } from "./codeActions.ts";
+import { withLSPDocument } from "./common.ts";
+import {
+  createServerEditRecorder,
+  performCodeAction,
+  type ServerEditRecorder,
+} from "./applyCodeAction.ts";
+import { handleRenameSymbol } from "./rename.ts";
+
+const rangeSchema = z.object({
+  startLine: z.number().int().describe("Start line number (1-based)"),
+  startCharacter: z
+    .number()
+    .int()
+    .describe("Start character position in the line (0-based)"),
+  endLine: z.number().int().describe("End line number (1-based)"),
+  endCharacter: z
+    .number()
+    .int()
+    .describe("End character position in the line (0-based, exclusive)"),
+});
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe("File containing the code to extract (relative to root)"),
+  kind: z
+    .string()
+    .describe(
+      "What to extract into, e.g. 'function', 'constant', 'variable', 'method' or 'type'. Matches the code action kind refactor.extract.<kind>, or the title of less specific refactor actions.",
+    ),
+  range: rangeSchema
+    .describe("Code to extract; give either range or startText")
+    .optional(),
+  startText: z
+    .string()
+    .describe(
+      "Text the code to extract starts with; its first occurrence is used. Without endText, exactly this text is extracted.",
+    )
+    .optional(),
+  endText: z
+    .string()
+    .describe(
+      "Text the code to extract ends with; its first occurrence from startText on is used",
+    )
+    .optional(),
+  newName: z
+    .string()
+    .describe(
+      "Name for the extracted code, replacing the placeholder the server generates",
+    )
+    .optional(),
+  title: z
+    .string()
+    .describe(
+      "Part of the action title choosing between several targets, e.g. 'module scope'; defaults to the first action the server offers",
+    )
+    .optional(),
+});
+
+type ExtractRequest = z.infer<typeof schema>;
+
+function positionAt(content: string, offset: number): Range["start"] {
+  const before = content.slice(0, offset).split("\n");
+  return { line: before.length - 1, character: before.at(-1)!.length };
+}
+
+/**
+ * Range of the code to extract, from a line-based range or text anchors
+ */
+function selectionRange(
+  content: string,
+  { range, startText, endText }: ExtractRequest,
+): Range {
+  if ((range === undefined) === (startText === undefined)) {
+    throw new Error("Give exactly one of range and startText");
+  }
+  if (range) {
+    const lines = content.split("\n");
+    const { startLine, startCharacter, endLine, endCharacter } = range;
+    if (startLine < 1 || endLine > lines.length || startLine > endLine) {
+      throw new Error(
+        `Lines ${startLine}-${endLine} are outside the file (1-${lines.length})`,
+      );
+    }
+    return {
+      start: { line: startLine - 1, character: startCharacter },
+      end: { line: endLine - 1, character: endCharacter },
+    };
+  }
+
+  const start = content.indexOf(startText!);
+  if (start === -1) {
+    throw new Error(`Text "${startText}" not found`);
+  }
+  let end = start + startText!.length;
+  if (endText !== undefined) {
+    const endStart = content.indexOf(endText, start);
+    if (endStart === -1) {
+      throw new Error(`Text "${endText}" not found after "${startText}"`);
+    }
+    end = Math.max(end, endStart + endText.length);
+  }
+  return { start: positionAt(content, start), end: positionAt(content, end) };
+}
+
+function matchesExtractKind(action: CodeAction, kind: string): boolean {
+  const expected = `refactor.extract.${kind}`;
+  if (action.kind === expected || action.kind?.startsWith(`${expected}.`)) {
+    return true;
+  }
+  // Other extractions may only be tagged refactor or refactor.extract
+  return (
+    (action.kind === "refactor" || action.kind === "refactor.extract") &&
+    action.title.toLowerCase().includes(kind.toLowerCase())
+  );
+}
+
+/**
+ * Text the edits insert into the document, one edit per line
+ */
+function insertedText(edits: WorkspaceEdit[], uri: string): string {
+  const texts: string[] = [];
+  for (const edit of edits) {
+    for (const textEdit of edit.changes?.[uri] ?? []) {
+      texts.push(textEdit.newText);
+    }
+    for (const change of edit.documentChanges ?? []) {
+      if ("textDocument" in change && change.textDocument.uri === uri) {
+        texts.push(...change.edits.map((textEdit) => textEdit.newText));
+      }
+    }
+  }
+  return texts.join("\n");
+}
+
+/**
+ * Name the extraction introduced: an identifier in the inserted text that did
+ * not exist before, preferring the ones used most, such as a declaration and
+ * its call
+ */
+function findPlaceholder(before: string, inserted: string): string | undefined {
+  const identifiers = (text: string) =>
+    text.match(/[A-Za-z_$][\w$]*/g) ?? ([] as string[]);
+  const existing = new Set(identifiers(before));
+  const counts = new Map<string, number>();
+  for (const identifier of identifiers(inserted)) {
+    if (existing.has(identifier)) continue;
+    counts.set(identifier, (counts.get(identifier) ?? 0) + 1);
+  }
+  // Map iteration keeps first occurrence order, which the stable sort keeps
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * 1-based line of the first whole-word occurrence of an identifier
+ */
+function findWordLine(content: string, identifier: string): number {
+  const word = new RegExp(
+    `(?<![\\w$])${identifier.replace(/\$/g, "\\$")}(?![\\w$])`,
+  );
+  return content.split("\n").findIndex((text) => word.test(text)) + 1;
+}
+
+async function runExtraction(
+  request: ExtractRequest,
+  client: LSPClient,
+  recordServerEdits: ServerEditRecorder,
+): Promise<{ title: string; changedFiles: string[]; edits: WorkspaceEdit[] }> {
+  const { root, relativePath, kind, title } = request;
+  const absolutePath = path.resolve(root, relativePath);
+  const fileUri = pathToFileURL(absolutePath).toString();
+  const content = await fs.readFile(absolutePath, "utf-8");
+  const range = selectionRange(content, request);
+
+  return withLSPDocument(client, fileUri, content, async () => {
+    const actions = await client.getCodeActions(fileUri, range, {
+      diagnostics: [],
+      // typescript-language-server leaves refactors out when asked for
+      // narrower kinds only
+      only: ["refactor"],
+    });
+    const candidates = actions.filter(
+      (action): action is CodeAction =>
+        !isCommand(action) && matchesExtractKind(action, kind),
+    );
+    if (candidates.length === 0) {
+      const offered = actions.map((action) => action.title);
+      throw new Error(
+        `No "${kind}" extraction available for the selection${
+          offered.length > 0 ? `. Offered: ${offered.join("; ")}` : ""
+        }`,
+      );
+    }
+
+    const matching = candidates.filter(
+      (candidate) =>
+        title === undefined ||
+        candidate.title.toLowerCase().includes(title.toLowerCase()),
+    );
+    let action =
+      matching.find((candidate) => !candidate.disabled) ?? matching[0];
+    if (!action) {
+      throw new Error(
+        `No "${kind}" extraction matches "${title}". Offered: ${candidates
+          .map((candidate) => candidate.title)
+          .join("; ")}`,
+      );
+    }
+    if (action.disabled) {
+      throw new Error(
+        `"${action.title}" is not available: ${action.disabled.reason}`,
+      );
+    }
+    // Servers may leave the edit out until the action is resolved
+    if (!action.edit && client.supportsFeature("codeActionResolve")) {
+      action = await client.resolveCodeAction(action);
+    }
+
+    const { changedFiles, edits } = await performCodeAction(
+      client,
+      root,
+      action,
+      recordServerEdits,
+      `lsp_extract ${action.title} in ${relativePath}`,
+    );
+    return { title: action.title, changedFiles, edits };
+  });
+}
+
+async function handleExtract(
+  request: ExtractRequest,
+  client: LSPClient,
+  recordServerEdits: ServerEditRecorder,
+): Promise<string> {
+  const { root, relativePath, newName } = request;
+  const absolutePath = path.resolve(root, relativePath);
+  const before = await fs.readFile(absolutePath, "utf-8");
+
+  const { title, changedFiles, edits } = await runExtraction(
+    request,
+    client,
+    recordServerEdits,
+  );
+  const output = [`Applied "${title}"`];
+  const files = changedFiles.map((file) =>
+    path.relative(root, file).replace(/\\/g, "/"),
+  );
+
+  const placeholder = findPlaceholder(
+    before,
+    insertedText(edits, pathToFileURL(absolutePath).toString()),
+  );
+  if (placeholder && newName && placeholder !== newName) {
+    const after = await fs.readFile(absolutePath, "utf-8");
+    const line = findWordLine(after, placeholder);
+    const renamed = await handleRenameSymbol(
+      { root, relativePath, line, textTarget: placeholder, newName },
+      client,
+    );
+    if (renamed.isErr()) {
+      output.push(
+        `Extracted as ${placeholder}; renaming it to ${newName} failed: ${renamed.error}`,
+      );
+    } else {
+      output.push(`Extracted as ${newName}`);
+      files.push(
+        ...renamed.value.changedFiles.map((file) =>
+          path.relative(root, file.filePath).replace(/\\/g, "/"),
+        ),
+      );
+    }
+  } else if (placeholder) {
+    output.push(`Extracted as ${placeholder}`);
+  } else if (newName) {
+    output.push(
+      `Could not find the name the server generated; rename it to ${newName} with lsp_rename_symbol`,
+    );
+  }
+
+  output.push(
+    "",
+    "Changed files:",
+    ...[...new Set(files)].map((f) => `  ${f}`),
+  );
+  return output.join("\n");
+}
+
+/**
+ * Create the extract refactoring tool with injected LSP client
+ */
+export function createExtractTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  const recordServerEdits = createServerEditRecorder(client);
+
+  return {
+    name: "lsp_extract",
+    description:
+      "Extract code into a new function, constant, variable or type using the server's refactor.extract code actions. Select the code by a range or by the text it starts and ends with, and optionally name the result; the generated placeholder name is then renamed across the project.",
+    schema,
+    execute: async (args) => {
+      return handleExtract(args, client, recordServerEdits);
+    },
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("selectionRange", () => {
+    const content = "const a = 1;\nconst b = a + 2;\n";
+
+    it("should span from the start anchor to the end of the end anchor", () => {
+      expect(
+        selectionRange(content, {
+          root: "/",
+          relativePath: "a.ts",
+          kind: "function",
+          startText: "const a",
+          endText: "2;",
+        }),
+      ).toEqual({
+        start: { line: 0, character: 0 },
+        end: { line: 1, character: 16 },
+      });
+    });
+
+    it("should select exactly the start anchor without an end anchor", () => {
+      expect(
+        selectionRange(content, {
+          root: "/",
+          relativePath: "a.ts",
+          kind: "constant",
+          startText: "a + 2",
+        }),
+      ).toEqual({
+        start: { line: 1, character: 10 },
+        end: { line: 1, character: 15 },
+      });
+    });
+  });
+
+  describe("insertedText", () => {
+    it("should collect the new text of the document's edits only", () => {
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      };
+      expect(
+        insertedText(
+          [
+            {
+              changes: {
+                "file:///a.ts": [{ range, newText: "newFunction()" }],
+                "file:///b.ts": [{ range, newText: "other" }],
+              },
+            },
+            {
+              documentChanges: [
+                {
+                  textDocument: { uri: "file:///a.ts", version: null },
+                  edits: [{ range, newText: "function newFunction() {}" }],
+                },
+              ],
+            },
+          ],
+          "file:///a.ts",
+        ),
+      ).toBe("newFunction()\nfunction newFunction() {}");
+    });
+  });
+
+  describe("findWordLine", () => {
+    it("should skip lines where the name is part of a longer identifier", () => {
+      expect(
+        findWordLine(
+          "const newFunction2 = 1;\nconst b = newFunction();",
+          "newFunction",
+        ),
+      ).toBe(2);
+    });
+  });
+
+  describe("findPlaceholder", () => {
+    it("should prefer the new identifier used most", () => {
+      expect(
+        findPlaceholder(
+          "const b = a + 2;",
+          "const b = newFunction();\nfunction newFunction(): number {\n  return a + 2;\n}",
+        ),
+      ).toBe("newFunction");
+    });
+
+    it("should return undefined when no identifier is new", () => {
+      expect(findPlaceholder("a + b", "b + a")).toBeUndefined();
+    });
+  });
+}
@@ -0,0 +1,72 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { debug } from "@internal/lsp-client";
+import { markFileModified } from "@internal/code-indexer";
+import { pathToFileURL } from "url";
+import { FileChangeType } from "vscode-languageserver-protocol";
+import type { FileEditPreview } from "../../utils/workspaceEditPreview.ts";
+import {
+  recordEdit,
+  writeAll,
+  type FileContentChange,
+} from "../../features/edits/editJournal.ts";
+import {
+  captureDiagnosticsBaseline,
+  reportDiagnosticsDelta,
+} from "../../features/edits/diagnosticsDelta.ts";
+
+/**
+ * Queue written files for reindexing and tell the language server they
+ * changed on disk
+ */
+export async function notifyFileEdits(
+  root: string,
+  label: string,
+  changes: FileContentChange[],
+  client: LSPClient | undefined,
+): Promise<void> {
+  for (const change of changes) {
+    markFileModified(root, change.filePath);
+  }
+  if (!client) return;
+  try {
+    await client.notifyFileChanges(
+      changes.map((change) => ({
+        uri: pathToFileURL(change.filePath).toString(),
+        type:
+          change.before === null
+            ? FileChangeType.Created
+            : change.after === null
+              ? FileChangeType.Deleted
+              : FileChangeType.Changed,
+      })),
+    );
+  } catch (error) {
+    // The server rereads the files when it comes back
+    debug(`[${label}] Failed to notify the server: ${error}`);
+  }
+}
+
+/**
+ * Write edited file contents, journal them for undo, queue them for
+ * reindexing and tell the language server they changed on disk. With
+ * reportDiagnostics, returns the diagnostics the edit introduced or resolved.
+ */
+export async function writeFileEdits(
+  root: string,
+  label: string,
+  previews: FileEditPreview[],
+  client: LSPClient,
+  reportDiagnostics = false,
+): Promise<string | undefined> {
+  const baseline = reportDiagnostics
+    ? await captureDiagnosticsBaseline(
+        client,
+        root,
+        previews.map((preview) => preview.filePath),
+      )
+    : undefined;
+  await writeAll(previews);
+  await recordEdit(root, label, previews);
+  await notifyFileEdits(root, label, previews, client);
+  return baseline && reportDiagnosticsDelta(client, baseline);
+}
@@ -0,0 +1,340 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { fileURLToPath, pathToFileURL } from "url";
+import type {
+  CodeAction,
+  McpToolDef,
+  TextEdit,
+  WorkspaceEdit,
+} from "@internal/types";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  type FileEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { getProjectFiles } from "./allDiagnostics.ts";
+import { isCommand } from "./codeActions.ts";
+import { withLSPDocument } from "./common.ts";
+import { writeFileEdits } from "./fileEdits.ts";
+
+const schema = z.object({
+  root: z.string().describe("Root directory for the project"),
+  pattern: z
+    .string()
+    .describe("Glob pattern for files to fix (e.g., 'src/**/*.ts')"),
+  exclude: z
+    .string()
+    .optional()
+    .describe("Glob pattern for files to exclude (e.g., '**/*.test.ts')"),
+  kinds: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      "Code action kinds to run on each file, in order (e.g., 'source.organizeImports', 'source.fixAll', 'source.removeUnused'). A kind also matches its sub kinds such as 'source.fixAll.ts'.",
+    ),
+  useGitignore: z
+    .boolean()
+    .optional()
+    .describe("Whether to respect .gitignore files (default: true)"),
+  dryRun: z
+    .boolean()
+    .describe(
+      "Return a unified diff of all fixes without writing any file (default: false)",
+    )
+    .optional(),
+});
+
+type FixAllRequest = z.infer<typeof schema>;
+
+interface FileFixes {
+  relativePath: string;
+  preview: FileEditPreview;
+  /** Titles of the applied actions */
+  applied: string[];
+  /** Actions that could not be applied in one pass */
+  skipped: string[];
+}
+
+function matchesKind(actionKind: string | undefined, kind: string): boolean {
+  return actionKind === kind || !!actionKind?.startsWith(`${kind}.`);
+}
+
+/**
+ * Kinds the server does not advertise. Servers that list no kinds may
+ * still offer any of them.
+ */
+function unsupportedKinds(client: LSPClient, kinds: string[]): string[] {
+  const provider = client.getServerCapabilities()?.codeActionProvider;
+  if (typeof provider !== "object" || !provider.codeActionKinds) return [];
+  const offered = provider.codeActionKinds;
+  return kinds.filter(
+    (kind) =>
+      !offered.some(
+        (offeredKind) =>
+          matchesKind(offeredKind, kind) || matchesKind(kind, offeredKind),
+      ),
+  );
+}
+
+/**
+ * Text edits a WorkspaceEdit makes to one document, or undefined if it
+ * touches anything else
+ */
+function editsForDocument(
+  edit: WorkspaceEdit,
+  uri: string,
+): TextEdit[] | undefined {
+  const edits: TextEdit[] = [];
+  for (const [changedUri, changes] of Object.entries(edit.changes ?? {})) {
+    if (changedUri !== uri) return undefined;
+    edits.push(...changes);
+  }
+  for (const change of edit.documentChanges ?? []) {
+    if (!("textDocument" in change) || change.textDocument.uri !== uri) {
+      return undefined;
+    }
+    edits.push(...change.edits);
+  }
+  return edits;
+}
+
+async function fixFile(
+  client: LSPClient,
+  root: string,
+  filePath: string,
+  kinds: string[],
+): Promise<FileFixes> {
+  const absolutePath = path.resolve(root, filePath);
+  const fileUri = pathToFileURL(absolutePath).toString();
+  const original = await fs.readFile(absolutePath, "utf-8");
+  const fixes: FileFixes = {
+    relativePath: filePath.replace(/\\/g, "/"),
+    preview: { filePath: absolutePath, before: original, after: original },
+    applied: [],
+    skipped: [],
+  };
+
+  await withLSPDocument(client, fileUri, original, async () => {
+    let content = original;
+    let version = 1;
+    for (const kind of kinds) {
+      const lines = content.split("\n");
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: lines.length - 1, character: lines.at(-1)!.length },
+      };
+      const actions = await client.getCodeActions(fileUri, range, {
+        diagnostics: client.getDiagnostics(fileUri),
+        only: [kind],
+      });
+      let action = actions.find(
+        (candidate): candidate is CodeAction =>
+          !isCommand(candidate) &&
+          matchesKind(candidate.kind, kind) &&
+          !candidate.disabled,
+      );
+      if (!action) continue;
+      // Servers may leave the edit out until the action is resolved
+      if (!action.edit && client.supportsFeature("codeActionResolve")) {
+        action = await client.resolveCodeAction(action);
+      }
+
+      const edits = action.edit
+        ? editsForDocument(action.edit, fileUri)
+        : undefined;
+      if (!edits || action.command) {
+        fixes.skipped.push(
+          `"${action.title}" changes other files or runs a command`,
+        );
+        continue;
+      }
+      const updated = applyTextEdits(content, edits);
+      if (updated === content) continue;
+      content = updated;
+      // Later kinds must see the fixes made so far
+      client.updateDocument(fileUri, content, ++version);
+      fixes.applied.push(action.title);
+    }
+    fixes.preview.after = content;
+  });
+  return fixes;
+}
+
+/**
+ * Fix the files one by one. A file that cannot be read or fixed is listed
+ * as failed without stopping the others.
+ */
+async function fixFiles(
+  client: LSPClient,
+  root: string,
+  files: string[],
+  kinds: string[],
+): Promise<{ fixes: FileFixes[]; failed: { file: string; error: string }[] }> {
+  const fixes: FileFixes[] = [];
+  const failed: { file: string; error: string }[] = [];
+  for (const file of files) {
+    try {
+      fixes.push(await fixFile(client, root, file, kinds));
+    } catch (error) {
+      failed.push({
+        file: file.replace(/\\/g, "/"),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { fixes, failed };
+}
+
+function describeFixes(fixes: FileFixes[]): string {
+  return fixes
+    .flatMap((file) => [
+      ...(file.applied.length > 0
+        ? [`  ${file.relativePath}: ${file.applied.join(", ")}`]
+        : []),
+      ...file.skipped.map(
+        (reason) => `  ${file.relativePath}: skipped ${reason}`,
+      ),
+    ])
+    .join("\n");
+}
+
+async function handleFixAll(
+  { root, pattern, exclude, kinds, useGitignore, dryRun }: FixAllRequest,
+  client: LSPClient,
+): Promise<string> {
+  const missing = unsupportedKinds(client, kinds);
+  const supported = kinds.filter((kind) => !missing.includes(kind));
+  const notes =
+    missing.length > 0
+      ? `\n\nThe server does not offer: ${missing.join(", ")}`
+      : "";
+  if (supported.length === 0) {
+    return `No fixes were run.${notes}`;
+  }
+
+  const files = (
+    await getProjectFiles(root, pattern, exclude, useGitignore ?? true)
+  ).sort();
+  const { fixes, failed } = await fixFiles(client, root, files, supported);
+
+  const changed = fixes.filter(
+    (file) => file.preview.before !== file.preview.after,
+  );
+  const previews = changed.map((file) => file.preview);
+  const details = describeFixes(fixes);
+  const failures =
+    failed.length > 0
+      ? `\n\nCould not fix ${failed.length} file(s):\n${failed
+          .map(({ file, error }) => `  ${file}: ${error}`)
+          .join("\n")}`
+      : "";
+  const summary = `${changed.length} of ${files.length} file(s)${
+    details ? `:\n${details}` : ""
+  }${failures}${notes}`;
+
+  if (dryRun) {
+    const diff = formatEditPreview(previews, root);
+    return `Dry run: ${supported.join(", ")} would change ${summary}${
+      diff ? `\n\n${diff}` : ""
+    }`;
+  }
+
+  await writeFileEdits(
+    root,
+    `lsp_fix_all ${supported.join(", ")} in ${pattern}`,
+    previews,
+    client,
+  );
+  return `Ran ${supported.join(", ")} and changed ${summary}`;
+}
+
+/**
+ * Create the project-wide fix tool with injected LSP client
+ */
+export function createFixAllTool(client: LSPClient): McpToolDef<typeof schema> {
+  return {
+    name: "lsp_fix_all",
+    description:
+      "Run source code actions such as organize imports, fix all or remove unused on every file matching a glob, respecting .gitignore. The fixes of all files are written together and can be undone as one edit. Reports the actions applied per file and the files that could not be fixed; use dryRun to get a unified diff instead.",
+    schema,
+    execute: async (args) => {
+      return handleFixAll(args, client);
+    },
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("fixFiles", () => {
+    it("should list the files that fail and fix the others", async () => {
+      const client = {
+        openDocument: () => {},
+        closeDocument: () => {},
+        waitForReady: async () => {},
+        getDiagnostics: () => [],
+        getCodeActions: async (uri: string) => {
+          if (uri.endsWith("codeActions.ts")) {
+            throw new Error("Request timed out");
+          }
+          return [];
+        },
+      } as unknown as LSPClient;
+
+      const { fixes, failed } = await fixFiles(
+        client,
+        path.dirname(fileURLToPath(import.meta.url)),
+        ["codeActions.ts", "fixAll.ts", "missing.ts"],
+        ["source.fixAll"],
+      );
+
+      expect(fixes.map((file) => file.relativePath)).toEqual(["fixAll.ts"]);
+      expect(failed).toEqual([
+        { file: "codeActions.ts", error: "Request timed out" },
+        { file: "missing.ts", error: expect.stringContaining("ENOENT") },
+      ]);
+    });
+  });
+
+  describe("editsForDocument", () => {
+    const range = {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 1 },
+    };
+    const edit = { range, newText: "x" };
+
+    it("should collect the edits of the document", () => {
+      expect(
+        editsForDocument(
+          {
+            changes: { "file:///a.ts": [edit] },
+            documentChanges: [
+              {
+                textDocument: { uri: "file:///a.ts", version: null },
+                edits: [edit],
+              },
+            ],
+          },
+          "file:///a.ts",
+        ),
+      ).toEqual([edit, edit]);
+    });
+
+    it("should reject edits reaching other files", () => {
+      expect(
+        editsForDocument(
+          { changes: { "file:///a.ts": [edit], "file:///b.ts": [edit] } },
+          "file:///a.ts",
+        ),
+      ).toBeUndefined();
+      expect(
+        editsForDocument(
+          { documentChanges: [{ kind: "delete", uri: "file:///a.ts" }] },
+          "file:///a.ts",
+        ),
+      ).toBeUndefined();
+    });
+  });
+}
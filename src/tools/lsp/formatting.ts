@@ -6,6 +6,16 @@ import { pathToFileURL } from "url";
 import { FormattingOptions, TextEdit } from "@internal/types";
 import type { McpToolDef } from "@internal/types";
 import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { recordEdit } from "../../features/edits/editJournal.ts";
+import {
+  formatRanges,
+  inferFormattingOptions,
+} from "../../features/edits/formatAfterEdit.ts";
+import { writeFileEdits } from "./fileEdits.ts";
 
 const schemaShape = {
   root: z.string().describe("Root directory for resolving relative paths"),
@@ -28,10 +38,40 @@ const schemaShape = {
     .boolean()
     .default(false)
     .describe("Apply formatting changes to the file"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      "Return a unified diff of the formatted file without writing it (overrides applyChanges)",
+    ),
 };
 
 const schema = z.object(schemaShape);
 
+const rangeSchema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z.string().describe("File path to format (relative to root)"),
+  startLine: z.number().int().describe("First line to format (1-based)"),
+  endLine: z
+    .number()
+    .int()
+    .describe("Last line to format (1-based, inclusive)"),
+  tabSize: z
+    .number()
+    .optional()
+    .describe(
+      "Number of spaces for indentation (default: inferred from the file)",
+    ),
+  insertSpaces: z
+    .boolean()
+    .optional()
+    .describe("Use spaces instead of tabs (default: inferred from the file)"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the change without writing the file"),
+});
+
 function formatTextEdit(edit: TextEdit, content: string): string {
   const lines = content.split("\n");
   const startLine = edit.range.start.line;
@@ -90,6 +130,7 @@ async function handleFormatDocument(
     insertFinalNewline,
     trimFinalNewlines,
     applyChanges,
+    dryRun,
   }: z.infer<typeof schema>,
   client: LSPClient,
 ): Promise<string> {
@@ -134,6 +175,20 @@ async function handleFormatDocument(
       return `No formatting changes needed for ${relativePath}`;
     }
 
+    if (dryRun) {
+      const previews = [
+        {
+          filePath: absolutePath,
+          before: content,
+          after: applyTextEdits(content, edits),
+        },
+      ].filter((preview) => preview.before !== preview.after);
+      return `Dry run: formatting ${relativePath} would make ${edits.length} change(s)\n\n${summarizeEditPreview(
+        previews,
+        root,
+      )}\n\n${formatEditPreview(previews, root)}`;
+    }
+
     // Sort edits by position (reverse order for applying)
     const sortedEdits = edits.sort((a: any, b: any) => {
       const lineDiff = b.range.start.line - a.range.start.line;
@@ -155,6 +210,9 @@ async function handleFormatDocument(
     if (applyChanges) {
       const formattedContent = applyTextEdits(content, edits);
       await fs.writeFile(absolutePath, formattedContent, "utf-8");
+      await recordEdit(root, `lsp_format_document ${relativePath}`, [
+        { filePath: absolutePath, before: content, after: formattedContent },
+      ]);
       result += "\n\n✓ Changes applied to file";
     } else {
       result += "\n\n(Use applyChanges: true to apply these changes)";
@@ -167,6 +225,65 @@ async function handleFormatDocument(
   }
 }
 
+async function handleFormatRange(
+  {
+    root,
+    relativePath,
+    startLine,
+    endLine,
+    tabSize,
+    insertSpaces,
+    dryRun,
+  }: z.infer<typeof rangeSchema>,
+  client: LSPClient,
+): Promise<string> {
+  const absolutePath = path.resolve(root, relativePath);
+  const content = await fs.readFile(absolutePath, "utf-8");
+  const lines = content.split("\n");
+  if (startLine < 1 || endLine > lines.length || startLine > endLine) {
+    throw new Error(
+      `Lines ${startLine}-${endLine} are outside the file (1-${lines.length})`,
+    );
+  }
+
+  const inferred = inferFormattingOptions(content);
+  const formatted = await formatRanges(
+    client,
+    absolutePath,
+    content,
+    [
+      {
+        start: { line: startLine - 1, character: 0 },
+        end: {
+          line: endLine - 1,
+          character: lines[endLine - 1].replace(/\r$/, "").length,
+        },
+      },
+    ],
+    {
+      tabSize: tabSize ?? inferred.tabSize,
+      insertSpaces: insertSpaces ?? inferred.insertSpaces,
+    },
+  );
+
+  const target = `${relativePath}:${startLine}-${endLine}`;
+  if (formatted === content) {
+    return `No formatting changes needed for ${target}`;
+  }
+  const previews = [
+    { filePath: absolutePath, before: content, after: formatted },
+  ];
+  if (dryRun) {
+    return `Dry run: formatting ${target} would change the file\n\n${summarizeEditPreview(
+      previews,
+      root,
+    )}\n\n${formatEditPreview(previews, root)}`;
+  }
+
+  await writeFileEdits(root, `lsp_format_range ${target}`, previews, client);
+  return `Formatted ${target}\n\n${summarizeEditPreview(previews, root)}`;
+}
+
 /**
  * Create format document tool with injected LSP client
  */
@@ -176,10 +293,27 @@ export function createFormatDocumentTool(
   return {
     name: "lsp_format_document",
     description:
-      "Format an entire document using LSP's formatting provider. Applies language-specific formatting rules.",
+      "Format an entire document using LSP's formatting provider. Applies language-specific formatting rules. Use dryRun to get a unified diff of the result.",
     schema,
     execute: async (args) => {
       return handleFormatDocument(args, client);
     },
   };
 }
+
+/**
+ * Create format range tool with injected LSP client
+ */
+export function createFormatRangeTool(
+  client: LSPClient,
+): McpToolDef<typeof rangeSchema> {
+  return {
+    name: "lsp_format_range",
+    description:
+      "Format only the given lines of a document using LSP's range formatting provider, leaving the rest of the file untouched. Indentation follows the file unless given; the server's formatter settings decide the rest. Use dryRun to get a unified diff of the result.",
+    schema: rangeSchema,
+    execute: async (args) => {
+      return handleFormatRange(args, client);
+    },
+  };
+}
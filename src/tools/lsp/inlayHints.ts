@@ -0,0 +1,169 @@
+import type { InlayHint, LSPClient } from "@internal/lsp-client";
+import { resolveLineParameter } from "@internal/lsp-client";
+import { z } from "zod";
+import { err, ok, type Result } from "neverthrow";
+import { createLSPTool } from "./toolFactory.ts";
+import { readFileWithMetadata, withLSPDocument } from "./common.ts";
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe("File path to get inlay hints for (relative to root)"),
+  startLine: z
+    .union([z.number(), z.string()])
+    .describe(
+      "Start line number (1-based) or string to match. Defaults to the first line",
+    )
+    .optional(),
+  endLine: z
+    .union([z.number(), z.string()])
+    .describe(
+      "End line number (1-based) or string to match. Defaults to the last line",
+    )
+    .optional(),
+});
+
+type GetInlayHintsRequest = z.infer<typeof schema>;
+
+interface GetInlayHintsSuccess {
+  message: string;
+  startLine: number;
+  endLine: number;
+  hints: InlayHint[];
+  /** Source lines of the range with the hints inlined */
+  annotatedLines: string[];
+}
+
+function hintLabel(hint: InlayHint): string {
+  const label =
+    typeof hint.label === "string"
+      ? hint.label
+      : hint.label.map((part) => part.value).join("");
+  return `${hint.paddingLeft ? " " : ""}${label}${hint.paddingRight ? " " : ""}`;
+}
+
+/**
+ * Insert the hints of a single line into its text
+ */
+function inlineHints(text: string, hints: InlayHint[]): string {
+  let result = text;
+  // Insert from the end so earlier positions stay valid
+  for (const hint of [...hints].reverse()) {
+    const character = Math.min(hint.position.character, result.length);
+    result =
+      result.slice(0, character) + hintLabel(hint) + result.slice(character);
+  }
+  return result;
+}
+
+/**
+ * Gets inlay hints for a line range using LSP
+ */
+async function getInlayHints(
+  request: GetInlayHintsRequest,
+  client: LSPClient,
+): Promise<Result<GetInlayHintsSuccess, string>> {
+  try {
+    if (!client) {
+      return err("LSP client not available");
+    }
+
+    const { fileContent, fileUri } = readFileWithMetadata(
+      request.root,
+      request.relativePath,
+    );
+    const lines = fileContent.split("\n");
+
+    const startIndex =
+      request.startLine !== undefined
+        ? resolveLineParameter(lines, request.startLine)
+        : 0;
+    const endIndex =
+      request.endLine !== undefined
+        ? resolveLineParameter(lines, request.endLine)
+        : lines.length - 1;
+
+    if (endIndex < startIndex) {
+      return err(
+        `End line ${endIndex + 1} is before start line ${startIndex + 1}`,
+      );
+    }
+
+    return await withLSPDocument(client, fileUri, fileContent, async () => {
+      const hints = await client.getInlayHints(fileUri, {
+        start: { line: startIndex, character: 0 },
+        end: { line: endIndex, character: lines[endIndex]?.length ?? 0 },
+      });
+
+      const annotatedLines: string[] = [];
+      for (let i = startIndex; i <= endIndex; i++) {
+        const lineHints = hints.filter((hint) => hint.position.line === i);
+        annotatedLines.push(`${i + 1}: ${inlineHints(lines[i], lineHints)}`);
+      }
+
+      const location = `${request.relativePath}:${startIndex + 1}-${endIndex + 1}`;
+      return ok({
+        message:
+          hints.length > 0
+            ? `Found ${hints.length} inlay hint${hints.length === 1 ? "" : "s"} in ${location}`
+            : `No inlay hints in ${location}`,
+        startLine: startIndex + 1,
+        endLine: endIndex + 1,
+        hints,
+        annotatedLines,
+      });
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Create inlay hints tool with injected LSP client
+ */
+export function createInlayHintsTool(client: LSPClient) {
+  return createLSPTool({
+    name: "lsp_get_inlay_hints",
+    description:
+      "Get inlay hints (inferred variable and return types, parameter names) for a file or line range using LSP. Returns the source with the hints inlined.",
+    schema,
+    language: "lsp",
+    handler: (request) => getInlayHints(request, client),
+    formatSuccess: (result) =>
+      result.hints.length > 0
+        ? [result.message, "", ...result.annotatedLines].join("\n")
+        : result.message,
+  });
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("inlineHints", () => {
+    it("should insert hints with padding at their positions", () => {
+      const text = "const total = add(1, 2);";
+      const hints: InlayHint[] = [
+        { position: { line: 0, character: 11 }, label: ": number" },
+        {
+          position: { line: 0, character: 18 },
+          label: "a:",
+          paddingRight: true,
+        },
+        {
+          position: { line: 0, character: 21 },
+          label: [{ value: "b" }, { value: ":" }],
+          paddingRight: true,
+        },
+      ];
+
+      expect(inlineHints(text, hints)).toBe(
+        "const total: number = add(a: 1, b: 2);",
+      );
+    });
+
+    it("should leave lines without hints untouched", () => {
+      expect(inlineHints("return x;", [])).toBe("return x;");
+    });
+  });
+}
@@ -2,6 +2,10 @@ import type { LSPClient } from "@internal/lsp-client";
 import { z } from "zod";
 import { err, ok, type Result } from "neverthrow";
 import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  previewWorkspaceEdit,
+} from "../../utils/workspaceEditPreview.ts";
 // Helper functions
 function parseLineNumber(content: string, line: number | string): number {
   if (typeof line === "number") {
@@ -49,6 +53,14 @@ import { readdirSync, readFileSync, statSync, writeFileSync } from "fs";
 import path from "path";
 import { Position, TextEdit, WorkspaceEdit } from "@internal/types";
 import { debug } from "@internal/lsp-client";
+import {
+  recordEdit,
+  type FileContentChange,
+} from "../../features/edits/editJournal.ts";
+import {
+  captureDiagnosticsBaseline,
+  reportDiagnosticsDelta,
+} from "../../features/edits/diagnosticsDelta.ts";
 
 const schema = z.object({
   root: z.string().describe("Root directory for resolving relative paths"),
@@ -61,12 +73,26 @@ const schema = z.object({
     .optional(),
   textTarget: z.string().describe("Symbol to rename"),
   newName: z.string().describe("New name for the symbol"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the rename without writing any file"),
+  reportDiagnostics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Report the errors and warnings the rename introduces or resolves in the changed files and the files depending on them (default: false)",
+    ),
 });
 
-type RenameSymbolRequest = z.infer<typeof schema>;
+export type RenameSymbolRequest = z.infer<typeof schema>;
 
-interface RenameSymbolSuccess {
+export interface RenameSymbolSuccess {
   message: string;
+  /** Unified diff of the changes, set for dry runs */
+  diff?: string;
+  /** Diagnostics the rename introduced or resolved */
+  diagnostics?: string;
   changedFiles: {
     filePath: string;
     changes: {
@@ -227,8 +253,27 @@ async function performRenameAtPosition(
       JSON.stringify(workspaceEdit, null, 2),
     );
 
+    const baseline =
+      request.reportDiagnostics && !request.dryRun
+        ? await captureDiagnosticsBaseline(
+            client,
+            request.root,
+            (await previewWorkspaceEdit(workspaceEdit)).map(
+              (preview) => preview.filePath,
+            ),
+          )
+        : undefined;
+
     // Apply changes and format result
-    const result = await applyWorkspaceEdit(request.root, workspaceEdit);
+    const result = await applyWorkspaceEdit(
+      request.root,
+      workspaceEdit,
+      request.dryRun,
+      `lsp_rename_symbol ${request.textTarget} -> ${request.newName}`,
+    );
+    if (baseline) {
+      result.diagnostics = await reportDiagnosticsDelta(client, baseline);
+    }
 
     // Close all opened documents
     client.closeDocument(fileUri);
@@ -249,13 +294,17 @@ async function performRenameAtPosition(
 }
 
 /**
- * Apply workspace edit and return formatted result
+ * Apply workspace edit and return formatted result. Dry runs leave the files
+ * untouched and describe the change as a unified diff instead.
  */
 async function applyWorkspaceEdit(
-  _root: string,
+  root: string,
   workspaceEdit: WorkspaceEdit,
+  dryRun = false,
+  label = "lsp_rename_symbol",
 ): Promise<RenameSymbolSuccess> {
   const changedFiles: RenameSymbolSuccess["changedFiles"] = [];
+  const journalChanges: FileContentChange[] = [];
   const allFileContents = new Map<string, string[]>();
 
   // Collect all file contents before applying changes
@@ -293,8 +342,12 @@ async function applyWorkspaceEdit(
         changedFiles.push(fileChanges);
 
         // Apply edits to file
-        const newContent = applyTextEdits(lines.join("\n"), edits);
-        writeFileSync(filePath, newContent, "utf-8");
+        if (!dryRun) {
+          const before = lines.join("\n");
+          const newContent = applyTextEdits(before, edits);
+          writeFileSync(filePath, newContent, "utf-8");
+          journalChanges.push({ filePath, before, after: newContent });
+        }
       }
     }
   }
@@ -324,8 +377,12 @@ async function applyWorkspaceEdit(
           }
 
           // Apply edits to file
-          const newContent = applyTextEdits(lines.join("\n"), change.edits);
-          writeFileSync(filePath, newContent, "utf-8");
+          if (!dryRun) {
+            const before = lines.join("\n");
+            const newContent = applyTextEdits(before, change.edits);
+            writeFileSync(filePath, newContent, "utf-8");
+            journalChanges.push({ filePath, before, after: newContent });
+          }
         }
       }
     }
@@ -336,6 +393,17 @@ async function applyWorkspaceEdit(
     0,
   );
 
+  if (dryRun) {
+    const previews = await previewWorkspaceEdit(workspaceEdit);
+    return {
+      message: `Dry run: renaming would change ${changedFiles.length} file(s) with ${totalChanges} change(s)`,
+      changedFiles,
+      diff: formatEditPreview(previews, root),
+    };
+  }
+
+  await recordEdit(root, label, journalChanges);
+
   return {
     message: `Successfully renamed symbol in ${changedFiles.length} file(s) with ${totalChanges} change(s)`,
     changedFiles,
@@ -388,7 +456,7 @@ function processTextEdits(
 /**
  * Handle rename symbol request
  */
-async function handleRenameSymbol(
+export async function handleRenameSymbol(
   request: RenameSymbolRequest,
   client: LSPClient,
 ): Promise<Result<RenameSymbolSuccess, string>> {
@@ -447,7 +515,7 @@ export function createRenameSymbolTool(
   return {
     name: "lsp_rename_symbol",
     description:
-      "Rename a symbol across the codebase using LSP. Requires exact position or text target in the specified line.",
+      "Rename a symbol across the codebase using LSP. Requires exact position or text target in the specified line. Use dryRun to get a unified diff without changing files.",
     schema,
     execute: async (args) => {
       const result = await handleRenameSymbol(args, client);
@@ -456,7 +524,7 @@ export function createRenameSymbolTool(
       }
 
       // Format output
-      const { message, changedFiles } = result.value;
+      const { message, changedFiles, diff, diagnostics } = result.value;
       const output = [message, "", "Changes:"];
 
       for (const file of changedFiles) {
@@ -470,6 +538,13 @@ export function createRenameSymbolTool(
         }
       }
 
+      if (diff) {
+        output.push("", diff);
+      }
+      if (diagnostics) {
+        output.push("", diagnostics);
+      }
+
       return output.join("\n");
     },
   };
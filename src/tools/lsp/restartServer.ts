@@ -0,0 +1,34 @@
+import type { LSPClient } from "@internal/lsp-client";
+import { z } from "zod";
+import type { McpToolDef } from "@internal/types";
+
+const schemaShape = {};
+
+const schema = z.object(schemaShape);
+
+async function handleRestartServer(client: LSPClient): Promise<string> {
+  if (!client) {
+    throw new Error("LSP client not initialized");
+  }
+
+  await client.restart();
+
+  return `Language server restarted (${client.languageId}). Open documents were reopened; retry any request that failed while the server was down.`;
+}
+
+/**
+ * Create restart server tool with injected LSP client
+ */
+export function createRestartServerTool(
+  client: LSPClient,
+): McpToolDef<typeof schema> {
+  return {
+    name: "lsp_restart_server",
+    description:
+      "Restart the language server. Use when LSP requests keep failing or time out, or after the server crashed and automatic restarts were exhausted.",
+    schema,
+    execute: async () => {
+      return handleRestartServer(client);
+    },
+  };
+}
@@ -0,0 +1,317 @@
+import type { LSPClient } from "@internal/lsp-client";
+import type { McpContext, McpToolDef, TextEdit } from "@internal/types";
+import { z } from "zod";
+import type { SerenityEditResult } from "../editor/regexEditTools.ts";
+import { applyTextEdits } from "../../utils/applyTextEdits.ts";
+import {
+  formatEditPreview,
+  summarizeEditPreview,
+} from "../../utils/workspaceEditPreview.ts";
+import { readFileWithMetadata, withLSPDocument } from "./common.ts";
+import { resolveSymbolPath, type ResolvedSymbol } from "./symbolPath.ts";
+import { writeFileEdits } from "./fileEdits.ts";
+import { formatAfterEdit } from "../../features/edits/formatAfterEdit.ts";
+
+const targetSchema = {
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z.string().describe("File containing the symbol"),
+  symbolPath: z
+    .string()
+    .describe(
+      "Name path of the symbol, e.g. 'UserService.save' or 'UserService/save'",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of the change without writing the file"),
+  reportDiagnostics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Report the errors and warnings the edit introduces or resolves in the changed files and the files depending on them (default: false)",
+    ),
+};
+
+const replaceSymbolBodySchema = z.object({
+  ...targetSchema,
+  body: z
+    .string()
+    .describe(
+      "New declaration of the symbol including its signature, written without indentation; lines after the first are indented to the symbol's level",
+    ),
+});
+
+const insertSchema = z.object({
+  ...targetSchema,
+  content: z
+    .string()
+    .describe(
+      "Code to insert, written without indentation; it is indented to the symbol's level. Add blank lines to separate it from the symbol.",
+    ),
+});
+
+type SymbolEditArgs = z.infer<typeof insertSchema>;
+
+// Comment, decorator and attribute lines that belong to the declaration below
+const LEADING_TRIVIA = /^\s*(\/\/|\/\*|\*|#|@|\[<)/;
+
+// Indentation and keywords the new declaration of a symbol repeats
+const DECLARATION_PREFIX =
+  /^\s*(?:(?:export|default|declare|const|let|var|function|class|interface|type|enum|namespace|async|abstract|public|private|protected|static|readonly|override|get|set)\s+)*$/;
+
+function indentationOf(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+/**
+ * Strip the indentation all lines share and indent each non-empty line
+ * with the given prefix
+ */
+function reindent(text: string, indent: string): string[] {
+  const lines = text.replace(/\r?\n$/, "").split(/\r?\n/);
+  const common = Math.min(
+    ...lines
+      .filter((line) => line.trim() !== "")
+      .map((line) => indentationOf(line).length),
+  );
+  return lines.map((line) =>
+    line.trim() === "" ? "" : indent + line.slice(common),
+  );
+}
+
+/**
+ * First line of the declaration, moved above any comments or decorators
+ * directly attached to it so inserted code does not separate them
+ */
+function declarationStartLine(lines: string[], symbol: ResolvedSymbol): number {
+  let line = symbol.range.start.line;
+  while (line > 0 && LEADING_TRIVIA.test(lines[line - 1])) {
+    line--;
+  }
+  return line;
+}
+
+/**
+ * Edit replacing a declaration with a new one. The range of a variable spans
+ * its name to its initializer, without keywords such as export const before
+ * it or the semicolon after it, which the new declaration repeats; code
+ * before the symbol on its line, like another declarator, is kept.
+ */
+function replacementEdit(
+  lines: string[],
+  symbol: ResolvedSymbol,
+  body: string,
+  eol: string,
+): TextEdit {
+  const { start, end } = symbol.range;
+  const indent = indentationOf(lines[start.line]);
+  const startsLine = DECLARATION_PREFIX.test(
+    lines[start.line].slice(0, start.character),
+  );
+  const semicolon =
+    /;\s*$/.test(body) && lines[end.line][end.character] === ";";
+  const [first, ...rest] = reindent(body, indent);
+  return {
+    range: {
+      start: startsLine ? { line: start.line, character: 0 } : start,
+      end: semicolon ? { ...end, character: end.character + 1 } : end,
+    },
+    newText: [startsLine ? first : first.trimStart(), ...rest].join(eol),
+  };
+}
+
+async function handleSymbolEdit(
+  toolName: string,
+  { root, relativePath, symbolPath, dryRun, reportDiagnostics }: SymbolEditArgs,
+  client: LSPClient,
+  context: McpContext | undefined,
+  createEdit: (
+    lines: string[],
+    symbol: ResolvedSymbol,
+    eol: string,
+  ) => TextEdit,
+): Promise<string> {
+  try {
+    const { fileContent, fileUri, absolutePath } = readFileWithMetadata(
+      root,
+      relativePath,
+    );
+    const symbol = await withLSPDocument(client, fileUri, fileContent, () =>
+      resolveSymbolPath(client, fileUri, symbolPath, fileContent),
+    );
+    const eol = fileContent.includes("\r\n") ? "\r\n" : "\n";
+    const lines = fileContent
+      .split("\n")
+      .map((line) => line.replace(/\r$/, ""));
+    const after = await formatAfterEdit(
+      client,
+      context?.config,
+      absolutePath,
+      fileContent,
+      applyTextEdits(fileContent, [createEdit(lines, symbol, eol)]),
+    );
+    const previews = [
+      { filePath: absolutePath, before: fileContent, after },
+    ].filter((preview) => preview.before !== preview.after);
+
+    if (dryRun) {
+      return JSON.stringify({
+        success: true,
+        dryRun: true,
+        filesChanged: previews.length > 0 ? [relativePath] : [],
+        summary: summarizeEditPreview(previews, root),
+        diff: formatEditPreview(previews, root),
+      } as SerenityEditResult);
+    }
+
+    const diagnostics = await writeFileEdits(
+      root,
+      `${toolName} ${symbolPath} in ${relativePath}`,
+      previews,
+      client,
+      reportDiagnostics,
+    );
+    return JSON.stringify({
+      success: true,
+      filesChanged: previews.length > 0 ? [relativePath] : [],
+      diagnostics,
+    } as SerenityEditResult);
+  } catch (error) {
+    return JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    } as SerenityEditResult);
+  }
+}
+
+/**
+ * Create the tool replacing a whole symbol declaration
+ */
+export function createReplaceSymbolBodyTool(
+  client: LSPClient,
+): McpToolDef<typeof replaceSymbolBodySchema> {
+  return {
+    name: "replace_symbol_body",
+    description:
+      "Replace the whole declaration of a symbol, found by its name path (e.g. 'UserService.save'), with a new one. " +
+      "The body includes the signature and is re-indented to the symbol's level, so no line numbers are needed.",
+    schema: replaceSymbolBodySchema,
+    execute: async ({ body, ...args }, context) => {
+      return handleSymbolEdit(
+        "replace_symbol_body",
+        { ...args, content: body },
+        client,
+        context,
+        (lines, symbol, eol) => replacementEdit(lines, symbol, body, eol),
+      );
+    },
+  };
+}
+
+/**
+ * Create the tool inserting code above a symbol declaration
+ */
+export function createInsertBeforeSymbolTool(
+  client: LSPClient,
+): McpToolDef<typeof insertSchema> {
+  return {
+    name: "insert_before_symbol",
+    description:
+      "Insert code on the lines before a symbol, found by its name path (e.g. 'UserService.save'), above its doc comments and decorators. " +
+      "The code is indented to the symbol's level. Useful for adding imports before the first symbol or a method before another.",
+    schema: insertSchema,
+    execute: async (args, context) => {
+      return handleSymbolEdit(
+        "insert_before_symbol",
+        args,
+        client,
+        context,
+        (lines, symbol, eol) => {
+          const line = declarationStartLine(lines, symbol);
+          const indent = indentationOf(lines[symbol.range.start.line]);
+          return {
+            range: {
+              start: { line, character: 0 },
+              end: { line, character: 0 },
+            },
+            newText: `${reindent(args.content, indent).join(eol)}${eol}`,
+          };
+        },
+      );
+    },
+  };
+}
+
+/**
+ * Create the tool inserting code below a symbol declaration
+ */
+export function createInsertAfterSymbolTool(
+  client: LSPClient,
+): McpToolDef<typeof insertSchema> {
+  return {
+    name: "insert_after_symbol",
+    description:
+      "Insert code on the lines after the end of a symbol, found by its name path (e.g. 'UserService.save'). " +
+      "The code is indented to the symbol's level. Useful for adding a method after another or a function at the end of a file.",
+    schema: insertSchema,
+    execute: async (args, context) => {
+      return handleSymbolEdit(
+        "insert_after_symbol",
+        args,
+        client,
+        context,
+        (lines, symbol, eol) => {
+          const end = symbol.range.end.line;
+          const indent = indentationOf(lines[symbol.range.start.line]);
+          const position = { line: end, character: lines[end].length };
+          return {
+            range: { start: position, end: position },
+            newText: `${eol}${reindent(args.content, indent).join(eol)}`,
+          };
+        },
+      );
+    },
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("replacementEdit", () => {
+    const edit = (line: string, name: string, body: string) => {
+      const start = line.indexOf(name);
+      const symbol = {
+        range: {
+          start: { line: 0, character: start },
+          end: { line: 0, character: line.indexOf(";", start) },
+        },
+      } as ResolvedSymbol;
+      return applyTextEdits(line, [
+        replacementEdit([line], symbol, body, "\n"),
+      ]);
+    };
+
+    it("should replace the keywords before a symbol starting its line", () => {
+      expect(edit("  export const a = 1;", "a", "export const a = 2;")).toBe(
+        "  export const a = 2;",
+      );
+    });
+
+    it("should keep the code before a symbol not starting its line", () => {
+      expect(edit("export const a = 1, b = 2;", "b", "b = 3")).toBe(
+        "export const a = 1, b = 3;",
+      );
+    });
+  });
+
+  describe("reindent", () => {
+    it("should move the common indentation to the given prefix", () => {
+      expect(reindent("    a() {\n      b();\n\n    }\n", "  ")).toEqual([
+        "  a() {",
+        "    b();",
+        "",
+        "  }",
+      ]);
+    });
+  });
+}
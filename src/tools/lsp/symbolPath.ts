@@ -0,0 +1,213 @@
+import type { LSPClient } from "@internal/lsp-client";
+import {
+  fixFSharpSymbolPositions,
+  getLanguageIdFromPath,
+} from "@internal/lsp-client";
+import type {
+  DocumentSymbol,
+  Range,
+  SymbolInformation,
+  SymbolKind,
+} from "@internal/types";
+
+/**
+ * A symbol located by its name path
+ */
+export interface ResolvedSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Full extent of the symbol, including its body and leading modifiers */
+  range: Range;
+  /** Range of the symbol's name */
+  selectionRange: Range;
+  children: DocumentSymbol[];
+}
+
+function isDocumentSymbol(
+  symbol: DocumentSymbol | SymbolInformation,
+): symbol is DocumentSymbol {
+  return "range" in symbol && "selectionRange" in symbol;
+}
+
+function collectMatches(
+  symbols: DocumentSymbol[],
+  segments: string[],
+): DocumentSymbol[] {
+  const [name, ...rest] = segments;
+  const matching = symbols.filter((symbol) => symbol.name === name);
+  if (rest.length === 0) return matching;
+  return matching.flatMap((symbol) =>
+    collectMatches(symbol.children ?? [], rest),
+  );
+}
+
+/**
+ * Find the symbol a name path such as "UserService/getUser" or
+ * "UserService.getUser" points at. Dots only separate segments when no
+ * symbol has the dotted name itself. Flat symbol lists only know each
+ * symbol's direct container.
+ */
+export function findSymbolByPath(
+  symbols: DocumentSymbol[] | SymbolInformation[],
+  symbolPath: string,
+): ResolvedSymbol {
+  const split = (separator: string) =>
+    symbolPath.split(separator).filter((segment) => segment !== "");
+  if (split("/").length === 0) {
+    throw new Error("symbolPath must name a symbol");
+  }
+  if (!symbolPath.includes("/") && symbolPath.includes(".")) {
+    const dotted = matchSegments(symbols, [symbolPath]);
+    return expectSingle(
+      dotted.length > 0 ? dotted : matchSegments(symbols, split(".")),
+      symbolPath,
+    );
+  }
+  return expectSingle(matchSegments(symbols, split("/")), symbolPath);
+}
+
+function matchSegments(
+  symbols: DocumentSymbol[] | SymbolInformation[],
+  segments: string[],
+): ResolvedSymbol[] {
+  let matches: ResolvedSymbol[];
+  if (symbols.length === 0 || isDocumentSymbol(symbols[0])) {
+    matches = collectMatches(symbols as DocumentSymbol[], segments).map(
+      (symbol) => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        range: symbol.range,
+        selectionRange: symbol.selectionRange,
+        children: symbol.children ?? [],
+      }),
+    );
+  } else {
+    const name = segments[segments.length - 1];
+    const container = segments[segments.length - 2];
+    matches = (symbols as SymbolInformation[])
+      .filter(
+        (symbol) =>
+          symbol.name === name &&
+          (container === undefined
+            ? !symbol.containerName
+            : symbol.containerName === container),
+      )
+      .map((symbol) => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        range: symbol.location.range,
+        selectionRange: symbol.location.range,
+        children: [],
+      }));
+  }
+  return matches;
+}
+
+function expectSingle(
+  matches: ResolvedSymbol[],
+  symbolPath: string,
+): ResolvedSymbol {
+  if (matches.length === 0) {
+    throw new Error(`Symbol "${symbolPath}" not found`);
+  }
+  if (matches.length > 1) {
+    const lines = matches.map((match) => match.range.start.line + 1);
+    throw new Error(
+      `Symbol path "${symbolPath}" is ambiguous: it matches symbols on lines ${lines.join(", ")}`,
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Resolve a name path in a document that is open in the language server
+ */
+export async function resolveSymbolPath(
+  client: LSPClient,
+  fileUri: string,
+  symbolPath: string,
+  content: string,
+): Promise<ResolvedSymbol> {
+  let symbols = await client.getDocumentSymbols(fileUri);
+  // fsautocomplete may start symbols at their doc comments
+  if (
+    getLanguageIdFromPath(fileUri) === "fsharp" &&
+    symbols.length > 0 &&
+    isDocumentSymbol(symbols[0])
+  ) {
+    symbols = fixFSharpSymbolPositions(symbols as DocumentSymbol[], content);
+  }
+  return findSymbolByPath(symbols, symbolPath);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const range = (start: number, end: number): Range => ({
+    start: { line: start, character: 0 },
+    end: { line: end, character: 1 },
+  });
+  const symbol = (
+    name: string,
+    start: number,
+    end: number,
+    children: DocumentSymbol[] = [],
+  ): DocumentSymbol => ({
+    name,
+    kind: 5,
+    range: range(start, end),
+    selectionRange: range(start, start),
+    children,
+  });
+
+  describe("findSymbolByPath", () => {
+    const symbols = [
+      symbol("UserService", 0, 10, [
+        symbol("getUser", 1, 3),
+        symbol("save", 4, 6),
+      ]),
+      symbol("getUser", 12, 14),
+    ];
+
+    it("should follow the path through nested symbols", () => {
+      expect(findSymbolByPath(symbols, "UserService/getUser").range).toEqual(
+        range(1, 3),
+      );
+      expect(findSymbolByPath(symbols, "getUser").range).toEqual(range(12, 14));
+    });
+
+    it("should accept dots as separators unless a symbol has the dotted name", () => {
+      expect(findSymbolByPath(symbols, "UserService.save").range).toEqual(
+        range(4, 6),
+      );
+      expect(
+        findSymbolByPath([symbol("module.exports", 0, 2)], "module.exports")
+          .range,
+      ).toEqual(range(0, 2));
+    });
+
+    it("should reject missing and ambiguous paths", () => {
+      expect(() => findSymbolByPath(symbols, "UserService/delete")).toThrow(
+        'Symbol "UserService/delete" not found',
+      );
+      expect(() =>
+        findSymbolByPath([symbol("load", 0, 1), symbol("load", 2, 3)], "load"),
+      ).toThrow("matches symbols on lines 1, 3");
+    });
+
+    it("should match flat symbol lists by their container", () => {
+      const flat: SymbolInformation[] = [
+        {
+          name: "save",
+          kind: 6,
+          location: { uri: "file:///a.ts", range: range(4, 6) },
+          containerName: "UserService",
+        },
+      ];
+      expect(findSymbolByPath(flat, "UserService/save").range).toEqual(
+        range(4, 6),
+      );
+      expect(() => findSymbolByPath(flat, "save")).toThrow("not found");
+    });
+  });
+}
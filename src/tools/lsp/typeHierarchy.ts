@@ -0,0 +1,254 @@
+import type { LSPClient, TypeHierarchyItem } from "@internal/lsp-client";
+import { z } from "zod";
+import { err, ok, type Result } from "neverthrow";
+import path from "path";
+import { fileURLToPath } from "url";
+import { SymbolKindNames } from "@internal/types";
+import { createLSPTool } from "./toolFactory.ts";
+import { resolveFileAndSymbol, withLSPDocument } from "./common.ts";
+
+const MAX_DEPTH = 5;
+const MAX_NODES = 200;
+
+const schema = z.object({
+  root: z.string().describe("Root directory for resolving relative paths"),
+  relativePath: z
+    .string()
+    .describe("File path containing the type (relative to root)"),
+  line: z
+    .union([z.number(), z.string()])
+    .describe("Line number (1-based) or string to match in the line")
+    .optional(),
+  textTarget: z.string().describe("Name of the class or interface to inspect"),
+  direction: z
+    .enum(["supertypes", "subtypes", "both"])
+    .default("both")
+    .describe(
+      "supertypes: what this type extends/implements, subtypes: what extends/implements this type, both: both trees",
+    ),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_DEPTH)
+    .default(3)
+    .describe(`How many levels of the hierarchy to expand (1-${MAX_DEPTH})`),
+});
+
+type GetTypeHierarchyRequest = z.infer<typeof schema>;
+type TypeDirection = "supertypes" | "subtypes";
+
+interface TypeTreeNode {
+  item: TypeHierarchyItem;
+  children: TypeTreeNode[];
+  cyclic: boolean;
+}
+
+interface GetTypeHierarchySuccess {
+  message: string;
+  root: string;
+  roots: TypeHierarchyItem[];
+  supertypes?: TypeTreeNode[][];
+  subtypes?: TypeTreeNode[][];
+  truncated: boolean;
+}
+
+function itemKey(item: TypeHierarchyItem): string {
+  const { line, character } = item.selectionRange.start;
+  return `${item.uri}:${line}:${character}`;
+}
+
+/**
+ * Recursively expand super- or subtypes up to the requested depth
+ */
+async function expandTypes(
+  client: LSPClient,
+  item: TypeHierarchyItem,
+  direction: TypeDirection,
+  depth: number,
+  ancestors: Set<string>,
+  budget: { remaining: number },
+): Promise<TypeTreeNode[]> {
+  if (depth <= 0 || budget.remaining <= 0) {
+    return [];
+  }
+
+  const related =
+    direction === "supertypes"
+      ? await client.getSupertypes(item)
+      : await client.getSubtypes(item);
+
+  const nodes: TypeTreeNode[] = [];
+  for (const relatedItem of related) {
+    if (budget.remaining <= 0) break;
+    budget.remaining--;
+
+    const key = itemKey(relatedItem);
+    const cyclic = ancestors.has(key);
+    const children = cyclic
+      ? []
+      : await expandTypes(
+          client,
+          relatedItem,
+          direction,
+          depth - 1,
+          new Set([...ancestors, key]),
+          budget,
+        );
+
+    nodes.push({ item: relatedItem, children, cyclic });
+  }
+  return nodes;
+}
+
+/**
+ * Gets the type hierarchy for a class or interface using LSP
+ */
+async function getTypeHierarchy(
+  request: GetTypeHierarchyRequest,
+  client: LSPClient,
+): Promise<Result<GetTypeHierarchySuccess, string>> {
+  try {
+    if (!client) {
+      return err("LSP client not available");
+    }
+
+    const { fileUri, fileContent, lines, lineIndex, symbolIndex } =
+      resolveFileAndSymbol({
+        root: request.root,
+        relativePath: request.relativePath,
+        line: request.line,
+        textTarget: request.textTarget,
+      });
+
+    if (!lines[lineIndex]?.startsWith(request.textTarget, symbolIndex)) {
+      return err(
+        `Target "${request.textTarget}" not found in ${request.relativePath}`,
+      );
+    }
+
+    return await withLSPDocument(client, fileUri, fileContent, async () => {
+      const roots = await client.prepareTypeHierarchy(fileUri, {
+        line: lineIndex,
+        character: symbolIndex,
+      });
+
+      if (roots.length === 0) {
+        return ok({
+          message: `No type hierarchy available for "${request.textTarget}" at ${request.relativePath}:${lineIndex + 1}:${symbolIndex + 1}`,
+          root: request.root,
+          roots: [],
+          truncated: false,
+        });
+      }
+
+      const budget = { remaining: MAX_NODES };
+      const expandAll = async (direction: TypeDirection) => {
+        const trees: TypeTreeNode[][] = [];
+        for (const item of roots) {
+          trees.push(
+            await expandTypes(
+              client,
+              item,
+              direction,
+              request.depth,
+              new Set([itemKey(item)]),
+              budget,
+            ),
+          );
+        }
+        return trees;
+      };
+
+      const supertypes =
+        request.direction !== "subtypes"
+          ? await expandAll("supertypes")
+          : undefined;
+      const subtypes =
+        request.direction !== "supertypes"
+          ? await expandAll("subtypes")
+          : undefined;
+
+      return ok({
+        message: `Type hierarchy for "${request.textTarget}" (depth ${request.depth})`,
+        root: request.root,
+        roots,
+        supertypes,
+        subtypes,
+        truncated: budget.remaining <= 0,
+      });
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function formatItem(root: string, item: TypeHierarchyItem): string {
+  let filePath: string;
+  try {
+    filePath = path.relative(root, fileURLToPath(item.uri));
+  } catch {
+    filePath = item.uri;
+  }
+  const kind = SymbolKindNames[item.kind] || "Unknown";
+  const detail = item.detail ? ` - ${item.detail}` : "";
+  const { line, character } = item.selectionRange.start;
+  return `${item.name} [${kind}]${detail} ${filePath}:${line + 1}:${character + 1}`;
+}
+
+function formatTypeTree(
+  root: string,
+  nodes: TypeTreeNode[],
+  indent: string,
+): string[] {
+  const output: string[] = [];
+  for (const node of nodes) {
+    const suffix = node.cyclic ? " (cycle)" : "";
+    output.push(`${indent}- ${formatItem(root, node.item)}${suffix}`);
+    output.push(...formatTypeTree(root, node.children, indent + "  "));
+  }
+  return output;
+}
+
+function formatTypeHierarchy(result: GetTypeHierarchySuccess): string {
+  const { root } = result;
+  const output = [result.message];
+
+  result.roots.forEach((item, index) => {
+    output.push("", formatItem(root, item));
+
+    const sections: [string, TypeTreeNode[][] | undefined][] = [
+      ["Supertypes (extends/implements)", result.supertypes],
+      ["Subtypes (extended/implemented by)", result.subtypes],
+    ];
+    for (const [title, trees] of sections) {
+      if (!trees) continue;
+      const tree = trees[index];
+      output.push(`\n${title}:`);
+      output.push(
+        ...(tree.length > 0 ? formatTypeTree(root, tree, "  ") : ["  (none)"]),
+      );
+    }
+  });
+
+  if (result.truncated) {
+    output.push("", `Output truncated after ${MAX_NODES} types.`);
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Create type hierarchy tool with injected LSP client
+ */
+export function createTypeHierarchyTool(client: LSPClient) {
+  return createLSPTool({
+    name: "lsp_get_type_hierarchy",
+    description:
+      "Get the type hierarchy of a class or interface using LSP. Shows a multi-level tree of supertypes and/or subtypes (implementations) with file locations.",
+    schema,
+    language: "lsp",
+    handler: (request) => getTypeHierarchy(request, client),
+    formatSuccess: formatTypeHierarchy,
+  });
+}
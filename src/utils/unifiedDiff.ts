@@ -0,0 +1,238 @@
+/**
+ * Unified diff generation for previewing edits
+ */
+
+// Above this many line comparisons the changed region is shown as replaced
+// wholesale instead of computing a minimal diff
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+/**
+ * Split text into lines, keeping each line's terminator so that a missing
+ * newline at the end of the file shows up as a change
+ */
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = before.slice(prefix, before.length - suffix);
+  const newMiddle = after.slice(prefix, after.length - suffix);
+  const ops: DiffOp[] = before
+    .slice(0, prefix)
+    .map((line) => ({ type: " ", line }));
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    ops.push(...oldMiddle.map((line) => ({ type: "-" as const, line })));
+    ops.push(...newMiddle.map((line) => ({ type: "+" as const, line })));
+  } else {
+    // Longest common subsequence lengths of the remaining suffixes
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        ops.push({ type: " ", line: oldMiddle[i++] });
+        j++;
+      } else if (
+        i < n &&
+        (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+      ) {
+        // Removals go before additions, as in other diff tools
+        ops.push({ type: "-", line: oldMiddle[i++] });
+      } else {
+        ops.push({ type: "+", line: newMiddle[j++] });
+      }
+    }
+  }
+
+  ops.push(
+    ...before
+      .slice(before.length - suffix)
+      .map((line) => ({ type: " " as const, line })),
+  );
+  return ops;
+}
+
+function formatRange(start: number, count: number): string {
+  // Empty ranges point at the line before them
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+function formatLine(op: DiffOp): string {
+  return op.line.endsWith("\n")
+    ? `${op.type}${op.line.slice(0, -1)}`
+    : `${op.type}${op.line}\n\\ No newline at end of file`;
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ *
+ * @param oldName Header for the original file, e.g. "a/src/index.ts" or "/dev/null"
+ * @param newName Header for the changed file
+ */
+export function createUnifiedDiff(
+  oldName: string,
+  newName: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  if (before === after) return "";
+
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+
+  const output = [`--- ${oldName}`, `+++ ${newName}`];
+  let k = 0;
+  while (k < changed.length) {
+    // Changes separated by fewer than 2 * context lines share a hunk
+    let last = k;
+    while (
+      last + 1 < changed.length &&
+      changed[last + 1] - changed[last] <= 2 * context
+    ) {
+      last++;
+    }
+    const start = Math.max(0, changed[k] - context);
+    const end = Math.min(ops.length, changed[last] + context + 1);
+
+    let oldStart = 0;
+    let newStart = 0;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== "+") oldStart++;
+      if (op.type !== "-") newStart++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunk.map(formatLine),
+    );
+    k = last + 1;
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Lines of the new content that an edit added or replaced, as inclusive
+ * 0-based ranges. Pure deletions leave no lines behind and are left out.
+ */
+export function changedLineRanges(
+  before: string,
+  after: string,
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let line = 0;
+  for (const op of diffLines(splitLines(before), splitLines(after))) {
+    if (op.type === "-") continue;
+    if (op.type === "+") {
+      const last = ranges.at(-1);
+      if (last && last.end === line - 1) last.end = line;
+      else ranges.push({ start: line, end: line });
+    }
+    line++;
+  }
+  return ranges;
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("createUnifiedDiff", () => {
+    it("should return nothing for identical contents", () => {
+      expect(createUnifiedDiff("a/x", "b/x", "same\n", "same\n")).toBe("");
+    });
+
+    it("should show a changed line with context", () => {
+      const before = "1\n2\n3\n4\n5\n6\n7\n8\n";
+      const after = "1\n2\n3\n4\nfive\n6\n7\n8\n";
+
+      expect(createUnifiedDiff("a/x.ts", "b/x.ts", before, after)).toBe(
+        [
+          "--- a/x.ts",
+          "+++ b/x.ts",
+          "@@ -2,7 +2,7 @@",
+          " 2",
+          " 3",
+          " 4",
+          "-5",
+          "+five",
+          " 6",
+          " 7",
+          " 8",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should split distant changes into separate hunks", () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `${i + 1}`);
+      const before = lines.join("\n") + "\n";
+      const after = ["one", ...lines.slice(1, 19), "twenty"].join("\n") + "\n";
+
+      const diff = createUnifiedDiff("a/x", "b/x", before, after);
+      expect(diff.match(/^@@/gm)).toEqual(["@@", "@@"]);
+      expect(diff).toContain("@@ -1,4 +1,4 @@");
+      expect(diff).toContain("@@ -17,4 +17,4 @@");
+    });
+
+    it("should describe created and deleted files", () => {
+      expect(createUnifiedDiff("/dev/null", "b/new.ts", "", "a\nb\n")).toBe(
+        "--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n",
+      );
+      expect(createUnifiedDiff("a/old.ts", "/dev/null", "a\n", "")).toBe(
+        "--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n",
+      );
+    });
+
+    it("should mark a missing newline at the end of the file", () => {
+      expect(createUnifiedDiff("a/x", "b/x", "a\n", "a")).toBe(
+        "--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n",
+      );
+    });
+  });
+
+  describe("changedLineRanges", () => {
+    it("should return the added and replaced lines of the new content", () => {
+      expect(
+        changedLineRanges("1\n2\n3\n4\n5\n6\n", "1\ntwo\n2b\n3\n5\nsix\n"),
+      ).toEqual([
+        { start: 1, end: 2 },
+        { start: 5, end: 5 },
+      ]);
+    });
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Compute the effect of a WorkspaceEdit without touching the filesystem
+ */
+
+import { readFile } from "fs/promises";
+import { relative } from "path";
+import { fileURLToPath } from "url";
+import type { TextEdit, WorkspaceEdit } from "@internal/types";
+import { applyTextEdits } from "./applyTextEdits.ts";
+import { createUnifiedDiff } from "./unifiedDiff.ts";
+
+export interface FileEditPreview {
+  filePath: string;
+  /** Content before the edit, or null if the file does not exist yet */
+  before: string | null;
+  /** Content after the edit, or null if the edit deletes the file */
+  after: string | null;
+}
+
+/**
+ * Apply a WorkspaceEdit in memory and return the resulting file contents.
+ * Files whose content does not change are left out.
+ */
+export async function previewWorkspaceEdit(
+  edit: WorkspaceEdit,
+  readText: (filePath: string) => Promise<string> = (filePath) =>
+    readFile(filePath, "utf-8"),
+): Promise<FileEditPreview[]> {
+  const files = new Map<string, FileEditPreview>();
+  const load = async (uri: string): Promise<FileEditPreview> => {
+    const filePath = fileURLToPath(uri);
+    let file = files.get(filePath);
+    if (!file) {
+      const content = await readText(filePath).catch(() => null);
+      file = { filePath, before: content, after: content };
+      files.set(filePath, file);
+    }
+    return file;
+  };
+  const applyEdits = async (uri: string, edits: TextEdit[]) => {
+    const file = await load(uri);
+    file.after = applyTextEdits(file.after ?? "", edits);
+  };
+
+  for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+    await applyEdits(uri, edits);
+  }
+
+  for (const change of edit.documentChanges ?? []) {
+    if ("textDocument" in change) {
+      await applyEdits(change.textDocument.uri, change.edits);
+    } else if (change.kind === "create") {
+      const file = await load(change.uri);
+      if (file.after === null || change.options?.overwrite) {
+        file.after = "";
+      } else if (!change.options?.ignoreIfExists) {
+        throw new Error(`Cannot create ${file.filePath}: file exists`);
+      }
+    } else if (change.kind === "rename") {
+      const source = await load(change.oldUri);
+      const target = await load(change.newUri);
+      if (target.after !== null && !change.options?.overwrite) {
+        if (change.options?.ignoreIfExists) continue;
+        throw new Error(`Cannot rename to ${target.filePath}: file exists`);
+      }
+      target.after = source.after;
+      source.after = null;
+    } else if (change.kind === "delete") {
+      const file = await load(change.uri);
+      file.after = null;
+    }
+  }
+
+  return [...files.values()].filter((file) => file.before !== file.after);
+}
+
+/**
+ * Render previews as unified diffs with paths relative to root
+ */
+export function formatEditPreview(
+  previews: FileEditPreview[],
+  root: string,
+  context?: number,
+): string {
+  return previews
+    .map((file) => {
+      const name = relative(root, file.filePath).replace(/\\/g, "/");
+      return createUnifiedDiff(
+        file.before === null ? "/dev/null" : `a/${name}`,
+        file.after === null ? "/dev/null" : `b/${name}`,
+        file.before ?? "",
+        file.after ?? "",
+        context,
+      );
+    })
+    .join("");
+}
+
+/**
+ * One line per file with the number of added and removed lines
+ */
+export function summarizeEditPreview(
+  previews: FileEditPreview[],
+  root: string,
+): string {
+  const files = previews.map((file) => {
+    const name = relative(root, file.filePath).replace(/\\/g, "/");
+    // Skip the file headers, which also start with "-" and "+"
+    const diffLines = createUnifiedDiff(
+      "a",
+      "b",
+      file.before ?? "",
+      file.after ?? "",
+    )
+      .split("\n")
+      .slice(2);
+    const added = diffLines.filter((line) => line.startsWith("+")).length;
+    const removed = diffLines.filter((line) => line.startsWith("-")).length;
+    const state =
+      file.before === null ? " (new)" : file.after === null ? " (deleted)" : "";
+    return `  ${name}${state}: +${added} -${removed}`;
+  });
+  return [`${previews.length} file(s) would change:`, ...files].join("\n");
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const files: Record<string, string> = {
+    "/project/a.ts": "const a = 1;\n",
+    "/project/b.ts": "export {};\n",
+  };
+  const readText = async (filePath: string) => {
+    if (!(filePath in files)) throw new Error("ENOENT");
+    return files[filePath];
+  };
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+
+  describe("previewWorkspaceEdit", () => {
+    it("should apply text edits in memory", async () => {
+      const previews = await previewWorkspaceEdit(
+        {
+          changes: {
+            "file:///project/a.ts": [{ range: range(0, 6, 7), newText: "b" }],
+          },
+        },
+        readText,
+      );
+
+      expect(previews).toEqual([
+        {
+          filePath: "/project/a.ts",
+          before: "const a = 1;\n",
+          after: "const b = 1;\n",
+        },
+      ]);
+      expect(files["/project/a.ts"]).toBe("const a = 1;\n");
+    });
+
+    it("should follow resource operations", async () => {
+      const previews = await previewWorkspaceEdit(
+        {
+          documentChanges: [
+            { kind: "create", uri: "file:///project/c.ts" },
+            {
+              textDocument: { uri: "file:///project/c.ts", version: null },
+              edits: [
+                { range: range(0, 0, 0), newText: "export const c = 3;\n" },
+              ],
+            },
+            {
+              kind: "rename",
+              oldUri: "file:///project/b.ts",
+              newUri: "file:///project/d.ts",
+            },
+          ],
+        },
+        readText,
+      );
+
+      expect(previews).toEqual([
+        {
+          filePath: "/project/c.ts",
+          before: null,
+          after: "export const c = 3;\n",
+        },
+        { filePath: "/project/b.ts", before: "export {};\n", after: null },
+        { filePath: "/project/d.ts", before: null, after: "export {};\n" },
+      ]);
+    });
+  });
+
+  describe("formatEditPreview", () => {
+    it("should render relative paths", () => {
+      const diff = formatEditPreview(
+        [{ filePath: "/project/src/new.ts", before: null, after: "x\n" }],
+        "/project",
+      );
+      expect(diff).toBe("--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1 @@\n+x\n");
+    });
+  });
+
+  describe("summarizeEditPreview", () => {
+    it("should count changed lines per file", () => {
+      const summary = summarizeEditPreview(
+        [
+          {
+            filePath: "/project/a.ts",
+            before: "--a\nb\n",
+            after: "++a\nb\nc\n",
+          },
+          { filePath: "/project/old.ts", before: "x\n", after: null },
+        ],
+        "/project",
+      );
+      expect(summary).toBe(
+        "2 file(s) would change:\n  a.ts: +2 -1\n  old.ts (deleted): +0 -1",
+      );
+    });
+  });
+}